@@ -7,6 +7,7 @@ import { ActivityIndicator, Image, Platform, Pressable, Text, TextInput, View }
 import { useAuth } from "@/providers/auth-provider";
 import { useProfile } from "@/hooks/useProfile";
 import { supabase } from "@/lib/supabase";
+import { getDeviceTimeZone } from "@/lib/timezone";
 import { hasSeenWelcome } from "@/lib/welcome-store";
 
 type Step = 1 | 2 | 3 | 4;
@@ -174,6 +175,8 @@ export default function OnboardingScreen() {
         birthday: birthdayISO,
         avatar_url: uploadedPath ?? avatarStoragePath ?? null,
         onboarding_complete: true,
+        // Start the daily cycle on the device's clock; editable later from the profile tab.
+        time_zone: getDeviceTimeZone(),
       });
 
       // Check if user has seen welcome screen
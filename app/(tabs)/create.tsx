@@ -6,7 +6,6 @@ import { useQuery } from "@tanstack/react-query";
 import { CreatePost } from "@/components/posts/create-post";
 import { pendingPostQueryKey, fetchPendingPost } from "@/hooks/useYimFeed";
 import { useAuth } from "@/providers/auth-provider";
-import { getPacificIsoDateForCycleStart } from "@/lib/timezone";
 import { useYimFeed } from "@/hooks/useYimFeed";
 
 export default function CreateScreen() {
@@ -19,8 +18,8 @@ export default function CreateScreen() {
   }>();
 
   const { user } = useAuth();
-  const { addPostOptimistically, refetch } = useYimFeed();
-  const cycleDateKey = getPacificIsoDateForCycleStart(new Date(), 6);
+  // Same (time-zone aware) cycle date the feed uses.
+  const { addPostOptimistically, refetch, cycleDateKey } = useYimFeed();
 
   const pendingPostQ = useQuery({
     queryKey: user?.id && params.edit === "true" ? pendingPostQueryKey(user.id, cycleDateKey) : ["pendingPost", "disabled"],
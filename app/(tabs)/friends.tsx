@@ -1,23 +1,56 @@
+import { useQueryClient } from "@tanstack/react-query";
 import { router } from "expo-router";
 import React, { useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Alert, Pressable, ScrollView, Share, Text, View } from "react-native";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Share, Text, TextInput, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import {
+  cancelFriendRequest,
   checkFriendsResponseStatus,
   createFriendInvitation,
   deleteFriendship,
+  dismissFriendSuggestion,
+  friendRequestsQueryKey,
+  friendsQueryKey,
+  friendSuggestionsQueryKey,
   getMyInvitations,
+  respondToFriendRequest,
+  searchProfiles,
+  sendFriendRequest,
+  useFriendRequests,
   useFriends,
+  useFriendSuggestions,
   type FriendInvitation,
+  type FriendProfile,
+  type FriendSuggestion,
+  type ProfileSearchResult,
 } from "@/hooks/useFriends";
+import { CirclesSection } from "@/components/friends/circles-section";
+import { confirmBlock } from "@/components/moderation/confirm-block";
 import { useDailyPrompt } from "@/hooks/useDailyPrompt";
+import { getFriendErrorMessage } from "@/lib/friend-errors";
 import { useAuth } from "@/providers/auth-provider";
 import * as Linking from "expo-linking";
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+function displayName(profile: { username: string | null; first_name: string | null }) {
+  return profile.first_name ?? profile.username ?? "Friend";
+}
+
+function describeMutualFriends({ mutual_count, mutual_names }: FriendSuggestion) {
+  if (mutual_names.length === 0) return `${mutual_count} mutual ${mutual_count === 1 ? "friend" : "friends"}`;
+  const others = mutual_count - mutual_names.length;
+  if (others <= 0) return `Friends with ${mutual_names.join(" and ")}`;
+  return `Friends with ${mutual_names.join(", ")} and ${others} ${others === 1 ? "other" : "others"}`;
+}
+
 export default function FriendsScreen() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const { friends, isLoading, errorMessage, refetch } = useFriends();
+  const { incoming, outgoing } = useFriendRequests();
+  const { suggestions } = useFriendSuggestions();
   const { prompt } = useDailyPrompt();
 
   const [inviteUrl, setInviteUrl] = useState<string | null>(null);
@@ -27,9 +60,44 @@ export default function FriendsScreen() {
   const [respondedFriendIds, setRespondedFriendIds] = useState<Set<string>>(new Set());
   const [isCheckingResponses, setIsCheckingResponses] = useState(false);
   const [menuOpenFriendId, setMenuOpenFriendId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<ProfileSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [busyProfileId, setBusyProfileId] = useState<string | null>(null);
 
   const canUseFriends = !!user;
 
+  // Username search (debounced; the RPC ignores queries under 2 characters)
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || query.replace(/^@/, "").length < 2) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchProfiles(query)
+        .then((results) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch((error) => {
+          console.warn("[friends] search failed", error);
+          if (!cancelled) setActionError(getFriendErrorMessage(error, "Search failed."));
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, user?.id]);
+
   // Check which friends have responded to today's prompt
   useEffect(() => {
     if (!prompt || !prompt.id || friends.length === 0) {
@@ -131,6 +199,88 @@ export default function FriendsScreen() {
     }
   }
 
+  async function refreshFriendData() {
+    if (!user) return;
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: friendRequestsQueryKey(user.id) }),
+      queryClient.invalidateQueries({ queryKey: friendsQueryKey(user.id) }),
+      queryClient.invalidateQueries({ queryKey: friendSuggestionsQueryKey(user.id) }),
+    ]);
+  }
+
+  /** Run a request action for one profile; keeps search results in step with the new relationship. */
+  async function runRequestAction(
+    profileId: string,
+    action: () => Promise<ProfileSearchResult["relationship"]>,
+    fallback: string
+  ) {
+    if (busyProfileId) return;
+    setBusyProfileId(profileId);
+    setActionError(null);
+    try {
+      const relationship = await action();
+      setSearchResults((results) => results.map((r) => (r.id === profileId ? { ...r, relationship } : r)));
+      await refreshFriendData();
+    } catch (error) {
+      console.error("[friends] request action failed", error);
+      setActionError(getFriendErrorMessage(error, fallback));
+      await refreshFriendData();
+    } finally {
+      setBusyProfileId(null);
+    }
+  }
+
+  function handleSendRequest(profileId: string) {
+    void runRequestAction(
+      profileId,
+      async () => ((await sendFriendRequest(profileId)) === "accepted" ? "friends" : "outgoing"),
+      "Failed to send request."
+    );
+  }
+
+  function handleRespond(requesterId: string, accept: boolean) {
+    void runRequestAction(
+      requesterId,
+      async () => {
+        await respondToFriendRequest(requesterId, accept);
+        return accept ? "friends" : "none";
+      },
+      accept ? "Failed to accept request." : "Failed to decline request."
+    );
+  }
+
+  function handleCancelRequest(recipientId: string) {
+    void runRequestAction(
+      recipientId,
+      async () => {
+        await cancelFriendRequest(recipientId);
+        return "none";
+      },
+      "Failed to cancel request."
+    );
+  }
+
+  async function handleDismissSuggestion(profileId: string) {
+    if (!user) return;
+    setActionError(null);
+    // Optimistic: drop it right away, restore on failure.
+    queryClient.setQueryData<FriendSuggestion[]>(friendSuggestionsQueryKey(user.id), (prev) =>
+      prev?.filter((s) => s.id !== profileId)
+    );
+    try {
+      await dismissFriendSuggestion(profileId);
+    } catch (error) {
+      console.warn("[friends] dismiss suggestion failed", error);
+      setActionError(getFriendErrorMessage(error, "Failed to hide suggestion."));
+      await queryClient.invalidateQueries({ queryKey: friendSuggestionsQueryKey(user.id) });
+    }
+  }
+
+  function handleBlockFriend(friend: FriendProfile) {
+    setMenuOpenFriendId(null);
+    confirmBlock({ userId: friend.id, label: displayName(friend), queryClient });
+  }
+
   function handleShowMenu(friendId: string) {
     setMenuOpenFriendId(friendId);
   }
@@ -204,6 +354,114 @@ export default function FriendsScreen() {
           ) : null}
         </View>
 
+        {/* Search */}
+        <View className="mt-8 gap-3">
+          <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Find friends</Text>
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            editable={canUseFriends}
+            placeholder="Search by username"
+            placeholderTextColor="hsl(0 0% 55%)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="rounded-xl border border-muted bg-card px-4 py-3 font-mono text-sm text-foreground"
+          />
+
+          {isSearching ? (
+            <ActivityIndicator />
+          ) : searchQuery.trim().replace(/^@/, "").length >= 2 && searchResults.length === 0 ? (
+            <Text className="font-mono text-sm text-muted-foreground">No one found.</Text>
+          ) : (
+            searchResults.map((result) => (
+              <ProfileRow key={result.id} profile={result}>
+                {result.relationship === "friends" ? (
+                  <Text className="font-mono text-xs text-muted-foreground">Friends</Text>
+                ) : result.relationship === "outgoing" ? (
+                  <Text className="font-mono text-xs text-muted-foreground">Requested</Text>
+                ) : result.relationship === "incoming" ? (
+                  <RequestButton
+                    label="Accept"
+                    primary
+                    disabled={busyProfileId === result.id}
+                    onPress={() => handleRespond(result.id, true)}
+                  />
+                ) : (
+                  <RequestButton
+                    label="Add"
+                    primary
+                    disabled={busyProfileId === result.id}
+                    onPress={() => handleSendRequest(result.id)}
+                  />
+                )}
+              </ProfileRow>
+            ))
+          )}
+        </View>
+
+        {/* Requests */}
+        {incoming.length > 0 ? (
+          <View className="mt-8 gap-3">
+            <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+              Requests ({incoming.length})
+            </Text>
+            {incoming.map((request) => (
+              <ProfileRow key={request.profile.id} profile={request.profile}>
+                <RequestButton
+                  label="Decline"
+                  disabled={busyProfileId === request.profile.id}
+                  onPress={() => handleRespond(request.profile.id, false)}
+                />
+                <RequestButton
+                  label="Accept"
+                  primary
+                  disabled={busyProfileId === request.profile.id}
+                  onPress={() => handleRespond(request.profile.id, true)}
+                />
+              </ProfileRow>
+            ))}
+          </View>
+        ) : null}
+
+        {outgoing.length > 0 ? (
+          <View className="mt-8 gap-3">
+            <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+              Sent ({outgoing.length})
+            </Text>
+            {outgoing.map((request) => (
+              <ProfileRow key={request.profile.id} profile={request.profile}>
+                <RequestButton
+                  label="Cancel"
+                  disabled={busyProfileId === request.profile.id}
+                  onPress={() => handleCancelRequest(request.profile.id)}
+                />
+              </ProfileRow>
+            ))}
+          </View>
+        ) : null}
+
+        {/* People you may know */}
+        {suggestions.length > 0 ? (
+          <View className="mt-8 gap-3">
+            <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">People you may know</Text>
+            {suggestions.map((suggestion) => (
+              <ProfileRow key={suggestion.id} profile={suggestion} detail={describeMutualFriends(suggestion)}>
+                <RequestButton
+                  label="Hide"
+                  disabled={busyProfileId === suggestion.id}
+                  onPress={() => void handleDismissSuggestion(suggestion.id)}
+                />
+                <RequestButton
+                  label="Add"
+                  primary
+                  disabled={busyProfileId === suggestion.id}
+                  onPress={() => handleSendRequest(suggestion.id)}
+                />
+              </ProfileRow>
+            ))}
+          </View>
+        ) : null}
+
         {/* Friend list */}
         <View className="mt-8 gap-3">
           <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Your friends ({friends.length})</Text>
@@ -233,6 +491,7 @@ export default function FriendsScreen() {
                       menuOpen={menuOpenFriendId === f.id}
                       onCloseMenu={handleCloseMenu}
                       onDelete={() => void handleDeleteFriend(f.id)}
+                      onBlock={() => handleBlockFriend(f)}
                     />
                   ))}
                 </View>
@@ -255,6 +514,7 @@ export default function FriendsScreen() {
                       menuOpen={menuOpenFriendId === f.id}
                       onCloseMenu={handleCloseMenu}
                       onDelete={() => void handleDeleteFriend(f.id)}
+                      onBlock={() => handleBlockFriend(f)}
                     />
                   ))}
                 </View>
@@ -262,11 +522,63 @@ export default function FriendsScreen() {
             </>
           )}
         </View>
+
+        {/* Circles */}
+        {canUseFriends ? <CirclesSection friends={friends} /> : null}
       </ScrollView>
     </SafeAreaView>
   );
 }
 
+function ProfileRow({
+  profile,
+  detail,
+  children,
+}: {
+  profile: Pick<FriendProfile, "username" | "first_name">;
+  detail?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <View className="flex-row items-center justify-between rounded-2xl border border-muted bg-card px-4 py-3">
+      <View className="flex-1">
+        <Text className="font-body text-base text-foreground">{displayName(profile)}</Text>
+        {!!profile.username ? <Text className="font-mono text-xs text-muted-foreground">@{profile.username}</Text> : null}
+        {!!detail ? <Text className="mt-1 font-mono text-[10px] text-muted-foreground">{detail}</Text> : null}
+      </View>
+      <View className="flex-row items-center gap-2">{children}</View>
+    </View>
+  );
+}
+
+function RequestButton({
+  label,
+  primary = false,
+  disabled,
+  onPress,
+}: {
+  label: string;
+  primary?: boolean;
+  disabled: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityState={{ disabled }}
+      className={[
+        "rounded-lg border px-3 py-1.5",
+        primary ? "border-primary/30 bg-primary/10" : "border-muted",
+        disabled ? "opacity-50" : "",
+      ].join(" ")}
+    >
+      <Text className={`font-mono text-xs ${primary ? "text-primary" : "text-muted-foreground"}`}>{label}</Text>
+    </Pressable>
+  );
+}
+
 interface FriendCardProps {
   friend: { id: string; username: string | null; first_name: string | null };
   onPress: () => void;
@@ -276,9 +588,20 @@ interface FriendCardProps {
   menuOpen: boolean;
   onCloseMenu: () => void;
   onDelete: () => void;
+  onBlock: () => void;
 }
 
-function FriendCard({ friend, onPress, onMenuPress, onNudge, showNudge, menuOpen, onCloseMenu, onDelete }: FriendCardProps) {
+function FriendCard({
+  friend,
+  onPress,
+  onMenuPress,
+  onNudge,
+  showNudge,
+  menuOpen,
+  onCloseMenu,
+  onDelete,
+  onBlock,
+}: FriendCardProps) {
   function handleMenuPress() {
     if (menuOpen) {
       onCloseMenu();
@@ -347,6 +670,16 @@ function FriendCard({ friend, onPress, onMenuPress, onNudge, showNudge, menuOpen
           >
             <Text className="font-mono text-xs text-destructive">Remove Friend</Text>
           </Pressable>
+          <Pressable
+            onPress={(e) => {
+              e.stopPropagation();
+              onBlock();
+            }}
+            accessibilityRole="button"
+            className="py-2"
+          >
+            <Text className="font-mono text-xs text-destructive">Block</Text>
+          </Pressable>
         </View>
       ) : null}
     </View>
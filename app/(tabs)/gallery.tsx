@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { Pressable, Text, View } from "react-native";
+import { Pressable, RefreshControl, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import Carousel from "react-native-reanimated-carousel";
 
@@ -9,7 +9,7 @@ import { YimPost, type Post } from "@/components/posts/yim-post";
 import { useSavedPosts } from "@/hooks/useSavedPosts";
 
 export default function GalleryScreen() {
-  const { posts, isLoading } = useSavedPosts();
+  const { posts, isLoading, isRefetching, refetch, hasNextPage, fetchNextPage } = useSavedPosts();
   const [expandedPost, setExpandedPost] = useState<Post | null>(null);
   const [activeIndex, setActiveIndex] = useState(0);
   const [viewportWidth, setViewportWidth] = useState(0);
@@ -25,6 +25,11 @@ export default function GalleryScreen() {
     if (activeIndex >= posts.length && posts.length > 0) setActiveIndex(0);
   }, [activeIndex, posts.length]);
 
+  // Infinite carousel: load the next page a few cards before the end.
+  useEffect(() => {
+    if (hasNextPage && posts.length > 0 && activeIndex >= posts.length - 3) fetchNextPage();
+  }, [activeIndex, fetchNextPage, hasNextPage, posts.length]);
+
   return (
     <SafeAreaView edges={["top"]} className="flex-1 bg-background">
       <ExpandedPostModal
@@ -36,7 +41,12 @@ export default function GalleryScreen() {
         }}
       />
 
-      <View className="flex-1 px-4 pt-6 pb-24">
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ flexGrow: 1 }}
+        contentContainerClassName="px-4 pt-6 pb-24"
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={() => void refetch()} />}
+      >
         <View className="items-center justify-center">
           <Text className="font-display text-4xl text-foreground">Your Gallery</Text>
         </View>
@@ -119,7 +129,7 @@ export default function GalleryScreen() {
             ) : null}
           </View>
         )}
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
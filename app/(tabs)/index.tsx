@@ -1,7 +1,7 @@
 import { router, useLocalSearchParams } from "expo-router";
 import { Bell } from "lucide-react-native";
-import React, { useEffect, useState } from "react";
-import { Alert, Image, Pressable, RefreshControl, ScrollView, Text, View } from "react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Image, Pressable, RefreshControl, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useQuery } from "@tanstack/react-query";
 
@@ -14,6 +14,7 @@ import { PromptPopup } from "@/components/prompts/prompt-popup";
 import { FormattedText } from "@/components/prompts/formatted-text";
 import { dailyPromptForDateQueryKey, fetchPromptForDate, useDailyPrompt } from "@/hooks/useDailyPrompt";
 import { usePhase } from "@/hooks/usePhase";
+import { useRealtimeFeed } from "@/hooks/useRealtimeFeed";
 import { useYimFeed } from "@/hooks/useYimFeed";
 import { useActivity } from "@/hooks/useActivity";
 import { useDevTools } from "@/providers/dev-tools-provider";
@@ -56,6 +57,14 @@ export default function FeedScreen() {
   // Use the same yesterdayDateKey as the feed to ensure consistency
   const viewingDayPromptDate = phase.phase === "viewing" ? feed.yesterdayDateKey : null;
 
+  // Viewing phase: reactions, comments and late responses stream in without pull-to-refresh.
+  const feedPostIds = useMemo(() => feed.posts.map((p) => p.id), [feed.posts]);
+  useRealtimeFeed({
+    promptDate: feed.yesterdayDateKey,
+    postIds: feedPostIds,
+    enabled: phase.phase === "viewing" && !devTools.showAllPosts,
+  });
+
   const viewingDayPromptQ = useQuery({
     queryKey: viewingDayPromptDate ? dailyPromptForDateQueryKey(viewingDayPromptDate) : ["viewingDayPrompt", "disabled"],
     queryFn: () => fetchPromptForDate(viewingDayPromptDate!),
@@ -108,6 +117,13 @@ export default function FeedScreen() {
           className="flex-1"
           contentContainerClassName="px-4 pb-24"
           refreshControl={<RefreshControl refreshing={feed.isRefreshing} onRefresh={() => void feed.refetch()} />}
+          onScroll={({ nativeEvent }) => {
+            // Infinite feed: fetch the next page when within ~1.5 screens of the bottom.
+            if (phase.phase !== "viewing") return;
+            const { contentOffset, contentSize, layoutMeasurement } = nativeEvent;
+            if (contentOffset.y + layoutMeasurement.height * 2.5 >= contentSize.height) feed.fetchNextPage();
+          }}
+          scrollEventThrottle={250}
         >
           {/* Header */}
           <View className="flex-row items-center">
@@ -284,6 +300,11 @@ export default function FeedScreen() {
                   </View>
                 ))
               )}
+              {feed.isFetchingNextPage ? (
+                <View className="items-center py-4">
+                  <ActivityIndicator />
+                </View>
+              ) : null}
             </View>
           ) : null}
         </ScrollView>
@@ -1,13 +1,17 @@
 import * as ImagePicker from "expo-image-picker";
-import React, { useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Image, Pressable, ScrollView, Text, View } from "react-native";
+import React, { useState } from "react";
+import { ActivityIndicator, FlatList, Image, Pressable, RefreshControl, Switch, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { ChevronRight } from "lucide-react-native";
 
 import { ExpandedPostModal } from "@/components/posts/expanded-post-modal";
 import { YimPost, type Post } from "@/components/posts/yim-post";
 import { DailyFeedback } from "@/components/feedback/daily-feedback";
+import { TimeZonePicker } from "@/components/profile/time-zone-picker";
 import { useFriends } from "@/hooks/useFriends";
 import { useProfile } from "@/hooks/useProfile";
+import { useAvatarUrl } from "@/hooks/useSignedUrl";
 import { useUserPosts } from "@/hooks/useYimFeed";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/providers/auth-provider";
@@ -20,52 +24,14 @@ export default function ProfileScreen() {
   const userPosts = useUserPosts();
 
   const [expandedPost, setExpandedPost] = useState<Post | null>(null);
-  const [avatarSignedUrl, setAvatarSignedUrl] = useState<string | null>(null);
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
 
   const friendCount = friends.length;
-  const yimCount = userPosts.posts.length;
+  const yimCount = userPosts.totalCount;
 
-  const recentPosts = useMemo(() => userPosts.posts.slice(0, 6), [userPosts.posts]);
-
-  // Fetch avatar signed URL (24h) when profile avatar path changes.
-  useEffect(() => {
-    const avatarPath = profile?.avatar_url ?? null;
-    if (!avatarPath) {
-      setAvatarSignedUrl(null);
-      return;
-    }
-    const avatarPathStr = avatarPath;
-
-    let cancelled = false;
-
-    async function fetchAvatarUrl() {
-      try {
-        const { data, error } = await supabase.storage
-          .from("profile-pictures")
-          .createSignedUrl(avatarPathStr, 24 * 60 * 60);
-
-        if (cancelled) return;
-
-        if (error || !data?.signedUrl) {
-          console.warn("[profile] createSignedUrl failed", { error });
-          setAvatarSignedUrl(null);
-          return;
-        }
-
-        setAvatarSignedUrl(data.signedUrl);
-      } catch (error) {
-        console.error("[profile] fetch avatar url failed", error);
-        if (!cancelled) setAvatarSignedUrl(null);
-      }
-    }
-
-    void fetchAvatarUrl();
-    return () => {
-      cancelled = true;
-    };
-  }, [profile?.avatar_url]);
+  // Avatar signed URL comes from the shared cache (`useSignedUrl`).
+  const avatarSignedUrl = useAvatarUrl(profile?.avatar_url);
 
   async function handlePickAvatar() {
     if (!user) return;
@@ -118,105 +84,178 @@ export default function ProfileScreen() {
         onUpdated={() => void userPosts.refetch()}
       />
 
-      <ScrollView className="flex-1" contentContainerClassName="px-4 pt-6 pb-24">
-        {/* Header */}
-        <View className="relative items-center justify-center">
-          <Text className="font-display text-4xl text-foreground">Profile</Text>
+      <FlatList
+        data={userPosts.posts}
+        keyExtractor={(item) => item.id}
+        numColumns={2}
+        className="flex-1"
+        contentContainerClassName="px-4 pt-6 pb-24"
+        refreshControl={<RefreshControl refreshing={userPosts.isRefreshing} onRefresh={() => void userPosts.refetch()} />}
+        onEndReached={userPosts.fetchNextPage}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <View>
+            {/* Header */}
+            <View className="relative items-center justify-center">
+              <Text className="font-display text-4xl text-foreground">Profile</Text>
+
+              <View className="absolute right-0">
+                <Pressable
+                  onPress={() => void signOut()}
+                  className="rounded-xl border border-muted bg-card px-4 py-2"
+                  accessibilityRole="button"
+                >
+                  <Text className="font-mono text-xs uppercase tracking-wider text-foreground">Sign out</Text>
+                </Pressable>
+              </View>
+            </View>
+
+            {!!profileError ? <Text className="mt-3 font-mono text-xs text-destructive">{profileError}</Text> : null}
+            {!!actionError ? <Text className="mt-3 font-mono text-xs text-destructive">{actionError}</Text> : null}
+
+            {/* User block */}
+            <View className="mt-8 flex-row items-center gap-4">
+              <Pressable
+                onPress={() => void handlePickAvatar()}
+                disabled={isUploadingAvatar}
+                accessibilityRole="button"
+                className="h-20 w-20 overflow-hidden rounded-full border-2 border-primary/30 bg-secondary"
+              >
+                {avatarSignedUrl ? (
+                  <Image source={{ uri: avatarSignedUrl }} className="h-full w-full" resizeMode="cover" />
+                ) : (
+                  <View className="h-full w-full items-center justify-center">
+                    <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                      {isUploadingAvatar ? "Uploading…" : "Edit"}
+                    </Text>
+                  </View>
+                )}
+              </Pressable>
+
+              <View className="flex-1">
+                <Text className="font-display text-2xl text-foreground">
+                  {profile?.first_name ?? profile?.username ?? "User"}
+                </Text>
+                <Text className="font-mono text-sm text-muted-foreground">
+                  @{profile?.username ?? user?.email?.split("@")[0] ?? "user"}
+                </Text>
+                {isProfileLoading ? (
+                  <View className="mt-2">
+                    <ActivityIndicator />
+                  </View>
+                ) : null}
+              </View>
+            </View>
+
+            {/* Stats */}
+            <View className="mt-8 flex-row gap-3">
+              <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
+                <Text className="font-display text-3xl text-primary">{yimCount}</Text>
+                <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">PONDERs</Text>
+              </View>
+              <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
+                <Text className="font-display text-3xl text-foreground">{friendCount}</Text>
+                <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Friends</Text>
+              </View>
+            </View>
+
+            {/* Daily cycle time zone */}
+            <View className="mt-3">
+              <TimeZonePicker
+                value={profile?.time_zone ?? null}
+                onSelect={async (timeZone) => {
+                  setActionError(null);
+                  try {
+                    await upsertProfile({ time_zone: timeZone });
+                  } catch (error) {
+                    setActionError(error instanceof Error ? error.message : "Failed to update time zone.");
+                    throw error;
+                  }
+                }}
+              />
+            </View>
+
+            {/* Friend suggestions privacy */}
+            <View className="mt-3 flex-row items-center justify-between rounded-2xl border border-muted bg-card p-4">
+              <View className="flex-1 pr-4">
+                <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Suggestions</Text>
+                <Text className="mt-1 font-mono text-sm text-foreground">Suggest me to friends of friends</Text>
+              </View>
+              <Switch
+                value={profile?.show_in_suggestions ?? true}
+                disabled={!profile}
+                accessibilityLabel="Suggest me to friends of friends"
+                onValueChange={async (value) => {
+                  setActionError(null);
+                  try {
+                    await upsertProfile({ show_in_suggestions: value });
+                  } catch (error) {
+                    setActionError(error instanceof Error ? error.message : "Failed to update suggestions setting.");
+                  }
+                }}
+              />
+            </View>
 
-          <View className="absolute right-0">
+            {/* Notification preferences */}
             <Pressable
-              onPress={() => void signOut()}
-              className="rounded-xl border border-muted bg-card px-4 py-2"
+              onPress={() => router.push("/notification-settings")}
               accessibilityRole="button"
+              className="mt-3 flex-row items-center justify-between rounded-2xl border border-muted bg-card p-4"
             >
-              <Text className="font-mono text-xs uppercase tracking-wider text-foreground">Sign out</Text>
-            </Pressable>
-          </View>
-        </View>
-
-        {!!profileError ? <Text className="mt-3 font-mono text-xs text-destructive">{profileError}</Text> : null}
-        {!!actionError ? <Text className="mt-3 font-mono text-xs text-destructive">{actionError}</Text> : null}
-
-        {/* User block */}
-        <View className="mt-8 flex-row items-center gap-4">
-          <Pressable
-            onPress={() => void handlePickAvatar()}
-            disabled={isUploadingAvatar}
-            accessibilityRole="button"
-            className="h-20 w-20 overflow-hidden rounded-full border-2 border-primary/30 bg-secondary"
-          >
-            {avatarSignedUrl ? (
-              <Image source={{ uri: avatarSignedUrl }} className="h-full w-full" resizeMode="cover" />
-            ) : (
-              <View className="h-full w-full items-center justify-center">
-                <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
-                  {isUploadingAvatar ? "Uploading…" : "Edit"}
-                </Text>
+              <View className="flex-1">
+                <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Notifications</Text>
+                <Text className="mt-1 font-mono text-sm text-foreground">Pushes, reminders and quiet hours</Text>
               </View>
-            )}
-          </Pressable>
+              <ChevronRight color="hsl(60 9% 98%)" size={18} />
+            </Pressable>
 
-          <View className="flex-1">
-            <Text className="font-display text-2xl text-foreground">
-              {profile?.first_name ?? profile?.username ?? "User"}
-            </Text>
-            <Text className="font-mono text-sm text-muted-foreground">
-              @{profile?.username ?? user?.email?.split("@")[0] ?? "user"}
-            </Text>
-            {isProfileLoading ? (
-              <View className="mt-2">
-                <ActivityIndicator />
+            {/* Blocked users */}
+            <Pressable
+              onPress={() => router.push("/blocked-users")}
+              accessibilityRole="button"
+              className="mt-3 flex-row items-center justify-between rounded-2xl border border-muted bg-card p-4"
+            >
+              <View className="flex-1">
+                <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Blocked</Text>
+                <Text className="mt-1 font-mono text-sm text-foreground">People you've blocked</Text>
               </View>
-            ) : null}
-          </View>
-        </View>
+              <ChevronRight color="hsl(60 9% 98%)" size={18} />
+            </Pressable>
 
-        {/* Stats */}
-        <View className="mt-8 flex-row gap-3">
-          <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
-            <Text className="font-display text-3xl text-primary">{yimCount}</Text>
-            <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">PONDERs</Text>
+            {/* Alpha feedback */}
+            <View className="mt-10">
+              <DailyFeedback />
+            </View>
+
+            <Text className="mt-10 font-mono text-xs uppercase tracking-wider text-muted-foreground">PONDERs</Text>
+            {!!userPosts.errorMessage ? (
+              <Text className="mt-3 font-mono text-xs text-destructive">{userPosts.errorMessage}</Text>
+            ) : null}
+            <View className="mt-4" />
           </View>
-          <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
-            <Text className="font-display text-3xl text-foreground">{friendCount}</Text>
-            <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Friends</Text>
+        }
+        ListEmptyComponent={
+          <View className="mt-2 items-center justify-center">
+            <Text className="font-mono text-sm text-muted-foreground">
+              {userPosts.isLoading ? "Loading…" : "No posts yet"}
+            </Text>
           </View>
-        </View>
-
-        {/* Recent posts */}
-        <View className="mt-10">
-          <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Recent PONDERs</Text>
-
-          {userPosts.isLoading ? (
-            <View className="mt-6 items-center justify-center">
-              <Text className="font-mono text-sm text-muted-foreground">Loading…</Text>
-            </View>
-          ) : recentPosts.length === 0 ? (
-            <View className="mt-6 items-center justify-center">
-              <Text className="font-mono text-sm text-muted-foreground">No posts yet</Text>
+        }
+        ListFooterComponent={
+          userPosts.isFetchingNextPage ? (
+            <View className="py-4">
+              <ActivityIndicator />
             </View>
-          ) : (
-            <View className="mt-4 flex-row flex-wrap">
-              {recentPosts.map((p, idx) => (
-                <View key={p.id} className={["w-1/2", idx % 2 === 0 ? "pr-2" : "pl-2"].join(" ")}>
-                  <View className="mb-4">
-                    <YimPost post={p} size="sm" previewMode hideFooter onPress={() => setExpandedPost(p)} />
-                  </View>
-                </View>
-              ))}
+          ) : null
+        }
+        renderItem={({ item, index }) => (
+          <View className={["w-1/2", index % 2 === 0 ? "pr-2" : "pl-2"].join(" ")}>
+            <View className="mb-4">
+              <YimPost post={item} size="sm" previewMode hideFooter onPress={() => setExpandedPost(item)} />
             </View>
-          )}
-
-          {!!userPosts.errorMessage ? (
-            <Text className="mt-3 font-mono text-xs text-destructive">{userPosts.errorMessage}</Text>
-          ) : null}
-        </View>
-
-        {/* Alpha feedback */}
-        <View className="mt-10">
-          <DailyFeedback />
-        </View>
-      </ScrollView>
+          </View>
+        )}
+      />
     </SafeAreaView>
   );
 }
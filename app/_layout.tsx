@@ -16,6 +16,7 @@ import { PreloadProvider, usePreload } from '@/providers/preload-provider';
 import { DevToolsProvider } from "@/providers/dev-tools-provider";
 import { DevToolsPanel } from "@/components/dev/dev-tools-panel";
 import { useNotifications } from '@/hooks/useNotifications';
+import { usePostOutboxRunner } from '@/hooks/usePostOutbox';
 import { BebasNeue_400Regular } from '@expo-google-fonts/bebas-neue';
 import { Inter_400Regular, Inter_500Medium, Inter_700Bold } from '@expo-google-fonts/inter';
 import { SpaceMono_400Regular, SpaceMono_700Bold } from '@expo-google-fonts/space-mono';
@@ -98,6 +99,7 @@ function RootLayoutNav() {
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <NotificationsInitializer />
+        <PostOutboxInitializer />
         <DevToolsProvider>
           <PreloadProvider>
             <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
@@ -108,8 +110,14 @@ function RootLayoutNav() {
                   <Stack.Screen name="(auth)" options={{ headerShown: false }} />
                   <Stack.Screen name="auth/callback" options={{ headerShown: false }} />
                   <Stack.Screen name="activity" options={{ headerShown: false, animation: "slide_from_right" }} />
+                  <Stack.Screen
+                    name="notification-settings"
+                    options={{ headerShown: false, animation: "slide_from_right" }}
+                  />
+                  <Stack.Screen name="blocked-users" options={{ headerShown: false, animation: "slide_from_right" }} />
                   <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
                   <Stack.Screen name="friend/[id]" options={{ headerShown: false, animation: "slide_from_right" }} />
+                  <Stack.Screen name="post/[id]" options={{ headerShown: false, animation: "slide_from_right" }} />
                 </Stack>
               </PreloadLoadingGate>
               {__DEV__ ? <DevToolsPanel /> : null}
@@ -126,6 +134,11 @@ function NotificationsInitializer() {
   return null;
 }
 
+function PostOutboxInitializer() {
+  usePostOutboxRunner(); // Flush queued posts on launch/foreground (must be inside AuthProvider)
+  return null;
+}
+
 function PreloadLoadingGate({ children }: { children: React.ReactNode }) {
   const { isPreloading } = usePreload();
   return <LoadingScreen isDataReady={!isPreloading}>{children}</LoadingScreen>;
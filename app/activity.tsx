@@ -2,13 +2,12 @@ import { router } from "expo-router";
 import React, { useState } from "react";
 import { ActivityIndicator, FlatList, Image, Pressable, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { ChevronLeft, Heart, MessageCircle, Bookmark } from "lucide-react-native";
+import { AtSign, ChevronLeft, Heart, MessageCircle, Bookmark, UserCheck, UserPlus } from "lucide-react-native";
 
-import { useActivity, type ActivityNotification } from "@/hooks/useActivity";
+import { useActivity, type ActivityNotification, type NotificationType } from "@/hooks/useActivity";
 import { ExpandedPostModal } from "@/components/posts/expanded-post-modal";
 import { YimPost, type Post } from "@/components/posts/yim-post";
-import { supabase } from "@/lib/supabase";
-import { mapRowToPost, hydrateSignedUrls, hydrateAuthorInfo, type YimPostRow } from "@/hooks/useYimFeed";
+import { fetchYimPost } from "@/hooks/useYimFeed";
 import { RefreshControl } from "react-native";
 
 function formatNotificationTime(createdAt: string): string {
@@ -26,14 +25,22 @@ function formatNotificationTime(createdAt: string): string {
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
-function getNotificationIcon(type: "like" | "comment" | "save") {
+function getNotificationIcon(type: NotificationType) {
   switch (type) {
     case "like":
+    case "comment_like":
       return <Heart color="hsl(0 84% 60%)" size={20} fill="hsl(0 84% 60%)" />;
     case "comment":
+    case "reply":
       return <MessageCircle color="hsl(60 9% 98%)" size={20} />;
+    case "mention":
+      return <AtSign color="hsl(60 9% 98%)" size={20} />;
     case "save":
       return <Bookmark color="hsl(82 85% 55%)" size={20} fill="hsl(82 85% 55%)" />;
+    case "friend_request":
+      return <UserPlus color="hsl(60 9% 98%)" size={20} />;
+    case "friend_accepted":
+      return <UserCheck color="hsl(60 9% 98%)" size={20} />;
   }
 }
 
@@ -46,6 +53,16 @@ function getNotificationText(notification: ActivityNotification): string {
       return `${actor} commented on your post`;
     case "save":
       return `${actor} saved your post`;
+    case "reply":
+      return `${actor} replied to your comment`;
+    case "comment_like":
+      return `${actor} liked your comment`;
+    case "mention":
+      return notification.comment_id ? `${actor} mentioned you in a comment` : `${actor} mentioned you in their post`;
+    case "friend_request":
+      return `${actor} sent you a friend request`;
+    case "friend_accepted":
+      return `${actor} accepted your friend request`;
   }
 }
 
@@ -133,29 +150,20 @@ function NotificationItem({
 export default function ActivityScreen() {
   const { notifications, isLoading, markAsRead, markAllAsRead, unreadCount, refetch } = useActivity();
   const [expandedPost, setExpandedPost] = useState<Post | null>(null);
+  const [focusCommentId, setFocusCommentId] = useState<string | null>(null);
 
   // Fetch post details when needed
   async function handleNotificationPress(notification: ActivityNotification) {
+    if (notification.notification_type === "friend_request" || notification.notification_type === "friend_accepted") {
+      router.push("/(tabs)/friends");
+      return;
+    }
     if (!notification.post_id) return;
 
     try {
-      // Fetch the specific post
-      const { data: row, error } = await supabase
-        .from("yim_posts")
-        .select(
-          "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at"
-        )
-        .eq("id", notification.post_id)
-        .single();
-
-      if (error) throw error;
-      if (!row) return;
-
-      // Hydrate the post (convert to Post type)
-      const signedUrlMap = await hydrateSignedUrls([row as YimPostRow]);
-      const authorInfoMap = await hydrateAuthorInfo([(row as YimPostRow).author_id]);
-      const post = mapRowToPost(row as YimPostRow, signedUrlMap, authorInfoMap);
-
+      const post = await fetchYimPost(notification.post_id);
+      if (!post) return;
+      setFocusCommentId(notification.comment_id);
       setExpandedPost(post);
     } catch (error) {
       console.warn("[ActivityScreen] Failed to fetch post", error);
@@ -168,6 +176,7 @@ export default function ActivityScreen() {
         isVisible={!!expandedPost}
         post={expandedPost}
         onClose={() => setExpandedPost(null)}
+        focusCommentId={focusCommentId}
         onUpdated={() => {
           // Activity will refresh via the hook
         }}
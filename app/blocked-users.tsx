@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react-native";
+
+import { refreshAfterBlock, unblockUser, useBlockedUsers } from "@/hooks/useModeration";
+import { getModerationErrorMessage } from "@/lib/moderation-errors";
+
+/**
+ * People the user blocked. Unblocking doesn't restore the friendship; they'd need a new request.
+ */
+export default function BlockedUsersScreen() {
+  const queryClient = useQueryClient();
+  const { blockedUsers, isLoading, errorMessage } = useBlockedUsers();
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  async function handleUnblock(userId: string) {
+    if (unblockingId) return;
+    setUnblockingId(userId);
+    setActionError(null);
+    try {
+      await unblockUser(userId);
+      await refreshAfterBlock(queryClient);
+    } catch (error) {
+      console.warn("[blocked-users] unblock failed", error);
+      setActionError(getModerationErrorMessage(error, "Failed to unblock."));
+    } finally {
+      setUnblockingId(null);
+    }
+  }
+
+  return (
+    <SafeAreaView edges={["top"]} className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center px-4 pt-6 pb-4">
+        <Pressable
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Back"
+          className="h-10 w-10 items-center justify-center"
+        >
+          <ArrowLeft color="hsl(60 9% 98%)" size={22} />
+        </Pressable>
+
+        <View className="flex-1 items-center">
+          <Text className="font-display text-4xl text-foreground">Blocked</Text>
+        </View>
+
+        {/* Right spacer for centering */}
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator />
+        </View>
+      ) : errorMessage ? (
+        <View className="flex-1 items-center justify-center px-4">
+          <Text className="font-mono text-sm text-destructive">{errorMessage}</Text>
+        </View>
+      ) : blockedUsers.length === 0 ? (
+        <View className="flex-1 items-center justify-center px-4">
+          <Text className="font-mono text-sm text-muted-foreground">You haven't blocked anyone.</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 100, gap: 12 }}>
+          {actionError ? <Text className="font-mono text-xs text-destructive">{actionError}</Text> : null}
+          {blockedUsers.map((blocked) => (
+            <View
+              key={blocked.id}
+              className="flex-row items-center justify-between rounded-2xl border border-muted bg-card px-4 py-3"
+            >
+              <View className="flex-1">
+                <Text className="font-body text-base text-foreground">
+                  {blocked.first_name ?? blocked.username ?? "Someone"}
+                </Text>
+                {blocked.username ? (
+                  <Text className="font-mono text-xs text-muted-foreground">@{blocked.username}</Text>
+                ) : null}
+              </View>
+              <Pressable
+                onPress={() => void handleUnblock(blocked.id)}
+                disabled={!!unblockingId}
+                accessibilityRole="button"
+                className="rounded-lg border border-muted px-3 py-1.5"
+              >
+                {unblockingId === blocked.id ? (
+                  <ActivityIndicator size="small" />
+                ) : (
+                  <Text className="font-mono text-xs text-muted-foreground">Unblock</Text>
+                )}
+              </Pressable>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -1,13 +1,13 @@
 import { router, useLocalSearchParams } from "expo-router";
-import React, { useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Image, Pressable, ScrollView, Text, View } from "react-native";
+import React, { useState } from "react";
+import { ActivityIndicator, FlatList, Image, Pressable, RefreshControl, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { ExpandedPostModal } from "@/components/posts/expanded-post-modal";
 import { YimPost, type Post } from "@/components/posts/yim-post";
 import { fetchProfile, profileQueryKey } from "@/hooks/useProfile";
-import { fetchUserPosts, userPostsQueryKey } from "@/hooks/useYimFeed";
-import { supabase } from "@/lib/supabase";
+import { useAvatarUrl } from "@/hooks/useSignedUrl";
+import { useUserPosts } from "@/hooks/useYimFeed";
 import { useQuery } from "@tanstack/react-query";
 
 /**
@@ -19,7 +19,6 @@ export default function FriendProfileScreen() {
   const friendId = id ?? null;
 
   const [expandedPost, setExpandedPost] = useState<Post | null>(null);
-  const [avatarSignedUrl, setAvatarSignedUrl] = useState<string | null>(null);
 
   // Fetch friend's profile
   const profileQ = useQuery({
@@ -30,55 +29,13 @@ export default function FriendProfileScreen() {
 
   const profile = profileQ.data ?? null;
 
-  // Fetch friend's posts
-  const postsQ = useQuery({
-    queryKey: friendId ? userPostsQueryKey(friendId) : ["userPosts", "disabled"],
-    queryFn: () => fetchUserPosts(friendId as string),
-    enabled: !!friendId,
-  });
-
-  const posts = postsQ.data ?? [];
-  const recentPosts = useMemo(() => posts.slice(0, 6), [posts]);
+  // Fetch friend's posts (paginated)
+  const friendPosts = useUserPosts(friendId);
 
-  // Fetch avatar signed URL (24h) when profile avatar path changes.
-  useEffect(() => {
-    const avatarPath = profile?.avatar_url ?? null;
-    if (!avatarPath) {
-      setAvatarSignedUrl(null);
-      return;
-    }
-    const avatarPathStr = avatarPath;
+  // Avatar signed URL comes from the shared cache (`useSignedUrl`).
+  const avatarSignedUrl = useAvatarUrl(profile?.avatar_url);
 
-    let cancelled = false;
-
-    async function fetchAvatarUrl() {
-      try {
-        const { data, error } = await supabase.storage
-          .from("profile-pictures")
-          .createSignedUrl(avatarPathStr, 24 * 60 * 60);
-
-        if (cancelled) return;
-
-        if (error || !data?.signedUrl) {
-          console.warn("[friend-profile] createSignedUrl failed", { error });
-          setAvatarSignedUrl(null);
-          return;
-        }
-
-        setAvatarSignedUrl(data.signedUrl);
-      } catch (error) {
-        console.error("[friend-profile] fetch avatar url failed", error);
-        if (!cancelled) setAvatarSignedUrl(null);
-      }
-    }
-
-    void fetchAvatarUrl();
-    return () => {
-      cancelled = true;
-    };
-  }, [profile?.avatar_url]);
-
-  const yimCount = posts.length;
+  const yimCount = friendPosts.totalCount;
 
   if (!friendId) {
     return (
@@ -99,90 +56,104 @@ export default function FriendProfileScreen() {
         isVisible={!!expandedPost}
         post={expandedPost}
         onClose={() => setExpandedPost(null)}
-        onUpdated={() => void postsQ.refetch()}
+        onUpdated={() => void friendPosts.refetch()}
       />
 
-      <ScrollView className="flex-1" contentContainerClassName="px-4 pt-6 pb-24">
-        {/* Header */}
-        <View className="relative items-center justify-center">
-          <Text className="font-display text-4xl text-foreground">Profile</Text>
-
-          <View className="absolute right-0">
-            <Pressable onPress={() => router.back()} className="rounded-xl border border-muted bg-card px-4 py-2" accessibilityRole="button">
-              <Text className="font-mono text-xs uppercase tracking-wider text-foreground">Back</Text>
-            </Pressable>
-          </View>
-        </View>
-
-        {profileQ.error ? (
-          <Text className="mt-3 font-mono text-xs text-destructive">
-            {profileQ.error instanceof Error ? profileQ.error.message : "Failed to load profile"}
-          </Text>
-        ) : null}
-        {postsQ.error ? (
-          <Text className="mt-3 font-mono text-xs text-destructive">
-            {postsQ.error instanceof Error ? postsQ.error.message : "Failed to load posts"}
-          </Text>
-        ) : null}
-
-        {/* User block */}
-        <View className="mt-8 flex-row items-center gap-4">
-          <View className="h-20 w-20 overflow-hidden rounded-full border-2 border-primary/30 bg-secondary">
-            {avatarSignedUrl ? (
-              <Image source={{ uri: avatarSignedUrl }} className="h-full w-full" resizeMode="cover" />
-            ) : (
-              <View className="h-full w-full items-center justify-center">
-                <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">No Photo</Text>
+      <FlatList
+        data={friendPosts.posts}
+        keyExtractor={(item) => item.id}
+        numColumns={2}
+        className="flex-1"
+        contentContainerClassName="px-4 pt-6 pb-24"
+        refreshControl={
+          <RefreshControl
+            refreshing={friendPosts.isRefreshing}
+            onRefresh={() => void Promise.allSettled([profileQ.refetch(), friendPosts.refetch()])}
+          />
+        }
+        onEndReached={friendPosts.fetchNextPage}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <View>
+            {/* Header */}
+            <View className="relative items-center justify-center">
+              <Text className="font-display text-4xl text-foreground">Profile</Text>
+
+              <View className="absolute right-0">
+                <Pressable onPress={() => router.back()} className="rounded-xl border border-muted bg-card px-4 py-2" accessibilityRole="button">
+                  <Text className="font-mono text-xs uppercase tracking-wider text-foreground">Back</Text>
+                </Pressable>
               </View>
-            )}
-          </View>
+            </View>
 
-          <View className="flex-1">
-            <Text className="font-display text-2xl text-foreground">{profile?.first_name ?? profile?.username ?? "Friend"}</Text>
-            <Text className="font-mono text-sm text-muted-foreground">
-              @{profile?.username ?? friendId.slice(-8)}
-            </Text>
-            {profileQ.isLoading ? (
-              <View className="mt-2">
-                <ActivityIndicator />
-              </View>
+            {profileQ.error ? (
+              <Text className="mt-3 font-mono text-xs text-destructive">
+                {profileQ.error instanceof Error ? profileQ.error.message : "Failed to load profile"}
+              </Text>
+            ) : null}
+            {friendPosts.errorMessage ? (
+              <Text className="mt-3 font-mono text-xs text-destructive">{friendPosts.errorMessage}</Text>
             ) : null}
-          </View>
-        </View>
 
-        {/* Stats */}
-        <View className="mt-8 flex-row gap-3">
-          <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
-            <Text className="font-display text-3xl text-primary">{yimCount}</Text>
-            <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">PONDERs</Text>
-          </View>
-        </View>
+            {/* User block */}
+            <View className="mt-8 flex-row items-center gap-4">
+              <View className="h-20 w-20 overflow-hidden rounded-full border-2 border-primary/30 bg-secondary">
+                {avatarSignedUrl ? (
+                  <Image source={{ uri: avatarSignedUrl }} className="h-full w-full" resizeMode="cover" />
+                ) : (
+                  <View className="h-full w-full items-center justify-center">
+                    <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">No Photo</Text>
+                  </View>
+                )}
+              </View>
 
-        {/* Recent posts */}
-        <View className="mt-10">
-          <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Recent PONDERs</Text>
+              <View className="flex-1">
+                <Text className="font-display text-2xl text-foreground">{profile?.first_name ?? profile?.username ?? "Friend"}</Text>
+                <Text className="font-mono text-sm text-muted-foreground">
+                  @{profile?.username ?? friendId.slice(-8)}
+                </Text>
+                {profileQ.isLoading ? (
+                  <View className="mt-2">
+                    <ActivityIndicator />
+                  </View>
+                ) : null}
+              </View>
+            </View>
 
-          {postsQ.isLoading ? (
-            <View className="mt-6 items-center justify-center">
-              <Text className="font-mono text-sm text-muted-foreground">Loading…</Text>
+            {/* Stats */}
+            <View className="mt-8 flex-row gap-3">
+              <View className="flex-1 rounded-2xl border border-muted bg-card p-4">
+                <Text className="font-display text-3xl text-primary">{yimCount}</Text>
+                <Text className="mt-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">PONDERs</Text>
+              </View>
             </View>
-          ) : recentPosts.length === 0 ? (
-            <View className="mt-6 items-center justify-center">
-              <Text className="font-mono text-sm text-muted-foreground">No posts yet</Text>
+
+            <Text className="mt-10 font-mono text-xs uppercase tracking-wider text-muted-foreground">PONDERs</Text>
+            <View className="mt-4" />
+          </View>
+        }
+        ListEmptyComponent={
+          <View className="mt-2 items-center justify-center">
+            <Text className="font-mono text-sm text-muted-foreground">
+              {friendPosts.isLoading ? "Loading…" : "No posts yet"}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          friendPosts.isFetchingNextPage ? (
+            <View className="py-4">
+              <ActivityIndicator />
             </View>
-          ) : (
-            <View className="mt-4 flex-row flex-wrap">
-              {recentPosts.map((p, idx) => (
-                <View key={p.id} className={["w-1/2", idx % 2 === 0 ? "pr-2" : "pl-2"].join(" ")}>
-                  <View className="mb-4">
-                    <YimPost post={p} size="sm" previewMode hideFooter onPress={() => setExpandedPost(p)} />
-                  </View>
-                </View>
-              ))}
+          ) : null
+        }
+        renderItem={({ item, index }) => (
+          <View className={["w-1/2", index % 2 === 0 ? "pr-2" : "pl-2"].join(" ")}>
+            <View className="mb-4">
+              <YimPost post={item} size="sm" previewMode hideFooter onPress={() => setExpandedPost(item)} />
             </View>
-          )}
-        </View>
-      </ScrollView>
+          </View>
+        )}
+      />
     </SafeAreaView>
   );
 }
@@ -4,6 +4,7 @@ import { ActivityIndicator, Pressable, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { acceptFriendInvitation } from "@/hooks/useFriends";
+import { getFriendErrorMessage } from "@/lib/friend-errors";
 import { useAuth } from "@/providers/auth-provider";
 
 /**
@@ -14,7 +15,8 @@ import { useAuth } from "@/providers/auth-provider";
  *
  * Behavior:
  * - If not authenticated, instruct user to log in first.
- * - If authenticated, accept invite and route to Friends tab.
+ * - If authenticated, accept invite and route to Friends tab. Invite links skip the request step:
+ *   the inviter is a friend immediately.
  */
 export default function InviteAcceptScreen() {
   const { token } = useLocalSearchParams<{ token?: string }>();
@@ -40,7 +42,7 @@ export default function InviteAcceptScreen() {
       } catch (error) {
         console.error("[invite] accept failed", error);
         if (cancelled) return;
-        setMessage(error instanceof Error ? error.message : "Failed to accept invite.");
+        setMessage(getFriendErrorMessage(error, "Failed to accept invite."));
       } finally {
         if (!cancelled) setIsBusy(false);
       }
@@ -0,0 +1,211 @@
+import React from "react";
+import { ActivityIndicator, Pressable, ScrollView, Switch, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { ArrowLeft } from "lucide-react-native";
+
+import { useNotificationPreferences, type NotificationPreferences } from "@/hooks/useNotificationPreferences";
+import { REMINDER_HOURS_OPTIONS } from "@/supabase/functions/_shared/notification-preferences";
+
+type ToggleKey = {
+  [K in keyof NotificationPreferences]: NotificationPreferences[K] extends boolean ? K : never;
+}[keyof NotificationPreferences];
+
+const PHASE_TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  { key: "posting_open", label: "New question", description: "When the posting window opens" },
+  { key: "posting_reminder", label: "Posting reminder", description: "If you haven't posted before it closes" },
+  { key: "viewing_open", label: "Reflections ready", description: "When the viewing window opens" },
+];
+
+const ACTIVITY_TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: "activity_like", label: "Likes" },
+  { key: "activity_comment", label: "Comments" },
+  { key: "activity_reply", label: "Replies" },
+  { key: "activity_comment_like", label: "Comment likes" },
+  { key: "activity_mention", label: "Mentions" },
+  { key: "activity_save", label: "Saves" },
+  { key: "activity_friend_request", label: "Friend requests" },
+  { key: "activity_friend_accepted", label: "Accepted requests" },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number) {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
+function SectionLabel({ children }: { children: string }) {
+  return (
+    <Text className="mb-3 mt-8 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">{children}</Text>
+  );
+}
+
+function ToggleRow({
+  label,
+  description,
+  value,
+  onChange,
+}: {
+  label: string;
+  description?: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <View className="flex-row items-center justify-between py-3">
+      <View className="flex-1 pr-4">
+        <Text className="font-mono text-sm text-foreground">{label}</Text>
+        {description ? <Text className="mt-1 font-mono text-xs text-muted-foreground">{description}</Text> : null}
+      </View>
+      <Switch value={value} onValueChange={onChange} accessibilityLabel={label} />
+    </View>
+  );
+}
+
+function OptionChips<T extends number>({
+  options,
+  value,
+  format,
+  onSelect,
+}: {
+  options: readonly T[];
+  value: T;
+  format: (option: T) => string;
+  onSelect: (option: T) => void;
+}) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+      {options.map((option) => {
+        const isSelected = option === value;
+        return (
+          <Pressable
+            key={option}
+            onPress={() => onSelect(option)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isSelected }}
+            className={`rounded-xl border px-3 py-2 ${isSelected ? "border-primary bg-primary/10" : "border-muted"}`}
+          >
+            <Text className={`font-mono text-xs ${isSelected ? "text-primary" : "text-foreground"}`}>
+              {format(option)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+export default function NotificationSettingsScreen() {
+  const { preferences, isLoading, errorMessage, updateError, updatePreferences } = useNotificationPreferences();
+
+  function update(patch: Partial<NotificationPreferences>) {
+    // Errors roll back in the hook and surface via updateError.
+    updatePreferences(patch).catch(() => {});
+  }
+
+  return (
+    <SafeAreaView edges={["top"]} className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center px-4 pt-6 pb-4">
+        <Pressable
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Back"
+          className="h-10 w-10 items-center justify-center"
+        >
+          <ArrowLeft color="hsl(60 9% 98%)" size={22} />
+        </Pressable>
+
+        <View className="flex-1 items-center">
+          <Text className="font-display text-4xl text-foreground">Notifications</Text>
+        </View>
+
+        {/* Right spacer for centering */}
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator />
+        </View>
+      ) : errorMessage || !preferences ? (
+        <View className="flex-1 items-center justify-center px-4">
+          <Text className="font-mono text-sm text-destructive">{errorMessage ?? "Couldn't load settings"}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 100 }}>
+          {updateError ? <Text className="font-mono text-xs text-destructive">{updateError}</Text> : null}
+
+          <SectionLabel>Daily PONDER</SectionLabel>
+          <View className="rounded-2xl border border-muted bg-card px-4 py-1">
+            {PHASE_TOGGLES.map((toggle) => (
+              <ToggleRow
+                key={toggle.key}
+                label={toggle.label}
+                description={toggle.description}
+                value={preferences[toggle.key]}
+                onChange={(value) => update({ [toggle.key]: value })}
+              />
+            ))}
+            {preferences.posting_reminder ? (
+              <View className="pb-4 pt-1">
+                <Text className="mb-2 font-mono text-xs text-muted-foreground">Remind me before close</Text>
+                <OptionChips
+                  options={REMINDER_HOURS_OPTIONS}
+                  value={preferences.reminder_hours_before_close as (typeof REMINDER_HOURS_OPTIONS)[number]}
+                  format={(hours) => `${hours}h`}
+                  onSelect={(hours) => update({ reminder_hours_before_close: hours })}
+                />
+              </View>
+            ) : null}
+          </View>
+
+          <SectionLabel>Activity</SectionLabel>
+          <View className="rounded-2xl border border-muted bg-card px-4 py-1">
+            {ACTIVITY_TOGGLES.map((toggle) => (
+              <ToggleRow
+                key={toggle.key}
+                label={toggle.label}
+                value={preferences[toggle.key]}
+                onChange={(value) => update({ [toggle.key]: value })}
+              />
+            ))}
+          </View>
+
+          <SectionLabel>Quiet hours</SectionLabel>
+          <View className="rounded-2xl border border-muted bg-card px-4 py-1">
+            <ToggleRow
+              label="Quiet hours"
+              description="Hold pushes overnight in your time zone. Activity arrives once they end."
+              value={preferences.quiet_hours_enabled}
+              onChange={(value) => update({ quiet_hours_enabled: value })}
+            />
+            {preferences.quiet_hours_enabled ? (
+              <View className="gap-4 pb-4 pt-1">
+                <View>
+                  <Text className="mb-2 font-mono text-xs text-muted-foreground">From</Text>
+                  <OptionChips
+                    options={HOURS}
+                    value={preferences.quiet_hours_start}
+                    format={formatHour}
+                    onSelect={(hour) => update({ quiet_hours_start: hour })}
+                  />
+                </View>
+                <View>
+                  <Text className="mb-2 font-mono text-xs text-muted-foreground">Until</Text>
+                  <OptionChips
+                    options={HOURS}
+                    value={preferences.quiet_hours_end}
+                    format={formatHour}
+                    onSelect={(hour) => update({ quiet_hours_end: hour })}
+                  />
+                </View>
+              </View>
+            ) : null}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
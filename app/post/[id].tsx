@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { router, useLocalSearchParams } from "expo-router";
+import React from "react";
+import { ActivityIndicator, KeyboardAvoidingView, Platform, Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { ArrowLeft } from "lucide-react-native";
+
+import { ExpandedPostBody } from "@/components/posts/expanded-post-modal";
+import { fetchYimPost, yimPostQueryKey } from "@/hooks/useYimFeed";
+
+/**
+ * Single post with its comments.
+ *
+ * Opened from activity push taps: `/post/<id>?commentId=<id>` reveals that comment's thread.
+ */
+export default function PostScreen() {
+  const { id, commentId } = useLocalSearchParams<{ id?: string; commentId?: string }>();
+  const postId = id ?? null;
+
+  const q = useQuery({
+    queryKey: postId ? yimPostQueryKey(postId) : ["yimPost", "none"],
+    queryFn: () => fetchYimPost(postId as string),
+    enabled: !!postId,
+  });
+
+  return (
+    <SafeAreaView edges={["top", "bottom"]} className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center px-4 pt-6 pb-4">
+        <Pressable
+          onPress={() => (router.canGoBack() ? router.back() : router.replace("/(tabs)"))}
+          accessibilityRole="button"
+          accessibilityLabel="Back"
+          className="h-10 w-10 items-center justify-center"
+        >
+          <ArrowLeft color="hsl(60 9% 98%)" size={22} />
+        </Pressable>
+
+        <View className="flex-1 items-center">
+          <Text className="font-display text-4xl text-foreground">Reflection</Text>
+        </View>
+
+        {/* Right spacer for centering */}
+        <View style={{ width: 40 }} />
+      </View>
+
+      {q.isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator />
+        </View>
+      ) : q.error ? (
+        <View className="flex-1 items-center justify-center px-4">
+          <Text className="font-mono text-sm text-destructive">
+            {q.error instanceof Error ? q.error.message : "Failed to load post"}
+          </Text>
+        </View>
+      ) : !q.data ? (
+        <View className="flex-1 items-center justify-center px-4">
+          <Text className="font-mono text-lg text-foreground">Post unavailable</Text>
+          <Text className="mt-2 text-center font-mono text-sm text-muted-foreground">
+            It may have been deleted or is no longer visible to you
+          </Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={{ flex: 1 }}>
+          <ExpandedPostBody post={q.data} focusCommentId={commentId ?? null} />
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { FlatList, Image, Pressable, Text, View } from "react-native";
+import { ActivityIndicator, FlatList, Image, Pressable, RefreshControl, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { router } from "expo-router";
 import { ArrowLeft } from "lucide-react-native";
@@ -9,7 +9,7 @@ import { YimPost, type Post } from "@/components/posts/yim-post";
 import { useSavedPosts } from "@/hooks/useSavedPosts";
 
 export default function SavedPostsScreen() {
-  const { posts, isLoading, errorMessage } = useSavedPosts();
+  const { posts, isLoading, errorMessage, isRefetching, refetch, fetchNextPage, isFetchingNextPage } = useSavedPosts();
   const [expandedPost, setExpandedPost] = useState<Post | null>(null);
 
   return (
@@ -72,6 +72,16 @@ export default function SavedPostsScreen() {
               </Pressable>
             </View>
           )}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={() => void refetch()} />}
+          onEndReached={fetchNextPage}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <View className="py-4">
+                <ActivityIndicator />
+              </View>
+            ) : null
+          }
           showsVerticalScrollIndicator={false}
         />
       )}
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, Text, TextInput, View } from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+import { Check } from "lucide-react-native";
+
+import {
+  addCircleMember,
+  CIRCLE_NAME_MAX_LENGTH,
+  circlesQueryKey,
+  createCircle,
+  deleteCircle,
+  removeCircleMember,
+  useCircles,
+  type FriendCircle,
+} from "@/hooks/useCircles";
+import type { FriendProfile } from "@/hooks/useFriends";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * Friends tab: named circles the user can share a post with instead of all friends.
+ * Only the owner sees circles; tapping one expands a checklist of friends.
+ */
+export function CirclesSection({ friends }: { friends: FriendProfile[] }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { circles, isLoading, errorMessage } = useCircles();
+
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [expandedCircleId, setExpandedCircleId] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  async function refreshCircles() {
+    if (!user) return;
+    await queryClient.invalidateQueries({ queryKey: circlesQueryKey(user.id) });
+  }
+
+  async function handleCreate() {
+    if (isCreating || !newName.trim()) return;
+    setIsCreating(true);
+    setActionError(null);
+    try {
+      const circle = await createCircle(newName);
+      setNewName("");
+      setExpandedCircleId(circle.id);
+      await refreshCircles();
+    } catch (error) {
+      console.warn("[circles] create failed", error);
+      setActionError(error instanceof Error ? error.message : "Failed to create circle.");
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleToggleMember(circle: FriendCircle, friendId: string) {
+    const key = `${circle.id}:${friendId}`;
+    if (busyKey) return;
+    setBusyKey(key);
+    setActionError(null);
+    try {
+      if (circle.memberIds.includes(friendId)) {
+        await removeCircleMember(circle.id, friendId);
+      } else {
+        await addCircleMember(circle.id, friendId);
+      }
+      await refreshCircles();
+    } catch (error) {
+      console.warn("[circles] update members failed", error);
+      setActionError(error instanceof Error ? error.message : "Failed to update circle.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  function handleDelete(circle: FriendCircle) {
+    Alert.alert(`Delete ${circle.name}?`, "Posts you shared with this circle will only be visible to you.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteCircle(circle.id);
+            await refreshCircles();
+          } catch (error) {
+            console.warn("[circles] delete failed", error);
+            setActionError(error instanceof Error ? error.message : "Failed to delete circle.");
+          }
+        },
+      },
+    ]);
+  }
+
+  const friendById = new Map(friends.map((f) => [f.id, f]));
+
+  return (
+    <View className="mt-8 gap-3">
+      <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Circles ({circles.length})</Text>
+      <Text className="font-mono text-xs text-muted-foreground">
+        Share a post with a smaller group instead of all your friends. Only you can see who's in them.
+      </Text>
+
+      {!!errorMessage ? <Text className="font-mono text-xs text-destructive">{errorMessage}</Text> : null}
+      {!!actionError ? <Text className="font-mono text-xs text-destructive">{actionError}</Text> : null}
+
+      <View className="flex-row items-center gap-2">
+        <TextInput
+          value={newName}
+          onChangeText={setNewName}
+          editable={!!user && !isCreating}
+          placeholder="New circle, e.g. Close friends"
+          placeholderTextColor="hsl(0 0% 55%)"
+          maxLength={CIRCLE_NAME_MAX_LENGTH}
+          returnKeyType="done"
+          onSubmitEditing={() => void handleCreate()}
+          className="flex-1 rounded-xl border border-muted bg-card px-4 py-3 font-mono text-sm text-foreground"
+        />
+        <Pressable
+          onPress={() => void handleCreate()}
+          disabled={isCreating || !newName.trim()}
+          accessibilityRole="button"
+          className={`rounded-xl border border-primary/30 bg-primary/10 px-4 py-3 ${!newName.trim() ? "opacity-50" : ""}`}
+        >
+          {isCreating ? <ActivityIndicator size="small" /> : <Text className="font-mono text-xs text-primary">Create</Text>}
+        </Pressable>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator />
+      ) : (
+        circles.map((circle) => {
+          const isExpanded = expandedCircleId === circle.id;
+          // Members who are no longer friends don't see circle posts; leave them out of the count.
+          const memberCount = circle.memberIds.filter((id) => friendById.has(id)).length;
+
+          return (
+            <View key={circle.id} className="rounded-2xl border border-muted bg-card">
+              <Pressable
+                onPress={() => setExpandedCircleId(isExpanded ? null : circle.id)}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: isExpanded }}
+                className="flex-row items-center justify-between px-4 py-3"
+              >
+                <View className="flex-1">
+                  <Text className="font-body text-base text-foreground">{circle.name}</Text>
+                  <Text className="font-mono text-xs text-muted-foreground">
+                    {memberCount} {memberCount === 1 ? "friend" : "friends"}
+                  </Text>
+                </View>
+                <Text className="font-mono text-xs text-muted-foreground">{isExpanded ? "Done" : "Edit"}</Text>
+              </Pressable>
+
+              {isExpanded ? (
+                <View className="border-t border-muted px-4 py-2">
+                  {friends.length === 0 ? (
+                    <Text className="py-2 font-mono text-xs text-muted-foreground">Add friends to build a circle.</Text>
+                  ) : (
+                    friends.map((friend) => {
+                      const isMember = circle.memberIds.includes(friend.id);
+                      const isBusy = busyKey === `${circle.id}:${friend.id}`;
+                      return (
+                        <Pressable
+                          key={friend.id}
+                          onPress={() => void handleToggleMember(circle, friend.id)}
+                          disabled={!!busyKey}
+                          accessibilityRole="checkbox"
+                          accessibilityState={{ checked: isMember }}
+                          className="flex-row items-center justify-between py-2"
+                        >
+                          <Text className="font-mono text-sm text-foreground">
+                            {friend.first_name ?? friend.username ?? "Friend"}
+                          </Text>
+                          {isBusy ? (
+                            <ActivityIndicator size="small" />
+                          ) : (
+                            <View
+                              className={`h-6 w-6 items-center justify-center rounded-md border ${
+                                isMember ? "border-primary bg-primary" : "border-muted"
+                              }`}
+                            >
+                              {isMember ? <Check color="hsl(0 0% 4%)" size={14} /> : null}
+                            </View>
+                          )}
+                        </Pressable>
+                      );
+                    })
+                  )}
+                  <Pressable onPress={() => handleDelete(circle)} accessibilityRole="button" className="py-2">
+                    <Text className="font-mono text-xs text-destructive">Delete circle</Text>
+                  </Pressable>
+                </View>
+              ) : null}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,40 @@
+import { Alert } from "react-native";
+import type { QueryClient } from "@tanstack/react-query";
+
+import { blockUser, refreshAfterBlock } from "@/hooks/useModeration";
+import { getModerationErrorMessage } from "@/lib/moderation-errors";
+
+/**
+ * Confirm, block, then refresh every cached query (their posts, comments and notifications
+ * disappear and the friendship ends).
+ */
+export function confirmBlock(params: {
+  userId: string;
+  label: string;
+  queryClient: QueryClient;
+  onBlocked?: () => void;
+}) {
+  const { userId, label, queryClient, onBlocked } = params;
+
+  Alert.alert(
+    `Block ${label}?`,
+    "You won't see each other's posts, comments or activity, and you'll no longer be friends. They aren't notified.",
+    [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Block",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await blockUser(userId);
+            onBlocked?.();
+            await refreshAfterBlock(queryClient);
+          } catch (error) {
+            console.warn("[confirmBlock] block failed", error);
+            Alert.alert("Couldn't block", getModerationErrorMessage(error, "Failed to block."));
+          }
+        },
+      },
+    ]
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Modal, Pressable, Text, View } from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { confirmBlock } from "@/components/moderation/confirm-block";
+import { REPORT_REASONS, reportContent, type ReportReason, type ReportTarget } from "@/hooks/useModeration";
+import { getModerationErrorMessage } from "@/lib/moderation-errors";
+
+/**
+ * Reason picker for reporting a post or comment. After a report goes in, offers to block the author.
+ */
+export function ReportSheet({
+  target,
+  author,
+  onClose,
+}: {
+  /** null hides the sheet */
+  target: ReportTarget | null;
+  author: { id: string; label: string } | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [submittingReason, setSubmittingReason] = useState<ReportReason | null>(null);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Fresh state for each target.
+  useEffect(() => {
+    setSubmittingReason(null);
+    setIsSubmitted(false);
+    setErrorMessage(null);
+  }, [target?.postId, target?.commentId]);
+
+  async function handleReport(reason: ReportReason) {
+    if (!target || submittingReason) return;
+    setSubmittingReason(reason);
+    setErrorMessage(null);
+    try {
+      await reportContent(target, reason);
+      setIsSubmitted(true);
+    } catch (error) {
+      console.warn("[ReportSheet] report failed", error);
+      setErrorMessage(getModerationErrorMessage(error, "Failed to send report."));
+    } finally {
+      setSubmittingReason(null);
+    }
+  }
+
+  function handleBlock() {
+    if (!author) return;
+    confirmBlock({ userId: author.id, label: author.label, queryClient, onBlocked: onClose });
+  }
+
+  const noun = target?.commentId ? "comment" : "post";
+
+  return (
+    <Modal visible={!!target} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable onPress={onClose} className="flex-1 justify-end bg-black/60" accessibilityLabel="Close">
+        {/* Swallow taps inside the sheet */}
+        <Pressable onPress={() => undefined} className="rounded-t-3xl border border-muted bg-card px-4 pb-10 pt-6">
+          {isSubmitted ? (
+            <View className="gap-4">
+              <Text className="font-display text-3xl text-foreground">Thanks for reporting</Text>
+              <Text className="font-mono text-sm text-muted-foreground">
+                We'll review this {noun}. Reports are anonymous.
+              </Text>
+              {author ? (
+                <Pressable
+                  onPress={handleBlock}
+                  accessibilityRole="button"
+                  className="items-center rounded-xl border border-destructive/40 px-4 py-3"
+                >
+                  <Text className="font-mono text-xs uppercase tracking-wider text-destructive">Block {author.label}</Text>
+                </Pressable>
+              ) : null}
+              <Pressable onPress={onClose} accessibilityRole="button" className="items-center rounded-xl bg-primary px-4 py-3">
+                <Text className="font-mono text-xs uppercase tracking-wider text-background">Done</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <View>
+              <Text className="font-display text-3xl text-foreground">Report {noun}</Text>
+              <Text className="mt-1 font-mono text-xs text-muted-foreground">Why are you reporting this?</Text>
+              {errorMessage ? <Text className="mt-3 font-mono text-xs text-destructive">{errorMessage}</Text> : null}
+
+              <View className="mt-4">
+                {REPORT_REASONS.map(({ reason, label }) => (
+                  <Pressable
+                    key={reason}
+                    onPress={() => void handleReport(reason)}
+                    disabled={!!submittingReason}
+                    accessibilityRole="button"
+                    className="flex-row items-center justify-between border-b border-muted py-4"
+                  >
+                    <Text className="font-mono text-sm text-foreground">{label}</Text>
+                    {submittingReason === reason ? <ActivityIndicator size="small" /> : null}
+                  </Pressable>
+                ))}
+              </View>
+
+              <Pressable onPress={onClose} accessibilityRole="button" className="mt-4 items-center py-2">
+                <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Cancel</Text>
+              </Pressable>
+            </View>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
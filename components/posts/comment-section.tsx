@@ -1,9 +1,13 @@
-import { useComments, type Comment } from "@/hooks/useComments";
+import { ReportSheet } from "@/components/moderation/report-sheet";
+import { MentionSuggestions } from "@/components/posts/mention-suggestions";
+import { MentionText } from "@/components/posts/mention-text";
+import { useComments, type Comment, type CommentThread } from "@/hooks/useComments";
+import { useMentionAutocomplete } from "@/hooks/useMentions";
 import { useProfile } from "@/hooks/useProfile";
-import { supabase } from "@/lib/supabase";
+import { useAvatarUrl } from "@/hooks/useSignedUrl";
 import { useAuth } from "@/providers/auth-provider";
-import { Trash2 } from "lucide-react-native";
-import React, { useEffect, useMemo, useState } from "react";
+import { Heart, Trash2 } from "lucide-react-native";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -17,6 +21,10 @@ import {
 
 interface CommentSectionProps {
   postId: string;
+  /** Called before a mention opens a profile (the section usually lives in a modal). */
+  onNavigate?: () => void;
+  /** Comment to reveal once loaded: a reply's thread starts expanded. */
+  focusCommentId?: string | null;
 }
 
 function formatCommentTime(createdAt: string): string {
@@ -38,10 +46,20 @@ function CommentItem({
   comment,
   onDelete,
   canDelete,
+  onReply,
+  onToggleLike,
+  onReport,
+  onNavigate,
+  isReply = false,
 }: {
   comment: Comment;
   onDelete: () => void;
   canDelete: boolean;
+  onReply?: () => void;
+  onToggleLike?: () => void;
+  onReport?: () => void;
+  onNavigate?: () => void;
+  isReply?: boolean;
 }) {
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -81,8 +99,8 @@ function CommentItem({
   }
 
   return (
-    <View className="mb-4 flex-row gap-3">
-      <View className="h-8 w-8 overflow-hidden rounded-full bg-secondary">
+    <View className={["mb-4 flex-row gap-3", isReply ? "ml-11" : ""].join(" ")}>
+      <View className={["overflow-hidden rounded-full bg-secondary", isReply ? "h-6 w-6" : "h-8 w-8"].join(" ")}>
         {comment.author_avatar_url ? (
           <Image source={{ uri: comment.author_avatar_url }} className="h-full w-full" resizeMode="cover" />
         ) : (
@@ -103,9 +121,43 @@ function CommentItem({
             {formatCommentTime(comment.created_at)}
           </Text>
         </View>
-        <Text style={{ fontFamily: "SpaceMono", fontSize: 14, lineHeight: 20 }} className="mt-1 text-foreground">
+        <MentionText
+          style={{ fontFamily: "SpaceMono", fontSize: 14, lineHeight: 20 }}
+          className="mt-1 text-foreground"
+          onNavigate={onNavigate}
+        >
           {comment.content}
-        </Text>
+        </MentionText>
+
+        <View className="mt-2 flex-row items-center gap-4">
+          {onToggleLike ? (
+            <Pressable
+              onPress={onToggleLike}
+              accessibilityRole="button"
+              accessibilityLabel={comment.is_liked ? "Unlike comment" : "Like comment"}
+              className="flex-row items-center gap-1"
+            >
+              <Heart
+                color={comment.is_liked ? "hsl(0 84% 60%)" : "hsl(0 0% 55%)"}
+                fill={comment.is_liked ? "hsl(0 84% 60%)" : "none"}
+                size={14}
+              />
+              {comment.like_count > 0 ? (
+                <Text className="font-mono text-[10px] text-muted-foreground">{comment.like_count}</Text>
+              ) : null}
+            </Pressable>
+          ) : null}
+          {onReply ? (
+            <Pressable onPress={onReply} accessibilityRole="button" accessibilityLabel="Reply to comment">
+              <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Reply</Text>
+            </Pressable>
+          ) : null}
+          {onReport ? (
+            <Pressable onPress={onReport} accessibilityRole="button" accessibilityLabel="Report comment">
+              <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Report</Text>
+            </Pressable>
+          ) : null}
+        </View>
       </View>
 
       {canDelete && (
@@ -127,66 +179,133 @@ function CommentItem({
   );
 }
 
-export function CommentSection({ postId }: CommentSectionProps) {
+function CommentThreadView({
+  thread,
+  isExpanded,
+  onToggleExpanded,
+  onReply,
+  onDelete,
+  onToggleLike,
+  onReport,
+  onNavigate,
+  canDelete,
+}: {
+  thread: CommentThread;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+  onReply: (comment: Comment) => void;
+  onDelete: (comment: Comment) => Promise<void>;
+  onToggleLike: (comment: Comment) => void;
+  /** Omitted for comments the viewer can't report (their own). */
+  onReport: (comment: Comment) => (() => void) | undefined;
+  onNavigate?: () => void;
+  canDelete: (comment: Comment) => boolean;
+}) {
+  const replyCount = thread.replies.length;
+
+  return (
+    <View>
+      <CommentItem
+        comment={thread.comment}
+        onDelete={() => onDelete(thread.comment)}
+        canDelete={canDelete(thread.comment)}
+        onReply={() => onReply(thread.comment)}
+        onToggleLike={() => onToggleLike(thread.comment)}
+        onReport={onReport(thread.comment)}
+        onNavigate={onNavigate}
+      />
+
+      {replyCount > 0 ? (
+        <Pressable
+          onPress={onToggleExpanded}
+          accessibilityRole="button"
+          accessibilityLabel={isExpanded ? "Hide replies" : "View replies"}
+          className="mb-4 ml-11"
+        >
+          <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+            {isExpanded ? "Hide replies" : `View ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`}
+          </Text>
+        </Pressable>
+      ) : null}
+
+      {isExpanded
+        ? thread.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              isReply
+              onDelete={() => onDelete(reply)}
+              canDelete={canDelete(reply)}
+              // Replying to a reply stays in the same thread (one level deep).
+              onReply={() => onReply(reply)}
+              onToggleLike={() => onToggleLike(reply)}
+              onReport={onReport(reply)}
+              onNavigate={onNavigate}
+            />
+          ))
+        : null}
+    </View>
+  );
+}
+
+export function CommentSection({ postId, onNavigate, focusCommentId }: CommentSectionProps) {
   const { user } = useAuth();
   const { profile } = useProfile();
-  const { comments, isLoading, addComment, deleteComment, isAdding, canDelete } = useComments(postId);
+  const { comments, threads, isLoading, addComment, deleteComment, toggleCommentLike, isAdding, canDelete } =
+    useComments(postId);
   const [commentText, setCommentText] = useState("");
-  const [signedAvatarUrl, setSignedAvatarUrl] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const mentions = useMentionAutocomplete(commentText);
+  const [expandedThreadIds, setExpandedThreadIds] = useState<Set<string>>(() => new Set());
+  const signedAvatarUrl = useAvatarUrl(profile?.avatar_url);
+  const focusedCommentIdRef = useRef<string | null>(null);
+  const [reportingComment, setReportingComment] = useState<Comment | null>(null);
+
+  // Expand the focused reply's thread once (later collapses stick across refetches).
+  useEffect(() => {
+    if (!focusCommentId || focusedCommentIdRef.current === focusCommentId) return;
+    const focused = comments.find((c) => c.id === focusCommentId);
+    if (!focused) return;
+    focusedCommentIdRef.current = focusCommentId;
+    const threadId = focused.parent_comment_id;
+    if (threadId) setExpandedThreadIds((prev) => new Set(prev).add(threadId));
+  }, [comments, focusCommentId]);
 
   const avatarFallback = useMemo(() => {
     const label = profile?.first_name || profile?.username || "";
     return (label.slice(0, 2).toUpperCase() || "?").trim();
   }, [profile?.first_name, profile?.username]);
 
-  useEffect(() => {
-    let cancelled = false;
-
-    async function signAvatarUrl() {
-      const path = profile?.avatar_url;
-      if (!path) {
-        setSignedAvatarUrl(null);
-        return;
-      }
-
-      try {
-        const { data, error } = await supabase.storage.from("profile-pictures").createSignedUrl(path, 24 * 60 * 60);
-
-        if (cancelled) return;
-        if (error || !data?.signedUrl) {
-          if (__DEV__) console.warn("[CommentSection] createSignedUrl failed", error);
-          setSignedAvatarUrl(null);
-          return;
-        }
-
-        setSignedAvatarUrl(data.signedUrl);
-      } catch (e) {
-        if (__DEV__) console.warn("[CommentSection] signAvatarUrl error", e);
-        if (!cancelled) setSignedAvatarUrl(null);
-      }
-    }
-
-    void signAvatarUrl();
-    return () => {
-      cancelled = true;
-    };
-  }, [profile?.avatar_url]);
-
   async function handleSubmit() {
     if (!commentText.trim() || isAdding) return;
 
     const text = commentText.trim();
+    const parent = replyingTo;
     setCommentText("");
+    setReplyingTo(null);
 
     try {
-      await addComment(text);
+      const threadId = parent ? (parent.parent_comment_id ?? parent.id) : null;
+      await addComment(text, threadId);
+      // Show the new reply in its thread.
+      if (threadId) setExpandedThreadIds((prev) => new Set(prev).add(threadId));
     } catch (error) {
       console.warn("[CommentSection] addComment failed", error);
       Alert.alert("Error", error instanceof Error ? error.message : "Failed to add comment");
       setCommentText(text); // Restore text on error
+      setReplyingTo(parent);
     }
   }
 
+  function toggleThread(threadId: string) {
+    setExpandedThreadIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(threadId)) next.delete(threadId);
+      else next.add(threadId);
+      return next;
+    });
+  }
+
   return (
     <View>
       {/* Comments Header */}
@@ -207,12 +326,20 @@ export function CommentSection({ postId }: CommentSectionProps) {
         </View>
       ) : (
         <View>
-          {comments.map((comment) => (
-            <CommentItem
-              key={comment.id}
-              comment={comment}
-              onDelete={() => deleteComment(comment.id)}
-              canDelete={canDelete(comment)}
+          {threads.map((thread) => (
+            <CommentThreadView
+              key={thread.comment.id}
+              thread={thread}
+              isExpanded={expandedThreadIds.has(thread.comment.id)}
+              onToggleExpanded={() => toggleThread(thread.comment.id)}
+              onReply={setReplyingTo}
+              onDelete={(comment) => deleteComment(comment.id)}
+              onToggleLike={(comment) => void toggleCommentLike(comment).catch(() => undefined)}
+              onReport={(comment) =>
+                user && comment.user_id !== user.id ? () => setReportingComment(comment) : undefined
+              }
+              onNavigate={onNavigate}
+              canDelete={canDelete}
             />
           ))}
         </View>
@@ -221,6 +348,20 @@ export function CommentSection({ postId }: CommentSectionProps) {
       {/* Comment Input */}
       {user ? (
         <View className="mt-6 border-t border-muted bg-card px-4 py-3">
+          {replyingTo ? (
+            <View className="mb-2 flex-row items-center justify-between">
+              <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                Replying to {replyingTo.author_label ?? "comment"}
+              </Text>
+              <Pressable onPress={() => setReplyingTo(null)} accessibilityRole="button" accessibilityLabel="Cancel reply">
+                <Text className="font-mono text-[10px] uppercase tracking-wider text-foreground">Cancel</Text>
+              </Pressable>
+            </View>
+          ) : null}
+          <MentionSuggestions
+            suggestions={mentions.suggestions}
+            onSelect={(friend) => setCommentText(mentions.complete(friend))}
+          />
           <View className="flex-row items-center gap-3">
             <View className="h-10 w-10 overflow-hidden rounded-full bg-secondary">
               {signedAvatarUrl ? (
@@ -240,7 +381,8 @@ export function CommentSection({ postId }: CommentSectionProps) {
               <TextInput
                 value={commentText}
                 onChangeText={setCommentText}
-                placeholder="Add a comment..."
+                onSelectionChange={mentions.onSelectionChange}
+                placeholder={replyingTo ? "Add a reply..." : "Add a comment..."}
                 placeholderTextColor="hsl(0 0% 55%)"
                 multiline={false}
                 maxLength={500}
@@ -293,6 +435,16 @@ export function CommentSection({ postId }: CommentSectionProps) {
           </Text>
         </View>
       )}
+
+      <ReportSheet
+        target={reportingComment ? { commentId: reportingComment.id } : null}
+        author={
+          reportingComment
+            ? { id: reportingComment.user_id, label: reportingComment.author_label ?? "this person" }
+            : null
+        }
+        onClose={() => setReportingComment(null)}
+      />
     </View>
   );
 }
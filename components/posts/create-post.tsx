@@ -18,12 +18,18 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useQueryClient } from "@tanstack/react-query";
 
+import { MentionSuggestions } from "@/components/posts/mention-suggestions";
+import { OutboxStatus } from "@/components/posts/outbox-status";
 import { YimPost, type BackgroundType, type FontColor, type FontSize, type FontStyle, type Post } from "@/components/posts/yim-post";
 import { FormattedText } from "@/components/prompts/formatted-text";
 import { PostResponseRating } from "@/components/prompts/post-response-rating";
+import { useCircles } from "@/hooks/useCircles";
 import { didRespondQueryKey, useDailyPrompt } from "@/hooks/useDailyPrompt";
-import { createYimPost } from "@/hooks/useYimFeed";
+import { useMentionAutocomplete } from "@/hooks/useMentions";
+import { usePostOutbox } from "@/hooks/usePostOutbox";
+import { editYimPost, setPostAudience, uploadPostPhoto } from "@/hooks/useYimFeed";
 import { deletePostDraft, getPostDraft, setPostDraft } from "@/lib/post-draft";
+import { getSubmitPostErrorMessage } from "@/lib/post-errors";
 import { clearDevHasRespondedOverride } from "@/lib/prompt-store";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/providers/auth-provider";
@@ -106,32 +112,10 @@ function getIsValidQuote(quote: string) {
   return len >= 1 && len <= POST_MAX_CHARS;
 }
 
-async function uploadPostPhoto(params: { userId: string; uri: string }) {
-  // Bucket matches the web app: `post-photos`
-  const filePath = `post-photos/${params.userId}/${Date.now()}.jpg`;
-
-  if (__DEV__) console.log("[create-post] uploadPostPhoto start", { filePath });
-
-  const response = await fetch(params.uri);
-  const arrayBuffer = await response.arrayBuffer();
-
-  const { error } = await supabase.storage.from("post-photos").upload(filePath, arrayBuffer, {
-    contentType: "image/jpeg",
-    upsert: true,
-  });
-
-  if (error) {
-    console.error("[create-post] uploadPostPhoto failed", error);
-    throw error;
-  }
-
-  if (__DEV__) console.log("[create-post] uploadPostPhoto success", { filePath });
-  return filePath;
-}
-
 export function CreatePost({ promptId, promptText, promptDate, existingPost, onPosted }: CreatePostProps) {
   const { user } = useAuth();
   const dailyPrompt = useDailyPrompt();
+  const outbox = usePostOutbox();
   const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
@@ -139,11 +123,18 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
   const [step, setStep] = useState<Step>("content");
   const [quote, setQuote] = useState("");
   const [expandedText, setExpandedText] = useState("");
+  const mentions = useMentionAutocomplete(expandedText);
 
   const [background, setBackground] = useState<BackgroundType>("dark");
   const [font, setFont] = useState<FontStyle>("playfair");
   const [fontColor, setFontColor] = useState<FontColor>("white");
   const [fontSize] = useState<FontSize>("large");
+  // null = all friends
+  const [circleId, setCircleId] = useState<string | null>(null);
+  const { circles } = useCircles();
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  // Sensitive prompts (dashboard flag) make every response anonymous; submit_post enforces it too.
+  const isAnonymousForced = !!promptId && dailyPrompt.prompt?.id === promptId && dailyPrompt.prompt.force_anonymous;
 
   // Local preview URI for photo background. We upload on submit.
   const [photoUri, setPhotoUri] = useState<string | null>(null);
@@ -216,13 +207,15 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
   }, [step, screenWidth, styleSlideX]);
 
   // Only prompt responses are gated by duplicate prevention (no time windows).
-  // When editing, we skip duplicate check since we delete the old post first.
+  // When editing, we skip duplicate check since the existing post is updated in place.
   const canCreate = useMemo(() => {
     if (!promptId) return true;
-    if (existingPost) return true; // Editing: will delete old post first
+    if (existingPost) return true; // Editing: updates the existing post
+    // A response already waiting in the outbox counts as answered.
+    if (outbox.entries.some((e) => e.input.promptId === promptId)) return false;
     // Prevent duplicate prompt responses (DB enforces this via unique constraint).
     return !dailyPrompt.hasResponded;
-  }, [dailyPrompt.hasResponded, promptId, existingPost]);
+  }, [dailyPrompt.hasResponded, promptId, existingPost, outbox.entries]);
 
   const previewPost: Post = useMemo(
     () => ({
@@ -269,6 +262,8 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
         setBackground(existingPost.background ?? "dark");
         setFont(existingPost.font ?? "playfair");
         setFontColor(existingPost.fontColor ?? "white");
+        setCircleId(existingPost.circleId ?? null);
+        setIsAnonymous(!!existingPost.isAnonymous);
         if (existingPost.photoBackgroundUrl) {
           setPhotoUri(existingPost.photoBackgroundUrl);
         }
@@ -393,9 +388,14 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
           ) : null}
 
           <View className="flex-1">
+            <MentionSuggestions
+              suggestions={mentions.suggestions}
+              onSelect={(friend) => setExpandedText(mentions.complete(friend))}
+            />
             <TextInput
               value={expandedText}
               onChangeText={setExpandedText}
+              onSelectionChange={mentions.onSelectionChange}
               onContentSizeChange={(e) => {
                 const newHeight = e.nativeEvent.contentSize.height;
                 if (newHeight > textInputHeight) {
@@ -413,6 +413,8 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
             />
           </View>
 
+          <OutboxStatus entries={outbox.entries} onRetry={outbox.retry} onDiscard={outbox.discard} />
+
           {!canCreate && promptId ? (
             <Text className="text-center font-mono text-xs text-muted-foreground">
               You've already responded to this prompt.
@@ -463,7 +465,7 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
       submitInFlightRef.current = false;
       return;
     }
-    // When editing, skip duplicate check since we'll delete the old post
+    // When editing, skip duplicate check since the existing post is updated in place
     if (!existingPost && promptId && dailyPrompt.hasResponded) {
       setErrorMessage("You already responded to today's prompt.");
       submitInFlightRef.current = false;
@@ -483,40 +485,68 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
     setErrorMessage(null);
 
     try {
-      // If editing, delete the old post first
+      let created: Post | null;
+
       if (existingPost?.id) {
-        const { error: deleteError } = await supabase.from("yim_posts").delete().eq("id", existingPost.id);
-        if (deleteError) {
-          console.error("[create-post] delete old post failed", deleteError);
-          setErrorMessage("Failed to update post. Please try again.");
-          setIsBusy(false);
-          submitInFlightRef.current = false;
-          return;
+        // Editing: update in place (online only) so likes, saves and comments stay attached.
+        // The server rejects edits once the viewing phase has begun.
+        let photoPath: string | undefined;
+        if (photoUri && photoUri === existingPost.photoBackgroundUrl) {
+          // Unchanged photo: keep the stored file instead of re-uploading the signed URL.
+          photoPath = existingPost.photoBackgroundPath;
+        } else if (photoUri) {
+          photoPath = await uploadPostPhoto({ userId: user.id, uri: photoUri, anonymous: existingPost.isAnonymous });
         }
-      }
 
-      let photoPath: string | undefined;
-      if (photoUri) {
-        // Upload photo (works for local files, data URIs, and signed URLs)
-        // Note: When editing with existing photo (signed URL), this re-uploads it
-        // Could be optimized to reuse storage path, but functional for now
-        photoPath = await uploadPostPhoto({ userId: user.id, uri: photoUri });
-      }
+        created = await editYimPost({
+          postId: existingPost.id,
+          quote: quote.trim(),
+          background: photoPath ? "photo" : background,
+          font,
+          fontColor,
+          fontSize,
+          textHighlight: existingPost.textHighlight,
+          photoBackgroundPath: photoPath,
+          expandedText: expandedText.trim() ? expandedText : undefined,
+        });
+        if (circleId !== (existingPost.circleId ?? null)) {
+          created = await setPostAudience(existingPost.id, circleId);
+        }
+      } else {
+        // New posts go through the outbox so a flaky connection never loses them.
+        // Capture the prompt date now: a post queued before 6AM still belongs to this cycle.
+        const composedPromptDate = promptId
+          ? (promptDate ?? dailyPrompt.prompt?.prompt_date ?? dailyPrompt.cycleDateKey)
+          : promptDate;
+
+        const result = await outbox.submit({
+          input: {
+            quote: quote.trim(),
+            attribution: "",
+            background,
+            font,
+            fontColor,
+            fontSize,
+            expandedText: expandedText.trim() ? expandedText : undefined,
+            promptId: promptId ?? undefined,
+            promptDate: composedPromptDate ?? undefined,
+            circleId: circleId ?? undefined,
+            anonymous: isAnonymous || isAnonymousForced,
+          },
+          photoUri,
+        });
 
-      const created = await createYimPost({
-        quote: quote.trim(),
-        attribution: "",
-        background: photoPath ? "photo" : background,
-        font,
-        fontColor,
-        fontSize,
-        photoBackgroundPath: photoPath,
-        expandedText: expandedText.trim() ? expandedText : undefined,
-        promptId: promptId ?? undefined,
-        promptDate: promptDate ?? undefined,
-      });
+        if (result.status !== "sent") {
+          // Saved locally; the outbox banner shows queued/failed state and handles retries.
+          if (__DEV__) console.log("[create-post] queued in outbox", { id: result.entry.id, status: result.status });
+          if (result.status === "failed") setErrorMessage(result.entry.lastError);
+          setStep("content");
+          return;
+        }
+        created = result.post;
+      }
 
-      if (__DEV__) console.log("[create-post] created", { id: created.id });
+      if (__DEV__) console.log("[create-post] created", { id: created?.id ?? null });
 
       // Track post submission event
       try {
@@ -525,7 +555,7 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
           event_type: "post_submit",
           event_name: "post_submit",
           metadata: {
-            post_id: created.id,
+            post_id: created?.id ?? null,
             prompt_id: promptId ?? null,
           },
         });
@@ -550,7 +580,7 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
       }
       await queryClient.invalidateQueries({ queryKey: ["dailyPrompt"] });
 
-      onPosted?.(created);
+      if (created) onPosted?.(created);
 
       // Show rating modal after successful post
       const promptDateForRating =
@@ -558,7 +588,7 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
       const promptTextForRating =
         promptText ?? dailyPrompt.prompt?.prompt_text ?? "Today's PONDER";
       setRatingPrompt({
-        id: promptId ?? created.promptId ?? created.id,
+        id: promptId ?? created?.promptId ?? created?.id ?? "",
         prompt_text: promptTextForRating,
         prompt_date: promptDateForRating,
       });
@@ -570,7 +600,8 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
         // Unique constraint violation: already posted for this prompt.
         setErrorMessage("You already responded to today’s prompt.");
       } else {
-        setErrorMessage(error instanceof Error ? error.message : "Failed to create post");
+        // submit_post rejections (window closed, blackout, …) map to friendly copy.
+        setErrorMessage(getSubmitPostErrorMessage(error, "Failed to create post"));
       }
     } finally {
       setIsBusy(false);
@@ -879,6 +910,76 @@ export function CreatePost({ promptId, promptText, promptDate, existingPost, onP
               </View>
             </View>
 
+            {/* Audience */}
+            <View className="mt-6 gap-3">
+              <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Share With</Text>
+              <View className="flex-row flex-wrap gap-3">
+                {[{ id: null, name: "All friends" }, ...circles].map((option) => (
+                  <Pressable
+                    key={option.id ?? "friends"}
+                    onPress={() => setCircleId(option.id)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: circleId === option.id }}
+                    className={[
+                      "h-10 items-center justify-center rounded-xl border px-4",
+                      circleId === option.id ? "border-primary bg-primary" : "border-muted bg-card",
+                    ].join(" ")}
+                  >
+                    <Text
+                      numberOfLines={1}
+                      className={`font-mono text-xs ${circleId === option.id ? "text-background" : "text-foreground"}`}
+                    >
+                      {option.name}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {circles.length === 0 ? (
+                <Text className="font-mono text-xs text-muted-foreground">
+                  Create a circle in the Friends tab to share with fewer people.
+                </Text>
+              ) : null}
+            </View>
+
+            {/* Anonymous (fixed once posted) */}
+            <View className="mt-6 gap-3">
+              <Text className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Name</Text>
+              <View className="flex-row gap-3">
+                {[
+                  { anonymous: false, label: "Show my name" },
+                  { anonymous: true, label: "Anonymous" },
+                ].map((option) => {
+                  const isSelected = (isAnonymous || isAnonymousForced) === option.anonymous;
+                  const isDisabled = !!existingPost || isAnonymousForced;
+                  return (
+                    <Pressable
+                      key={option.label}
+                      onPress={() => setIsAnonymous(option.anonymous)}
+                      disabled={isDisabled}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected, disabled: isDisabled }}
+                      className={[
+                        "h-10 items-center justify-center rounded-xl border px-4",
+                        isSelected ? "border-primary bg-primary" : "border-muted bg-card",
+                        isDisabled && !isSelected ? "opacity-50" : "",
+                      ].join(" ")}
+                    >
+                      <Text className={`font-mono text-xs ${isSelected ? "text-background" : "text-foreground"}`}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text className="font-mono text-xs text-muted-foreground">
+                {isAnonymousForced
+                  ? "Responses to this prompt are always anonymous."
+                  : existingPost
+                    ? "This can't be changed after posting."
+                    : "Anonymous posts hide your name from friends. Comments you leave still show it."}
+              </Text>
+            </View>
+
             {!!errorMessage ? <Text className="mt-6 font-mono text-xs text-destructive">{errorMessage}</Text> : null}
           </ScrollView>
 
@@ -3,9 +3,55 @@ import { Image, KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, Te
 import { SafeAreaView } from "react-native-safe-area-context";
 import { X } from "lucide-react-native";
 
+import { MentionText } from "@/components/posts/mention-text";
 import { YimPost, type Post } from "@/components/posts/yim-post";
 import { CommentSection } from "@/components/posts/comment-section";
 
+/**
+ * Post, response and comments (scrolls as one). Shared by the modal and the `post/[id]` screen.
+ */
+export function ExpandedPostBody({
+  post,
+  onNavigate,
+  focusCommentId,
+}: {
+  post: Post;
+  /** Called before a mention opens a profile (e.g. to close the modal). */
+  onNavigate?: () => void;
+  /** Comment to reveal (its reply thread is expanded), e.g. from a push tap. */
+  focusCommentId?: string | null;
+}) {
+  return (
+    <ScrollView className="flex-1" contentContainerClassName="px-4 pb-4" showsVerticalScrollIndicator={false}>
+      <View className="mt-3">
+        <YimPost post={post} />
+      </View>
+
+      {/* Response (read-only, scrolls with page) */}
+      <View className="mt-6 rounded-2xl border border-muted bg-card p-4">
+        {post.expandedText?.trim() ? (
+          <MentionText
+            style={{ fontFamily: "SpaceMono", fontSize: 16, lineHeight: 22 }}
+            className="text-foreground"
+            onNavigate={onNavigate}
+          >
+            {post.expandedText}
+          </MentionText>
+        ) : (
+          <Text style={{ fontFamily: "SpaceMono", fontSize: 14, lineHeight: 20 }} className="text-muted-foreground">
+            No response yet.
+          </Text>
+        )}
+      </View>
+
+      {/* Comments Section */}
+      <View className="mt-6">
+        <CommentSection postId={post.id} onNavigate={onNavigate} focusCommentId={focusCommentId} />
+      </View>
+    </ScrollView>
+  );
+}
+
 /**
  * Expanded post modal:
  * - Full-screen reading
@@ -17,11 +63,13 @@ export function ExpandedPostModal({
   post,
   onClose,
   onUpdated,
+  focusCommentId,
 }: {
   isVisible: boolean;
   post: Post | null;
   onClose: () => void;
   onUpdated: () => void;
+  focusCommentId?: string | null;
 }) {
   if (!post) return null;
 
@@ -64,30 +112,7 @@ export function ExpandedPostModal({
               </Pressable>
             </View>
 
-            {/* Scrollable content */}
-            <ScrollView className="flex-1" contentContainerClassName="px-4 pb-4" showsVerticalScrollIndicator={false}>
-              <View className="mt-3">
-                <YimPost post={post} />
-              </View>
-
-              {/* Response (read-only, scrolls with page) */}
-              <View className="mt-6 rounded-2xl border border-muted bg-card p-4">
-                {post.expandedText?.trim() ? (
-                  <Text style={{ fontFamily: "SpaceMono", fontSize: 16, lineHeight: 22 }} className="text-foreground">
-                    {post.expandedText}
-                  </Text>
-                ) : (
-                  <Text style={{ fontFamily: "SpaceMono", fontSize: 14, lineHeight: 20 }} className="text-muted-foreground">
-                    No response yet.
-                  </Text>
-                )}
-              </View>
-
-              {/* Comments Section */}
-              <View className="mt-6">
-                <CommentSection postId={post.id} />
-              </View>
-            </ScrollView>
+            <ExpandedPostBody post={post} onNavigate={onClose} focusCommentId={focusCommentId} />
           </View>
         </SafeAreaView>
       </KeyboardAvoidingView>
@@ -0,0 +1,56 @@
+import React from "react";
+import { Image, Pressable, Text, View } from "react-native";
+
+import type { FriendProfile } from "@/hooks/useFriends";
+import { useAvatarUrl } from "@/hooks/useSignedUrl";
+
+function MentionSuggestionRow({ friend, onPress }: { friend: FriendProfile; onPress: () => void }) {
+  const avatarUrl = useAvatarUrl(friend.avatar_url);
+  const label = friend.first_name || friend.username || "Friend";
+
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={`Mention ${friend.username}`}
+      className="flex-row items-center gap-3 px-3 py-2"
+    >
+      <View className="h-7 w-7 overflow-hidden rounded-full bg-secondary">
+        {avatarUrl ? (
+          <Image source={{ uri: avatarUrl }} className="h-full w-full" resizeMode="cover" />
+        ) : (
+          <View className="h-full w-full items-center justify-center">
+            <Text className="font-mono text-[9px] text-muted-foreground">{label.slice(0, 2).toUpperCase()}</Text>
+          </View>
+        )}
+      </View>
+      <View className="flex-1">
+        <Text className="font-mono text-sm text-foreground">@{friend.username}</Text>
+        {friend.first_name ? (
+          <Text className="font-mono text-[10px] text-muted-foreground">{friend.first_name}</Text>
+        ) : null}
+      </View>
+    </Pressable>
+  );
+}
+
+/**
+ * Autocomplete list for `useMentionAutocomplete`; renders nothing without suggestions.
+ */
+export function MentionSuggestions({
+  suggestions,
+  onSelect,
+}: {
+  suggestions: FriendProfile[];
+  onSelect: (friend: FriendProfile) => void;
+}) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View className="mb-2 overflow-hidden rounded-xl border border-muted bg-background">
+      {suggestions.map((friend) => (
+        <MentionSuggestionRow key={friend.id} friend={friend} onPress={() => onSelect(friend)} />
+      ))}
+    </View>
+  );
+}
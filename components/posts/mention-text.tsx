@@ -0,0 +1,40 @@
+import React, { useMemo } from "react";
+import { Text, type StyleProp, type TextStyle } from "react-native";
+
+import { useOpenMention } from "@/hooks/useMentions";
+import { parseMentions } from "@/lib/mentions";
+
+type MentionTextProps = {
+  children: string;
+  style?: StyleProp<TextStyle>;
+  className?: string;
+  /** Called before opening a profile (e.g. to close the hosting modal). */
+  onNavigate?: () => void;
+};
+
+/**
+ * Renders comment/response text with tappable @mentions (opens the mentioned profile).
+ */
+export function MentionText({ children, style, className, onNavigate }: MentionTextProps) {
+  const openMention = useOpenMention();
+  const segments = useMemo(() => parseMentions(children), [children]);
+
+  return (
+    <Text style={style} className={className}>
+      {segments.map((segment, index) =>
+        segment.type === "mention" ? (
+          <Text
+            key={index}
+            onPress={() => void openMention(segment.username, onNavigate)}
+            accessibilityRole="link"
+            className="text-primary"
+          >
+            {segment.text}
+          </Text>
+        ) : (
+          <Text key={index}>{segment.text}</Text>
+        )
+      )}
+    </Text>
+  );
+}
@@ -0,0 +1,80 @@
+import React from "react";
+import { ActivityIndicator, Pressable, Text, View } from "react-native";
+
+import type { OutboxEntryV1 } from "@/lib/post-outbox";
+
+function describeEntry(entry: OutboxEntryV1) {
+  if (entry.status === "sending") return "Sending…";
+  if (entry.status === "queued") {
+    return entry.attempts > 0 ? "Waiting for connection — will retry automatically" : "Queued";
+  }
+  if (entry.lastError?.includes("duplicate key")) return "You already responded to this prompt.";
+  return entry.lastError ?? "Failed to send.";
+}
+
+/**
+ * Queued/sending/failed posts for the create tab.
+ * Renders nothing when the outbox is empty.
+ */
+export function OutboxStatus({
+  entries,
+  onRetry,
+  onDiscard,
+}: {
+  entries: OutboxEntryV1[];
+  onRetry: (id: string) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}) {
+  if (entries.length === 0) return null;
+
+  return (
+    <View className="gap-2">
+      {entries.map((entry) => (
+        <View key={entry.id} className="rounded-xl border border-muted bg-card px-4 py-3">
+          <View className="flex-row items-center gap-3">
+            {entry.status === "sending" ? <ActivityIndicator size="small" /> : null}
+            <View className="flex-1">
+              <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                {entry.input.promptDate ? `Outbox • ${entry.input.promptDate}` : "Outbox"}
+              </Text>
+              <Text className="mt-1 text-sm text-foreground" numberOfLines={1}>
+                {entry.input.quote}
+              </Text>
+              <Text
+                className={[
+                  "mt-1 font-mono text-xs",
+                  entry.status === "failed" ? "text-destructive" : "text-muted-foreground",
+                ].join(" ")}
+              >
+                {describeEntry(entry)}
+              </Text>
+            </View>
+          </View>
+
+          {entry.status !== "sending" ? (
+            <View className="mt-3 flex-row gap-2">
+              <Pressable
+                onPress={() => void onRetry(entry.id)}
+                accessibilityRole="button"
+                className="rounded-lg border border-muted px-3 py-1.5"
+              >
+                <Text className="font-mono text-xs uppercase tracking-wider text-foreground">
+                  {entry.status === "failed" ? "Retry" : "Send now"}
+                </Text>
+              </Pressable>
+              {entry.status === "failed" ? (
+                <Pressable
+                  onPress={() => void onDiscard(entry.id)}
+                  accessibilityRole="button"
+                  className="rounded-lg border border-muted px-3 py-1.5"
+                >
+                  <Text className="font-mono text-xs uppercase tracking-wider text-destructive">Discard</Text>
+                </Pressable>
+              ) : null}
+            </View>
+          ) : null}
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -1,25 +1,34 @@
 import { Bookmark, Heart, MessageCircle, MoreHorizontal } from "lucide-react-native";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo, useState } from "react";
 import { ActionSheetIOS, Alert, Image, Platform, Pressable, Text, View } from "react-native";
 import { useQueryClient } from "@tanstack/react-query";
 
+import { confirmBlock } from "@/components/moderation/confirm-block";
+import { ReportSheet } from "@/components/moderation/report-sheet";
 import type { Post } from "@/components/posts/yim-post";
 import { useAuth } from "@/providers/auth-provider";
 import { supabase } from "@/lib/supabase";
 import { useEventTracking } from "@/hooks/useEventTracking";
+import { patchPostEngagement, usePostEngagement, type PostEngagement } from "@/hooks/usePostEngagement";
 import { savedPostsQueryKey } from "@/hooks/useSavedPosts";
 
-function showReportMenu(params: { onReport: () => void }) {
+// onBlock is omitted for anonymous posts (the author isn't known to the viewer).
+function showPostOptions(params: { authorLabel: string; onReport: () => void; onBlock?: () => void }) {
+  const { onBlock } = params;
+  const blockLabel = `Block ${params.authorLabel}`;
+
   if (Platform.OS === "ios") {
+    const options = onBlock ? ["Report post", blockLabel, "Cancel"] : ["Report post", "Cancel"];
     ActionSheetIOS.showActionSheetWithOptions(
       {
-        options: ["Report post", "Cancel"],
-        cancelButtonIndex: 1,
-        destructiveButtonIndex: 0,
+        options,
+        cancelButtonIndex: options.length - 1,
+        destructiveButtonIndex: onBlock ? [0, 1] : [0],
         userInterfaceStyle: "dark",
       },
       (buttonIndex) => {
         if (buttonIndex === 0) params.onReport();
+        if (buttonIndex === 1 && onBlock) onBlock();
       }
     );
     return;
@@ -27,17 +36,26 @@ function showReportMenu(params: { onReport: () => void }) {
 
   Alert.alert("Post options", undefined, [
     { text: "Report post", style: "destructive", onPress: params.onReport },
+    ...(onBlock ? [{ text: blockLabel, style: "destructive" as const, onPress: onBlock }] : []),
     { text: "Cancel", style: "cancel" },
   ]);
 }
 
 export function PostHeader({ post }: { post: Post }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isReporting, setIsReporting] = useState(false);
+  const isOwn = !!user && post.authorId === user.id;
+  // Other people's anonymous posts arrive without an authorId: reportable, not blockable.
+  const canModerate = !!user && !!post.id && !isOwn && (!!post.authorId || !!post.isAnonymous);
+
   const label = useMemo(() => {
+    if (post.isAnonymous) return "Anonymous";
     if (post.authorUsername) return post.authorUsername;
     if (post.authorLabel) return post.authorLabel;
     if (post.authorId) return `Friend ${post.authorId.slice(-4)}`;
     return "Friend";
-  }, [post.authorId, post.authorLabel, post.authorUsername]);
+  }, [post.authorId, post.authorLabel, post.authorUsername, post.isAnonymous]);
 
   return (
     <View className="mb-3 flex-row items-center justify-between">
@@ -56,24 +74,40 @@ export function PostHeader({ post }: { post: Post }) {
 
         <View className="justify-center">
           <Text className="font-body text-lg leading-5 text-foreground">{label}</Text>
+          {(post.isAnonymous && isOwn) || post.circleId || post.editedAt ? (
+            <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+              {[post.isAnonymous && isOwn ? "You" : null, post.circleId ? "Circle" : null, post.editedAt ? "Edited" : null]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          ) : null}
         </View>
       </View>
 
-      <Pressable
-        accessibilityRole="button"
-        accessibilityLabel="Post options"
-        onPress={() =>
-          showReportMenu({
-            onReport: () => {
-              if (__DEV__) console.log("[post] report", { postId: post.id, authorId: post.authorId });
-              Alert.alert("Reported", "Thanks — we’ll review this post.");
-            },
-          })
-        }
-        className="h-10 w-10 items-center justify-center"
-      >
-        <MoreHorizontal color="hsl(60 9% 98%)" size={20} />
-      </Pressable>
+      {canModerate ? (
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel="Post options"
+          onPress={() =>
+            showPostOptions({
+              authorLabel: label,
+              onReport: () => setIsReporting(true),
+              onBlock: post.authorId
+                ? () => confirmBlock({ userId: post.authorId as string, label, queryClient })
+                : undefined,
+            })
+          }
+          className="h-10 w-10 items-center justify-center"
+        >
+          <MoreHorizontal color="hsl(60 9% 98%)" size={20} />
+        </Pressable>
+      ) : null}
+
+      <ReportSheet
+        target={isReporting && post.id ? { postId: post.id } : null}
+        author={post.authorId ? { id: post.authorId, label } : null}
+        onClose={() => setIsReporting(false)}
+      />
     </View>
   );
 }
@@ -82,85 +116,16 @@ export function PostFooterActions({ post, onCommentPress }: { post: Post; onComm
   const { user } = useAuth();
   const { trackEvent } = useEventTracking();
   const queryClient = useQueryClient();
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(0);
   const [isToggling, setIsToggling] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [commentCount, setCommentCount] = useState(0);
 
-  // Fetch initial like status and count
-  useEffect(() => {
-    if (!user || !post.id) return;
+  // Shared cache entry; realtime events (`useRealtimeFeed`) patch it live.
+  const { isLiked, likeCount, isSaved, commentCount } = usePostEngagement(post.id);
 
-    async function fetchLikeStatus() {
-      try {
-        // Check if current user liked this post
-        const { data: userLike } = await supabase
-          .from("post_likes")
-          .select("id")
-          .eq("post_id", post.id)
-          .eq("user_id", user.id)
-          .maybeSingle();
-
-        setIsLiked(!!userLike);
-
-        // Get total like count
-        const { count } = await supabase
-          .from("post_likes")
-          .select("id", { count: "exact", head: true })
-          .eq("post_id", post.id);
-
-        setLikeCount(count ?? 0);
-      } catch (error) {
-        console.warn("[PostFooterActions] fetchLikeStatus failed", error);
-      }
-    }
-
-    void fetchLikeStatus();
-  }, [user, post.id]);
-
-  // Fetch initial save status
-  useEffect(() => {
+  function patchEngagement(updater: (prev: PostEngagement) => PostEngagement) {
     if (!user || !post.id) return;
-
-    async function fetchSaveStatus() {
-      try {
-        const { data } = await supabase
-          .from("post_saves")
-          .select("id")
-          .eq("post_id", post.id)
-          .eq("user_id", user.id)
-          .maybeSingle();
-
-        setIsSaved(!!data);
-      } catch (error) {
-        console.warn("[PostFooterActions] fetchSaveStatus failed", error);
-      }
-    }
-
-    void fetchSaveStatus();
-  }, [user, post.id]);
-
-  // Fetch comment count
-  useEffect(() => {
-    if (!post.id) return;
-
-    async function fetchCommentCount() {
-      try {
-        const { count } = await supabase
-          .from("post_comments")
-          .select("id", { count: "exact", head: true })
-          .eq("post_id", post.id);
-
-        setCommentCount(count ?? 0);
-      } catch (error) {
-        console.warn("[PostFooterActions] fetchCommentCount failed", error);
-      }
-    }
-
-    void fetchCommentCount();
-  }, [post.id]);
+    patchPostEngagement(queryClient, user.id, post.id, updater);
+  }
 
   async function handleLikeToggle() {
     if (!user || !post.id || isToggling) return;
@@ -177,8 +142,7 @@ export function PostFooterActions({ post, onCommentPress }: { post: Post; onComm
 
         if (error) throw error;
 
-        setIsLiked(false);
-        setLikeCount((prev) => Math.max(0, prev - 1));
+        patchEngagement((prev) => ({ ...prev, isLiked: false, likeCount: Math.max(0, prev.likeCount - 1) }));
 
         await trackEvent({
           event_type: "button_press",
@@ -194,8 +158,7 @@ export function PostFooterActions({ post, onCommentPress }: { post: Post; onComm
 
         if (error) throw error;
 
-        setIsLiked(true);
-        setLikeCount((prev) => prev + 1);
+        patchEngagement((prev) => ({ ...prev, isLiked: true, likeCount: prev.likeCount + 1 }));
 
         await trackEvent({
           event_type: "button_press",
@@ -225,7 +188,7 @@ export function PostFooterActions({ post, onCommentPress }: { post: Post; onComm
 
         if (error) throw error;
 
-        setIsSaved(false);
+        patchEngagement((prev) => ({ ...prev, isSaved: false }));
 
         // Immediately refetch saved posts to update gallery
         await queryClient.refetchQueries({ queryKey: savedPostsQueryKey(user.id) });
@@ -244,7 +207,7 @@ export function PostFooterActions({ post, onCommentPress }: { post: Post; onComm
 
         if (error) throw error;
 
-        setIsSaved(true);
+        patchEngagement((prev) => ({ ...prev, isSaved: true }));
 
         // Immediately refetch saved posts to update gallery
         await queryClient.refetchQueries({ queryKey: savedPostsQueryKey(user.id) });
@@ -3,6 +3,7 @@ import { Image, Modal, Platform, Pressable, ScrollView, Text, View } from "react
 import { SafeAreaView } from "react-native-safe-area-context";
 import { X } from "lucide-react-native";
 
+import { MentionText } from "@/components/posts/mention-text";
 import { YimPost, type Post } from "@/components/posts/yim-post";
 
 export function PostPreviewModal({
@@ -57,9 +58,13 @@ export function PostPreviewModal({
             </Text>
 
             {post.expandedText?.trim() ? (
-              <Text style={{ fontFamily: "SpaceMono", fontSize: 16, lineHeight: 22 }} className="mt-4 text-foreground">
+              <MentionText
+                style={{ fontFamily: "SpaceMono", fontSize: 16, lineHeight: 22 }}
+                className="mt-4 text-foreground"
+                onNavigate={onClose}
+              >
                 {post.expandedText}
-              </Text>
+              </MentionText>
             ) : null}
           </View>
         </ScrollView>
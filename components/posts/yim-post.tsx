@@ -33,6 +33,7 @@ export interface Post {
   fontSize?: FontSize;
   textHighlight?: TextHighlight;
   photoBackgroundUrl?: string; // Storage signed URL or public URL
+  photoBackgroundPath?: string; // storage path (lets edits keep the photo without re-uploading)
   expandedText?: string;
   authorId?: string;
   authorLabel?: string;
@@ -40,6 +41,9 @@ export interface Post {
   authorAvatarUrl?: string; // signed URL
   promptId?: string;
   promptDate?: string; // YYYY-MM-DD (Pacific prompt/cycle date)
+  editedAt?: string; // ISO timestamp of the last edit
+  circleId?: string; // shared with one of the author's circles (unset = all friends)
+  isAnonymous?: boolean; // authorId is only set when it's the viewer's own post
 }
 
 interface YimPostProps {
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from "react";
+import { ActivityIndicator, Modal, Platform, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { X } from "lucide-react-native";
+
+import { DEFAULT_TIME_ZONE, getDeviceTimeZone } from "@/lib/timezone";
+
+// Short list covering where testers actually are; the device zone is always offered on top.
+const COMMON_TIME_ZONES = [
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+/**
+ * Profile row + sheet for picking the zone the daily cycle runs in.
+ *
+ * Phases flip at 6AM in this zone; prompt dates stay shared with friends.
+ */
+export function TimeZonePicker({
+  value,
+  onSelect,
+}: {
+  value: string | null;
+  onSelect: (timeZone: string) => Promise<void>;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const deviceTimeZone = useMemo(() => getDeviceTimeZone(), []);
+  const current = value ?? DEFAULT_TIME_ZONE;
+
+  const options = useMemo(() => {
+    const list = deviceTimeZone ? [deviceTimeZone, ...COMMON_TIME_ZONES] : COMMON_TIME_ZONES;
+    return Array.from(new Set(list));
+  }, [deviceTimeZone]);
+
+  async function handleSelect(timeZone: string) {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSelect(timeZone);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("[time-zone-picker] save failed", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setIsOpen(true)}
+        accessibilityRole="button"
+        className="flex-row items-center justify-between rounded-2xl border border-muted bg-card p-4"
+      >
+        <View className="flex-1">
+          <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Time zone</Text>
+          <Text className="mt-1 font-mono text-sm text-foreground">{current.replace(/_/g, " ")}</Text>
+        </View>
+        {deviceTimeZone && deviceTimeZone !== current ? (
+          <Text className="font-mono text-[10px] uppercase tracking-wider text-primary">Device differs</Text>
+        ) : null}
+      </Pressable>
+
+      <Modal
+        visible={isOpen}
+        animationType="slide"
+        onRequestClose={() => setIsOpen(false)}
+        presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      >
+        <SafeAreaView edges={["top", "bottom"]} className="flex-1 bg-background">
+          <View className="flex-row items-center justify-between px-4 pt-4">
+            <Text className="font-display text-3xl text-foreground">Time zone</Text>
+            <Pressable
+              onPress={() => setIsOpen(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close"
+              hitSlop={12}
+              className="h-10 w-10 items-center justify-center"
+            >
+              <X color="hsl(60 9% 98%)" size={22} />
+            </Pressable>
+          </View>
+
+          <Text className="px-4 pt-2 font-mono text-xs text-muted-foreground">
+            New prompts open at 6AM in this time zone. Everyone still answers the same prompt each day.
+          </Text>
+
+          <ScrollView className="flex-1" contentContainerClassName="px-4 pt-4 pb-24">
+            {options.map((tz) => {
+              const isSelected = tz === current;
+              return (
+                <Pressable
+                  key={tz}
+                  onPress={() => void handleSelect(tz)}
+                  disabled={isSaving}
+                  accessibilityRole="button"
+                  className={[
+                    "mb-2 flex-row items-center justify-between rounded-xl border px-4 py-3",
+                    isSelected ? "border-primary bg-primary/10" : "border-muted bg-card",
+                  ].join(" ")}
+                >
+                  <Text className="font-mono text-sm text-foreground">{tz.replace(/_/g, " ")}</Text>
+                  {tz === deviceTimeZone ? (
+                    <Text className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">Device</Text>
+                  ) : null}
+                </Pressable>
+              );
+            })}
+
+            {isSaving ? (
+              <View className="mt-4 items-center">
+                <ActivityIndicator />
+              </View>
+            ) : null}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
@@ -1,25 +1,48 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { DASH_COOKIE_NAME, expectedCookieValue, getDashboardPassword } from "@/lib/auth";
+import { createSessionCookieValue, DASH_COOKIE_NAME, isAdminRole, SESSION_TTL_SECONDS } from "@/lib/auth";
+import { getSupabaseAdmin, getSupabaseAuthClient } from "@/lib/supabase-admin";
+
+// error=1: wrong email/password, error=2: not a dashboard admin (see admin_users).
+function redirectToLogin(req: NextRequest, error: "1" | "2", next: string) {
+  return NextResponse.redirect(new URL(`/?error=${error}&next=${encodeURIComponent(next)}`, req.url), { status: 303 });
+}
 
 export async function POST(req: NextRequest) {
   // Avoid relying on FormData typing in the route handler build pipeline.
   const params = new URLSearchParams(await req.text());
+  const email = (params.get("email") ?? "").trim();
   const password = params.get("password") ?? "";
   const next = params.get("next") ?? "/dashboard";
 
-  if (!password || password !== getDashboardPassword()) {
-    return NextResponse.redirect(new URL(`/?error=1&next=${encodeURIComponent(next)}`, req.url), { status: 303 });
-  }
+  if (!email || !password) return redirectToLogin(req, "1", next);
+
+  const authClient = getSupabaseAuthClient();
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!authClient || !supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  // Only used to verify the password. Don't sign out afterwards: that revokes the user's app sessions too.
+  const { data: signIn, error: signInError } = await authClient.auth.signInWithPassword({ email, password });
+  if (signInError || !signIn.user) return redirectToLogin(req, "1", next);
+
+  const { data: adminRow, error: adminError } = await supabaseAdmin
+    .from("admin_users")
+    .select("role")
+    .eq("user_id", signIn.user.id)
+    .maybeSingle();
+  if (adminError) throw new Error(adminError.message);
+  if (!adminRow || !isAdminRole(adminRow.role)) return redirectToLogin(req, "2", next);
 
   const res = NextResponse.redirect(new URL(next.startsWith("/") ? next : "/dashboard", req.url), { status: 303 });
-  res.cookies.set(DASH_COOKIE_NAME, expectedCookieValue(), {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
-    path: "/",
-    maxAge: 60 * 60 * 24 * 30, // 30 days
-  });
+  res.cookies.set(
+    DASH_COOKIE_NAME,
+    await createSessionCookieValue({ userId: signIn.user.id, email: signIn.user.email ?? email, role: adminRow.role }),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_TTL_SECONDS,
+    }
+  );
   return res;
 }
-
-
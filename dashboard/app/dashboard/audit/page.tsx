@@ -0,0 +1,112 @@
+import Link from "next/link";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+// Disable caching - always fetch fresh data
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 200;
+
+type AuditRow = {
+  id: string;
+  admin_email: string;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+};
+
+// "prompt.update" -> "prompt", used for the filter links.
+const ACTION_GROUPS = ["prompt", "override", "schedule", "notifications", "moderation"];
+
+export default async function AuditLogPage({ searchParams }: { searchParams: { action?: string; target?: string } }) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const actionGroup = ACTION_GROUPS.includes(searchParams.action ?? "") ? searchParams.action : undefined;
+  const targetId = searchParams.target?.trim() || undefined;
+
+  let query = supabaseAdmin
+    .from("admin_audit_log")
+    .select("id,admin_email,action,target_type,target_id,details,created_at")
+    .order("created_at", { ascending: false })
+    .limit(PAGE_SIZE);
+  if (actionGroup) query = query.like("action", `${actionGroup}.%`);
+  if (targetId) query = query.eq("target_id", targetId);
+
+  const { data, error } = await query;
+  const rows = (data ?? []) as AuditRow[];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Audit log</h1>
+        <p className="mt-1 text-sm text-white/60">
+          Every change made from this dashboard, newest first (last {PAGE_SIZE}).
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Link
+          href="/dashboard/audit"
+          className={`rounded-lg border px-3 py-1.5 ${!actionGroup && !targetId ? "border-white/30 bg-white/10" : "border-white/10 text-white/70 hover:bg-white/5"}`}
+        >
+          All
+        </Link>
+        {ACTION_GROUPS.map((group) => (
+          <Link
+            key={group}
+            href={`/dashboard/audit?action=${group}`}
+            className={`rounded-lg border px-3 py-1.5 ${actionGroup === group ? "border-white/30 bg-white/10" : "border-white/10 text-white/70 hover:bg-white/5"}`}
+          >
+            {group}
+          </Link>
+        ))}
+        {targetId ? <span className="text-white/60">target={targetId}</span> : null}
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Entries ({rows.length})</div>
+        {error ? (
+          <div className="px-4 py-4 text-sm text-red-200">Failed to load audit log: {error.message}</div>
+        ) : rows.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">No changes recorded yet.</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {rows.map((row) => (
+              <div key={row.id} className="px-4 py-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{row.action}</span>
+                  <span className="text-white/60">by {row.admin_email}</span>
+                  {row.target_id ? (
+                    <Link
+                      href={`/dashboard/audit?target=${encodeURIComponent(row.target_id)}`}
+                      className="text-white/60 underline underline-offset-4 hover:text-white"
+                    >
+                      {row.target_type}:{row.target_id.slice(0, 8)}
+                    </Link>
+                  ) : (
+                    <span className="text-white/60">{row.target_type}</span>
+                  )}
+                  <span className="ml-auto text-xs text-white/50">{row.created_at}</span>
+                </div>
+                {Object.keys(row.details ?? {}).length > 0 ? (
+                  <pre className="mt-2 overflow-x-auto whitespace-pre-wrap rounded-xl bg-black/40 px-3 py-2 text-xs text-white/70">
+                    {JSON.stringify(row.details, null, 2)}
+                  </pre>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getDashboardAdmin, type DashboardAdmin } from "@/lib/admin-session";
+import { ADMIN_ROLE_LABELS } from "@/lib/auth";
 
-export default function DashboardLayout({ children }: { children: React.ReactNode }) {
+export default async function DashboardLayout({ children }: { children: React.ReactNode }) {
+  // undefined: couldn't check (missing env vars; pages show their own message).
+  const admin: DashboardAdmin | null | undefined = await getDashboardAdmin().catch(() => undefined);
+  // Signed cookie, but removed from admin_users since.
+  if (admin === null) redirect("/");
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-50">
       <div className="border-b border-white/10">
@@ -16,6 +23,9 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
               <Link className="hover:text-white" href="/dashboard/window-control">
                 Window Control
               </Link>
+              <Link className="hover:text-white" href="/dashboard/schedule">
+                Schedule
+              </Link>
               <Link className="hover:text-white" href="/dashboard/implicit-metrics">
                 Implicit Metrics
               </Link>
@@ -28,9 +38,23 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
               <Link className="hover:text-white" href="/dashboard/performance">
                 Performance
               </Link>
+              <Link className="hover:text-white" href="/dashboard/notifications">
+                Notifications
+              </Link>
+              <Link className="hover:text-white" href="/dashboard/moderation">
+                Moderation
+              </Link>
+              <Link className="hover:text-white" href="/dashboard/audit">
+                Audit Log
+              </Link>
             </nav>
           </div>
-          <form action="/api/logout" method="post">
+          <form action="/api/logout" method="post" className="flex items-center gap-3">
+            {admin ? (
+              <span className="text-xs text-white/60">
+                {admin.email} • {ADMIN_ROLE_LABELS[admin.role]}
+              </span>
+            ) : null}
             <button className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10">
               Logout
             </button>
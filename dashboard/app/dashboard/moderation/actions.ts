@@ -0,0 +1,66 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { recordAdminAction, requireRole } from "@/lib/admin-session";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+type Target = { kind: "post" | "comment"; id: string };
+
+function readTarget(formData: FormData): Target {
+  const kind = String(formData.get("kind") ?? "").trim();
+  const id = String(formData.get("id") ?? "").trim();
+  if (kind !== "post" && kind !== "comment") throw new Error("kind must be post or comment");
+  if (!id) throw new Error("id is required");
+  return { kind, id };
+}
+
+function requireAdmin() {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+  return supabaseAdmin;
+}
+
+async function setHidden(target: Target, hidden: boolean) {
+  const supabaseAdmin = requireAdmin();
+  const { error } = await supabaseAdmin
+    .from(target.kind === "post" ? "yim_posts" : "post_comments")
+    .update({ hidden_at: hidden ? new Date().toISOString() : null })
+    .eq("id", target.id);
+  if (error) throw new Error(error.message);
+}
+
+async function resolveOpenReports(target: Target, status: "dismissed" | "actioned") {
+  const supabaseAdmin = requireAdmin();
+  const { error } = await supabaseAdmin
+    .from("content_reports")
+    .update({ status, reviewed_at: new Date().toISOString() })
+    .eq(target.kind === "post" ? "post_id" : "comment_id", target.id)
+    .eq("status", "open");
+  if (error) throw new Error(error.message);
+}
+
+// Hide from everyone but the author and close its open reports.
+export async function hideContent(formData: FormData) {
+  const admin = await requireRole("operator");
+  const target = readTarget(formData);
+  await setHidden(target, true);
+  await resolveOpenReports(target, "actioned");
+  await recordAdminAction(admin, { action: "moderation.hide", targetType: target.kind, targetId: target.id });
+  revalidatePath("/dashboard/moderation");
+}
+
+export async function dismissReports(formData: FormData) {
+  const admin = await requireRole("operator");
+  const target = readTarget(formData);
+  await resolveOpenReports(target, "dismissed");
+  await recordAdminAction(admin, { action: "moderation.dismiss", targetType: target.kind, targetId: target.id });
+  revalidatePath("/dashboard/moderation");
+}
+
+export async function unhideContent(formData: FormData) {
+  const admin = await requireRole("operator");
+  const target = readTarget(formData);
+  await setHidden(target, false);
+  await recordAdminAction(admin, { action: "moderation.unhide", targetType: target.kind, targetId: target.id });
+  revalidatePath("/dashboard/moderation");
+}
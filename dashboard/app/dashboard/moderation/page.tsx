@@ -0,0 +1,243 @@
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { dismissReports, hideContent, unhideContent } from "./actions";
+
+// Disable caching - always fetch fresh data
+export const dynamic = "force-dynamic";
+
+type ReportRow = {
+  id: string;
+  reported_user_id: string | null;
+  post_id: string | null;
+  comment_id: string | null;
+  reason: string;
+  details: string | null;
+  created_at: string;
+};
+
+type PostRow = { id: string; author_id: string; quote: string; expanded_text: string | null; hidden_at: string | null };
+type CommentRow = { id: string; user_id: string; content: string; hidden_at: string | null };
+type ProfileRow = { id: string; username: string | null };
+
+type QueueItem = {
+  kind: "post" | "comment";
+  id: string;
+  authorId: string | null;
+  reports: ReportRow[]; // newest first
+};
+
+function TargetForm({
+  action,
+  item,
+  label,
+  primary = false,
+}: {
+  action: (formData: FormData) => Promise<void>;
+  item: { kind: "post" | "comment"; id: string };
+  label: string;
+  primary?: boolean;
+}) {
+  return (
+    <form action={action}>
+      <input type="hidden" name="kind" value={item.kind} />
+      <input type="hidden" name="id" value={item.id} />
+      <button
+        className={
+          primary
+            ? "rounded-xl bg-white px-4 py-2 text-sm font-medium text-black"
+            : "rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+        }
+      >
+        {label}
+      </button>
+    </form>
+  );
+}
+
+export default async function ModerationPage() {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("content_reports")
+    .select("id,reported_user_id,post_id,comment_id,reason,details,created_at")
+    .eq("status", "open")
+    .order("created_at", { ascending: false })
+    .limit(500);
+
+  const reports = (data ?? []) as ReportRow[];
+
+  // One queue item per reported post/comment, most reported first.
+  const itemsByKey = new Map<string, QueueItem>();
+  for (const report of reports) {
+    const kind = report.post_id ? "post" : "comment";
+    const id = (report.post_id ?? report.comment_id) as string;
+    const key = `${kind}:${id}`;
+    const item = itemsByKey.get(key) ?? { kind, id, authorId: report.reported_user_id, reports: [] };
+    item.reports.push(report);
+    itemsByKey.set(key, item);
+  }
+  const queue = Array.from(itemsByKey.values()).sort((a, b) => b.reports.length - a.reports.length);
+
+  const [{ data: hiddenPostsData }, { data: hiddenCommentsData }] = await Promise.all([
+    supabaseAdmin
+      .from("yim_posts")
+      .select("id,author_id,quote,expanded_text,hidden_at")
+      .not("hidden_at", "is", null)
+      .order("hidden_at", { ascending: false })
+      .limit(25),
+    supabaseAdmin
+      .from("post_comments")
+      .select("id,user_id,content,hidden_at")
+      .not("hidden_at", "is", null)
+      .order("hidden_at", { ascending: false })
+      .limit(25),
+  ]);
+  const hiddenPosts = (hiddenPostsData ?? []) as PostRow[];
+  const hiddenComments = (hiddenCommentsData ?? []) as CommentRow[];
+
+  const postIds = queue.filter((i) => i.kind === "post").map((i) => i.id);
+  const commentIds = queue.filter((i) => i.kind === "comment").map((i) => i.id);
+
+  const [{ data: postsData }, { data: commentsData }] = await Promise.all([
+    postIds.length > 0
+      ? supabaseAdmin.from("yim_posts").select("id,author_id,quote,expanded_text,hidden_at").in("id", postIds)
+      : Promise.resolve({ data: [] }),
+    commentIds.length > 0
+      ? supabaseAdmin.from("post_comments").select("id,user_id,content,hidden_at").in("id", commentIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+  const postById = new Map(((postsData ?? []) as PostRow[]).map((p) => [p.id, p]));
+  const commentById = new Map(((commentsData ?? []) as CommentRow[]).map((c) => [c.id, c]));
+
+  const authorIds = Array.from(
+    new Set([
+      ...queue.map((i) => i.authorId),
+      ...hiddenPosts.map((p) => p.author_id),
+      ...hiddenComments.map((c) => c.user_id),
+    ])
+  ).filter((id): id is string => !!id);
+
+  const usernameById = new Map<string, string>();
+  if (authorIds.length > 0) {
+    const { data: profiles } = await supabaseAdmin.from("profiles").select("id,username").in("id", authorIds);
+    for (const p of (profiles ?? []) as ProfileRow[]) {
+      if (p.username) usernameById.set(p.id, p.username);
+    }
+  }
+
+  const authorLabel = (id: string | null) => (id ? `@${usernameById.get(id) ?? id.slice(0, 8)}` : "deleted user");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Moderation</h1>
+        <p className="mt-1 text-sm text-white/60">
+          Open reports from the app, grouped by post or comment. Hiding removes it for everyone but its author and
+          closes its reports.
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Open reports ({reports.length})</div>
+        {error ? (
+          <div className="px-4 py-4 text-sm text-red-200">Failed to load reports: {error.message}</div>
+        ) : queue.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">Nothing to review.</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {queue.map((item) => {
+              const post = item.kind === "post" ? postById.get(item.id) : undefined;
+              const comment = item.kind === "comment" ? commentById.get(item.id) : undefined;
+              const text = post ? post.quote : comment?.content;
+              const isHidden = !!(post?.hidden_at ?? comment?.hidden_at);
+
+              const reasonCounts = new Map<string, number>();
+              for (const r of item.reports) reasonCounts.set(r.reason, (reasonCounts.get(r.reason) ?? 0) + 1);
+
+              return (
+                <div key={`${item.kind}:${item.id}`} className="flex flex-wrap items-start justify-between gap-4 px-4 py-4 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.kind}</span>
+                      <span className="text-white/60">{authorLabel(item.authorId)}</span>
+                      <span className="rounded-full border border-red-500/30 bg-red-500/10 px-2 py-0.5 text-[10px] text-red-200">
+                        {item.reports.length} {item.reports.length === 1 ? "report" : "reports"}
+                      </span>
+                      {isHidden ? (
+                        <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[10px] text-white/70">
+                          hidden
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="mt-2 whitespace-pre-wrap text-white/90">{text ?? <span className="text-white/40">Deleted</span>}</div>
+                    {post?.expanded_text ? (
+                      <div className="mt-1 line-clamp-3 whitespace-pre-wrap text-xs text-white/60">{post.expanded_text}</div>
+                    ) : null}
+                    <div className="mt-2 text-xs text-white/60">
+                      {Array.from(reasonCounts, ([reason, count]) => `${reason} × ${count}`).join(" • ")} • latest=
+                      {item.reports[0].created_at}
+                    </div>
+                    {item.reports
+                      .filter((r) => r.details)
+                      .slice(0, 3)
+                      .map((r) => (
+                        <div key={r.id} className="mt-1 text-xs text-white/60">
+                          “{r.details}”
+                        </div>
+                      ))}
+                  </div>
+
+                  <div className="flex gap-2">
+                    {text && !isHidden ? <TargetForm action={hideContent} item={item} label="Hide" primary /> : null}
+                    <TargetForm action={dismissReports} item={item} label="Dismiss" />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Recently hidden</div>
+        {hiddenPosts.length + hiddenComments.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">Nothing hidden.</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {[
+              ...hiddenPosts.map((p) => ({ kind: "post" as const, id: p.id, authorId: p.author_id, text: p.quote, hiddenAt: p.hidden_at })),
+              ...hiddenComments.map((c) => ({
+                kind: "comment" as const,
+                id: c.id,
+                authorId: c.user_id,
+                text: c.content,
+                hiddenAt: c.hidden_at,
+              })),
+            ]
+              .sort((a, b) => String(b.hiddenAt).localeCompare(String(a.hiddenAt)))
+              .map((item) => (
+                <div key={`${item.kind}:${item.id}`} className="flex items-start justify-between gap-4 px-4 py-4 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.kind}</span>
+                      <span className="text-white/60">{authorLabel(item.authorId)}</span>
+                    </div>
+                    <div className="mt-1 truncate text-white/80">{item.text}</div>
+                    <div className="mt-1 text-xs text-white/60">hidden_at={item.hiddenAt}</div>
+                  </div>
+                  <TargetForm action={unhideContent} item={item} label="Unhide" />
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
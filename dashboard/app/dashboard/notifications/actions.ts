@@ -0,0 +1,39 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { recordAdminAction, requireRole } from "@/lib/admin-session";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+const DRY_RUN_TRIGGERS = new Set(["hourly", "6am", "6pm"]);
+
+async function invokeSendNotifications(body: Record<string, string>) {
+  const admin = await requireRole("operator");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const { error } = await supabaseAdmin.functions.invoke("send-notifications", { body });
+  if (error) throw new Error(error.message);
+
+  await recordAdminAction(admin, {
+    action: body.dry_run ? "notifications.dry_run" : "notifications.resend",
+    targetType: "notification_runs",
+    targetId: body.run_id ?? null,
+    details: body,
+  });
+
+  revalidatePath("/dashboard/notifications");
+}
+
+export async function resendToFailed(formData: FormData) {
+  const run_id = String(formData.get("run_id") ?? "").trim();
+  if (!run_id) throw new Error("run_id is required");
+
+  await invokeSendNotifications({ trigger_time: "resend", run_id });
+}
+
+export async function dryRunNotifications(formData: FormData) {
+  const trigger_time = String(formData.get("trigger_time") ?? "hourly").trim();
+  if (!DRY_RUN_TRIGGERS.has(trigger_time)) throw new Error("trigger_time must be hourly, 6am or 6pm");
+
+  await invokeSendNotifications({ trigger_time, dry_run: "1" });
+}
@@ -0,0 +1,164 @@
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { dryRunNotifications, resendToFailed } from "./actions";
+
+// Disable caching - always fetch fresh data
+export const dynamic = "force-dynamic";
+
+type RunRow = {
+  id: string;
+  cycle_date: string;
+  notification_type: string;
+  dry_run: boolean;
+  status: "running" | "completed" | "failed";
+  trigger_time: string | null;
+  invocations: number;
+  recipient_count: number;
+  sent_count: number;
+  failed_count: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+const STATUS_CLASS: Record<RunRow["status"], string> = {
+  running: "border-amber-400/30 bg-amber-400/10 text-amber-200",
+  completed: "border-emerald-400/30 bg-emerald-400/10 text-emerald-200",
+  failed: "border-red-500/30 bg-red-500/10 text-red-200",
+};
+
+export default async function NotificationsPage() {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("notification_runs")
+    .select(
+      "id,cycle_date,notification_type,dry_run,status,trigger_time,invocations,recipient_count,sent_count,failed_count,error,started_at,finished_at"
+    )
+    .order("started_at", { ascending: false })
+    .limit(50);
+
+  const runs = (data ?? []) as RunRow[];
+
+  // Most common recipient errors for the failed runs on this page.
+  const failedRunIds = runs.filter((r) => r.failed_count > 0).map((r) => r.id);
+  const errorsByRun = new Map<string, Array<{ error: string; count: number }>>();
+  if (failedRunIds.length > 0) {
+    const { data: failedRows } = await supabaseAdmin
+      .from("notification_run_recipients")
+      .select("run_id,error")
+      .in("run_id", failedRunIds)
+      .eq("status", "failed")
+      .limit(5000);
+
+    const counts = new Map<string, Map<string, number>>();
+    for (const row of failedRows ?? []) {
+      const byError = counts.get(row.run_id) ?? new Map<string, number>();
+      const key = row.error ?? "Unknown";
+      byError.set(key, (byError.get(key) ?? 0) + 1);
+      counts.set(row.run_id, byError);
+    }
+    for (const [runId, byError] of counts) {
+      errorsByRun.set(
+        runId,
+        Array.from(byError, ([err, count]) => ({ error: err, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 3)
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Notifications</h1>
+        <p className="mt-1 text-sm text-white/60">
+          Phase push runs from <code className="rounded bg-white/10 px-1 py-0.5">send-notifications</code>, one per
+          cycle date + notification type. Reruns only reach tokens the run hasn&apos;t claimed yet.
+        </p>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <div className="text-sm font-medium">Dry run</div>
+        <form action={dryRunNotifications} className="mt-3 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-white/60">Trigger</div>
+            <select
+              name="trigger_time"
+              defaultValue="hourly"
+              className="mt-1 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+            >
+              <option value="hourly">hourly (what cron would send now)</option>
+              <option value="6am">6am (forced)</option>
+              <option value="6pm">6pm (forced)</option>
+            </select>
+          </label>
+          <button className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black">Run</button>
+        </form>
+        <div className="mt-2 text-xs text-white/60">Records who would be notified without claiming or sending.</div>
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Recent runs</div>
+        {error ? (
+          <div className="px-4 py-4 text-sm text-red-200">Failed to load runs: {error.message}</div>
+        ) : runs.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">No runs yet.</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {runs.map((run) => (
+              <div key={run.id} className="flex flex-wrap items-start justify-between gap-4 px-4 py-4 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{run.notification_type}</span>
+                    <span className="text-white/60">{run.cycle_date}</span>
+                    <span className={`rounded-full border px-2 py-0.5 text-[10px] ${STATUS_CLASS[run.status]}`}>
+                      {run.status}
+                    </span>
+                    {run.dry_run ? (
+                      <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[10px] text-white/70">
+                        dry run
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="mt-1 text-xs text-white/60">
+                    recipients={run.recipient_count}
+                    {run.dry_run ? null : (
+                      <>
+                        {" "}
+                        • sent={run.sent_count} • failed={run.failed_count} • invocations={run.invocations}
+                      </>
+                    )}{" "}
+                    • trigger={run.trigger_time ?? "—"} • started_at={run.started_at}
+                  </div>
+                  {run.error ? <div className="mt-1 text-xs text-red-200">{run.error}</div> : null}
+                  {errorsByRun.get(run.id)?.map((e) => (
+                    <div key={e.error} className="mt-1 text-xs text-white/60">
+                      {e.error} × {e.count}
+                    </div>
+                  ))}
+                </div>
+
+                {!run.dry_run && run.failed_count > 0 && run.status !== "running" ? (
+                  <form action={resendToFailed}>
+                    <input type="hidden" name="run_id" value={run.id} />
+                    <button className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/80 hover:bg-white/10">
+                      Resend to failed ({run.failed_count})
+                    </button>
+                  </form>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
+import { PromptApprovalBanner } from "@/components/prompt-approval-banner";
+
+// Disable caching - the approval warning must be current
+export const dynamic = "force-dynamic";
+
 export default function DashboardHome() {
   return (
     <div className="space-y-4">
       <h1 className="text-xl font-semibold">Dashboard</h1>
+      <PromptApprovalBanner />
       <p className="text-sm text-white/70">
         Use the nav to manage prompts, force open/close prompt windows for a user, and review alpha metrics.
       </p>
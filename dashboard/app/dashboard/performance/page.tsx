@@ -196,6 +196,33 @@ export default async function PerformancePage() {
   const wouldShareCount = (shareFeedback ?? []).filter((f: { would_share: boolean | null }) => f.would_share === true).length;
   const questionSharingRate = totalShareFeedback > 0 ? (((wouldShareCount / totalShareFeedback) * 100).toFixed(1)) : "0.0";
 
+  // 7. Push delivery (7d): settled by check-push-receipts; pending = receipt not checked yet
+  const { data: pushDeliveries } = await supabaseAdmin
+    .from("push_deliveries")
+    .select("source,status,error")
+    .gte("created_at", isoSince(7))
+    .limit(50000);
+
+  const pushStats = { total: 0, delivered: 0, failed: 0, expired: 0, pending: 0 };
+  const pushBySource = new Map<string, { delivered: number; settled: number }>();
+  const pushErrorCounts = new Map<string, number>();
+  for (const d of pushDeliveries ?? []) {
+    pushStats.total++;
+    pushStats[d.status]++;
+    if (d.status === "pending") continue;
+    const bySource = pushBySource.get(d.source) ?? { delivered: 0, settled: 0 };
+    bySource.settled++;
+    if (d.status === "delivered") bySource.delivered++;
+    pushBySource.set(d.source, bySource);
+    if (d.status === "failed") pushErrorCounts.set(d.error ?? "Unknown", (pushErrorCounts.get(d.error ?? "Unknown") ?? 0) + 1);
+  }
+
+  const pushSettled = pushStats.delivered + pushStats.failed + pushStats.expired;
+  const pushDeliveryRate = pushSettled > 0 ? ((pushStats.delivered / pushSettled) * 100).toFixed(1) : "—";
+  const topPushErrors = Array.from(pushErrorCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5);
+
   return (
     <div className="space-y-6">
       <div>
@@ -303,6 +330,55 @@ export default async function PerformancePage() {
         </div>
       </div>
 
+      {/* Push delivery */}
+      <div>
+        <h2 className="mb-4 text-lg font-semibold">Push delivery (7d)</h2>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+            <div className="text-xs text-white/60">Delivery rate</div>
+            <div className="mt-1 text-2xl font-semibold">{pushDeliveryRate === "—" ? "—" : `${pushDeliveryRate}%`}</div>
+            <div className="mt-2 text-xs text-white/50">
+              {pushStats.delivered} of {pushSettled} settled pushes delivered ({pushStats.pending} awaiting receipts)
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+            <div className="text-xs text-white/60">By source</div>
+            <div className="mt-2 space-y-1 text-sm text-white/80">
+              {pushBySource.size === 0 ? (
+                <div className="text-white/50">No settled pushes yet.</div>
+              ) : (
+                Array.from(pushBySource.entries()).map(([source, v]) => (
+                  <div key={source} className="flex justify-between gap-3">
+                    <span>{source === "phase" ? "Phase messages" : source === "admin" ? "Admin alerts" : "Activity"}</span>
+                    <span className="text-white/60">
+                      {((v.delivered / v.settled) * 100).toFixed(1)}% of {v.settled}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+            <div className="text-xs text-white/60">Failures</div>
+            <div className="mt-1 text-2xl font-semibold">{pushStats.failed + pushStats.expired}</div>
+            <div className="mt-2 space-y-1 text-xs text-white/50">
+              {topPushErrors.length === 0 ? (
+                <div>No failed receipts.</div>
+              ) : (
+                topPushErrors.map(([error, count]) => (
+                  <div key={error}>
+                    {error}: {count}
+                  </div>
+                ))
+              )}
+              {pushStats.expired > 0 ? <div>Expired (no receipt): {pushStats.expired}</div> : null}
+            </div>
+          </div>
+        </div>
+      </div>
+
       <div className="overflow-hidden rounded-2xl border border-white/10">
         <div className="bg-white/5 px-4 py-3 text-sm font-medium">Latest prompt responses</div>
         <div className="divide-y divide-white/10">
@@ -1,7 +1,25 @@
 import Link from "next/link";
+import { getDashboardAdmin } from "@/lib/admin-session";
+import { hasRole } from "@/lib/auth";
 import { getSupabaseAdmin } from "@/lib/supabase-admin";
-import { updatePrompt } from "../actions";
+import { approvePrompt, returnPromptToDraft, submitPromptForReview, updatePrompt } from "../actions";
 import { PromptPreview } from "@/components/prompt-preview";
+import { PromptStatusBadge } from "@/components/prompt-status-badge";
+import {
+  PROMPT_VERSION_EVENT_LABELS,
+  diffPromptVersions,
+  getCurrentCycleDate,
+  isPromptStatus,
+  type PromptStatus,
+  type PromptVersion,
+} from "@/lib/prompt-review";
+import {
+  formatMinutes,
+  formatNumber,
+  formatPercent,
+  loadPromptMetrics,
+  type PromptMetrics,
+} from "@/lib/prompt-metrics";
 
 type PromptRow = {
   id: string | number;
@@ -10,8 +28,55 @@ type PromptRow = {
   prompt_date: string;
   theme: string | null;
   display_order: number | null;
+  force_anonymous: boolean;
+  status: string;
+  review_note: string | null;
+  approved_at: string | null;
 };
 
+// Newest first; older versions are still in daily_prompt_versions.
+const VERSION_HISTORY_LIMIT = 50;
+
+const STATUS_HELP: Record<PromptStatus, string> = {
+  draft: "Not shown in the app. Submit it for review when it's ready.",
+  in_review: "Waiting for an operator to approve it.",
+  approved: "Shown in the app on its date.",
+};
+
+function ReviewForm({
+  action,
+  id,
+  label,
+  primary,
+}: {
+  action: (formData: FormData) => Promise<void>;
+  id: string;
+  label: string;
+  primary?: boolean;
+}) {
+  return (
+    <form action={action} className="flex flex-1 flex-col gap-2">
+      <input type="hidden" name="id" value={id} />
+      <input
+        name="note"
+        placeholder="Note (optional)"
+        className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+      />
+      <div>
+        <button
+          className={
+            primary
+              ? "rounded-xl bg-white px-4 py-2 text-sm font-medium text-black"
+              : "rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10"
+          }
+        >
+          {label}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 export default async function PromptDetailPage({ params }: { params: { id: string } }) {
   const id = decodeURIComponent(params.id);
 
@@ -27,7 +92,7 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
 
   const { data, error } = await supabaseAdmin
     .from("daily_prompts")
-    .select("id,prompt_text,explanation_text,prompt_date,theme,display_order")
+    .select("id,prompt_text,explanation_text,prompt_date,theme,display_order,force_anonymous,status,review_note,approved_at")
     .eq("id", id)
     .maybeSingle();
 
@@ -51,6 +116,47 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
   }
 
   const prompt = data as PromptRow;
+  const status: PromptStatus = isPromptStatus(prompt.status) ? prompt.status : "draft";
+  const promptId = String(prompt.id);
+
+  const [admin, { data: versionData, error: versionsError }, today] = await Promise.all([
+    getDashboardAdmin(),
+    supabaseAdmin
+      .from("daily_prompt_versions")
+      .select("id,version,event,status,prompt_text,explanation_text,theme,force_anonymous,prompt_date,note,edited_by_email,created_at")
+      .eq("prompt_id", promptId)
+      .order("version", { ascending: false })
+      .limit(VERSION_HISTORY_LIMIT),
+    getCurrentCycleDate(supabaseAdmin).catch(() => null),
+  ]);
+  const isOperator = !!admin && hasRole(admin.role, "operator");
+  const canEdit = !!admin && hasRole(admin.role, "prompt_editor");
+  const isLive = !!today && prompt.prompt_date <= today;
+  const versions = (versionData ?? []) as PromptVersion[];
+
+  // Empty until the prompt's posting day starts; a failure shouldn't block editing.
+  let metrics: PromptMetrics | null = null;
+  let metricsError: string | null = null;
+  try {
+    metrics = (await loadPromptMetrics({ promptId: String(prompt.id) }))[0] ?? null;
+  } catch (err) {
+    metricsError = err instanceof Error ? err.message : String(err);
+  }
+
+  const metricTiles: Array<{ label: string; value: string; detail?: string }> = metrics
+    ? [
+        {
+          label: "Response rate",
+          value: formatPercent(metrics.responseRate),
+          detail: `${metrics.responders} of ${metrics.active_users} active users`,
+        },
+        { label: "Median post time", value: formatMinutes(metrics.minutes_after_window_open_median), detail: "after the posting window opened" },
+        { label: "Avg rating", value: formatNumber(metrics.avg_rating, 2), detail: `n=${metrics.rating_count}` },
+        { label: "Would share", value: formatPercent(metrics.wouldSharePct), detail: `n=${metrics.would_share_count}` },
+        { label: "Avg post length", value: `${formatNumber(metrics.avg_word_count)} words` },
+        { label: "Likes / comments", value: `${metrics.likes} / ${metrics.comments}`, detail: "received by responses" },
+      ]
+    : [];
 
   return (
     <div className="space-y-6">
@@ -64,6 +170,39 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
         </Link>
       </div>
 
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <div className="flex items-center gap-3">
+          <div className="text-sm font-medium">Review</div>
+          <PromptStatusBadge status={status} />
+        </div>
+        <div className="mt-2 text-sm text-white/70">
+          {STATUS_HELP[status]}
+          {status === "approved" && prompt.approved_at ? ` Approved ${new Date(prompt.approved_at).toLocaleString()}.` : ""}
+        </div>
+        {prompt.review_note ? <div className="mt-2 text-sm text-white/70">Note: {prompt.review_note}</div> : null}
+        {isLive ? (
+          <div className="mt-2 text-sm text-amber-200">
+            {status === "approved"
+              ? "This prompt is live. Edits stay approved and only operators can make them."
+              : "This prompt's day has started but it isn't approved, so users see no prompt."}
+          </div>
+        ) : status === "approved" ? (
+          <div className="mt-2 text-xs text-white/50">Saving an edit sends it back to draft until it is approved again.</div>
+        ) : null}
+
+        <div className="mt-3 flex flex-col gap-3 md:flex-row">
+          {status === "draft" && canEdit ? (
+            <ReviewForm action={submitPromptForReview} id={promptId} label="Submit for review" primary={!isOperator} />
+          ) : null}
+          {status !== "approved" && isOperator ? (
+            <ReviewForm action={approvePrompt} id={promptId} label="Approve" primary />
+          ) : null}
+          {(status === "in_review" && canEdit) || (status === "approved" && isOperator) ? (
+            <ReviewForm action={returnPromptToDraft} id={promptId} label="Return to draft" />
+          ) : null}
+        </div>
+      </div>
+
       <div className="grid gap-4 lg:grid-cols-2">
         <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
           <div className="text-sm font-medium">Details</div>
@@ -86,7 +225,13 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
                 disabled
                 className="mt-1 w-full cursor-not-allowed rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm text-white/70 outline-none"
               />
-              <div className="mt-1 text-xs text-white/50">Auto-managed by the queue (edit is disabled).</div>
+              <div className="mt-1 text-xs text-white/50">
+                Auto-managed by the queue. Use the{" "}
+                <Link className="underline underline-offset-4" href="/dashboard/prompts/calendar">
+                  calendar
+                </Link>{" "}
+                to move it to a specific date.
+              </div>
             </label>
             <label className="text-sm">
               <div className="text-xs text-white/60">Explanation (optional)</div>
@@ -114,6 +259,15 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
                 className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
               />
             </label>
+            <label className="flex items-start gap-2 text-sm">
+              <input type="checkbox" name="force_anonymous" defaultChecked={prompt.force_anonymous} className="mt-1" />
+              <div>
+                <div>Anonymous responses</div>
+                <div className="text-xs text-white/50">
+                  Every response is posted without a name. Posts already made keep their setting.
+                </div>
+              </div>
+            </label>
             <div>
               <button className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black">Save</button>
             </div>
@@ -136,6 +290,88 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
           </div>
         </div>
       </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium">Performance</div>
+          <Link className="text-xs text-white/60 underline underline-offset-4" href="/dashboard/prompts/analytics">
+            Compare prompts
+          </Link>
+        </div>
+        {metricsError ? (
+          <div className="mt-3 text-sm text-red-200">Failed to load metrics: {metricsError}</div>
+        ) : !metrics ? (
+          <div className="mt-3 text-sm text-white/60">No data yet: this prompt&apos;s posting day hasn&apos;t started.</div>
+        ) : (
+          <>
+            <div className="mt-3 grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+              {metricTiles.map((tile) => (
+                <div key={tile.label} className="rounded-xl border border-white/10 bg-black/20 p-3">
+                  <div className="text-xs text-white/60">{tile.label}</div>
+                  <div className="mt-1 text-lg font-semibold">{tile.value}</div>
+                  {tile.detail ? <div className="text-xs text-white/50">{tile.detail}</div> : null}
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 text-xs text-white/50">
+              Response window {new Date(metrics.window_start).toISOString()} → {new Date(metrics.window_end).toISOString()}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Version history</div>
+        {versionsError ? (
+          <div className="px-4 py-3 text-sm text-red-200">Failed to load versions: {versionsError.message}</div>
+        ) : versions.length === 0 ? (
+          <div className="px-4 py-3 text-sm text-white/60">No versions recorded.</div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {versions.map((v, idx) => {
+              const previous = versions[idx + 1];
+              const changes = previous ? diffPromptVersions(previous, v) : [];
+              return (
+                <div key={v.id} className="px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">v{v.version}</span>
+                    <span className="text-white/80">{PROMPT_VERSION_EVENT_LABELS[v.event] ?? v.event}</span>
+                    {isPromptStatus(v.status) ? <PromptStatusBadge status={v.status} /> : null}
+                    <span className="text-xs text-white/50">
+                      {new Date(v.created_at).toLocaleString()} • {v.edited_by_email ?? "unknown"}
+                    </span>
+                  </div>
+                  {v.note ? <div className="mt-1 text-xs text-white/70">Note: {v.note}</div> : null}
+                  {!previous && v.event === "created" ? (
+                    <div className="mt-1 text-xs text-white/60">{v.prompt_text}</div>
+                  ) : null}
+                  {changes.map((change) => (
+                    <div key={change.field} className="mt-2">
+                      <div className="text-xs text-white/50">{change.label}</div>
+                      <div className="mt-1 whitespace-pre-wrap rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-xs">
+                        {change.segments.map((seg, i) => (
+                          <span
+                            key={i}
+                            className={
+                              seg.kind === "added"
+                                ? "bg-emerald-400/20 text-emerald-100"
+                                : seg.kind === "removed"
+                                  ? "bg-red-500/20 text-red-200 line-through"
+                                  : "text-white/70"
+                            }
+                          >
+                            {seg.text}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -1,5 +1,16 @@
 "use server";
 
+import { recordAdminAction, requireRole, type DashboardAdmin } from "@/lib/admin-session";
+import { hasRole } from "@/lib/auth";
+import {
+  parsePromptBank,
+  planPromptImport,
+  type BankPrompt,
+  type PromptBankFormat,
+  type PromptImportPlan,
+  validateFormattedText,
+} from "@/lib/prompt-bank";
+import { PROMPT_STATUS_LABELS, getCurrentCycleDate, isPromptStatus, type PromptStatus } from "@/lib/prompt-review";
 import { getSupabaseAdmin } from "@/lib/supabase-admin";
 import { revalidatePath } from "next/cache";
 
@@ -15,6 +26,11 @@ function normalizeNumber(v: FormDataEntryValue | null): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
+// Unchecked checkboxes are missing from the form data entirely.
+function normalizeCheckbox(v: FormDataEntryValue | null): boolean {
+  return v !== null && String(v) !== "" && String(v) !== "off";
+}
+
 function formatISODateUTC(d: Date): string {
   // daily_prompts.prompt_date is stored as YYYY-MM-DD
   return d.toISOString().slice(0, 10);
@@ -28,77 +44,80 @@ function addDaysToISODate(dateYYYYMMDD: string, days: number): string {
   return formatISODateUTC(next);
 }
 
+const LIVE_EDIT_MESSAGE = "This prompt is already live. Only operators can edit it.";
+
+// The prompt RPCs raise a short code with the readable message in `detail`.
+function rpcErrorMessage(error: { message: string; details?: string | null }) {
+  return error.details || error.message;
+}
+
 export async function reorderPrompts(orderedIds: string[]) {
+  const admin = await requireRole("prompt_editor");
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
 
   const ids = (orderedIds ?? []).map((x) => String(x)).filter(Boolean);
   if (ids.length === 0) return;
 
-  // prompt_date has a UNIQUE constraint, so swapping dates can fail if we update directly.
-  // Do a 2-phase update:
-  // 1) move affected rows to temporary unique prompt_date + display_order values
-  // 2) assign final (baseDate + idx) dates + display_order
-  const [
-    { data: minDateRows, error: minDateError },
-    { data: maxDateRows, error: maxDateError },
-    { data: maxOrderRows, error: maxOrderError },
-  ] = await Promise.all([
-    // Determine queue start date (earliest prompt_date among the prompts being reordered).
-    supabaseAdmin
-      .from("daily_prompts")
-      .select("prompt_date")
-      .in("id", ids)
-      .order("prompt_date", { ascending: true })
-      .limit(1),
-    // Determine current max prompt_date overall so we can choose temp dates that can't collide.
-    supabaseAdmin.from("daily_prompts").select("prompt_date").order("prompt_date", { ascending: false }).limit(1),
-    // Determine max display_order so we can choose temp order values that can't collide.
-    supabaseAdmin.from("daily_prompts").select("display_order").order("display_order", { ascending: false }).limit(1),
-  ]);
-  if (minDateError) throw new Error(minDateError.message);
-  if (maxDateError) throw new Error(maxDateError.message);
-  if (maxOrderError) throw new Error(maxOrderError.message);
+  // One statement in Postgres: consecutive dates from the earliest date among them, display_order 1..n.
+  // Changing a live (today's or a past) date is for operators, as with editing a live prompt.
+  const { error } = await supabaseAdmin.rpc("reorder_daily_prompts", {
+    p_prompt_ids: ids,
+    p_allow_live: hasRole(admin.role, "operator"),
+  });
+  if (error) throw new Error(rpcErrorMessage(error));
 
-  const baseDate =
-    (minDateRows?.[0]?.prompt_date ?? "").trim() || addDaysToISODate(formatISODateUTC(new Date()), 1);
-
-  const maxDate = (maxDateRows?.[0]?.prompt_date ?? "").trim() || formatISODateUTC(new Date());
-  // Push temp dates well beyond any real scheduled prompts (10y buffer) to avoid UNIQUE collisions.
-  const tempBase = addDaysToISODate(maxDate, 3650);
-
-  const maxOrderRaw = maxOrderRows?.[0]?.display_order ?? null;
-  const maxOrder = typeof maxOrderRaw === "number" && Number.isFinite(maxOrderRaw) ? maxOrderRaw : 0;
-  // Push temp display_order beyond any real orders to avoid UNIQUE collisions during the swap.
-  const tempOrderBase = maxOrder + 1000;
-
-  for (let idx = 0; idx < ids.length; idx++) {
-    const id = ids[idx];
-    const { error } = await supabaseAdmin
-      .from("daily_prompts")
-      .update({ prompt_date: addDaysToISODate(tempBase, idx), display_order: tempOrderBase + idx + 1 })
-      .eq("id", id);
-    if (error) throw new Error(error.message);
-  }
+  await recordAdminAction(admin, {
+    action: "prompt.reorder",
+    targetType: "daily_prompts",
+    details: { ordered_ids: ids },
+  });
 
-  for (let idx = 0; idx < ids.length; idx++) {
-    const id = ids[idx];
-    const { error } = await supabaseAdmin
-      .from("daily_prompts")
-      .update({ display_order: idx + 1, prompt_date: addDaysToISODate(baseDate, idx) })
-      .eq("id", id);
-    if (error) throw new Error(error.message);
-  }
+  revalidatePath("/dashboard/prompts");
+  revalidatePath("/dashboard/prompts/calendar");
+}
+
+/**
+ * Calendar drag-to-date. Swaps with the prompt already on that date, if any, and renumbers
+ * display_order by date. Only operators can move a prompt off or onto a live date.
+ */
+export async function movePromptToDate(id: string, date: string) {
+  const admin = await requireRole("prompt_editor");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const promptId = String(id ?? "").trim();
+  if (!promptId) throw new Error("Missing prompt id");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid prompt_date: ${date}`);
+
+  const { data, error } = await supabaseAdmin.rpc("move_daily_prompt", {
+    p_prompt_id: promptId,
+    p_date: date,
+    p_allow_live: hasRole(admin.role, "operator"),
+  });
+  if (error) throw new Error(rpcErrorMessage(error));
+
+  const result = data?.[0];
+  await recordAdminAction(admin, {
+    action: "prompt.move",
+    targetType: "daily_prompts",
+    targetId: promptId,
+    details: { from_date: result?.from_date ?? null, to_date: date, swapped_with: result?.swapped_prompt_id ?? null },
+  });
 
   revalidatePath("/dashboard/prompts");
+  revalidatePath("/dashboard/prompts/calendar");
+  revalidatePath(`/dashboard/prompts/${promptId}`);
 }
 
 export async function createPrompt(formData: FormData) {
+  const admin = await requireRole("prompt_editor");
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
   const prompt_text = String(formData.get("prompt_text") ?? "").trim();
   const explanation_text = normalizeEmpty(formData.get("explanation_text"));
   const theme = normalizeEmpty(formData.get("theme"));
+  const force_anonymous = normalizeCheckbox(formData.get("force_anonymous"));
 
   if (!prompt_text) throw new Error("prompt_text is required");
 
@@ -143,19 +162,27 @@ export async function createPrompt(formData: FormData) {
     throw new Error(`Invalid prompt_date calculated: ${prompt_date}. Expected YYYY-MM-DD format.`);
   }
 
-  const { error } = await supabaseAdmin.from("daily_prompts").insert({
-    prompt_text,
-    prompt_date,
-    explanation_text,
-    theme,
-    display_order,
-  });
+  // New prompts start as drafts (column default) and need review before their date.
+  const row = { prompt_text, prompt_date, explanation_text, theme, display_order, force_anonymous };
+  const { data: created, error } = await supabaseAdmin
+    .from("daily_prompts")
+    .insert({ ...row, updated_by: admin.userId })
+    .select("id")
+    .single();
   if (error) throw new Error(error.message);
 
+  await recordAdminAction(admin, {
+    action: "prompt.create",
+    targetType: "daily_prompts",
+    targetId: String(created.id),
+    details: row,
+  });
+
   revalidatePath("/dashboard/prompts");
 }
 
 export async function updatePrompt(formData: FormData) {
+  const admin = await requireRole("prompt_editor");
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
   const id = String(formData.get("id") ?? "").trim();
@@ -166,71 +193,161 @@ export async function updatePrompt(formData: FormData) {
   const explanation_text = normalizeEmpty(formData.get("explanation_text"));
   const theme = normalizeEmpty(formData.get("theme"));
   const display_order = normalizeNumber(formData.get("display_order"));
+  const force_anonymous = normalizeCheckbox(formData.get("force_anonymous"));
 
   if (!prompt_text) throw new Error("prompt_text is required");
 
-  const update: Record<string, unknown> = { prompt_text, explanation_text, theme, display_order };
+  const update: Record<string, unknown> = { prompt_text, explanation_text, theme, display_order, force_anonymous };
   if (prompt_date) update.prompt_date = prompt_date;
 
-  const { error } = await supabaseAdmin.from("daily_prompts").update(update).eq("id", id);
+  const { data: before, error: beforeError } = await supabaseAdmin
+    .from("daily_prompts")
+    .select("prompt_text,prompt_date,explanation_text,theme,display_order,force_anonymous,status")
+    .eq("id", id)
+    .maybeSingle();
+  if (beforeError) throw new Error(beforeError.message);
+  if (!before) throw new Error("Prompt not found");
+
+  // Edits to upcoming prompts send them back to draft (daily_prompts_review_guard); live ones stay
+  // approved, so only operators may change them. Moving a prompt onto a live date counts too.
+  const earliestDate = prompt_date && prompt_date < before.prompt_date ? prompt_date : before.prompt_date;
+  if (earliestDate <= (await getCurrentCycleDate(supabaseAdmin)) && !hasRole(admin.role, "operator")) {
+    throw new Error(LIVE_EDIT_MESSAGE);
+  }
+
+  const { data: after, error } = await supabaseAdmin
+    .from("daily_prompts")
+    .update({ ...update, updated_by: admin.userId })
+    .eq("id", id)
+    .select("status")
+    .single();
   if (error) throw new Error(error.message);
 
+  await recordAdminAction(admin, {
+    action: "prompt.update",
+    targetType: "daily_prompts",
+    targetId: id,
+    details: { before, after: { ...update, status: after.status } },
+  });
+
   revalidatePath("/dashboard/prompts");
   revalidatePath(`/dashboard/prompts/${id}`);
 }
 
-export async function deletePromptById(id: string) {
+async function setPromptStatus(
+  admin: DashboardAdmin,
+  formData: FormData,
+  params: { action: string; from: PromptStatus[]; to: PromptStatus }
+) {
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
-  const promptId = String(id ?? "").trim();
-  if (!promptId) throw new Error("Missing prompt id");
+  const id = String(formData.get("id") ?? "").trim();
+  if (!id) throw new Error("Missing prompt id");
+  const note = normalizeEmpty(formData.get("note"));
 
-  // Get the queue position before deleting so we can shift subsequent prompts.
-  const { data: toDelete, error: toDeleteError } = await supabaseAdmin
+  const { data: prompt, error: promptError } = await supabaseAdmin
     .from("daily_prompts")
-    .select("id,display_order,prompt_date")
-    .eq("id", promptId)
+    .select("prompt_text,explanation_text,prompt_date,status")
+    .eq("id", id)
     .maybeSingle();
-  if (toDeleteError) throw new Error(toDeleteError.message);
-  if (!toDelete) throw new Error("Prompt not found");
+  if (promptError) throw new Error(promptError.message);
+  if (!prompt) throw new Error("Prompt not found");
 
-  const { error } = await supabaseAdmin.from("daily_prompts").delete().eq("id", promptId);
-  if (error) throw new Error(error.message);
+  const from = isPromptStatus(prompt.status) ? prompt.status : "draft";
+  if (!params.from.includes(from)) {
+    throw new Error(`Prompt is ${PROMPT_STATUS_LABELS[from].toLowerCase()}; refresh and try again`);
+  }
 
-  const deletedOrder = toDelete.display_order;
-  const deletedDate = toDelete.prompt_date;
-
-  if (typeof deletedOrder === "number" && Number.isFinite(deletedOrder) && deletedDate) {
-    const { data: subsequent, error: subsequentError } = await supabaseAdmin
-      .from("daily_prompts")
-      .select("id,display_order,prompt_date")
-      .gt("display_order", deletedOrder)
-      .order("display_order", { ascending: true });
-    if (subsequentError) throw new Error(subsequentError.message);
-
-    const updates =
-      (subsequent ?? [])
-        .filter((p) => p.id != null && typeof p.display_order === "number" && !!p.prompt_date)
-        .map((p) => ({
-          id: p.id,
-          display_order: (p.display_order as number) - 1,
-          prompt_date: addDaysToISODate(p.prompt_date as string, -1),
-        })) ?? [];
-
-    if (updates.length) {
-      // Use update-by-id (not upsert) to avoid any chance of inserting partial rows
-      // (daily_prompts has NOT NULL columns like prompt_text).
-      for (const u of updates) {
-        const { error: shiftError } = await supabaseAdmin
-          .from("daily_prompts")
-          .update({ display_order: u.display_order, prompt_date: u.prompt_date })
-          .eq("id", u.id);
-        if (shiftError) throw new Error(shiftError.message);
-      }
-    }
+  if (params.to !== "draft") {
+    const problems = [
+      ...validateFormattedText(prompt.prompt_text).map((p) => `Prompt text ${p}`),
+      ...validateFormattedText(prompt.explanation_text ?? "").map((p) => `Explanation ${p}`),
+    ];
+    if (problems.length > 0) throw new Error(problems.join("; "));
   }
 
+  const update = {
+    status: params.to,
+    review_note: note,
+    updated_by: admin.userId,
+    approved_by: params.to === "approved" ? admin.userId : null,
+  };
+  // Guarded on the status we checked, so two reviewers can't both act on the same state.
+  const { data: updated, error } = await supabaseAdmin
+    .from("daily_prompts")
+    .update(update)
+    .eq("id", id)
+    .eq("status", from)
+    .select("id");
+  if (error) throw new Error(error.message);
+  if (!updated || updated.length === 0) throw new Error("Prompt changed while you were reviewing it; refresh and try again");
+
+  await recordAdminAction(admin, {
+    action: params.action,
+    targetType: "daily_prompts",
+    targetId: id,
+    details: { from, to: params.to, note, prompt_date: prompt.prompt_date },
+  });
+
   revalidatePath("/dashboard/prompts");
+  revalidatePath("/dashboard/prompts/calendar");
+  revalidatePath(`/dashboard/prompts/${id}`);
+}
+
+export async function submitPromptForReview(formData: FormData) {
+  const admin = await requireRole("prompt_editor");
+  return setPromptStatus(admin, formData, { action: "prompt.submit", from: ["draft"], to: "in_review" });
+}
+
+/** Operators only. The app shows a prompt once it is approved. */
+export async function approvePrompt(formData: FormData) {
+  const admin = await requireRole("operator");
+  return setPromptStatus(admin, formData, { action: "prompt.approve", from: ["draft", "in_review"], to: "approved" });
+}
+
+/**
+ * Editors can withdraw a submission; sending back an approved prompt (which pulls it from the app
+ * if its day has started) is for operators.
+ */
+export async function returnPromptToDraft(formData: FormData) {
+  const admin = await requireRole("prompt_editor");
+  return setPromptStatus(admin, formData, {
+    action: "prompt.return",
+    from: hasRole(admin.role, "operator") ? ["in_review", "approved"] : ["in_review"],
+    to: "draft",
+  });
+}
+
+export async function deletePromptById(id: string) {
+  const admin = await requireRole("prompt_editor");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+  const promptId = String(id ?? "").trim();
+  if (!promptId) throw new Error("Missing prompt id");
+
+  // Deletes and shifts later prompts back a day in one transaction (delete_daily_prompt); live
+  // prompts are for operators, as in the calendar.
+  const { data, error } = await supabaseAdmin.rpc("delete_daily_prompt", {
+    p_prompt_id: promptId,
+    p_allow_live: hasRole(admin.role, "operator"),
+  });
+  if (error) throw new Error(rpcErrorMessage(error));
+  const deleted = data?.[0];
+
+  // Keep the text: the row itself is gone.
+  await recordAdminAction(admin, {
+    action: "prompt.delete",
+    targetType: "daily_prompts",
+    targetId: promptId,
+    details: {
+      prompt_text: deleted?.deleted_text ?? null,
+      prompt_date: deleted?.deleted_date ?? null,
+      display_order: deleted?.deleted_order ?? null,
+    },
+  });
+
+  revalidatePath("/dashboard/prompts");
+  revalidatePath("/dashboard/prompts/calendar");
   revalidatePath(`/dashboard/prompts/${promptId}`);
 }
 
@@ -239,4 +356,116 @@ export async function deletePrompt(formData: FormData) {
   return deletePromptById(id);
 }
 
+async function planImportAgainstBank(text: string, format: PromptBankFormat) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+  if (format !== "csv" && format !== "json") throw new Error("format must be csv or json");
 
+  const { data, error } = await supabaseAdmin
+    .from("daily_prompts")
+    .select("id,prompt_text,explanation_text,theme,prompt_date,display_order")
+    .limit(10000);
+  if (error) throw new Error(error.message);
+
+  const existing: BankPrompt[] = (data ?? []).map((p) => ({
+    id: String(p.id),
+    prompt_text: p.prompt_text,
+    explanation_text: p.explanation_text,
+    theme: p.theme,
+    prompt_date: p.prompt_date,
+  }));
+  const maxOrder = Math.max(0, ...(data ?? []).map((p) => p.display_order ?? 0));
+
+  return { supabaseAdmin, existing, maxOrder, plan: planPromptImport(parsePromptBank(text, format), existing) };
+}
+
+/**
+ * Dry run for the import page: what importPrompts would do with this file right now.
+ */
+export async function previewPromptImport(text: string, format: PromptBankFormat): Promise<PromptImportPlan> {
+  await requireRole("prompt_editor");
+  const { plan } = await planImportAgainstBank(text, format);
+  return plan;
+}
+
+/**
+ * Applies creates and updates from a CSV/JSON prompt bank; conflicts and invalid rows are skipped.
+ * The plan is recomputed here, so rows changed since the preview are re-checked.
+ */
+export async function importPrompts(text: string, format: PromptBankFormat): Promise<PromptImportPlan> {
+  const admin = await requireRole("prompt_editor");
+  const { supabaseAdmin, existing, maxOrder, plan } = await planImportAgainstBank(text, format);
+  if (plan.fileErrors.length > 0) throw new Error(plan.fileErrors.join("; "));
+
+  const rows = parsePromptBank(text, format);
+  const rowByNumber = new Map(rows.map((r) => [r.row, r]));
+
+  // Undated creates go after the last date already in use (like createPrompt), in file order.
+  const usedDates = [
+    ...existing.map((p) => p.prompt_date),
+    ...plan.entries.filter((e) => e.action === "create" || e.action === "update").map((e) => e.prompt_date),
+  ].filter((d): d is string => !!d);
+  let nextDate = usedDates.length
+    ? addDaysToISODate(usedDates.sort()[usedDates.length - 1], 1)
+    : addDaysToISODate(formatISODateUTC(new Date()), 1);
+
+  const creates = plan.entries
+    .filter((e) => e.action === "create")
+    .map((e, idx) => {
+      const row = rowByNumber.get(e.row)!;
+      let prompt_date = row.prompt_date;
+      if (!prompt_date) {
+        prompt_date = nextDate;
+        nextDate = addDaysToISODate(nextDate, 1);
+      }
+      return {
+        prompt_text: row.prompt_text,
+        explanation_text: row.explanation_text ?? null,
+        theme: row.theme ?? null,
+        prompt_date,
+        display_order: maxOrder + idx + 1,
+      };
+    });
+
+  // Same rule as updatePrompt and the calendar: changes that touch a live date, before or after the
+  // update, are for operators.
+  const updates = plan.entries.filter((e) => e.action === "update");
+  if (!hasRole(admin.role, "operator")) {
+    const today = await getCurrentCycleDate(supabaseAdmin);
+    const existingById = new Map(existing.map((p) => [p.id, p]));
+    const live = updates.filter((e) => {
+      const dates = [existingById.get(e.existingId as string)?.prompt_date ?? "", e.prompt_date ?? ""];
+      return dates.some((d) => d && d <= today);
+    });
+    if (live.length > 0) {
+      throw new Error(`${LIVE_EDIT_MESSAGE} (rows ${live.map((e) => e.row).join(", ")})`);
+    }
+  }
+
+  // One transaction (import_daily_prompts): a failure part way leaves the bank untouched.
+  const { error } = await supabaseAdmin.rpc("import_daily_prompts", {
+    p_creates: creates,
+    p_updates: updates.map((e) => ({
+      id: e.existingId as string,
+      fields: Object.fromEntries(e.changes.map((c) => [c.field, c.after])),
+    })),
+    p_updated_by: admin.userId,
+  });
+  if (error) throw new Error(rpcErrorMessage(error));
+
+  await recordAdminAction(admin, {
+    action: "prompt.import",
+    targetType: "daily_prompts",
+    details: {
+      format,
+      created: creates.length,
+      updated: updates.length,
+      skipped: plan.counts.conflict + plan.counts.invalid,
+      updated_ids: updates.map((e) => e.existingId),
+    },
+  });
+
+  revalidatePath("/dashboard/prompts");
+  revalidatePath("/dashboard/prompts/calendar");
+  return plan;
+}
@@ -0,0 +1,289 @@
+import Link from "next/link";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import {
+  formatMinutes,
+  formatNumber,
+  formatPercent,
+  loadPromptMetrics,
+  summarizeByTheme,
+  type PromptMetrics,
+  type ThemeMetrics,
+} from "@/lib/prompt-metrics";
+
+// Disable caching - always fetch fresh data
+export const dynamic = "force-dynamic";
+
+type SearchParams = { days?: string; sort?: string; dir?: string; theme_sort?: string; theme_dir?: string; theme?: string };
+type PromptWithMetrics = PromptMetrics & { prompt_text: string; theme: string | null };
+
+// Columns both tables can sort by; null values always sort last.
+const PROMPT_SORTS = {
+  date: (m: PromptWithMetrics) => m.prompt_date,
+  response_rate: (m: PromptWithMetrics) => m.responseRate,
+  responders: (m: PromptWithMetrics) => m.responders,
+  after_open: (m: PromptWithMetrics) => m.minutes_after_window_open_median,
+  rating: (m: PromptWithMetrics) => m.avg_rating,
+  would_share: (m: PromptWithMetrics) => m.wouldSharePct,
+  words: (m: PromptWithMetrics) => m.avg_word_count,
+  likes: (m: PromptWithMetrics) => m.likes,
+  comments: (m: PromptWithMetrics) => m.comments,
+} as const;
+
+const THEME_SORTS = {
+  theme: (t: ThemeMetrics) => t.theme,
+  prompts: (t: ThemeMetrics) => t.prompts,
+  response_rate: (t: ThemeMetrics) => t.responseRate,
+  after_open: (t: ThemeMetrics) => t.minutesAfterWindowOpenMedian,
+  rating: (t: ThemeMetrics) => t.avgRating,
+  would_share: (t: ThemeMetrics) => t.wouldSharePct,
+  words: (t: ThemeMetrics) => t.avgWordCount,
+  likes: (t: ThemeMetrics) => t.likesPerResponse,
+  comments: (t: ThemeMetrics) => t.commentsPerResponse,
+} as const;
+
+function isoDateDaysAgo(days: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+function sortRows<T>(rows: T[], pick: (row: T) => string | number | null, dir: "asc" | "desc") {
+  return [...rows].sort((a, b) => {
+    const av = pick(a);
+    const bv = pick(b);
+    if (av === null || bv === null) return av === bv ? 0 : av === null ? 1 : -1;
+    const cmp = typeof av === "string" ? av.localeCompare(String(bv)) : av - (bv as number);
+    return dir === "asc" ? cmp : -cmp;
+  });
+}
+
+function SortHeader({
+  label,
+  column,
+  param,
+  current,
+  dir,
+  searchParams,
+}: {
+  label: string;
+  column: string;
+  param: "sort" | "theme_sort";
+  current: string;
+  dir: "asc" | "desc";
+  searchParams: SearchParams;
+}) {
+  const isActive = current === column;
+  const params = new URLSearchParams(
+    Object.entries(searchParams).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+  params.set(param, column);
+  params.set(param === "sort" ? "dir" : "theme_dir", isActive && dir === "desc" ? "asc" : "desc");
+  return (
+    <th className="px-3 py-2 text-left font-medium">
+      <Link href={`/dashboard/prompts/analytics?${params.toString()}`} className="hover:text-white">
+        {label}
+        {isActive ? (dir === "desc" ? " ↓" : " ↑") : ""}
+      </Link>
+    </th>
+  );
+}
+
+export default async function PromptAnalyticsPage({ searchParams }: { searchParams: SearchParams }) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const days = Math.max(1, Math.min(365, Number(searchParams.days ?? "90") || 90));
+  const dir = searchParams.dir === "asc" ? "asc" : "desc";
+  const themeDir = searchParams.theme_dir === "asc" ? "asc" : "desc";
+  const sort = searchParams.sort && searchParams.sort in PROMPT_SORTS ? (searchParams.sort as keyof typeof PROMPT_SORTS) : "date";
+  const themeSort =
+    searchParams.theme_sort && searchParams.theme_sort in THEME_SORTS
+      ? (searchParams.theme_sort as keyof typeof THEME_SORTS)
+      : "response_rate";
+  const themeFilter = searchParams.theme?.trim() || null;
+
+  const since = isoDateDaysAgo(days);
+  let metrics: PromptMetrics[];
+  try {
+    metrics = await loadPromptMetrics({ since });
+  } catch (error) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Failed to load prompt metrics: {error instanceof Error ? error.message : String(error)}
+      </div>
+    );
+  }
+
+  const { data: promptData } = await supabaseAdmin
+    .from("daily_prompts")
+    .select("id,prompt_text,theme")
+    .gte("prompt_date", since)
+    .limit(1000);
+  const promptById = new Map((promptData ?? []).map((p) => [String(p.id), p]));
+
+  const rows: PromptWithMetrics[] = metrics.map((m) => ({
+    ...m,
+    prompt_text: promptById.get(m.prompt_id)?.prompt_text ?? "(deleted prompt)",
+    theme: promptById.get(m.prompt_id)?.theme ?? null,
+  }));
+
+  const themes = sortRows(summarizeByTheme(rows), THEME_SORTS[themeSort], themeDir);
+  const promptRows = sortRows(
+    themeFilter ? rows.filter((r) => (r.theme?.trim() || "(no theme)") === themeFilter) : rows,
+    PROMPT_SORTS[sort],
+    dir
+  );
+
+  const headerProps = { dir, searchParams } as const;
+  const themeHeaderProps = { dir: themeDir, searchParams } as const;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Prompt analytics</h1>
+          <p className="mt-1 text-sm text-white/60">
+            How each prompt landed. Response rate is responders ÷ users active during the prompt&apos;s response
+            window (its posting day until the next one starts). Ratings and share intent come from the post-response
+            survey.
+          </p>
+        </div>
+        <Link className="text-sm text-white/70 underline underline-offset-4" href="/dashboard/prompts">
+          Back
+        </Link>
+      </div>
+
+      <form method="get" className="flex items-end gap-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+        <label className="text-sm">
+          <div className="text-xs text-white/60">Lookback (days)</div>
+          <input
+            name="days"
+            defaultValue={String(days)}
+            inputMode="numeric"
+            className="mt-1 w-32 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+          />
+        </label>
+        <button className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black">Apply</button>
+      </form>
+
+      <div className="overflow-x-auto rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Themes ({themes.length})</div>
+        {themes.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">No prompts in this period.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-white/60">
+              <tr>
+                <SortHeader label="Theme" column="theme" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Prompts" column="prompts" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Response rate" column="response_rate" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Posted after open" column="after_open" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Rating" column="rating" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Would share" column="would_share" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Words" column="words" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Likes / post" column="likes" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+                <SortHeader label="Comments / post" column="comments" param="theme_sort" current={themeSort} {...themeHeaderProps} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {themes.map((t) => (
+                <tr key={t.theme} className={themeFilter === t.theme ? "bg-white/10" : ""}>
+                  <td className="px-3 py-2">
+                    <Link
+                      href={`/dashboard/prompts/analytics?days=${days}&theme=${encodeURIComponent(t.theme)}`}
+                      className="underline underline-offset-4"
+                    >
+                      {t.theme}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">{t.prompts}</td>
+                  <td className="px-3 py-2">{formatPercent(t.responseRate)}</td>
+                  <td className="px-3 py-2">{formatMinutes(t.minutesAfterWindowOpenMedian)}</td>
+                  <td className="px-3 py-2">{formatNumber(t.avgRating, 2)}</td>
+                  <td className="px-3 py-2">{formatPercent(t.wouldSharePct)}</td>
+                  <td className="px-3 py-2">{formatNumber(t.avgWordCount)}</td>
+                  <td className="px-3 py-2">{formatNumber(t.likesPerResponse, 2)}</td>
+                  <td className="px-3 py-2">{formatNumber(t.commentsPerResponse, 2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-white/10">
+        <div className="flex items-center justify-between bg-white/5 px-4 py-3 text-sm">
+          <div className="font-medium">
+            Prompts ({promptRows.length}){themeFilter ? ` • theme=${themeFilter}` : ""}
+          </div>
+          {themeFilter ? (
+            <Link href={`/dashboard/prompts/analytics?days=${days}`} className="text-xs text-white/60 underline underline-offset-4">
+              All themes
+            </Link>
+          ) : null}
+        </div>
+        {promptRows.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">No prompts in this period.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-white/60">
+              <tr>
+                <SortHeader label="Date" column="date" param="sort" current={sort} {...headerProps} />
+                <th className="px-3 py-2 text-left font-medium">Prompt</th>
+                <SortHeader label="Response rate" column="response_rate" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Responders" column="responders" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Posted after open" column="after_open" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Rating" column="rating" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Would share" column="would_share" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Words" column="words" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Likes" column="likes" param="sort" current={sort} {...headerProps} />
+                <SortHeader label="Comments" column="comments" param="sort" current={sort} {...headerProps} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {promptRows.map((m) => (
+                <tr key={m.prompt_id}>
+                  <td className="whitespace-nowrap px-3 py-2 text-white/70">{m.prompt_date}</td>
+                  <td className="max-w-xs px-3 py-2">
+                    <Link
+                      href={`/dashboard/prompts/${encodeURIComponent(m.prompt_id)}`}
+                      className="line-clamp-2 hover:underline"
+                      title={m.prompt_text}
+                    >
+                      {m.prompt_text}
+                    </Link>
+                    <div className="text-xs text-white/50">{m.theme ?? "—"}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatPercent(m.responseRate)}
+                    <div className="text-xs text-white/50">of {m.active_users}</div>
+                  </td>
+                  <td className="px-3 py-2">{m.responders}</td>
+                  <td className="px-3 py-2">{formatMinutes(m.minutes_after_window_open_median)}</td>
+                  <td className="px-3 py-2">
+                    {formatNumber(m.avg_rating, 2)}
+                    <div className="text-xs text-white/50">n={m.rating_count}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatPercent(m.wouldSharePct)}
+                    <div className="text-xs text-white/50">n={m.would_share_count}</div>
+                  </td>
+                  <td className="px-3 py-2">{formatNumber(m.avg_word_count)}</td>
+                  <td className="px-3 py-2">{m.likes}</td>
+                  <td className="px-3 py-2">{m.comments}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
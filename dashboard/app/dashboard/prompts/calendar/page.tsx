@@ -0,0 +1,142 @@
+import Link from "next/link";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import {
+  addDaysToIsoDate,
+  getCycleDate,
+  listCycleDays,
+  normalizePhaseSchedule,
+  parseIsoDate,
+  type PhaseSchedule,
+} from "@/lib/phase";
+import { PromptApprovalBanner } from "@/components/prompt-approval-banner";
+import { PromptCalendarClient, type CalendarDay, type CalendarPrompt } from "@/components/prompt-calendar-client";
+import { isPromptStatus } from "@/lib/prompt-review";
+
+// Disable caching - always fetch fresh data
+export const dynamic = "force-dynamic";
+
+// Posting days this far ahead without a prompt are listed as gaps, whichever month is shown.
+const GAP_LOOKAHEAD_DAYS = 30;
+
+function parseMonthParam(month: string | undefined, fallbackDate: string) {
+  const match = /^(\d{4})-(\d{2})$/.exec(month ?? "");
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) return `${match[1]}-${match[2]}-01`;
+  return `${fallbackDate.slice(0, 7)}-01`;
+}
+
+function shiftMonth(firstOfMonth: string, delta: number) {
+  const { year, month } = parseIsoDate(firstOfMonth);
+  const d = new Date(Date.UTC(year, month - 1 + delta, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export default async function PromptCalendarPage({ searchParams }: { searchParams: { month?: string } }) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const [{ data: promptData, error }, { data: scheduleData }] = await Promise.all([
+    supabaseAdmin
+      .from("daily_prompts")
+      .select("id,prompt_text,prompt_date,theme,status")
+      .order("prompt_date", { ascending: true })
+      .limit(1000),
+    supabaseAdmin
+      .from("phase_schedules")
+      .select("id,effective_from,anchor_date,time_zone,flip_hour,segments,blackout_dates")
+      .order("effective_from", { ascending: false }),
+  ]);
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Failed to load prompts: {error.message}
+      </div>
+    );
+  }
+
+  const schedules = (scheduleData ?? [])
+    .map((r) => normalizePhaseSchedule(r))
+    .filter((s): s is PhaseSchedule => !!s);
+  const prompts: CalendarPrompt[] = (promptData ?? []).map((p) => ({
+    id: String(p.id),
+    prompt_text: p.prompt_text,
+    prompt_date: p.prompt_date,
+    theme: p.theme,
+    status: isPromptStatus(p.status) ? p.status : "draft",
+  }));
+
+  const today = getCycleDate(new Date(), schedules);
+  const firstOfMonth = parseMonthParam(searchParams.month, today);
+  const { year, month } = parseIsoDate(firstOfMonth);
+
+  // Whole weeks (Sunday first) covering the month.
+  const leadingDays = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const gridLength = Math.ceil((leadingDays + daysInMonth) / 7) * 7;
+  const days: CalendarDay[] = listCycleDays(addDaysToIsoDate(firstOfMonth, -leadingDays), gridLength, schedules).map(
+    (d) => ({ date: d.date, phase: d.phase, isBlackout: d.isBlackout, inMonth: d.date.slice(0, 7) === firstOfMonth.slice(0, 7) })
+  );
+
+  const upcomingPostingDates = listCycleDays(today, GAP_LOOKAHEAD_DAYS, schedules)
+    .filter((d) => d.phase === "posting" && !d.isBlackout)
+    .map((d) => d.date);
+
+  const monthLabel = new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Prompt calendar</h1>
+          <p className="mt-1 text-sm text-white/60">
+            Drag a prompt onto a day to schedule it there. Dropping on a day that already has a prompt swaps the two.
+            Only posting days show a prompt in the app, and only once it is approved.
+          </p>
+        </div>
+        <Link className="text-sm text-white/70 underline underline-offset-4" href="/dashboard/prompts">
+          List view
+        </Link>
+      </div>
+
+      <PromptApprovalBanner />
+
+      <div className="flex items-center gap-3 text-sm">
+        <Link
+          href={`/dashboard/prompts/calendar?month=${shiftMonth(firstOfMonth, -1)}`}
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10"
+        >
+          ← Prev
+        </Link>
+        <div className="min-w-40 text-center font-medium">{monthLabel}</div>
+        <Link
+          href={`/dashboard/prompts/calendar?month=${shiftMonth(firstOfMonth, 1)}`}
+          className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10"
+        >
+          Next →
+        </Link>
+        <Link href="/dashboard/prompts/calendar" className="text-xs text-white/60 underline underline-offset-4">
+          Today
+        </Link>
+      </div>
+
+      <PromptCalendarClient
+        key={firstOfMonth}
+        days={days}
+        prompts={prompts}
+        today={today}
+        upcomingPostingDates={upcomingPostingDates}
+      />
+    </div>
+  );
+}
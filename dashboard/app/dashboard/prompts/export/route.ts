@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { serializePromptBank, type BankPrompt } from "@/lib/prompt-bank";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+// Disable caching - always export the current bank
+export const dynamic = "force-dynamic";
+
+// GET /dashboard/prompts/export?format=csv|json (viewer role, enforced by middleware)
+export async function GET(req: NextRequest) {
+  const format = req.nextUrl.searchParams.get("format") === "json" ? "json" : "csv";
+
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return new NextResponse("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY", { status: 500 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("daily_prompts")
+    .select("id,prompt_text,explanation_text,theme,prompt_date")
+    .order("prompt_date", { ascending: true })
+    .limit(10000);
+  if (error) return new NextResponse(`Failed to load prompts: ${error.message}`, { status: 500 });
+
+  const prompts: BankPrompt[] = (data ?? []).map((p) => ({
+    id: String(p.id),
+    prompt_text: p.prompt_text,
+    explanation_text: p.explanation_text,
+    theme: p.theme,
+    prompt_date: p.prompt_date,
+  }));
+
+  const filename = `ponder-prompts-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new NextResponse(serializePromptBank(prompts, format), {
+    headers: {
+      "Content-Type": format === "json" ? "application/json; charset=utf-8" : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import Link from "next/link";
+import { PromptImportClient } from "@/components/prompt-import-client";
+import { PROMPT_BANK_COLUMNS } from "@/lib/prompt-bank";
+
+export default function PromptImportPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold">Import prompts</h1>
+          <p className="mt-1 text-sm text-white/60">
+            Upload a CSV or JSON prompt bank, review what will change, then import. Rows match existing prompts by{" "}
+            <code className="rounded bg-white/10 px-1 py-0.5">id</code>, or by prompt text when there is no id.
+            New and edited prompts come in as drafts and need approval before their date.
+          </p>
+        </div>
+        <Link className="text-sm text-white/70 underline underline-offset-4" href="/dashboard/prompts">
+          Back
+        </Link>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm">
+        <div className="font-medium">File format</div>
+        <ul className="mt-2 list-disc space-y-1 pl-5 text-white/70">
+          <li>
+            Columns (CSV header or JSON keys): {PROMPT_BANK_COLUMNS.join(", ")}. Only{" "}
+            <code className="rounded bg-white/10 px-1 py-0.5">prompt_text</code> is required.
+          </li>
+          <li>
+            Leave <code className="rounded bg-white/10 px-1 py-0.5">prompt_date</code> empty to append new prompts after
+            the last scheduled date. A date already taken by another prompt is a conflict and is skipped.
+          </li>
+          <li>
+            Missing columns leave existing values alone; empty cells clear them. Bold text uses{" "}
+            <code className="rounded bg-white/10 px-1 py-0.5">**pairs**</code> on a single line.
+          </li>
+          <li>
+            Start from an export:{" "}
+            <a className="underline underline-offset-4" href="/dashboard/prompts/export?format=csv">
+              CSV
+            </a>{" "}
+            or{" "}
+            <a className="underline underline-offset-4" href="/dashboard/prompts/export?format=json">
+              JSON
+            </a>
+            .
+          </li>
+        </ul>
+      </div>
+
+      <PromptImportClient />
+    </div>
+  );
+}
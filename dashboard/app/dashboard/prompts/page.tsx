@@ -1,5 +1,7 @@
+import Link from "next/link";
 import { getSupabaseAdmin } from "@/lib/supabase-admin";
 import { createPrompt } from "./actions";
+import { PromptApprovalBanner } from "@/components/prompt-approval-banner";
 import { PromptListClient, type PromptRow } from "@/components/prompt-list-client";
 
 export default async function PromptsPage() {
@@ -15,7 +17,7 @@ export default async function PromptsPage() {
 
   const { data, error } = await supabaseAdmin
     .from("daily_prompts")
-    .select("id,prompt_text,explanation_text,prompt_date,theme,display_order,created_at")
+    .select("id,prompt_text,explanation_text,prompt_date,theme,display_order,force_anonymous,status,created_at")
     .order("display_order", { ascending: true })
     .order("prompt_date", { ascending: true })
     .limit(1000);
@@ -35,10 +37,31 @@ export default async function PromptsPage() {
       <div className="flex items-end justify-between gap-4">
         <div>
           <h1 className="text-xl font-semibold">Prompts</h1>
-          <p className="mt-1 text-sm text-white/60">Create, edit, delete, and preview prompts.</p>
+          <p className="mt-1 text-sm text-white/60">
+            Create, edit, delete, and preview prompts. New prompts start as drafts and need approval before their date.
+          </p>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-white/70">
+          <Link className="underline underline-offset-4" href="/dashboard/prompts/calendar">
+            Calendar view
+          </Link>
+          <Link className="underline underline-offset-4" href="/dashboard/prompts/analytics">
+            Analytics
+          </Link>
+          <Link className="underline underline-offset-4" href="/dashboard/prompts/import">
+            Import
+          </Link>
+          <a className="underline underline-offset-4" href="/dashboard/prompts/export?format=csv">
+            Export CSV
+          </a>
+          <a className="underline underline-offset-4" href="/dashboard/prompts/export?format=json">
+            Export JSON
+          </a>
         </div>
       </div>
 
+      <PromptApprovalBanner />
+
       <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
         <div className="text-sm font-medium">Create prompt</div>
         <form action={createPrompt} className="mt-3 grid gap-3 md:grid-cols-2">
@@ -71,6 +94,10 @@ export default async function PromptsPage() {
               className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
             />
           </label>
+          <label className="flex items-center gap-2 self-end text-sm">
+            <input type="checkbox" name="force_anonymous" />
+            <span>Anonymous responses</span>
+          </label>
           <div className="md:col-span-2">
             <button className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black">Create</button>
           </div>
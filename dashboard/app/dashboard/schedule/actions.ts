@@ -0,0 +1,80 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { normalizePhaseSchedule, type PhaseSegment } from "@/lib/phase";
+import { recordAdminAction, requireRole } from "@/lib/admin-session";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+function parseIsoDateField(v: FormDataEntryValue | null, label: string): string {
+  const raw = String(v ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) throw new Error(`${label} must be YYYY-MM-DD`);
+  return raw;
+}
+
+// "posting:1, viewing:2" -> [{ phase: "posting", days: 1 }, { phase: "viewing", days: 2 }]
+function parseSegments(v: FormDataEntryValue | null): PhaseSegment[] {
+  const raw = String(v ?? "").trim();
+  if (!raw) throw new Error("At least one phase segment is required");
+
+  return raw.split(",").map((chunk) => {
+    const [phase, days] = chunk.split(":").map((s) => s.trim());
+    const n = Number(days ?? "1");
+    if ((phase !== "posting" && phase !== "viewing") || !Number.isInteger(n) || n < 1) {
+      throw new Error(`Invalid segment "${chunk.trim()}" (expected posting:N or viewing:N)`);
+    }
+    return { phase, days: n };
+  });
+}
+
+function parseBlackoutDates(v: FormDataEntryValue | null): string[] {
+  const raw = String(v ?? "").trim();
+  if (!raw) return [];
+  return raw
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((d) => parseIsoDateField(d, "Blackout date"));
+}
+
+export async function createPhaseSchedule(formData: FormData) {
+  const admin = await requireRole("operator");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const effective_from = parseIsoDateField(formData.get("effective_from"), "Effective from");
+  const anchorRaw = String(formData.get("anchor_date") ?? "").trim();
+  const anchor_date = anchorRaw ? parseIsoDateField(anchorRaw, "Anchor date") : effective_from;
+  const time_zone = String(formData.get("time_zone") ?? "").trim() || "America/Los_Angeles";
+  const flip_hour = Number(String(formData.get("flip_hour") ?? "6").trim());
+  const segments = parseSegments(formData.get("segments"));
+  const blackout_dates = parseBlackoutDates(formData.get("blackout_dates"));
+  const note = String(formData.get("note") ?? "").trim() || null;
+
+  const row = { effective_from, anchor_date, time_zone, flip_hour, segments, blackout_dates, note };
+
+  // Same validation the app/edge function apply when reading rows back.
+  if (!normalizePhaseSchedule({ id: "new", ...row })) {
+    throw new Error("Invalid schedule (check time zone and flip hour 0-23)");
+  }
+
+  const { data: created, error } = await supabaseAdmin.from("phase_schedules").insert(row).select("id").single();
+  if (error) throw new Error(error.message);
+
+  await recordAdminAction(admin, { action: "schedule.create", targetType: "phase_schedules", targetId: created.id, details: row });
+
+  revalidatePath("/dashboard/schedule");
+}
+
+export async function deletePhaseSchedule(formData: FormData) {
+  const admin = await requireRole("operator");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+  const id = String(formData.get("id") ?? "").trim();
+  if (!id) throw new Error("id is required");
+
+  const { error } = await supabaseAdmin.from("phase_schedules").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+
+  await recordAdminAction(admin, { action: "schedule.delete", targetType: "phase_schedules", targetId: id });
+
+  revalidatePath("/dashboard/schedule");
+}
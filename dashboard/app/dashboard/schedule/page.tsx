@@ -0,0 +1,191 @@
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { getPhaseWindow, listCycleDays, normalizePhaseSchedule, type PhaseSchedule } from "@/lib/phase";
+import { createPhaseSchedule, deletePhaseSchedule } from "./actions";
+
+type ScheduleRow = {
+  id: string;
+  effective_from: string;
+  anchor_date: string;
+  time_zone: string;
+  flip_hour: number;
+  segments: { phase: "posting" | "viewing"; days: number }[];
+  blackout_dates: string[];
+  note: string | null;
+  created_at: string;
+};
+
+const PREVIEW_DAYS = 21;
+
+export default async function SchedulePage() {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) {
+    return (
+      <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm">
+        Missing env vars. Set <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_URL</code> and{" "}
+        <code className="rounded bg-white/10 px-1 py-0.5">SUPABASE_SERVICE_ROLE_KEY</code>.
+      </div>
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("phase_schedules")
+    .select("id,effective_from,anchor_date,time_zone,flip_hour,segments,blackout_dates,note,created_at")
+    .order("effective_from", { ascending: false });
+
+  const rows = (data ?? []) as ScheduleRow[];
+  const schedules = rows.map((r) => normalizePhaseSchedule(r)).filter((s): s is PhaseSchedule => !!s);
+
+  const now = new Date();
+  const current = getPhaseWindow(now, schedules);
+  const upcoming = listCycleDays(current.cycleDate, PREVIEW_DAYS, schedules);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold">Phase Schedule</h1>
+        <p className="mt-1 text-sm text-white/60">
+          Posting/viewing cadence used by the app, this dashboard and push notifications. The newest schedule whose
+          effective date has arrived wins, so add a new row to change the cadence going forward.
+        </p>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <div className="text-xs text-white/60">Right now</div>
+        <div className="mt-1 text-lg font-semibold capitalize">
+          {current.phase}
+          {current.isBlackout ? " (blackout)" : ""}
+        </div>
+        <div className="mt-1 text-xs text-white/60">
+          cycle_date={current.cycleDate} • started={current.phaseStartedAt.toISOString()} • ends=
+          {current.phaseEndsAt.toISOString()}
+        </div>
+
+        <div className="mt-4 grid grid-cols-7 gap-2">
+          {upcoming.map((d) => (
+            <div
+              key={d.date}
+              className={`rounded-xl border px-2 py-2 text-xs ${
+                d.isBlackout
+                  ? "border-white/10 bg-black/40 text-white/40"
+                  : d.phase === "posting"
+                    ? "border-emerald-400/30 bg-emerald-400/10"
+                    : "border-sky-400/30 bg-sky-400/10"
+              }`}
+            >
+              <div className="font-medium">{d.date.slice(5)}</div>
+              <div className="text-white/60">{d.isBlackout ? "blackout" : d.phase}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <div className="text-sm font-medium">Add schedule</div>
+        <form action={createPhaseSchedule} className="mt-3 grid gap-3">
+          <div className="grid gap-3 sm:grid-cols-4">
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Effective from</div>
+              <input
+                name="effective_from"
+                type="date"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+                required
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Anchor (day 0, defaults to effective)</div>
+              <input
+                name="anchor_date"
+                type="date"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Time zone</div>
+              <input
+                name="time_zone"
+                defaultValue="America/Los_Angeles"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Flip hour (0-23)</div>
+              <input
+                name="flip_hour"
+                defaultValue="6"
+                inputMode="numeric"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Segments (in cycle order)</div>
+              <input
+                name="segments"
+                defaultValue="posting:1, viewing:1"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+                required
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-white/60">Blackout dates (comma separated)</div>
+              <input
+                name="blackout_dates"
+                placeholder="2026-12-25, 2027-01-01"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+              />
+            </label>
+          </div>
+
+          <label className="text-sm">
+            <div className="text-xs text-white/60">Note</div>
+            <input
+              name="note"
+              className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/25"
+            />
+          </label>
+
+          <div className="flex items-center gap-2">
+            <button className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black">Add</button>
+          </div>
+        </form>
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="bg-white/5 px-4 py-3 text-sm font-medium">Schedules</div>
+        {error ? (
+          <div className="px-4 py-4 text-sm text-red-200">Failed to load schedules: {error.message}</div>
+        ) : rows.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-white/60">
+            No schedules yet. The default rotation (posting/viewing daily at 6AM PT) is in effect.
+          </div>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {rows.map((s) => (
+              <div key={s.id} className="flex items-start justify-between gap-4 px-4 py-4 text-sm">
+                <div>
+                  <div className="font-medium">
+                    From {s.effective_from} • {s.segments.map((seg) => `${seg.phase}:${seg.days}`).join(", ")}
+                  </div>
+                  <div className="mt-1 text-xs text-white/60">
+                    anchor={s.anchor_date} • {s.time_zone} @ {s.flip_hour}:00 • blackouts=
+                    {s.blackout_dates.length > 0 ? s.blackout_dates.join(", ") : "—"}
+                  </div>
+                  {s.note ? <div className="mt-1 text-xs text-white/60">{s.note}</div> : null}
+                </div>
+                <form action={deletePhaseSchedule}>
+                  <input type="hidden" name="id" value={s.id} />
+                  <button className="rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10">
+                    Delete
+                  </button>
+                </form>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
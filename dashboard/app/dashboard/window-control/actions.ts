@@ -1,6 +1,7 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { recordAdminAction, requireRole } from "@/lib/admin-session";
 import { getSupabaseAdmin } from "@/lib/supabase-admin";
 
 function parseMinutes(v: FormDataEntryValue | null): number {
@@ -11,6 +12,7 @@ function parseMinutes(v: FormDataEntryValue | null): number {
 }
 
 export async function setDevPromptOverride(formData: FormData) {
+  const admin = await requireRole("operator");
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
   const user_id = String(formData.get("user_id") ?? "").trim();
@@ -33,10 +35,18 @@ export async function setDevPromptOverride(formData: FormData) {
   });
   if (error) throw new Error(error.message);
 
+  await recordAdminAction(admin, {
+    action: "override.set",
+    targetType: "user",
+    targetId: user_id,
+    details: { mode, minutes, expires_at },
+  });
+
   revalidatePath("/dashboard/window-control");
 }
 
 export async function clearDevPromptOverrides(formData: FormData) {
+  const admin = await requireRole("operator");
   const supabaseAdmin = getSupabaseAdmin();
   if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
   const user_id = String(formData.get("user_id") ?? "").trim();
@@ -45,6 +55,8 @@ export async function clearDevPromptOverrides(formData: FormData) {
   const { error } = await supabaseAdmin.from("dev_prompt_overrides").delete().eq("user_id", user_id);
   if (error) throw new Error(error.message);
 
+  await recordAdminAction(admin, { action: "override.clear", targetType: "user", targetId: user_id });
+
   revalidatePath("/dashboard/window-control");
 }
 
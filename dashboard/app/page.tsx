@@ -1,7 +1,13 @@
 import Link from "next/link";
 
-export default function Home() {
-  const next = "/dashboard";
+const LOGIN_ERRORS: Record<string, string> = {
+  "1": "Wrong email or password.",
+  "2": "This account doesn't have dashboard access. Ask an operator to add you to admin_users.",
+};
+
+export default function Home({ searchParams }: { searchParams: { error?: string; next?: string } }) {
+  const next = searchParams.next?.startsWith("/") ? searchParams.next : "/dashboard";
+  const errorMessage = searchParams.error ? LOGIN_ERRORS[searchParams.error] : undefined;
   return (
     <div className="min-h-screen bg-black text-white">
       <div className="mx-auto flex min-h-screen max-w-xl flex-col justify-center px-6">
@@ -18,7 +24,18 @@ export default function Home() {
 
           <form action="/api/login" method="post" className="mt-6">
             <input type="hidden" name="next" value={next} />
-            <label className="block text-sm text-white/70" htmlFor="password">
+            <label className="block text-sm text-white/70" htmlFor="email">
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="username"
+              className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-white outline-none focus:border-white/25"
+              required
+            />
+            <label className="mt-4 block text-sm text-white/70" htmlFor="password">
               Password
             </label>
             <input
@@ -27,9 +44,9 @@ export default function Home() {
               type="password"
               autoComplete="current-password"
               className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-white outline-none focus:border-white/25"
-              placeholder="Enter DASHBOARD_PASSWORD"
               required
             />
+            {errorMessage ? <p className="mt-3 text-sm text-red-200">{errorMessage}</p> : null}
             <button
               type="submit"
               className="mt-4 w-full rounded-xl bg-white px-4 py-2 text-sm font-medium text-black"
@@ -39,7 +56,8 @@ export default function Home() {
           </form>
 
           <p className="mt-4 text-xs text-white/50">
-            Set <code className="rounded bg-white/10 px-1 py-0.5">DASHBOARD_PASSWORD</code> on Vercel + locally.
+            Sign in with your PONDER app account. Sessions are signed with{" "}
+            <code className="rounded bg-white/10 px-1 py-0.5">DASHBOARD_SESSION_SECRET</code> (set on Vercel + locally).
           </p>
         </div>
       </div>
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+import { PROMPT_STATUS_LABELS, isPromptStatus } from "@/lib/prompt-review";
+
+/**
+ * Warns when the current or next posting day's prompt is missing or unapproved (the app only shows
+ * approved prompts). Same check as the send-prompt-approval-alerts push. Renders nothing when all
+ * is well or the check fails, so it never blocks the page it sits on.
+ */
+export async function PromptApprovalBanner() {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin.rpc("get_upcoming_prompt_approvals");
+  if (error) {
+    console.error("[prompt-approval-banner] get_upcoming_prompt_approvals failed", error);
+    return null;
+  }
+
+  const now = Date.now();
+  const problems = (data ?? []).filter((row) => row.status !== "approved");
+  if (problems.length === 0) return null;
+
+  return (
+    <div className="space-y-1 rounded-2xl border border-amber-400/30 bg-amber-400/10 p-4 text-sm text-amber-100">
+      {problems.map((row) => {
+        const isLive = new Date(row.starts_at).getTime() <= now;
+        const when = isLive ? "is live now" : `opens ${new Date(row.starts_at).toLocaleString()}`;
+        return (
+          <div key={row.posting_date}>
+            Posting day {row.posting_date} ({when}):{" "}
+            {row.prompt_id ? (
+              <>
+                <Link className="underline underline-offset-4" href={`/dashboard/prompts/${encodeURIComponent(row.prompt_id)}`}>
+                  its prompt
+                </Link>{" "}
+                is {isPromptStatus(row.status) ? PROMPT_STATUS_LABELS[row.status].toLowerCase() : "not approved"}
+                {isLive ? ", so users see no prompt." : " and won't be shown unless it's approved first."}
+              </>
+            ) : (
+              <>
+                no prompt is scheduled.{" "}
+                <Link className="underline underline-offset-4" href="/dashboard/prompts/calendar">
+                  Open the calendar
+                </Link>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { movePromptToDate } from "@/app/dashboard/prompts/actions";
+import { PROMPT_STATUS_LABELS, type PromptStatus } from "@/lib/prompt-review";
+
+export type CalendarPrompt = {
+  id: string;
+  prompt_text: string;
+  prompt_date: string;
+  theme: string | null;
+  status: PromptStatus;
+};
+
+export type CalendarDay = {
+  date: string; // YYYY-MM-DD cycle date
+  phase: "posting" | "viewing";
+  isBlackout: boolean;
+  inMonth: boolean;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Prompts scheduled after the visible grid, offered as drag sources.
+const LATER_PROMPTS_LIMIT = 12;
+
+// Mirrors move_daily_prompt: the dropped prompt takes the date, the prompt already there (if any) takes its old one.
+function applyMove(prompts: CalendarPrompt[], promptId: string, date: string) {
+  const moving = prompts.find((p) => p.id === promptId);
+  if (!moving) return prompts;
+  return prompts.map((p) => {
+    if (p.id === promptId) return { ...p, prompt_date: date };
+    if (p.prompt_date === date) return { ...p, prompt_date: moving.prompt_date };
+    return p;
+  });
+}
+
+function PromptChip({
+  prompt,
+  draggable,
+  onDragStart,
+  onDragEnd,
+}: {
+  prompt: CalendarPrompt;
+  draggable: boolean;
+  onDragStart: (e: React.DragEvent, id: string) => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <Link
+      href={`/dashboard/prompts/${encodeURIComponent(prompt.id)}`}
+      draggable={draggable}
+      onDragStart={(e) => onDragStart(e, prompt.id)}
+      onDragEnd={onDragEnd}
+      title={`${prompt.prompt_text} (${PROMPT_STATUS_LABELS[prompt.status]})`}
+      className={[
+        "block cursor-grab truncate rounded-lg border bg-black/40 px-2 py-1 text-[11px] text-white/90",
+        prompt.status === "approved"
+          ? "border-white/10 hover:border-white/25"
+          : "border-dashed border-amber-400/40 hover:border-amber-400/70",
+      ].join(" ")}
+    >
+      {prompt.status === "approved" ? null : <span className="text-amber-200">{PROMPT_STATUS_LABELS[prompt.status]}: </span>}
+      {prompt.prompt_text}
+    </Link>
+  );
+}
+
+/**
+ * Month grid for /dashboard/prompts/calendar. Phases come from the server (lib/phase.ts);
+ * drops call movePromptToDate and update optimistically.
+ */
+export function PromptCalendarClient({
+  days,
+  prompts: initialPrompts,
+  today,
+  upcomingPostingDates,
+}: {
+  days: CalendarDay[];
+  prompts: CalendarPrompt[];
+  today: string;
+  upcomingPostingDates: string[]; // from today, for the gaps panel
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [prompts, setPrompts] = useState(initialPrompts);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overDate, setOverDate] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Server data wins after router.refresh().
+  useEffect(() => setPrompts(initialPrompts), [initialPrompts]);
+
+  const promptsByDate = useMemo(() => {
+    const map = new Map<string, CalendarPrompt[]>();
+    for (const p of prompts) map.set(p.prompt_date, [...(map.get(p.prompt_date) ?? []), p]);
+    return map;
+  }, [prompts]);
+
+  const gaps = useMemo(
+    () => upcomingPostingDates.filter((date) => !promptsByDate.has(date)),
+    [upcomingPostingDates, promptsByDate]
+  );
+
+  const lastGridDate = days[days.length - 1]?.date ?? today;
+  const laterPrompts = useMemo(
+    () =>
+      prompts
+        .filter((p) => p.prompt_date > lastGridDate)
+        .sort((a, b) => a.prompt_date.localeCompare(b.prompt_date))
+        .slice(0, LATER_PROMPTS_LIMIT),
+    [prompts, lastGridDate]
+  );
+
+  function onDragStart(e: React.DragEvent, id: string) {
+    setDraggingId(id);
+    try {
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", id);
+    } catch {
+      // ignore
+    }
+  }
+
+  function onDragEnd() {
+    setDraggingId(null);
+    setOverDate(null);
+  }
+
+  function onDragOver(e: React.DragEvent, date: string) {
+    e.preventDefault();
+    if (overDate !== date) setOverDate(date);
+  }
+
+  function onDrop(e: React.DragEvent, date: string) {
+    e.preventDefault();
+    const dragged =
+      draggingId ??
+      (() => {
+        try {
+          return e.dataTransfer.getData("text/plain") || null;
+        } catch {
+          return null;
+        }
+      })();
+    onDragEnd();
+    if (!dragged) return;
+
+    const prompt = prompts.find((p) => p.id === dragged);
+    if (!prompt || prompt.prompt_date === date) return;
+
+    const previous = prompts;
+    setPrompts(applyMove(prompts, dragged, date));
+    setErrorMessage(null);
+    startTransition(async () => {
+      try {
+        await movePromptToDate(dragged, date);
+        router.refresh();
+      } catch (error) {
+        setPrompts(previous);
+        setErrorMessage(error instanceof Error ? error.message : "Failed to move prompt");
+      }
+    });
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_16rem]">
+      <div className="overflow-hidden rounded-2xl border border-white/10">
+        <div className="flex items-center justify-between bg-white/5 px-4 py-3 text-sm">
+          <div className="flex items-center gap-3 text-xs text-white/60">
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-full bg-emerald-400" /> posting
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-full bg-sky-400" /> viewing
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-full bg-white/30" /> blackout
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-3 rounded border border-dashed border-amber-400/60" /> not approved
+            </span>
+          </div>
+          {isPending ? <div className="text-xs text-white/60">Saving…</div> : null}
+        </div>
+        {errorMessage ? <div className="px-4 py-2 text-sm text-red-200">{errorMessage}</div> : null}
+
+        <div className="grid grid-cols-7 border-t border-white/10 text-xs text-white/50">
+          {WEEKDAYS.map((w) => (
+            <div key={w} className="px-2 py-2">
+              {w}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((d) => {
+            const dayPrompts = promptsByDate.get(d.date) ?? [];
+            const isPostingDay = d.phase === "posting" && !d.isBlackout;
+            const isGap = isPostingDay && d.date >= today && dayPrompts.length === 0;
+            const isHiddenPrompt = !isPostingDay && dayPrompts.length > 0;
+            const isOver = overDate === d.date && !!draggingId;
+
+            return (
+              <div
+                key={d.date}
+                onDragOver={(e) => onDragOver(e, d.date)}
+                onDrop={(e) => onDrop(e, d.date)}
+                className={[
+                  "min-h-28 space-y-1 border-r border-t border-white/10 p-2",
+                  d.inMonth ? "" : "opacity-40",
+                  isOver ? "bg-white/10" : isGap ? "bg-red-500/10" : "",
+                ].join(" ")}
+              >
+                <div className="flex items-center justify-between text-xs">
+                  <span className={d.date === today ? "rounded bg-white px-1 font-semibold text-black" : "text-white/70"}>
+                    {Number(d.date.slice(8))}
+                  </span>
+                  <span
+                    className={`h-2 w-2 rounded-full ${
+                      d.isBlackout ? "bg-white/30" : d.phase === "posting" ? "bg-emerald-400" : "bg-sky-400"
+                    }`}
+                    title={d.isBlackout ? "blackout" : d.phase}
+                  />
+                </div>
+                {dayPrompts.map((p) => (
+                  <PromptChip
+                    key={p.id}
+                    prompt={p}
+                    draggable={!isPending}
+                    onDragStart={onDragStart}
+                    onDragEnd={onDragEnd}
+                  />
+                ))}
+                {isGap ? <div className="text-[10px] text-red-200">No prompt</div> : null}
+                {isHiddenPrompt ? (
+                  <div className="text-[10px] text-amber-200">Not shown ({d.isBlackout ? "blackout" : "viewing day"})</div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="text-sm font-medium">Upcoming gaps</div>
+          <div className="mt-1 text-xs text-white/60">Posting days in the next 30 days with no prompt.</div>
+          {gaps.length === 0 ? (
+            <div className="mt-3 text-sm text-white/60">None. Every posting day has a prompt.</div>
+          ) : (
+            <ul className="mt-3 space-y-1 text-sm text-red-200">
+              {gaps.map((date) => (
+                <li key={date}>{date}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="text-sm font-medium">Later prompts</div>
+          <div className="mt-1 text-xs text-white/60">Scheduled after this view. Drag one onto a day to pull it in.</div>
+          {laterPrompts.length === 0 ? (
+            <div className="mt-3 text-sm text-white/60">Nothing scheduled later.</div>
+          ) : (
+            <div className="mt-3 space-y-2">
+              {laterPrompts.map((p) => (
+                <div key={p.id}>
+                  <div className="text-[10px] text-white/50">{p.prompt_date}</div>
+                  <PromptChip prompt={p} draggable={!isPending} onDragStart={onDragStart} onDragEnd={onDragEnd} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { importPrompts, previewPromptImport } from "@/app/dashboard/prompts/actions";
+import type { PromptBankFormat, PromptImportAction, PromptImportPlan } from "@/lib/prompt-bank";
+
+const ACTION_STYLES: Record<PromptImportAction, string> = {
+  create: "border-emerald-400/30 bg-emerald-400/10 text-emerald-200",
+  update: "border-sky-400/30 bg-sky-400/10 text-sky-200",
+  unchanged: "border-white/10 bg-white/5 text-white/60",
+  conflict: "border-amber-400/30 bg-amber-400/10 text-amber-200",
+  invalid: "border-red-500/30 bg-red-500/10 text-red-200",
+};
+
+const ACTION_ORDER: PromptImportAction[] = ["create", "update", "conflict", "invalid", "unchanged"];
+
+function detectFormat(fileName: string, text: string): PromptBankFormat {
+  if (/\.json$/i.test(fileName)) return "json";
+  if (/\.csv$/i.test(fileName)) return "csv";
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+export function PromptImportClient() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [file, setFile] = useState<{ name: string; text: string; format: PromptBankFormat } | null>(null);
+  const [plan, setPlan] = useState<PromptImportPlan | null>(null);
+  const [imported, setImported] = useState<PromptImportPlan | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0];
+    setPlan(null);
+    setImported(null);
+    setErrorMessage(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const text = await selected.text();
+    const next = { name: selected.name, text, format: detectFormat(selected.name, text) };
+    setFile(next);
+    startTransition(async () => {
+      try {
+        setPlan(await previewPromptImport(next.text, next.format));
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : "Failed to read file");
+      }
+    });
+  }
+
+  function onImport() {
+    if (!file) return;
+    setErrorMessage(null);
+    startTransition(async () => {
+      try {
+        setImported(await importPrompts(file.text, file.format));
+        setPlan(null);
+        router.refresh();
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : "Import failed");
+      }
+    });
+  }
+
+  const writableCount = plan ? plan.counts.create + plan.counts.update : 0;
+  const entries = plan
+    ? [...plan.entries]
+        .filter((e) => showUnchanged || e.action !== "unchanged")
+        .sort((a, b) => ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action) || a.row - b.row)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+        <label className="text-sm">
+          <div className="text-xs text-white/60">Prompt bank (.csv or .json)</div>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => void onFileChange(e)}
+            disabled={isPending}
+            className="mt-2 block text-sm text-white/80 file:mr-3 file:rounded-lg file:border-0 file:bg-white file:px-3 file:py-1.5 file:text-xs file:font-medium file:text-black"
+          />
+        </label>
+        {file ? (
+          <div className="mt-2 text-xs text-white/60">
+            {file.name} • read as {file.format.toUpperCase()}
+            {isPending ? " • working…" : ""}
+          </div>
+        ) : null}
+        {errorMessage ? <div className="mt-3 text-sm text-red-200">{errorMessage}</div> : null}
+        {imported ? (
+          <div className="mt-3 text-sm text-emerald-200">
+            Imported: {imported.counts.create} created, {imported.counts.update} updated
+            {imported.counts.conflict + imported.counts.invalid > 0
+              ? `, ${imported.counts.conflict + imported.counts.invalid} skipped`
+              : ""}
+            .
+          </div>
+        ) : null}
+      </div>
+
+      {plan ? (
+        <div className="overflow-hidden rounded-2xl border border-white/10">
+          <div className="flex flex-wrap items-center justify-between gap-3 bg-white/5 px-4 py-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              {ACTION_ORDER.map((action) => (
+                <span key={action} className={`rounded-full border px-2 py-0.5 text-xs ${ACTION_STYLES[action]}`}>
+                  {plan.counts[action]} {action}
+                </span>
+              ))}
+              <label className="ml-2 flex items-center gap-1 text-xs text-white/60">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged
+              </label>
+            </div>
+            <button
+              type="button"
+              onClick={onImport}
+              disabled={isPending || writableCount === 0 || plan.fileErrors.length > 0}
+              className="rounded-xl bg-white px-4 py-2 text-sm font-medium text-black disabled:opacity-60"
+            >
+              Import {writableCount} {writableCount === 1 ? "prompt" : "prompts"}
+            </button>
+          </div>
+
+          {plan.fileErrors.length > 0 ? (
+            <div className="px-4 py-3 text-sm text-red-200">{plan.fileErrors.join(" • ")}</div>
+          ) : null}
+
+          {entries.length === 0 ? (
+            <div className="px-4 py-6 text-sm text-white/60">Nothing to change.</div>
+          ) : (
+            <div className="divide-y divide-white/10">
+              {entries.map((e) => (
+                <div key={e.row} className="px-4 py-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`rounded-full border px-2 py-0.5 text-[10px] ${ACTION_STYLES[e.action]}`}>
+                      {e.action}
+                    </span>
+                    <span className="text-xs text-white/50">row {e.row}</span>
+                    {e.prompt_date ? <span className="text-xs text-white/50">{e.prompt_date}</span> : null}
+                  </div>
+                  <div className="mt-1 text-white/90">{e.prompt_text || <span className="text-white/40">(empty)</span>}</div>
+                  {e.changes.map((c) => (
+                    <div key={c.field} className="mt-1 text-xs text-white/60">
+                      {c.field}: <span className="text-red-200 line-through">{c.before ?? "—"}</span> →{" "}
+                      <span className="text-emerald-200">{c.after ?? "—"}</span>
+                    </div>
+                  ))}
+                  {e.messages.map((m) => (
+                    <div key={m} className="mt-1 text-xs text-amber-200">
+                      {m}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
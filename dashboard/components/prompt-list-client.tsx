@@ -4,6 +4,8 @@ import Link from "next/link";
 import { useMemo, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { deletePromptById, reorderPrompts } from "@/app/dashboard/prompts/actions";
+import { PromptStatusBadge } from "@/components/prompt-status-badge";
+import { isPromptStatus } from "@/lib/prompt-review";
 
 export type PromptRow = {
   id: string | number;
@@ -12,6 +14,8 @@ export type PromptRow = {
   prompt_date: string;
   theme: string | null;
   display_order: number | null;
+  force_anonymous?: boolean;
+  status?: string;
   created_at?: string;
 };
 
@@ -153,9 +157,13 @@ export function PromptListClient({ initialPrompts }: { initialPrompts: PromptRow
                     {idx + 1}
                   </div>
                   <div className="min-w-0">
-                    <div className="text-sm font-medium">{p.prompt_text}</div>
+                    <div className="flex items-center gap-2">
+                      <div className="text-sm font-medium">{p.prompt_text}</div>
+                      {isPromptStatus(p.status) ? <PromptStatusBadge status={p.status} /> : null}
+                    </div>
                     <div className="mt-1 text-xs text-white/60">
                       order={idx + 1} • date={computedDate} • id={id} • theme={p.theme ?? "—"}
+                      {p.force_anonymous ? " • anonymous" : ""}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,15 @@
+import { PROMPT_STATUS_LABELS, type PromptStatus } from "@/lib/prompt-review";
+
+const STATUS_CLASSES: Record<PromptStatus, string> = {
+  draft: "border-white/15 bg-white/5 text-white/70",
+  in_review: "border-amber-400/30 bg-amber-400/10 text-amber-200",
+  approved: "border-emerald-400/30 bg-emerald-400/10 text-emerald-200",
+};
+
+export function PromptStatusBadge({ status }: { status: PromptStatus }) {
+  return (
+    <span className={`inline-flex shrink-0 rounded-full border px-2 py-0.5 text-[11px] ${STATUS_CLASSES[status]}`}>
+      {PROMPT_STATUS_LABELS[status]}
+    </span>
+  );
+}
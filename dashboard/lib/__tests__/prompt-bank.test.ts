@@ -0,0 +1,130 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { parsePromptBank, planPromptImport, serializePromptBank, type BankPrompt } from "../prompt-bank";
+
+const existing: BankPrompt[] = [
+  { id: "p1", prompt_text: "What made you laugh?", explanation_text: null, theme: "joy", prompt_date: "2026-10-20" },
+  { id: "p2", prompt_text: "Best meal this week?", explanation_text: "Any meal counts", theme: null, prompt_date: "2026-10-21" },
+];
+
+describe("parsePromptBank (csv)", () => {
+  it("reads quoted fields with commas, newlines and doubled quotes", () => {
+    const csv = 'prompt_text,explanation_text\r\n"Hello, ""you""","line one\r\nline two"\r\n';
+    expect(parsePromptBank(csv, "csv")).toEqual([
+      {
+        row: 1,
+        id: undefined,
+        prompt_text: 'Hello, "you"',
+        explanation_text: "line one\r\nline two",
+        theme: undefined,
+        prompt_date: undefined,
+      },
+    ]);
+  });
+
+  it("strips a byte order mark and skips blank trailing lines", () => {
+    const rows = parsePromptBank("\uFEFFPrompt_Text,theme\nA prompt,\n\n,\n", "csv");
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ prompt_text: "A prompt", theme: null });
+  });
+
+  it("rejects files without prompt_text or with unknown columns", () => {
+    expect(() => parsePromptBank("theme\njoy\n", "csv")).toThrow("prompt_text column");
+    expect(() => parsePromptBank("prompt_text,mood\nHi,happy\n", "csv")).toThrow("Unknown CSV columns: mood");
+    expect(() => parsePromptBank('prompt_text\n"unterminated\n', "csv")).toThrow("unterminated");
+  });
+
+  it("round-trips an export", () => {
+    const csv = serializePromptBank(existing, "csv");
+    expect(planPromptImport(parsePromptBank(csv, "csv"), existing).counts.unchanged).toBe(2);
+  });
+});
+
+describe("parsePromptBank (json)", () => {
+  it("accepts an array or { prompts }", () => {
+    const list = [{ prompt_text: "Hi", theme: null }];
+    expect(parsePromptBank(JSON.stringify(list), "json")).toEqual(parsePromptBank(JSON.stringify({ prompts: list }), "json"));
+    expect(parsePromptBank(JSON.stringify(list), "json")[0]).toMatchObject({ prompt_text: "Hi", theme: null });
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parsePromptBank("{", "json")).toThrow("not valid JSON");
+    expect(() => parsePromptBank('{"rows": []}', "json")).toThrow("must be an array");
+  });
+});
+
+describe("planPromptImport", () => {
+  it("creates new prompts and updates matched ones by id or text", () => {
+    const plan = planPromptImport(
+      [
+        { row: 1, prompt_text: "A new prompt", prompt_date: "2026-10-25" },
+        { row: 2, id: "p1", prompt_text: "What made you laugh today?" },
+        { row: 3, prompt_text: "best MEAL  this week?", theme: "food" },
+        { row: 4, prompt_text: "What made you laugh?", theme: "joy" },
+      ],
+      existing
+    );
+
+    expect(plan.fileErrors).toEqual([]);
+    expect(plan.entries.map((e) => e.action)).toEqual(["create", "update", "update", "conflict"]);
+    expect(plan.entries[1]).toMatchObject({
+      existingId: "p1",
+      changes: [{ field: "prompt_text", before: "What made you laugh?", after: "What made you laugh today?" }],
+    });
+    expect(plan.entries[2]).toMatchObject({
+      existingId: "p2",
+      changes: [
+        { field: "prompt_text", before: "Best meal this week?", after: "best MEAL  this week?" },
+        { field: "theme", before: null, after: "food" },
+      ],
+    });
+    expect(plan.entries[3].messages).toEqual(["Same prompt as row 2"]);
+  });
+
+  it("treats matching rows as unchanged and empty values as clearing", () => {
+    const plan = planPromptImport(
+      [
+        { row: 1, id: "p1", prompt_text: "What made you laugh?", theme: "joy", prompt_date: "2026-10-20" },
+        { row: 2, id: "p2", prompt_text: "Best meal this week?", explanation_text: null },
+      ],
+      existing
+    );
+    expect(plan.entries[0].action).toBe("unchanged");
+    expect(plan.entries[1].changes).toEqual([{ field: "explanation_text", before: "Any meal counts", after: null }]);
+  });
+
+  it("reports dates taken by another prompt or an earlier row as conflicts", () => {
+    const plan = planPromptImport(
+      [
+        { row: 1, prompt_text: "First", prompt_date: "2026-10-21" },
+        { row: 2, prompt_text: "Second", prompt_date: "2026-10-30" },
+        { row: 3, prompt_text: "Third", prompt_date: "2026-10-30" },
+        { row: 4, id: "p1", prompt_text: "What made you laugh?", prompt_date: "2026-10-20" },
+      ],
+      existing
+    );
+    expect(plan.entries.map((e) => e.action)).toEqual(["conflict", "create", "conflict", "unchanged"]);
+    expect(plan.entries[0].messages[0]).toContain('already used by "Best meal this week?"');
+    expect(plan.entries[2].messages).toEqual(["2026-10-30 is also used by row 2"]);
+  });
+
+  it("marks bad dates, bad markup and unknown ids", () => {
+    const plan = planPromptImport(
+      [
+        { row: 1, prompt_text: "Nice", prompt_date: "2026-02-30" },
+        { row: 2, prompt_text: "An **unclosed bold" },
+        { row: 3, prompt_text: "" },
+        { row: 4, id: "missing", prompt_text: "Who?" },
+      ],
+      existing
+    );
+    expect(plan.entries.map((e) => e.action)).toEqual(["invalid", "invalid", "invalid", "conflict"]);
+    expect(plan.entries[0].messages).toEqual(["prompt_date must be YYYY-MM-DD"]);
+    expect(plan.entries[3].messages).toEqual(["No existing prompt has id missing"]);
+    expect(plan.counts).toEqual({ create: 0, update: 0, unchanged: 0, conflict: 1, invalid: 3 });
+  });
+
+  it("rejects empty files", () => {
+    expect(planPromptImport([], existing).fileErrors).toEqual(["File has no prompts"]);
+  });
+});
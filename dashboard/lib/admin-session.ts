@@ -0,0 +1,68 @@
+import { cookies } from "next/headers";
+import { DASH_COOKIE_NAME, hasRole, isAdminRole, readSessionCookieValue, type AdminRole } from "@/lib/auth";
+import { getSupabaseAdmin } from "@/lib/supabase-admin";
+
+export type DashboardAdmin = {
+  userId: string;
+  email: string;
+  role: AdminRole;
+};
+
+/**
+ * The signed-in admin, with the role re-read from `admin_users` so removals and downgrades apply
+ * before the session cookie expires. Null when signed out or no longer an admin.
+ */
+export async function getDashboardAdmin(): Promise<DashboardAdmin | null> {
+  const session = await readSessionCookieValue(cookies().get(DASH_COOKIE_NAME)?.value);
+  if (!session) return null;
+
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .select("role")
+    .eq("user_id", session.userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || !isAdminRole(data.role)) return null;
+
+  return { userId: session.userId, email: session.email, role: data.role };
+}
+
+/**
+ * Call first in every server action. Middleware only checks the cookie, and server actions can be
+ * posted to any page.
+ */
+export async function requireRole(required: AdminRole): Promise<DashboardAdmin> {
+  const admin = await getDashboardAdmin();
+  if (!admin) throw new Error("Not signed in");
+  if (!hasRole(admin.role, required)) throw new Error("You don't have permission to do that");
+  return admin;
+}
+
+export type AdminAction = {
+  action: string; // e.g. "prompt.update"
+  targetType: string;
+  targetId?: string | null;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Appends to `admin_audit_log` after a change succeeds. A failed write is logged, not thrown:
+ * the change itself already happened.
+ */
+export async function recordAdminAction(admin: DashboardAdmin, entry: AdminAction) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const { error } = await supabaseAdmin.from("admin_audit_log").insert({
+    admin_id: admin.userId,
+    admin_email: admin.email,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId ?? null,
+    details: entry.details ?? {},
+  });
+  if (error) console.error("[audit] insert failed", entry.action, error.message);
+}
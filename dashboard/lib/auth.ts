@@ -1,15 +1,116 @@
 export const DASH_COOKIE_NAME = "PONDER_dash";
 
-export function getDashboardPassword(): string {
-  const pw = process.env.DASHBOARD_PASSWORD;
-  if (!pw) throw new Error("Missing DASHBOARD_PASSWORD env var");
-  return pw;
+/**
+ * Dashboard sessions.
+ *
+ * Admins sign in with their Supabase account (app/api/login); the cookie holds a signed
+ * `{ userId, email, role, exp }` so the Edge middleware can check it without a database call.
+ * Server actions re-read the role from `admin_users` (lib/admin-session.ts), so a revoked or
+ * downgraded admin loses write access immediately even with an unexpired cookie.
+ *
+ * Keep this module Edge-safe: Web Crypto only, no Node APIs.
+ */
+
+// Cumulative: each role can do everything the previous ones can.
+export const ADMIN_ROLES = ["viewer", "prompt_editor", "operator"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  prompt_editor: "Prompt editor",
+  operator: "Operator",
+};
+
+export type AdminSession = {
+  userId: string;
+  email: string;
+  role: AdminRole;
+  exp: number; // unix seconds
+};
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 12; // 12 hours
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(role: AdminRole, required: AdminRole) {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+// Mutations are server actions, which POST to the page they're on.
+const WRITE_ROLE_BY_PATH: Array<[prefix: string, role: AdminRole]> = [["/dashboard/prompts", "prompt_editor"]];
+
+/**
+ * Minimum role for a dashboard request: any admin can read; writes need prompt_editor on the
+ * prompt pages and operator everywhere else.
+ */
+export function requiredRoleForRequest(pathname: string, method: string): AdminRole {
+  if (method === "GET" || method === "HEAD") return "viewer";
+  const match = WRITE_ROLE_BY_PATH.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return match ? match[1] : "operator";
 }
 
-export function expectedCookieValue(): string {
-  // Keep this Edge-safe (no Node crypto). For a dev-only dashboard, storing the password
-  // as an httpOnly cookie is acceptable.
-  return getDashboardPassword();
+function getSessionSecret(): string {
+  const secret = process.env.DASHBOARD_SESSION_SECRET;
+  if (!secret) throw new Error("Missing DASHBOARD_SESSION_SECRET env var");
+  return secret;
 }
 
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getSigningKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getSessionSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
 
+export async function createSessionCookieValue(session: Omit<AdminSession, "exp">): Promise<string> {
+  const payload: AdminSession = { ...session, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Null for a missing, tampered or expired cookie.
+ */
+export async function readSessionCookieValue(value: string | undefined | null): Promise<AdminSession | null> {
+  if (!value) return null;
+  const [body, signature] = value.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(body)
+    );
+    if (!isValid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<AdminSession>;
+    if (typeof session.userId !== "string" || typeof session.email !== "string" || !isAdminRole(session.role)) {
+      return null;
+    }
+    if (typeof session.exp !== "number" || session.exp <= Math.floor(Date.now() / 1000)) return null;
+    return session as AdminSession;
+  } catch {
+    // Malformed base64/JSON
+    return null;
+  }
+}
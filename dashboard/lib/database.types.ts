@@ -13,6 +13,12 @@ export type Database = {
           theme: string | null;
           display_order: number | null;
           is_active?: boolean | null;
+          force_anonymous?: boolean;
+          status: "draft" | "in_review" | "approved";
+          review_note: string | null;
+          updated_by: string | null;
+          approved_by: string | null;
+          approved_at: string | null;
           created_at?: string;
         };
         Insert: {
@@ -23,6 +29,11 @@ export type Database = {
           theme?: string | null;
           display_order?: number | null;
           is_active?: boolean | null;
+          force_anonymous?: boolean;
+          status?: "draft" | "in_review" | "approved";
+          review_note?: string | null;
+          updated_by?: string | null;
+          approved_by?: string | null;
         };
         Update: {
           prompt_text?: string;
@@ -31,9 +42,35 @@ export type Database = {
           theme?: string | null;
           display_order?: number | null;
           is_active?: boolean | null;
+          force_anonymous?: boolean;
+          status?: "draft" | "in_review" | "approved";
+          review_note?: string | null;
+          updated_by?: string | null;
+          approved_by?: string | null;
         };
         Relationships: [];
       };
+      daily_prompt_versions: {
+        Row: {
+          id: string;
+          prompt_id: string;
+          version: number;
+          event: "created" | "edited" | "submitted" | "approved" | "returned";
+          status: "draft" | "in_review" | "approved";
+          prompt_text: string;
+          explanation_text: string | null;
+          theme: string | null;
+          force_anonymous: boolean;
+          prompt_date: string | null;
+          note: string | null;
+          edited_by: string | null;
+          edited_by_email: string | null;
+          created_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+        Relationships: [];
+      };
       user_events: {
         Row: {
           id: string;
@@ -110,6 +147,9 @@ export type Database = {
           id: string;
           author_id: string;
           prompt_id: string | number;
+          quote: string;
+          expanded_text: string | null;
+          hidden_at: string | null;
           created_at?: string;
         };
         Insert: {
@@ -118,12 +158,51 @@ export type Database = {
           prompt_id: string | number;
           created_at?: string;
         };
-        Update: Record<string, never>;
+        Update: {
+          hidden_at?: string | null;
+        };
+        Relationships: [];
+      };
+      post_comments: {
+        Row: {
+          id: string;
+          post_id: string;
+          user_id: string;
+          content: string;
+          parent_comment_id: string | null;
+          hidden_at: string | null;
+          created_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: {
+          hidden_at?: string | null;
+        };
+        Relationships: [];
+      };
+      content_reports: {
+        Row: {
+          id: string;
+          reporter_id: string;
+          reported_user_id: string | null;
+          post_id: string | null;
+          comment_id: string | null;
+          reason: "spam" | "harassment" | "hate" | "self_harm" | "nudity" | "other";
+          details: string | null;
+          status: "open" | "dismissed" | "actioned";
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: {
+          status?: "open" | "dismissed" | "actioned";
+          reviewed_at?: string | null;
+        };
         Relationships: [];
       };
       profiles: {
         Row: {
           id: string;
+          username: string | null;
           display_name: string | null;
           avatar_url: string | null;
           created_at: string;
@@ -139,9 +218,184 @@ export type Database = {
         };
         Relationships: [];
       };
+      phase_schedules: {
+        Row: {
+          id: string;
+          effective_from: string;
+          anchor_date: string;
+          time_zone: string;
+          flip_hour: number;
+          segments: { phase: "posting" | "viewing"; days: number }[];
+          blackout_dates: string[];
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          effective_from: string;
+          anchor_date: string;
+          time_zone?: string;
+          flip_hour?: number;
+          segments?: { phase: "posting" | "viewing"; days: number }[];
+          blackout_dates?: string[];
+          note?: string | null;
+        };
+        Update: {
+          effective_from?: string;
+          anchor_date?: string;
+          time_zone?: string;
+          flip_hour?: number;
+          segments?: { phase: "posting" | "viewing"; days: number }[];
+          blackout_dates?: string[];
+          note?: string | null;
+        };
+        Relationships: [];
+      };
+      push_deliveries: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          expo_push_token: string;
+          source: "phase" | "activity" | "admin";
+          notification_type: string;
+          ticket_id: string | null;
+          status: "pending" | "delivered" | "failed" | "expired";
+          error: string | null;
+          error_message: string | null;
+          created_at: string;
+          receipt_checked_at: string | null;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+        Relationships: [];
+      };
+      notification_runs: {
+        Row: {
+          id: string;
+          cycle_date: string;
+          notification_type: "posting_open" | "posting_reminder" | "viewing_open";
+          dry_run: boolean;
+          status: "running" | "completed" | "failed";
+          trigger_time: string | null;
+          invocations: number;
+          recipient_count: number;
+          sent_count: number;
+          failed_count: number;
+          error: string | null;
+          started_at: string;
+          finished_at: string | null;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+        Relationships: [];
+      };
+      notification_run_recipients: {
+        Row: {
+          run_id: string;
+          expo_push_token: string;
+          user_id: string | null;
+          status: "pending" | "sent" | "failed";
+          ticket_id: string | null;
+          error: string | null;
+          attempts: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+        Relationships: [];
+      };
+      admin_users: {
+        Row: {
+          user_id: string;
+          role: "viewer" | "prompt_editor" | "operator";
+          created_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+        Relationships: [];
+      };
+      admin_audit_log: {
+        Row: {
+          id: string;
+          admin_id: string | null;
+          admin_email: string;
+          action: string;
+          target_type: string;
+          target_id: string | null;
+          details: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          admin_id: string | null;
+          admin_email: string;
+          action: string;
+          target_type: string;
+          target_id?: string | null;
+          details?: Record<string, unknown>;
+        };
+        Update: Record<string, never>;
+        Relationships: [];
+      };
     };
     Views: Record<string, never>;
-    Functions: Record<string, never>;
+    Functions: {
+      move_daily_prompt: {
+        Args: { p_prompt_id: string; p_date: string; p_allow_live?: boolean };
+        Returns: { from_date: string; swapped_prompt_id: string | null }[];
+      };
+      get_prompt_metrics: {
+        Args: { p_since?: string | null; p_prompt_id?: string | null };
+        Returns: {
+          prompt_id: string;
+          prompt_date: string;
+          window_start: string;
+          window_end: string;
+          active_users: number;
+          responders: number;
+          minutes_after_window_open_median: number | null;
+          avg_word_count: number | null;
+          likes: number;
+          comments: number;
+          rating_count: number;
+          avg_rating: number | null;
+          would_share_count: number;
+          would_share_yes: number;
+        }[];
+      };
+      reorder_daily_prompts: {
+        Args: { p_prompt_ids: string[]; p_allow_live?: boolean };
+        Returns: undefined;
+      };
+      delete_daily_prompt: {
+        Args: { p_prompt_id: string; p_allow_live?: boolean };
+        Returns: { deleted_text: string; deleted_date: string | null; deleted_order: number | null }[];
+      };
+      import_daily_prompts: {
+        Args: {
+          p_creates: {
+            prompt_text: string;
+            explanation_text: string | null;
+            theme: string | null;
+            prompt_date: string;
+            display_order: number;
+          }[];
+          p_updates: { id: string; fields: Partial<Record<"prompt_text" | "explanation_text" | "theme" | "prompt_date", string | null>> }[];
+          p_updated_by?: string | null;
+        };
+        Returns: { created: number; updated: number }[];
+      };
+      get_upcoming_prompt_approvals: {
+        Args: Record<string, never>;
+        Returns: {
+          posting_date: string;
+          starts_at: string;
+          prompt_id: string | null;
+          prompt_text: string | null;
+          status: "draft" | "in_review" | "approved" | null;
+        }[];
+      };
+    };
     Enums: Record<string, never>;
     CompositeTypes: Record<string, never>;
   };
@@ -0,0 +1,3 @@
+// Phase schedule evaluator shared with the mobile app and the send-notifications edge function.
+// Imported across the repo boundary (next.config.mjs enables experimental.externalDir).
+export * from "../../supabase/functions/_shared/phase-schedule";
@@ -0,0 +1,306 @@
+// Prompt bank import/export (CSV + JSON) for daily_prompts.
+// Pure parsing/diffing so the preview and the import itself (prompts/actions.ts) compute the same plan.
+
+export type PromptBankFormat = "csv" | "json";
+
+export const PROMPT_BANK_COLUMNS = ["id", "prompt_date", "prompt_text", "explanation_text", "theme"] as const;
+type PromptBankColumn = (typeof PROMPT_BANK_COLUMNS)[number];
+
+// Matches the dashboard prompts page limit.
+export const PROMPT_BANK_MAX_ROWS = 1000;
+
+/**
+ * One row from an imported file. Optional fields are `undefined` when the column/key is missing
+ * (keep the existing value on update) and `null` when present but empty (clear it).
+ */
+export type PromptBankRow = {
+  row: number; // 1-based data row, for messages
+  id?: string;
+  prompt_text: string;
+  explanation_text?: string | null;
+  theme?: string | null;
+  prompt_date?: string; // empty means "auto" for creates and "unchanged" for updates
+};
+
+export type BankPrompt = {
+  id: string;
+  prompt_text: string;
+  explanation_text: string | null;
+  theme: string | null;
+  prompt_date: string;
+};
+
+export type PromptImportAction = "create" | "update" | "unchanged" | "conflict" | "invalid";
+
+export type PromptImportChange = {
+  field: "prompt_text" | "explanation_text" | "theme" | "prompt_date";
+  before: string | null;
+  after: string | null;
+};
+
+export type PromptImportEntry = {
+  row: number;
+  action: PromptImportAction;
+  prompt_text: string;
+  prompt_date: string | null;
+  existingId: string | null;
+  changes: PromptImportChange[];
+  messages: string[];
+};
+
+export type PromptImportPlan = {
+  entries: PromptImportEntry[];
+  fileErrors: string[]; // problems with the file as a whole (no rows are imported)
+  counts: Record<PromptImportAction, number>;
+};
+
+// ---------------------------------------------------------------------------
+// **bold** markup (see components/prompts/formatted-text.tsx in the app)
+// ---------------------------------------------------------------------------
+
+const BOLD_PATTERN = /\*\*(.+?)\*\*/g;
+
+/**
+ * FormattedText only bolds `**text**` pairs on a single line; anything else shows the asterisks
+ * to users. Returns human-readable problems (empty when the text renders cleanly).
+ */
+export function validateFormattedText(text: string): string[] {
+  const problems: string[] = [];
+  for (const match of Array.from(text.matchAll(BOLD_PATTERN))) {
+    if (!match[1].trim()) problems.push("has an empty **bold** section");
+  }
+  if (text.replace(BOLD_PATTERN, "").includes("**")) {
+    problems.push("has an unmatched ** (bold markers must come in pairs on the same line)");
+  }
+  return problems;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) throw new Error("CSV has an unterminated quoted field");
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Spreadsheets often leave blank trailing lines.
+  return records.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function isPromptBankColumn(value: string): value is PromptBankColumn {
+  return (PROMPT_BANK_COLUMNS as readonly string[]).includes(value);
+}
+
+function toRow(row: number, values: Partial<Record<PromptBankColumn, unknown>>): PromptBankRow {
+  const text = (v: unknown) => (v === undefined ? undefined : v === null ? null : String(v).trim() || null);
+  return {
+    row,
+    id: text(values.id) ?? undefined,
+    prompt_text: text(values.prompt_text) ?? "",
+    explanation_text: text(values.explanation_text),
+    theme: text(values.theme),
+    prompt_date: text(values.prompt_date) ?? undefined,
+  };
+}
+
+/**
+ * Throws with a readable message when the file can't be read at all; per-row problems are
+ * reported by planPromptImport instead.
+ */
+export function parsePromptBank(text: string, format: PromptBankFormat): PromptBankRow[] {
+  const body = text.replace(/^\uFEFF/, "");
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { prompts?: unknown } | null)?.prompts;
+    if (!Array.isArray(list)) throw new Error('JSON must be an array of prompts (or { "prompts": [...] })');
+    return list.map((item, idx) => {
+      if (!item || typeof item !== "object") return toRow(idx + 1, {});
+      return toRow(idx + 1, item as Record<PromptBankColumn, unknown>);
+    });
+  }
+
+  const [header, ...records] = parseCsvRecords(body);
+  if (!header) throw new Error("CSV is empty");
+  const columns = header.map((h) => h.trim().toLowerCase());
+  if (!columns.includes("prompt_text")) throw new Error("CSV header must include a prompt_text column");
+  const unknown = columns.filter((c) => c && !isPromptBankColumn(c));
+  if (unknown.length > 0) throw new Error(`Unknown CSV columns: ${unknown.join(", ")}`);
+
+  return records.map((record, idx) => {
+    const values: Partial<Record<PromptBankColumn, unknown>> = {};
+    columns.forEach((column, i) => {
+      if (isPromptBankColumn(column)) values[column] = record[i] ?? "";
+    });
+    return toRow(idx + 1, values);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Diff against existing rows
+// ---------------------------------------------------------------------------
+
+function isValidIsoDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+function normalizeText(value: string) {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function describePrompt(p: BankPrompt) {
+  return p.prompt_text.length > 40 ? `"${p.prompt_text.slice(0, 40)}…"` : `"${p.prompt_text}"`;
+}
+
+/**
+ * Rows match existing prompts by `id` when given, otherwise by prompt text (case/whitespace
+ * insensitive). A date already used by a different existing prompt, or by an earlier row in the
+ * file, is a conflict: reschedule those in the calendar first.
+ */
+export function planPromptImport(rows: PromptBankRow[], existing: BankPrompt[]): PromptImportPlan {
+  const fileErrors: string[] = [];
+  if (rows.length === 0) fileErrors.push("File has no prompts");
+  if (rows.length > PROMPT_BANK_MAX_ROWS) fileErrors.push(`Files are limited to ${PROMPT_BANK_MAX_ROWS} prompts`);
+
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const byText = new Map(existing.map((p) => [normalizeText(p.prompt_text), p]));
+  const byDate = new Map(existing.map((p) => [p.prompt_date, p]));
+
+  const rowByMatchedId = new Map<string, number>();
+  const rowByNewText = new Map<string, number>();
+  const rowByDate = new Map<string, number>();
+
+  const entries = rows.map((row): PromptImportEntry => {
+    const messages: string[] = [];
+    const entry = (action: PromptImportAction, match: BankPrompt | null, changes: PromptImportChange[] = []) => ({
+      row: row.row,
+      action,
+      prompt_text: row.prompt_text,
+      prompt_date: row.prompt_date ?? null,
+      existingId: match?.id ?? null,
+      changes,
+      messages,
+    });
+
+    if (!row.prompt_text) messages.push("prompt_text is required");
+    if (row.prompt_date && !isValidIsoDate(row.prompt_date)) messages.push("prompt_date must be YYYY-MM-DD");
+    for (const problem of validateFormattedText(row.prompt_text)) messages.push(`prompt_text ${problem}`);
+    for (const problem of validateFormattedText(row.explanation_text ?? "")) messages.push(`explanation_text ${problem}`);
+    if (messages.length > 0) return entry("invalid", null);
+
+    const match = row.id ? byId.get(row.id) ?? null : byText.get(normalizeText(row.prompt_text)) ?? null;
+    if (row.id && !match) messages.push(`No existing prompt has id ${row.id}`);
+
+    if (match) {
+      const earlier = rowByMatchedId.get(match.id);
+      if (earlier !== undefined) messages.push(`Same prompt as row ${earlier}`);
+      else rowByMatchedId.set(match.id, row.row);
+    } else {
+      const key = normalizeText(row.prompt_text);
+      const earlier = rowByNewText.get(key);
+      if (earlier !== undefined) messages.push(`Same prompt text as row ${earlier}`);
+      else rowByNewText.set(key, row.row);
+    }
+
+    if (row.prompt_date && row.prompt_date !== match?.prompt_date) {
+      const owner = byDate.get(row.prompt_date);
+      const earlier = rowByDate.get(row.prompt_date);
+      if (owner && owner.id !== match?.id) messages.push(`${row.prompt_date} is already used by ${describePrompt(owner)}`);
+      else if (earlier !== undefined) messages.push(`${row.prompt_date} is also used by row ${earlier}`);
+      else rowByDate.set(row.prompt_date, row.row);
+    }
+
+    if (messages.length > 0) return entry("conflict", match);
+    if (!match) return entry("create", null);
+
+    const changes: PromptImportChange[] = [];
+    const compare = (field: PromptImportChange["field"], before: string | null, after: string | null | undefined) => {
+      if (after !== undefined && (before ?? null) !== after) changes.push({ field, before, after });
+    };
+    compare("prompt_text", match.prompt_text, row.prompt_text);
+    compare("explanation_text", match.explanation_text, row.explanation_text);
+    compare("theme", match.theme, row.theme);
+    compare("prompt_date", match.prompt_date, row.prompt_date);
+
+    return entry(changes.length > 0 ? "update" : "unchanged", match, changes);
+  });
+
+  const counts: Record<PromptImportAction, number> = { create: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 };
+  for (const e of entries) counts[e.action] += 1;
+
+  return { entries, fileErrors, counts };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function csvField(value: string | null) {
+  const s = value ?? "";
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Same columns the importer reads, so an export can be edited and re-imported. */
+export function serializePromptBank(prompts: BankPrompt[], format: PromptBankFormat): string {
+  const ordered = [...prompts].sort((a, b) => a.prompt_date.localeCompare(b.prompt_date));
+
+  if (format === "json") {
+    return `${JSON.stringify(
+      ordered.map((p) => ({
+        id: p.id,
+        prompt_date: p.prompt_date,
+        prompt_text: p.prompt_text,
+        explanation_text: p.explanation_text,
+        theme: p.theme,
+      })),
+      null,
+      2
+    )}\n`;
+  }
+
+  const lines = [PROMPT_BANK_COLUMNS.join(",")];
+  for (const p of ordered) lines.push(PROMPT_BANK_COLUMNS.map((column) => csvField(p[column])).join(","));
+  return `${lines.join("\r\n")}\r\n`;
+}
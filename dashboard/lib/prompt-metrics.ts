@@ -0,0 +1,108 @@
+// Per-prompt analytics from get_prompt_metrics (supabase/migrations/20261106_prompt_metrics.sql,
+// column renamed in 20261112_prompt_metrics_window_open.sql).
+
+import type { Database } from "./database.types";
+import { getSupabaseAdmin } from "./supabase-admin";
+
+export type PromptMetricsRow = Database["public"]["Functions"]["get_prompt_metrics"]["Returns"][number];
+
+export type PromptMetrics = PromptMetricsRow & {
+  responseRate: number | null; // responders / active users, 0-1
+  wouldSharePct: number | null; // 0-1
+};
+
+// Theme-level rollup; rates are pooled over the underlying counts, not averaged per prompt.
+export type ThemeMetrics = {
+  theme: string;
+  prompts: number;
+  responders: number;
+  activeUsers: number;
+  responseRate: number | null;
+  minutesAfterWindowOpenMedian: number | null; // median of the prompts' medians
+  avgWordCount: number | null;
+  likesPerResponse: number | null;
+  commentsPerResponse: number | null;
+  avgRating: number | null;
+  wouldSharePct: number | null;
+};
+
+function ratio(numerator: number, denominator: number) {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function withDerivedMetrics(row: PromptMetricsRow): PromptMetrics {
+  return {
+    ...row,
+    // numeric columns arrive as strings from PostgREST
+    minutes_after_window_open_median:
+      row.minutes_after_window_open_median === null ? null : Number(row.minutes_after_window_open_median),
+    avg_word_count: row.avg_word_count === null ? null : Number(row.avg_word_count),
+    avg_rating: row.avg_rating === null ? null : Number(row.avg_rating),
+    responseRate: ratio(row.responders, row.active_users),
+    wouldSharePct: ratio(row.would_share_yes, row.would_share_count),
+  };
+}
+
+export async function loadPromptMetrics(params: { since?: string | null; promptId?: string | null }) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) throw new Error("Missing SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY");
+
+  const { data, error } = await supabaseAdmin.rpc("get_prompt_metrics", {
+    p_since: params.since ?? null,
+    p_prompt_id: params.promptId ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(withDerivedMetrics);
+}
+
+export function summarizeByTheme(metrics: Array<PromptMetrics & { theme: string | null }>): ThemeMetrics[] {
+  const groups = new Map<string, Array<PromptMetrics & { theme: string | null }>>();
+  for (const m of metrics) {
+    const theme = m.theme?.trim() || "(no theme)";
+    groups.set(theme, [...(groups.get(theme) ?? []), m]);
+  }
+
+  return Array.from(groups, ([theme, rows]) => {
+    const sum = (pick: (r: PromptMetrics) => number) => rows.reduce((acc, r) => acc + pick(r), 0);
+    const responders = sum((r) => r.responders);
+    const ratingCount = sum((r) => r.rating_count);
+    const wordSum = sum((r) => (r.avg_word_count ?? 0) * r.responders);
+
+    return {
+      theme,
+      prompts: rows.length,
+      responders,
+      activeUsers: sum((r) => r.active_users),
+      responseRate: ratio(responders, sum((r) => r.active_users)),
+      minutesAfterWindowOpenMedian: median(
+        rows.map((r) => r.minutes_after_window_open_median).filter((v): v is number => v !== null)
+      ),
+      avgWordCount: ratio(wordSum, responders),
+      likesPerResponse: ratio(sum((r) => r.likes), responders),
+      commentsPerResponse: ratio(sum((r) => r.comments), responders),
+      avgRating: ratio(sum((r) => (r.avg_rating ?? 0) * r.rating_count), ratingCount),
+      wouldSharePct: ratio(sum((r) => r.would_share_yes), sum((r) => r.would_share_count)),
+    };
+  });
+}
+
+export function formatPercent(value: number | null) {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+export function formatNumber(value: number | null, digits = 1) {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+// "95 min" / "3.2 h"
+export function formatMinutes(value: number | null) {
+  if (value === null) return "—";
+  return value < 120 ? `${Math.round(value)} min` : `${(value / 60).toFixed(1)} h`;
+}
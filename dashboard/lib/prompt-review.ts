@@ -0,0 +1,147 @@
+// Prompt review workflow: statuses and version diffs (see 20261107_prompt_review.sql).
+// Only a type import from supabase-admin, so the list and calendar client components can use it too.
+
+import { getCycleDate, normalizePhaseSchedule, type PhaseSchedule } from "./phase";
+import type { getSupabaseAdmin } from "./supabase-admin";
+
+export const PROMPT_STATUSES = ["draft", "in_review", "approved"] as const;
+export type PromptStatus = (typeof PROMPT_STATUSES)[number];
+
+export const PROMPT_STATUS_LABELS: Record<PromptStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+};
+
+export function isPromptStatus(value: unknown): value is PromptStatus {
+  return typeof value === "string" && (PROMPT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Prompts dated on or before this cycle date are live: users may already be answering them, so
+ * edits keep them approved and are limited to operators.
+ */
+export async function getCurrentCycleDate(supabaseAdmin: NonNullable<ReturnType<typeof getSupabaseAdmin>>) {
+  const { data, error } = await supabaseAdmin
+    .from("phase_schedules")
+    .select("id,effective_from,anchor_date,time_zone,flip_hour,segments,blackout_dates")
+    .order("effective_from", { ascending: false });
+  if (error) throw new Error(error.message);
+  const schedules = (data ?? []).map((r) => normalizePhaseSchedule(r)).filter((s): s is PhaseSchedule => !!s);
+  return getCycleDate(new Date(), schedules);
+}
+
+export type PromptVersionEvent = "created" | "edited" | "submitted" | "approved" | "returned";
+
+export const PROMPT_VERSION_EVENT_LABELS: Record<PromptVersionEvent, string> = {
+  created: "Created",
+  edited: "Edited",
+  submitted: "Submitted for review",
+  approved: "Approved",
+  returned: "Returned to draft",
+};
+
+export type PromptVersion = {
+  id: string;
+  version: number;
+  event: PromptVersionEvent;
+  status: PromptStatus;
+  prompt_text: string;
+  explanation_text: string | null;
+  theme: string | null;
+  force_anonymous: boolean;
+  prompt_date: string | null;
+  note: string | null;
+  edited_by_email: string | null;
+  created_at: string;
+};
+
+// ---------------------------------------------------------------------------
+// Diffs
+// ---------------------------------------------------------------------------
+
+export type DiffSegment = { kind: "same" | "added" | "removed"; text: string };
+
+export type PromptVersionChange = {
+  field: "prompt_text" | "explanation_text" | "theme" | "force_anonymous";
+  label: string;
+  segments: DiffSegment[];
+};
+
+// Past this many tokens per side the LCS table gets big; show a plain replace instead.
+const MAX_DIFF_TOKENS = 600;
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter((t) => t !== "");
+}
+
+function pushSegment(segments: DiffSegment[], kind: DiffSegment["kind"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else segments.push({ kind, text });
+}
+
+/** Word-level diff (whitespace kept), longest common subsequence. */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    if (before) segments.push({ kind: "removed", text: before });
+    if (after) segments.push({ kind: "added", text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "same", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "removed", a[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, "added", b[j]);
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) pushSegment(segments, "removed", a[i]);
+  for (; j < b.length; j += 1) pushSegment(segments, "added", b[j]);
+  return segments;
+}
+
+/** Content fields that differ between two versions (status and date changes aren't content). */
+export function diffPromptVersions(previous: PromptVersion, next: PromptVersion): PromptVersionChange[] {
+  const changes: PromptVersionChange[] = [];
+  const text = (field: "prompt_text" | "explanation_text" | "theme", label: string) => {
+    const before = previous[field] ?? "";
+    const after = next[field] ?? "";
+    if (before !== after) changes.push({ field, label, segments: diffWords(before, after) });
+  };
+
+  text("prompt_text", "Prompt");
+  text("explanation_text", "Explanation");
+  text("theme", "Theme");
+  if (previous.force_anonymous !== next.force_anonymous) {
+    changes.push({
+      field: "force_anonymous",
+      label: "Anonymous responses",
+      segments: [
+        { kind: "removed", text: previous.force_anonymous ? "on" : "off" },
+        { kind: "added", text: next.force_anonymous ? "on" : "off" },
+      ],
+    });
+  }
+  return changes;
+}
@@ -27,3 +27,18 @@ export function getSupabaseAdmin() {
 
 
 
+
+function readAnonKey(): string | null {
+  return process.env.SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || null;
+}
+
+/**
+ * Fresh, uncached client for checking an admin's email + password (app/api/login).
+ * Never shared: signing in stores the session on the client instance.
+ */
+export function getSupabaseAuthClient() {
+  const url = readSupabaseUrl();
+  const key = readAnonKey() || readServiceRoleKey();
+  if (!url || !key) return null;
+  return createClient<Database>(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+}
@@ -1,5 +1,5 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { DASH_COOKIE_NAME, expectedCookieValue } from "@/lib/auth";
+import { DASH_COOKIE_NAME, hasRole, readSessionCookieValue, requiredRoleForRequest } from "@/lib/auth";
 
 const PUBLIC_PATHS = new Set<string>([
   "/",
@@ -8,7 +8,7 @@ const PUBLIC_PATHS = new Set<string>([
   "/auth/callback",
 ]);
 
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
   // Always allow Next internals/static.
@@ -25,22 +25,29 @@ export function middleware(req: NextRequest) {
 
   if (!pathname.startsWith("/dashboard")) return NextResponse.next();
 
-  const cookie = req.cookies.get(DASH_COOKIE_NAME)?.value;
-  if (!cookie || cookie !== expectedCookieValue()) {
+  const session = await readSessionCookieValue(req.cookies.get(DASH_COOKIE_NAME)?.value);
+  if (!session) {
     const url = req.nextUrl.clone();
     url.pathname = "/";
+    url.search = "";
     url.searchParams.set("next", pathname);
     return NextResponse.redirect(url);
   }
 
+  // Coarse check from the signed cookie; server actions re-check against admin_users.
+  if (!hasRole(session.role, requiredRoleForRequest(pathname, req.method))) {
+    if (req.method === "GET" || req.method === "HEAD") {
+      const url = req.nextUrl.clone();
+      url.pathname = "/dashboard";
+      url.search = "";
+      return NextResponse.redirect(url);
+    }
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
   matcher: ["/:path*"],
 };
-
-
-
-
-
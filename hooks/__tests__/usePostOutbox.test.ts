@@ -0,0 +1,85 @@
+import { describe, expect, it, jest } from "@jest/globals";
+
+import { getOutboxBackoffMs, getOutboxFailurePatch, isOutboxEntryDue } from "../usePostOutbox";
+import type { OutboxEntryV1 } from "@/lib/post-outbox";
+
+// Only the pure retry policy is under test; keep the sending dependencies out of the module graph.
+jest.mock("@/hooks/useYimFeed", () => ({}));
+jest.mock("@/hooks/useDailyPrompt", () => ({}));
+jest.mock("@/lib/post-outbox", () => ({}));
+jest.mock("@/providers/auth-provider", () => ({}));
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function entry(overrides: Partial<OutboxEntryV1>): OutboxEntryV1 {
+  return {
+    v: 1,
+    id: "e1",
+    userId: "u1",
+    createdAt: new Date(NOW).toISOString(),
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+    input: { quote: "hello" } as OutboxEntryV1["input"],
+    photoUri: null,
+    photoPath: null,
+    ...overrides,
+  };
+}
+
+describe("getOutboxBackoffMs", () => {
+  it("triples from 5s and caps at 5 minutes", () => {
+    expect([1, 2, 3, 4, 5, 6].map(getOutboxBackoffMs)).toEqual([5_000, 15_000, 45_000, 135_000, 300_000, 300_000]);
+  });
+});
+
+describe("isOutboxEntryDue", () => {
+  it("waits for the backoff unless told to skip it", () => {
+    const waiting = entry({ nextAttemptAt: new Date(NOW + 1_000).toISOString() });
+    expect(isOutboxEntryDue(waiting, NOW)).toBe(false);
+    expect(isOutboxEntryDue(waiting, NOW + 1_000)).toBe(true);
+    expect(isOutboxEntryDue(waiting, NOW, { ignoreBackoff: true })).toBe(true);
+  });
+
+  it("never picks up entries that are sending or failed", () => {
+    expect(isOutboxEntryDue(entry({ status: "sending" }), NOW, { ignoreBackoff: true })).toBe(false);
+    expect(isOutboxEntryDue(entry({ status: "failed" }), NOW, { ignoreBackoff: true })).toBe(false);
+  });
+});
+
+describe("getOutboxFailurePatch", () => {
+  it("schedules the next retry from the attempt count", () => {
+    expect(getOutboxFailurePatch({ attempts: 2, offline: false, permanent: false, now: NOW })).toEqual({
+      status: "queued",
+      attempts: 2,
+      nextAttemptAt: new Date(NOW + 15_000).toISOString(),
+    });
+  });
+
+  it("gives up after the eighth online attempt", () => {
+    expect(getOutboxFailurePatch({ attempts: 7, offline: false, permanent: false, now: NOW }).status).toBe("queued");
+    expect(getOutboxFailurePatch({ attempts: 8, offline: false, permanent: false, now: NOW })).toEqual({
+      status: "failed",
+      attempts: 8,
+      nextAttemptAt: null,
+    });
+  });
+
+  it("doesn't count attempts made while offline", () => {
+    expect(getOutboxFailurePatch({ attempts: 8, offline: true, permanent: false, now: NOW })).toEqual({
+      status: "queued",
+      attempts: 7,
+      nextAttemptAt: new Date(NOW + 300_000).toISOString(),
+    });
+    expect(getOutboxFailurePatch({ attempts: 1, offline: true, permanent: false, now: NOW })).toEqual({
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: new Date(NOW + 5_000).toISOString(),
+    });
+  });
+
+  it("fails permanent errors right away", () => {
+    expect(getOutboxFailurePatch({ attempts: 1, offline: false, permanent: true, now: NOW }).status).toBe("failed");
+  });
+});
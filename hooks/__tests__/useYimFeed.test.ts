@@ -0,0 +1,154 @@
+import { describe, expect, it, jest } from "@jest/globals";
+
+import type { Post } from "@/components/posts/yim-post";
+import {
+  applyKeysetPage,
+  flattenPostPages,
+  mapRowToPost,
+  prependPostToPages,
+  takeKeysetPage,
+  uploadPostPhoto,
+  type PostPage,
+  type YimPostRow,
+} from "../useYimFeed";
+
+// Only the pagination helpers and photo paths are under test.
+const mockUploads: string[] = [];
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    storage: {
+      from: () => ({
+        upload: async (path: string) => {
+          mockUploads.push(path);
+          return { error: null };
+        },
+      }),
+    },
+  },
+}));
+jest.mock("@/hooks/usePhase", () => ({}));
+jest.mock("@/providers/auth-provider", () => ({}));
+
+type Call = [string, ...unknown[]];
+
+// Records the PostgREST builder calls applyKeysetPage makes.
+function recordingQuery() {
+  const calls: Call[] = [];
+  const query = {
+    calls,
+    or(filters: string) {
+      calls.push(["or", filters]);
+      return query;
+    },
+    order(column: string, options: { ascending: boolean }) {
+      calls.push(["order", column, options]);
+      return query;
+    },
+    limit(count: number) {
+      calls.push(["limit", count]);
+      return query;
+    },
+  };
+  return query;
+}
+
+function row(n: number) {
+  return { id: `p${n}`, created_at: `2026-10-19T12:00:${String(60 - n).padStart(2, "0")}Z` };
+}
+
+function post(id: string) {
+  return { id } as Post;
+}
+
+describe("applyKeysetPage", () => {
+  it("orders newest first and fetches one row past the page", () => {
+    const query = applyKeysetPage(recordingQuery(), null, 20);
+    expect(query.calls).toEqual([
+      ["order", "created_at", { ascending: false }],
+      ["order", "id", { ascending: false }],
+      ["limit", 21],
+    ]);
+  });
+
+  it("continues after the cursor, breaking created_at ties by id", () => {
+    const query = applyKeysetPage(recordingQuery(), { createdAt: "2026-10-19T12:00:00Z", id: "p9" }, 20);
+    expect(query.calls[0]).toEqual([
+      "or",
+      'created_at.lt."2026-10-19T12:00:00Z",and(created_at.eq."2026-10-19T12:00:00Z",id.lt."p9")',
+    ]);
+  });
+});
+
+describe("takeKeysetPage", () => {
+  it("returns a cursor at the last visible row when there is another page", () => {
+    const rows = [row(1), row(2), row(3)];
+    expect(takeKeysetPage(rows, 2)).toEqual({
+      pageRows: [row(1), row(2)],
+      nextCursor: { createdAt: row(2).created_at, id: "p2" },
+    });
+  });
+
+  it("ends without a cursor on the last page", () => {
+    expect(takeKeysetPage([row(1), row(2)], 2).nextCursor).toBeNull();
+    expect(takeKeysetPage([], 2)).toEqual({ pageRows: [], nextCursor: null });
+  });
+});
+
+describe("page caches", () => {
+  const pages = (...ids: string[][]) => ({
+    pages: ids.map((page): PostPage => ({ posts: page.map(post), nextCursor: null })),
+    pageParams: ids.map(() => null),
+  });
+
+  it("flattens pages, dropping rows that shifted into the next page", () => {
+    expect(flattenPostPages(pages(["a", "b"], ["b", "c"])).map((p) => p.id)).toEqual(["a", "b", "c"]);
+    expect(flattenPostPages(undefined)).toEqual([]);
+  });
+
+  it("prepends a new post once, even if it is already loaded", () => {
+    expect(flattenPostPages(prependPostToPages(pages(["a", "b"]), post("b"))).map((p) => p.id)).toEqual(["b", "a"]);
+    expect(prependPostToPages(undefined, post("a")).pages[0].posts.map((p) => p.id)).toEqual(["a"]);
+  });
+});
+
+describe("anonymous posts", () => {
+  const authorId = "6f1c2a4e-0000-4000-8000-000000000001";
+
+  it("uploads anonymous photos under a path without the author's id", async () => {
+    const fetchSpy = jest
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => ({ arrayBuffer: async () => new ArrayBuffer(0) }) as Response);
+
+    const anonymousPath = await uploadPostPhoto({ userId: authorId, uri: "file:///photo.jpg", anonymous: true });
+    const namedPath = await uploadPostPhoto({ userId: authorId, uri: "file:///photo.jpg" });
+    fetchSpy.mockRestore();
+
+    expect(anonymousPath).toMatch(/^post-photos\/anon\/[^/]+\.jpg$/);
+    expect(anonymousPath).not.toContain(authorId);
+    expect(namedPath.startsWith(`post-photos/${authorId}/`)).toBe(true);
+    expect(mockUploads).toEqual([anonymousPath, namedPath]);
+  });
+
+  it("maps a masked anonymous row without any user id", () => {
+    const row: YimPostRow = {
+      id: "post-1",
+      author_id: null,
+      quote: "Something kind",
+      attribution: null,
+      background: "photo",
+      font: null,
+      font_color: null,
+      font_size: null,
+      photo_background_url: "post-photos/anon/0b7e.jpg",
+      created_at: "2026-10-19T12:00:00Z",
+      audience: null,
+      circle_id: null,
+      is_anonymous: true,
+    };
+    const mapped = mapRowToPost(row, new Map([[row.photo_background_url!, "https://signed/0b7e"]]), new Map());
+
+    expect(mapped).toMatchObject({ authorLabel: "Anonymous", photoBackgroundUrl: "https://signed/0b7e" });
+    expect(mapped.authorId).toBeUndefined();
+    expect(JSON.stringify(mapped)).not.toContain(authorId);
+  });
+});
@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getSignedUrls } from "@/lib/storage-urls";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/providers/auth-provider";
 
@@ -6,12 +7,22 @@ import { useAuth } from "@/providers/auth-provider";
  * Hook for fetching and managing activity notifications.
  */
 
+export type NotificationType =
+  | "like"
+  | "comment"
+  | "save"
+  | "reply"
+  | "comment_like"
+  | "mention"
+  | "friend_request"
+  | "friend_accepted";
+
 export interface ActivityNotification {
   id: string;
   user_id: string;
   actor_id: string;
   post_id: string | null;
-  notification_type: "like" | "comment" | "save";
+  notification_type: NotificationType;
   comment_id: string | null;
   read_at: string | null;
   created_at: string;
@@ -88,7 +99,7 @@ async function fetchActivity(userId: string): Promise<ActivityNotification[]> {
 
   // Fetch post quotes (for display)
   const { data: posts } = await supabase
-    .from("yim_posts")
+    .from("visible_yim_posts")
     .select("id, quote")
     .in("id", postIds);
 
@@ -112,44 +123,53 @@ async function fetchActivity(userId: string): Promise<ActivityNotification[]> {
     });
   }
 
-  // Hydrate avatar URLs and build notifications
-  const notifications = await Promise.all(
-    notificationRows.map(async (row) => {
-      const profile = profileMap.get(row.actor_id);
-      let avatarUrl: string | undefined;
+  // Hydrate avatar URLs (one batched request) and build notifications
+  const avatarUrlMap = await getSignedUrls(
+    "profile-pictures",
+    Array.from(profileMap.values()).map((p) => p.avatar_url)
+  );
 
-      if (profile?.avatar_url) {
-        const { data, error: urlError } = await supabase.storage
-          .from("profile-pictures")
-          .createSignedUrl(profile.avatar_url, 24 * 60 * 60);
+  const notifications = notificationRows.map((row) => {
+    const profile = profileMap.get(row.actor_id);
+    const avatarUrl = profile?.avatar_url ? avatarUrlMap.get(profile.avatar_url) : undefined;
+
+    const actorLabel = profile?.first_name || profile?.username || `Friend ${row.actor_id.slice(-4)}`;
+
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      actor_id: row.actor_id,
+      post_id: row.post_id,
+      notification_type: row.notification_type as NotificationType,
+      comment_id: row.comment_id,
+      read_at: row.read_at,
+      created_at: row.created_at,
+      actor_username: profile?.username,
+      actor_first_name: profile?.first_name,
+      actor_avatar_url: avatarUrl,
+      actor_label: actorLabel,
+      post_quote: row.post_id ? postMap.get(row.post_id) : undefined,
+      comment_content: row.comment_id ? commentMap.get(row.comment_id) : undefined,
+    } as ActivityNotification;
+  });
 
-        if (!urlError && data?.signedUrl) {
-          avatarUrl = data.signedUrl;
-        }
-      }
+  return notifications;
+}
 
-      const actorLabel = profile?.first_name || profile?.username || `Friend ${row.actor_id.slice(-4)}`;
-
-      return {
-        id: row.id,
-        user_id: row.user_id,
-        actor_id: row.actor_id,
-        post_id: row.post_id,
-        notification_type: row.notification_type as "like" | "comment" | "save",
-        comment_id: row.comment_id,
-        read_at: row.read_at,
-        created_at: row.created_at,
-        actor_username: profile?.username,
-        actor_first_name: profile?.first_name,
-        actor_avatar_url: avatarUrl,
-        actor_label: actorLabel,
-        post_quote: row.post_id ? postMap.get(row.post_id) : undefined,
-        comment_content: row.comment_id ? commentMap.get(row.comment_id) : undefined,
-      } as ActivityNotification;
-    })
-  );
+/**
+ * Mark notifications read (already-read rows keep their original read_at).
+ */
+export async function markNotificationsRead(userId: string, notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
 
-  return notifications;
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .in("id", notificationIds)
+    .is("read_at", null);
+
+  if (error) throw error;
 }
 
 export function useActivity() {
@@ -174,14 +194,7 @@ export function useActivity() {
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: string) => {
       if (!userId) throw new Error("Must be authenticated");
-
-      const { error } = await supabase
-        .from("notifications")
-        .update({ read_at: new Date().toISOString() })
-        .eq("id", notificationId)
-        .eq("user_id", userId);
-
-      if (error) throw error;
+      await markNotificationsRead(userId, [notificationId]);
     },
     onSuccess: () => {
       if (userId) {
@@ -0,0 +1,126 @@
+import { useCallback, useMemo } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * Close-friends circles (supabase/migrations/20261101_friend_circles.sql).
+ *
+ * - Circles and their member lists are private to the owner; members are never told.
+ * - RLS only lets the owner add accepted friends. Unfriending keeps the row but hides the
+ *   owner's circle posts from that person until they're friends again.
+ * - Posts pick a circle via `submit_post(p_circle_id)` / `setPostAudience` (hooks/useYimFeed.ts).
+ */
+
+export const CIRCLE_NAME_MAX_LENGTH = 40;
+
+export interface FriendCircle {
+  id: string;
+  name: string;
+  created_at: string;
+  memberIds: string[];
+}
+
+type CircleRow = {
+  id: string;
+  name: string;
+  created_at: string;
+  friend_circle_members: Array<{ member_id: string }> | null;
+};
+
+export function circlesQueryKey(userId: string) {
+  return ["circles", userId] as const;
+}
+
+export async function fetchCircles(userId: string): Promise<FriendCircle[]> {
+  const { data, error } = await supabase
+    .from("friend_circles")
+    .select("id, name, created_at, friend_circle_members(member_id)")
+    .eq("owner_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return ((data ?? []) as CircleRow[]).map((row) => ({
+    id: row.id,
+    name: row.name,
+    created_at: row.created_at,
+    memberIds: (row.friend_circle_members ?? []).map((m) => m.member_id),
+  }));
+}
+
+export async function createCircle(name: string): Promise<FriendCircle> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("[createCircle] Must be authenticated");
+
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > CIRCLE_NAME_MAX_LENGTH) {
+    throw new Error(`Circle names need 1–${CIRCLE_NAME_MAX_LENGTH} characters.`);
+  }
+
+  const { data, error } = await supabase
+    .from("friend_circles")
+    .insert({ owner_id: user.id, name: trimmed })
+    .select("id, name, created_at")
+    .single();
+
+  if (error) {
+    // friend_circles_owner_name_key
+    if (error.code === "23505") throw new Error("You already have a circle with that name.");
+    throw error;
+  }
+
+  const row = data as Omit<CircleRow, "friend_circle_members">;
+  return { ...row, memberIds: [] };
+}
+
+/**
+ * Posts shared with the circle stay visible to their author only (audience can be changed on edit).
+ */
+export async function deleteCircle(circleId: string) {
+  const { error } = await supabase.from("friend_circles").delete().eq("id", circleId);
+  if (error) throw error;
+}
+
+export async function addCircleMember(circleId: string, memberId: string) {
+  const { error } = await supabase.from("friend_circle_members").insert({ circle_id: circleId, member_id: memberId });
+  // Already a member: nothing to do.
+  if (error && error.code !== "23505") throw error;
+}
+
+export async function removeCircleMember(circleId: string, memberId: string) {
+  const { error } = await supabase
+    .from("friend_circle_members")
+    .delete()
+    .eq("circle_id", circleId)
+    .eq("member_id", memberId);
+  if (error) throw error;
+}
+
+export function useCircles() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId ? circlesQueryKey(userId) : ["circles", "anonymous"],
+    queryFn: () => fetchCircles(userId as string),
+    enabled: !!userId,
+  });
+
+  const refetch = useCallback(async () => {
+    await q.refetch();
+  }, [q]);
+
+  return useMemo(
+    () => ({
+      circles: q.data ?? [],
+      isLoading: q.isLoading,
+      errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
+      refetch,
+    }),
+    [q.data, q.error, q.isLoading, refetch]
+  );
+}
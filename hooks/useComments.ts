@@ -1,11 +1,15 @@
-import { useCallback, useMemo } from "react";
+import { useCallback, useEffect, useMemo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { patchPostEngagement, postEngagementQueryKey } from "@/hooks/usePostEngagement";
+import { getSignedUrls } from "@/lib/storage-urls";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/providers/auth-provider";
 
 /**
  * Hook for managing comments on posts.
- * Provides functionality to fetch, add, and delete comments.
+ * Provides functionality to fetch, add (and reply to), delete and like comments.
+ *
+ * Threads are one level deep: replies to a reply attach to its root comment (enforced server-side).
  */
 
 export interface Comment {
@@ -14,28 +18,66 @@ export interface Comment {
   user_id: string;
   content: string;
   created_at: string;
+  parent_comment_id: string | null;
+  like_count: number;
+  is_liked: boolean;
+  like_ids: string[]; // comment_likes ids at fetch time (realtime deletes only carry the id)
   author_username?: string;
   author_first_name?: string;
   author_avatar_url?: string;
   author_label?: string;
 }
 
+export interface CommentThread {
+  comment: Comment;
+  replies: Comment[];
+}
+
 interface CommentRow {
   id: string;
   post_id: string;
   user_id: string;
   content: string;
   created_at: string;
+  parent_comment_id: string | null;
 }
 
 export function commentsQueryKey(postId: string) {
   return ["comments", postId] as const;
 }
 
-async function fetchComments(postId: string): Promise<Comment[]> {
+// Realtime `in` filters accept at most 100 values.
+const MAX_IN_FILTER_VALUES = 100;
+
+/**
+ * Group a flat, oldest-first comment list into top-level threads. Orphaned replies (parent deleted
+ * mid-refetch) are shown as top-level comments.
+ */
+export function buildCommentThreads(comments: Comment[]): CommentThread[] {
+  const threads: CommentThread[] = [];
+  const byId = new Map<string, CommentThread>();
+
+  for (const comment of comments) {
+    if (!comment.parent_comment_id) {
+      const thread = { comment, replies: [] };
+      threads.push(thread);
+      byId.set(comment.id, thread);
+    }
+  }
+  for (const comment of comments) {
+    if (!comment.parent_comment_id) continue;
+    const parent = byId.get(comment.parent_comment_id);
+    if (parent) parent.replies.push(comment);
+    else threads.push({ comment, replies: [] });
+  }
+
+  return threads;
+}
+
+async function fetchComments(postId: string, userId: string | null): Promise<Comment[]> {
   const { data: rows, error } = await supabase
     .from("post_comments")
-    .select("id, post_id, user_id, content, created_at")
+    .select("id, post_id, user_id, content, created_at, parent_comment_id")
     .eq("post_id", postId)
     .order("created_at", { ascending: true });
 
@@ -45,6 +87,23 @@ async function fetchComments(postId: string): Promise<Comment[]> {
   const commentRows = rows as CommentRow[];
   const userIds = Array.from(new Set(commentRows.map((c) => c.user_id).filter(Boolean)));
 
+  // Comment likes (counts + whether the viewer liked each one)
+  const { data: likeRows, error: likesError } = await supabase
+    .from("comment_likes")
+    .select("id, comment_id, user_id")
+    .in("comment_id", commentRows.map((c) => c.id));
+
+  if (likesError) {
+    console.warn("[useComments] fetch comment likes failed", likesError);
+  }
+
+  const likeIds = new Map<string, string[]>();
+  const likedByViewer = new Set<string>();
+  (likeRows ?? []).forEach((l: { id: string; comment_id: string; user_id: string }) => {
+    likeIds.set(l.comment_id, [...(likeIds.get(l.comment_id) ?? []), l.id]);
+    if (l.user_id === userId) likedByViewer.add(l.comment_id);
+  });
+
   // Fetch author info for all commenters
   const { data: profiles, error: profilesError } = await supabase
     .from("profiles")
@@ -66,38 +125,35 @@ async function fetchComments(postId: string): Promise<Comment[]> {
     });
   }
 
-  // Hydrate avatar URLs
-  const commentsWithAvatars = await Promise.all(
-    commentRows.map(async (comment) => {
-      const profile = profileMap.get(comment.user_id);
-      let avatarUrl: string | undefined;
+  // Hydrate avatar URLs (one batched request)
+  const avatarUrlMap = await getSignedUrls(
+    "profile-pictures",
+    Array.from(profileMap.values()).map((p) => p.avatar_url)
+  );
 
-      if (profile?.avatar_url) {
-        const { data, error: urlError } = await supabase.storage
-          .from("profile-pictures")
-          .createSignedUrl(profile.avatar_url, 24 * 60 * 60);
+  const commentsWithAvatars = commentRows.map((comment) => {
+    const profile = profileMap.get(comment.user_id);
+    const avatarUrl = profile?.avatar_url ? avatarUrlMap.get(profile.avatar_url) : undefined;
 
-        if (!urlError && data?.signedUrl) {
-          avatarUrl = data.signedUrl;
-        }
-      }
+    const authorLabel =
+      profile?.first_name || profile?.username || `Friend ${comment.user_id.slice(-4)}`;
 
-      const authorLabel =
-        profile?.first_name || profile?.username || `Friend ${comment.user_id.slice(-4)}`;
-
-      return {
-        id: comment.id,
-        post_id: comment.post_id,
-        user_id: comment.user_id,
-        content: comment.content,
-        created_at: comment.created_at,
-        author_username: profile?.username,
-        author_first_name: profile?.first_name,
-        author_avatar_url: avatarUrl,
-        author_label: authorLabel,
-      } as Comment;
-    })
-  );
+    return {
+      id: comment.id,
+      post_id: comment.post_id,
+      user_id: comment.user_id,
+      content: comment.content,
+      created_at: comment.created_at,
+      parent_comment_id: comment.parent_comment_id ?? null,
+      like_count: likeIds.get(comment.id)?.length ?? 0,
+      is_liked: likedByViewer.has(comment.id),
+      like_ids: likeIds.get(comment.id) ?? [],
+      author_username: profile?.username,
+      author_first_name: profile?.first_name,
+      author_avatar_url: avatarUrl,
+      author_label: authorLabel,
+    } as Comment;
+  });
 
   return commentsWithAvatars;
 }
@@ -108,12 +164,98 @@ export function useComments(postId: string | null) {
 
   const query = useQuery({
     queryKey: postId ? commentsQueryKey(postId) : ["comments", "disabled"],
-    queryFn: () => fetchComments(postId!),
+    queryFn: () => fetchComments(postId!, user?.id ?? null),
     enabled: !!postId,
   });
 
+  // Stable dependency: resubscribe to comment likes only when the set of comments changes.
+  const commentIdsKey = useMemo(
+    () => (query.data ?? []).map((c) => c.id).sort().join(","),
+    [query.data]
+  );
+
+  // Live updates while the list is open: new comments refetch (they need author hydration),
+  // deletes are dropped from the cache directly, comment likes patch counts in place.
+  useEffect(() => {
+    if (!postId) return;
+    const ensuredPostId = postId;
+
+    const channel = supabase
+      .channel(`comments:${ensuredPostId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "post_comments", filter: `post_id=eq.${ensuredPostId}` },
+        (payload) => {
+          const id = (payload.new as Partial<CommentRow>).id;
+          const current = queryClient.getQueryData<Comment[]>(commentsQueryKey(ensuredPostId));
+          if (id && current?.some((c) => c.id === id)) return;
+          void queryClient.invalidateQueries({ queryKey: commentsQueryKey(ensuredPostId) });
+        }
+      )
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "post_comments" }, (payload) => {
+        const id = (payload.old as Partial<CommentRow>).id;
+        if (!id) return;
+        queryClient.setQueryData<Comment[]>(commentsQueryKey(ensuredPostId), (prev) => prev?.filter((c) => c.id !== id));
+      })
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [postId, queryClient]);
+
+  // Comment likes, filtered to this thread's comments (comment_likes has no post_id). DELETE events
+  // can't be filtered and only carry the like's id, so they are matched against the likes loaded
+  // with the thread or inserted since, and a match refetches the thread.
+  useEffect(() => {
+    if (!postId || !commentIdsKey) return;
+    const ensuredPostId = postId;
+    const commentIds = commentIdsKey.split(",");
+    const insertedLikeIds = new Set<string>();
+
+    function isThreadLike(likeId: string) {
+      if (insertedLikeIds.has(likeId)) return true;
+      const current = queryClient.getQueryData<Comment[]>(commentsQueryKey(ensuredPostId));
+      return !!current?.some((c) => c.like_ids.includes(likeId));
+    }
+
+    let channel = supabase.channel(`comment-likes:${ensuredPostId}`);
+    for (let i = 0; i < commentIds.length; i += MAX_IN_FILTER_VALUES) {
+      const chunk = commentIds.slice(i, i + MAX_IN_FILTER_VALUES);
+      channel = channel.on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "comment_likes", filter: `comment_id=in.(${chunk.join(",")})` },
+        (payload) => {
+          // Own likes are applied optimistically; only count other people's.
+          const row = payload.new as { id?: string; comment_id?: string; user_id?: string };
+          if (!row.id || !row.comment_id) return;
+          insertedLikeIds.add(row.id);
+          const isOwn = row.user_id === user?.id;
+          queryClient.setQueryData<Comment[]>(commentsQueryKey(ensuredPostId), (prev) =>
+            prev?.map((c) => {
+              if (c.id !== row.comment_id) return c;
+              if (isOwn) return { ...c, is_liked: true };
+              return { ...c, like_count: c.like_count + 1 };
+            })
+          );
+        }
+      );
+    }
+    channel = channel.on("postgres_changes", { event: "DELETE", schema: "public", table: "comment_likes" }, (payload) => {
+      const id = (payload.old as { id?: string }).id;
+      if (!id || !isThreadLike(id)) return;
+      insertedLikeIds.delete(id);
+      void queryClient.invalidateQueries({ queryKey: commentsQueryKey(ensuredPostId) });
+    });
+    channel.subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [commentIdsKey, postId, queryClient, user?.id]);
+
   const addCommentMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, parentCommentId }: { content: string; parentCommentId?: string | null }) => {
       if (!user || !postId) throw new Error("Must be authenticated and have post ID");
       if (content.trim().length === 0) throw new Error("Comment cannot be empty");
       if (content.length > 500) throw new Error("Comment too long");
@@ -124,6 +266,7 @@ export function useComments(postId: string | null) {
           post_id: postId,
           user_id: user.id,
           content: content.trim(),
+          parent_comment_id: parentCommentId ?? null,
         })
         .select()
         .single();
@@ -134,6 +277,9 @@ export function useComments(postId: string | null) {
     onSuccess: () => {
       if (postId) {
         queryClient.invalidateQueries({ queryKey: commentsQueryKey(postId) });
+        if (user) {
+          patchPostEngagement(queryClient, user.id, postId, (prev) => ({ ...prev, commentCount: prev.commentCount + 1 }));
+        }
       }
     },
   });
@@ -150,20 +296,78 @@ export function useComments(postId: string | null) {
 
       if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: (_data, commentId) => {
       if (postId) {
+        // Deleting a top-level comment cascades to its replies.
+        const current = queryClient.getQueryData<Comment[]>(commentsQueryKey(postId)) ?? [];
+        const removed = 1 + current.filter((c) => c.parent_comment_id === commentId).length;
         queryClient.invalidateQueries({ queryKey: commentsQueryKey(postId) });
+        if (user) {
+          patchPostEngagement(queryClient, user.id, postId, (prev) => ({
+            ...prev,
+            commentCount: Math.max(0, prev.commentCount - removed),
+          }));
+          // Realtime deletes for the cascaded replies may also land; the refetch settles the count.
+          queryClient.invalidateQueries({ queryKey: postEngagementQueryKey(user.id, postId) });
+        }
+      }
+    },
+  });
+
+  const toggleLikeMutation = useMutation({
+    mutationFn: async (comment: Comment) => {
+      if (!user) throw new Error("Must be authenticated");
+
+      if (comment.is_liked) {
+        const { error } = await supabase
+          .from("comment_likes")
+          .delete()
+          .eq("comment_id", comment.id)
+          .eq("user_id", user.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("comment_likes").insert({
+          comment_id: comment.id,
+          user_id: user.id,
+        });
+        if (error) throw error;
       }
     },
+    // Optimistic: flip immediately, roll back on failure.
+    onMutate: (comment) => {
+      if (!postId) return;
+      const previous = queryClient.getQueryData<Comment[]>(commentsQueryKey(postId));
+      queryClient.setQueryData<Comment[]>(commentsQueryKey(postId), (prev) =>
+        prev?.map((c) =>
+          c.id === comment.id
+            ? { ...c, is_liked: !comment.is_liked, like_count: Math.max(0, c.like_count + (comment.is_liked ? -1 : 1)) }
+            : c
+        )
+      );
+      return { previous };
+    },
+    onError: (error, _comment, context) => {
+      console.warn("[useComments] toggle comment like failed", error);
+      if (postId && context?.previous) queryClient.setQueryData(commentsQueryKey(postId), context.previous);
+    },
   });
 
   const addComment = useCallback(
-    async (content: string) => {
-      await addCommentMutation.mutateAsync(content);
+    async (content: string, parentCommentId?: string | null) => {
+      await addCommentMutation.mutateAsync({ content, parentCommentId });
     },
     [addCommentMutation]
   );
 
+  const toggleCommentLike = useCallback(
+    async (comment: Comment) => {
+      await toggleLikeMutation.mutateAsync(comment);
+    },
+    [toggleLikeMutation]
+  );
+
+  const threads = useMemo(() => buildCommentThreads(query.data ?? []), [query.data]);
+
   const deleteComment = useCallback(
     async (commentId: string) => {
       await deleteCommentMutation.mutateAsync(commentId);
@@ -174,22 +378,26 @@ export function useComments(postId: string | null) {
   return useMemo(
     () => ({
       comments: query.data ?? [],
+      threads,
       isLoading: query.isLoading,
       errorMessage: query.error instanceof Error ? query.error.message : query.error ? String(query.error) : null,
       refetch: query.refetch,
       addComment,
       deleteComment,
+      toggleCommentLike,
       isAdding: addCommentMutation.isPending,
       isDeleting: deleteCommentMutation.isPending,
       canDelete: (comment: Comment) => user?.id === comment.user_id,
     }),
     [
       query.data,
+      threads,
       query.isLoading,
       query.error,
       query.refetch,
       addComment,
       deleteComment,
+      toggleCommentLike,
       addCommentMutation.isPending,
       deleteCommentMutation.isPending,
       user?.id,
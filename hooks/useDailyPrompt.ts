@@ -2,8 +2,10 @@ import { useEffect, useMemo, useRef, useState } from "react";
 
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
-import { getPacificIsoDateForCycleStart, getTodayPacificIsoDate } from "@/lib/timezone";
+import { getTodayPacificIsoDate } from "@/lib/timezone";
 import { clearDevHasRespondedOverride, getDevHasRespondedOverride } from "@/lib/prompt-store";
+import { useCycleSchedules } from "@/hooks/usePhase";
+import { getCycleDate, type PhaseSchedule } from "@/supabase/functions/_shared/phase-schedule";
 import { useAuth } from "@/providers/auth-provider";
 
 
@@ -14,6 +16,7 @@ export interface DailyPrompt {
   prompt_date: string; // YYYY-MM-DD
   theme: string | null;
   display_order: number | null;
+  force_anonymous: boolean; // every response is posted anonymously
 }
 
 interface UseDailyPromptResult {
@@ -21,7 +24,7 @@ interface UseDailyPromptResult {
   isLoading: boolean;
   errorMessage: string | null;
 
-  // Single-login daily cycle (6AM→6AM Pacific)
+  // Single-login daily cycle (6AM→6AM in the user's time zone)
   cycleDateKey: string; // YYYY-MM-DD
   hasAnsweredToday: boolean;
 
@@ -86,6 +89,7 @@ export async function fetchPromptForDate(promptDate: string): Promise<DailyPromp
     prompt_date: String((data as any).prompt_date),
     theme: (data as any).theme ? String((data as any).theme) : null,
     display_order: (data as any).display_order ?? null,
+    force_anonymous: !!(data as any).force_anonymous,
   };
 }
 
@@ -110,11 +114,16 @@ async function fetchLatestPrompt(): Promise<DailyPrompt | null> {
     prompt_date: String((data as any).prompt_date),
     theme: (data as any).theme ? String((data as any).theme) : null,
     display_order: (data as any).display_order ?? null,
+    force_anonymous: !!(data as any).force_anonymous,
   };
 }
 
-export async function fetchCurrentPrompt(now: Date = new Date()): Promise<DailyPrompt | null> {
-  const cycleDateKey = getPacificIsoDateForCycleStart(now, 6);
+/** `schedules` should already be in the user's zone (see useCycleSchedules). */
+export async function fetchCurrentPrompt(
+  now: Date = new Date(),
+  schedules?: PhaseSchedule[] | null
+): Promise<DailyPrompt | null> {
+  const cycleDateKey = getCycleDate(now, schedules);
   return fetchPromptForDate(cycleDateKey);
 }
 
@@ -158,8 +167,9 @@ export function useDailyPrompt(): UseDailyPromptResult {
   const { user } = useAuth();
   const prevPromptIdRef = useRef<string | null>(null);
   const userId = user?.id ?? null;
+  const schedules = useCycleSchedules();
 
-  const cycleDateKey = useMemo(() => getPacificIsoDateForCycleStart(new Date(), 6), []);
+  const cycleDateKey = useMemo(() => getCycleDate(new Date(), schedules), [schedules]);
 
   const promptQ = useQuery({
     queryKey: dailyPromptForDateQueryKey(cycleDateKey),
@@ -8,8 +8,12 @@ import { useAuth } from "@/providers/auth-provider";
  * Friends system (native).
  *
  * Data model:
- * - `friendships`: stores accepted relationships
- * - `friend_invitations`: token-based invites
+ * - `friendships`: one row per pair; `pending` (user_id asked friend_id) → `accepted` | `declined`.
+ *   Only accepted rows are friends. Requests are written through RPCs
+ *   (supabase/migrations/20261030_friend_requests.sql); errors map via `lib/friend-errors.ts`.
+ * - `friend_invitations`: token-based invites (accepting one befriends the inviter immediately)
+ * - Suggestions are friends-of-friends ranked by `get_friend_suggestions`
+ *   (supabase/migrations/20261103_friend_suggestions.sql); `profiles.show_in_suggestions` opts out.
  *
  * NOTE on token generation:
  * - Web used `crypto.randomUUID()`. In Expo, `globalThis.crypto` exists on web, but can be missing on native.
@@ -23,6 +27,29 @@ export interface FriendProfile {
   avatar_url: string | null; // storage path
 }
 
+/** How a searched profile relates to the current user (`search_profiles` RPC). */
+export type FriendRelationship = "friends" | "outgoing" | "incoming" | "none";
+
+export interface ProfileSearchResult extends FriendProfile {
+  relationship: FriendRelationship;
+}
+
+export interface FriendRequest {
+  profile: FriendProfile;
+  created_at: string;
+}
+
+export interface FriendRequests {
+  incoming: FriendRequest[]; // waiting on me
+  outgoing: FriendRequest[]; // waiting on them
+}
+
+/** "People you may know" (`get_friend_suggestions` RPC). */
+export interface FriendSuggestion extends FriendProfile {
+  mutual_count: number;
+  mutual_names: string[]; // up to two, for the "Friends with …" line
+}
+
 export interface FriendInvitation {
   id: string;
   inviter_id: string;
@@ -94,6 +121,153 @@ export async function fetchFriends(userId: string): Promise<FriendProfile[]> {
   return (profiles ?? []) as FriendProfile[];
 }
 
+export function friendRequestsQueryKey(userId: string) {
+  return ["friendRequests", userId] as const;
+}
+
+/**
+ * Pending requests both ways. Declined requests aren't listed (the requester isn't told).
+ */
+export async function fetchFriendRequests(userId: string): Promise<FriendRequests> {
+  const { data: rows, error } = await supabase
+    .from("friendships")
+    .select("user_id, friend_id, created_at")
+    .or(`user_id.eq.${userId},friend_id.eq.${userId}`)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const requests = (rows ?? []) as Array<{ user_id: string; friend_id: string; created_at: string }>;
+  const otherIds = requests.map((r) => (r.user_id === userId ? r.friend_id : r.user_id));
+  if (otherIds.length === 0) return { incoming: [], outgoing: [] };
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, username, first_name, avatar_url")
+    .in("id", otherIds);
+
+  if (profilesError) throw profilesError;
+
+  const profileById = new Map(((profiles ?? []) as FriendProfile[]).map((p) => [p.id, p]));
+  const result: FriendRequests = { incoming: [], outgoing: [] };
+  for (const r of requests) {
+    const isOutgoing = r.user_id === userId;
+    const otherId = isOutgoing ? r.friend_id : r.user_id;
+    const profile = profileById.get(otherId) ?? { id: otherId, username: null, first_name: null, avatar_url: null };
+    (isOutgoing ? result.outgoing : result.incoming).push({ profile, created_at: r.created_at });
+  }
+  return result;
+}
+
+export function useFriendRequests() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId ? friendRequestsQueryKey(userId) : ["friendRequests", "anonymous"],
+    queryFn: () => fetchFriendRequests(userId as string),
+    enabled: !!userId,
+  });
+
+  const refetch = useCallback(async () => {
+    await q.refetch();
+  }, [q]);
+
+  return useMemo(
+    () => ({
+      incoming: q.data?.incoming ?? [],
+      outgoing: q.data?.outgoing ?? [],
+      isLoading: q.isLoading,
+      errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
+      refetch,
+    }),
+    [q.data, q.error, q.isLoading, refetch]
+  );
+}
+
+export function friendSuggestionsQueryKey(userId: string) {
+  return ["friendSuggestions", userId] as const;
+}
+
+export async function fetchFriendSuggestions(limit = 10): Promise<FriendSuggestion[]> {
+  const { data, error } = await supabase.rpc("get_friend_suggestions", { p_limit: limit });
+  if (error) throw error;
+  return ((data ?? []) as FriendSuggestion[]).map((s) => ({ ...s, mutual_names: s.mutual_names ?? [] }));
+}
+
+export function useFriendSuggestions() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId ? friendSuggestionsQueryKey(userId) : ["friendSuggestions", "anonymous"],
+    queryFn: () => fetchFriendSuggestions(),
+    enabled: !!userId,
+  });
+
+  const refetch = useCallback(async () => {
+    await q.refetch();
+  }, [q]);
+
+  return useMemo(
+    () => ({
+      suggestions: q.data ?? [],
+      isLoading: q.isLoading,
+      errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
+      refetch,
+    }),
+    [q.data, q.error, q.isLoading, refetch]
+  );
+}
+
+/**
+ * Stop suggesting this person. Permanent; sending them a request still works.
+ */
+export async function dismissFriendSuggestion(profileId: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("[dismissFriendSuggestion] Must be authenticated");
+
+  const { error } = await supabase
+    .from("friend_suggestion_dismissals")
+    .insert({ user_id: user.id, dismissed_id: profileId });
+  // Already dismissed (e.g. a double tap): nothing to do.
+  if (error && error.code !== "23505") throw error;
+}
+
+/**
+ * Username prefix search (2+ characters, leading `@` ignored). Excludes the caller.
+ */
+export async function searchProfiles(query: string): Promise<ProfileSearchResult[]> {
+  const { data, error } = await supabase.rpc("search_profiles", { p_query: query });
+  if (error) throw error;
+  return (data ?? []) as ProfileSearchResult[];
+}
+
+/**
+ * Returns "accepted" when they had already asked (sending back accepts), else "requested".
+ */
+export async function sendFriendRequest(recipientId: string): Promise<"requested" | "accepted"> {
+  const { data, error } = await supabase.rpc("send_friend_request", { p_recipient_id: recipientId });
+  if (error) throw error;
+  return data === "accepted" ? "accepted" : "requested";
+}
+
+export async function respondToFriendRequest(requesterId: string, accept: boolean) {
+  const { error } = await supabase.rpc("respond_to_friend_request", {
+    p_requester_id: requesterId,
+    p_accept: accept,
+  });
+  if (error) throw error;
+}
+
+export async function cancelFriendRequest(recipientId: string) {
+  const { error } = await supabase.rpc("cancel_friend_request", { p_recipient_id: recipientId });
+  if (error) throw error;
+}
+
 export async function createFriendInvitation() {
   const {
     data: { user },
@@ -150,44 +324,12 @@ export async function getFriendInvitation(token: string) {
   return data as FriendInvitation;
 }
 
+/**
+ * Befriend the inviter right away (no request step); marks the invite used.
+ */
 export async function acceptFriendInvitation(token: string) {
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("[acceptFriendInvitation] Must be authenticated");
-
-  const invitation = await getFriendInvitation(token);
-  if (!invitation) throw new Error("Invalid or expired invitation token.");
-
-  if (invitation.inviter_id === user.id) throw new Error("You cannot accept your own invitation.");
-
-  // Check if already friends (either direction).
-  const { data: existing } = await supabase
-    .from("friendships")
-    .select("id")
-    .or(
-      `and(user_id.eq.${invitation.inviter_id},friend_id.eq.${user.id}),and(user_id.eq.${user.id},friend_id.eq.${invitation.inviter_id})`
-    )
-    .eq("status", "accepted")
-    .maybeSingle();
-
-  if (existing) throw new Error("You are already friends with this user.");
-
-  // Create friendship row. (See web notes about RLS; one row is enough for bidirectional querying.)
-  const { error: friendshipError } = await supabase.from("friendships").insert({
-    user_id: user.id,
-    friend_id: invitation.inviter_id,
-    status: "accepted",
-  });
-  if (friendshipError) throw friendshipError;
-
-  // Mark invitation used (best effort).
-  const { error: markError } = await supabase
-    .from("friend_invitations")
-    .update({ used_at: new Date().toISOString(), used_by_id: user.id })
-    .eq("id", invitation.id);
-
-  if (markError) console.warn("[acceptFriendInvitation] failed to mark used", markError);
+  const { error } = await supabase.rpc("accept_friend_invitation", { p_token: token });
+  if (error) throw error;
 }
 
 export async function deleteFriendship(friendId: string) {
@@ -20,6 +20,10 @@ export function useGallery() {
   return {
     posts,
     isLoading: userPosts.isLoading,
+    isRefreshing: userPosts.isRefreshing,
+    hasNextPage: userPosts.hasNextPage,
+    isFetchingNextPage: userPosts.isFetchingNextPage,
+    fetchNextPage: userPosts.fetchNextPage,
     errorMessage: userPosts.errorMessage,
     refetch: userPosts.refetch,
   };
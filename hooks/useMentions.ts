@@ -0,0 +1,82 @@
+import { useCallback, useMemo, useState } from "react";
+import type { NativeSyntheticEvent, TextInputSelectionChangeEventData } from "react-native";
+
+import { router } from "expo-router";
+import { useFriends, type FriendProfile } from "@/hooks/useFriends";
+import { getMentionQuery, insertMention } from "@/lib/mentions";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * @mention autocomplete + navigation (see `lib/mentions.ts` for parsing).
+ *
+ * Notes:
+ * - Suggestions are limited to the viewer's friends (`fetchFriends` cache); the server only
+ *   notifies mentioned friends anyway.
+ * - Tapping a mention resolves the username from the friends cache first and falls back to a
+ *   profile lookup (e.g. a friend-of-a-friend mentioned in a comment).
+ * - `onNavigate` runs right before navigating so hosting modals can close first.
+ */
+
+const MAX_MENTION_SUGGESTIONS = 5;
+
+export function useMentionAutocomplete(text: string) {
+  const { friends } = useFriends();
+  const [cursor, setCursor] = useState<number | null>(null);
+
+  const mention = useMemo(() => (cursor === null ? null : getMentionQuery(text, cursor)), [cursor, text]);
+
+  const suggestions = useMemo(() => {
+    if (!mention) return [] as FriendProfile[];
+    return friends
+      .filter((f) => {
+        if (!f.username) return false;
+        return (
+          f.username.toLowerCase().startsWith(mention.query) ||
+          !!f.first_name?.toLowerCase().startsWith(mention.query)
+        );
+      })
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [friends, mention]);
+
+  const onSelectionChange = useCallback((e: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+    setCursor(e.nativeEvent.selection.end);
+  }, []);
+
+  /** Text with the partial mention replaced by the friend's username. */
+  const complete = useCallback(
+    (friend: FriendProfile) => {
+      if (!mention || !friend.username) return text;
+      const next = insertMention(text, mention, friend.username);
+      setCursor(next.cursor);
+      return next.text;
+    },
+    [mention, text]
+  );
+
+  return { suggestions, onSelectionChange, complete };
+}
+
+export function useOpenMention() {
+  const { user } = useAuth();
+  const { friends } = useFriends();
+
+  return useCallback(
+    async (username: string, onNavigate?: () => void) => {
+      const normalized = username.toLowerCase();
+      let id = friends.find((f) => f.username?.toLowerCase() === normalized)?.id ?? null;
+
+      if (!id) {
+        const { data, error } = await supabase.from("profiles").select("id").eq("username", normalized).maybeSingle();
+        if (error) console.warn("[useOpenMention] profile lookup failed", { username: normalized, error });
+        id = (data?.id as string | undefined) ?? null;
+      }
+
+      if (!id) return;
+      onNavigate?.();
+      if (id === user?.id) router.push("/(tabs)/profile");
+      else router.push(`/friend/${id}`);
+    },
+    [friends, user?.id]
+  );
+}
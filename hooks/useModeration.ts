@@ -0,0 +1,118 @@
+import { useCallback, useMemo } from "react";
+
+import { useQuery, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+import type { FriendProfile } from "@/hooks/useFriends";
+
+/**
+ * Blocking and reporting (supabase/migrations/20261031_blocks_and_reports.sql).
+ *
+ * - Blocks hide posts, comments and notifications both ways through RLS, so after a block every
+ *   cached query may hold stale rows: `refreshAfterBlock` invalidates them all.
+ * - Reports land in the dashboard moderation queue. RPC errors map via `lib/moderation-errors.ts`.
+ */
+
+export type ReportReason = "spam" | "harassment" | "hate" | "self_harm" | "nudity" | "other";
+
+export const REPORT_REASONS: { reason: ReportReason; label: string }[] = [
+  { reason: "spam", label: "Spam" },
+  { reason: "harassment", label: "Harassment or bullying" },
+  { reason: "hate", label: "Hate speech" },
+  { reason: "self_harm", label: "Self-harm" },
+  { reason: "nudity", label: "Nudity or sexual content" },
+  { reason: "other", label: "Something else" },
+];
+
+export type ReportTarget = { postId: string; commentId?: never } | { commentId: string; postId?: never };
+
+export interface BlockedUser extends FriendProfile {
+  blocked_at: string;
+}
+
+export async function reportContent(target: ReportTarget, reason: ReportReason, details?: string) {
+  const { error } = await supabase.rpc("report_content", {
+    p_post_id: target.postId ?? null,
+    p_comment_id: target.commentId ?? null,
+    p_reason: reason,
+    p_details: details ?? null,
+  });
+  if (error) throw error;
+}
+
+export async function blockUser(userId: string) {
+  const { error } = await supabase.rpc("block_user", { p_user_id: userId });
+  if (error) throw error;
+}
+
+export async function unblockUser(userId: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("[unblockUser] Must be authenticated");
+
+  const { error } = await supabase.from("user_blocks").delete().eq("blocker_id", user.id).eq("blocked_id", userId);
+  if (error) throw error;
+}
+
+/**
+ * Feeds, comments, activity and friends all change after a block or unblock.
+ */
+export async function refreshAfterBlock(queryClient: QueryClient) {
+  await queryClient.invalidateQueries();
+}
+
+export function blockedUsersQueryKey(userId: string) {
+  return ["blockedUsers", userId] as const;
+}
+
+export async function fetchBlockedUsers(userId: string): Promise<BlockedUser[]> {
+  const { data: blocks, error } = await supabase
+    .from("user_blocks")
+    .select("blocked_id, created_at")
+    .eq("blocker_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const rows = (blocks ?? []) as Array<{ blocked_id: string; created_at: string }>;
+  if (rows.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, username, first_name, avatar_url")
+    .in("id", rows.map((r) => r.blocked_id));
+
+  if (profilesError) throw profilesError;
+
+  const profileById = new Map(((profiles ?? []) as FriendProfile[]).map((p) => [p.id, p]));
+  return rows.map((r) => ({
+    ...(profileById.get(r.blocked_id) ?? { id: r.blocked_id, username: null, first_name: null, avatar_url: null }),
+    blocked_at: r.created_at,
+  }));
+}
+
+export function useBlockedUsers() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId ? blockedUsersQueryKey(userId) : ["blockedUsers", "anonymous"],
+    queryFn: () => fetchBlockedUsers(userId as string),
+    enabled: !!userId,
+  });
+
+  const refetch = useCallback(async () => {
+    await q.refetch();
+  }, [q]);
+
+  return useMemo(
+    () => ({
+      blockedUsers: q.data ?? [],
+      isLoading: q.isLoading,
+      errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
+      refetch,
+    }),
+    [q.data, q.error, q.isLoading, refetch]
+  );
+}
@@ -0,0 +1,89 @@
+import { useCallback } from "react";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+import {
+  NOTIFICATION_PREFERENCES_COLUMNS,
+  normalizeNotificationPreferences,
+  type NotificationPreferences,
+} from "@/supabase/functions/_shared/notification-preferences";
+
+export type { NotificationPreferences } from "@/supabase/functions/_shared/notification-preferences";
+
+export function notificationPreferencesQueryKey(userId: string) {
+  return ["notificationPreferences", userId] as const;
+}
+
+/**
+ * The user's preferences; defaults when they never saved any (no row).
+ */
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select(NOTIFICATION_PREFERENCES_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[useNotificationPreferences] fetch failed", error);
+    throw error;
+  }
+
+  return normalizeNotificationPreferences(data);
+}
+
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId ? notificationPreferencesQueryKey(userId) : ["notificationPreferences", "anonymous"],
+    queryFn: () => fetchNotificationPreferences(userId as string),
+    enabled: !!userId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (next: NotificationPreferences) => {
+      if (!userId) throw new Error("User not authenticated");
+
+      // Upsert the full row so the first save doesn't depend on column defaults.
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: userId, ...next }, { onConflict: "user_id" });
+      if (error) throw error;
+    },
+    // Optimistic: switches flip immediately, roll back on failure.
+    onMutate: (next) => {
+      if (!userId) return;
+      const previous = queryClient.getQueryData<NotificationPreferences>(notificationPreferencesQueryKey(userId));
+      queryClient.setQueryData<NotificationPreferences>(notificationPreferencesQueryKey(userId), next);
+      return { previous };
+    },
+    onError: (error, _next, context) => {
+      console.warn("[useNotificationPreferences] update failed", error);
+      if (userId && context?.previous) {
+        queryClient.setQueryData(notificationPreferencesQueryKey(userId), context.previous);
+      }
+    },
+  });
+
+  const preferences = q.data ?? null;
+
+  const updatePreferences = useCallback(
+    async (patch: Partial<NotificationPreferences>) => {
+      if (!preferences) return;
+      await updateMutation.mutateAsync({ ...preferences, ...patch });
+    },
+    [preferences, updateMutation]
+  );
+
+  return {
+    preferences,
+    isLoading: q.isLoading,
+    errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
+    updateError: updateMutation.error instanceof Error ? updateMutation.error.message : null,
+    updatePreferences,
+  };
+}
@@ -5,10 +5,32 @@
  */
 
 import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import * as Notifications from "expo-notifications";
+import { router, useRootNavigationState } from "expo-router";
 
+import { activityQueryKey, markNotificationsRead } from "@/hooks/useActivity";
+import { friendRequestsQueryKey, friendsQueryKey } from "@/hooks/useFriends";
 import { initializePushNotifications, unregisterPushTokens } from "@/lib/notifications";
 import { useAuth } from "@/providers/auth-provider";
+import { parsePushPayload, type PushPayload } from "@/supabase/functions/_shared/push-payload";
+
+/**
+ * Where a tapped push lands (see `_shared/push-payload.ts`).
+ */
+function getPushHref(payload: PushPayload) {
+  switch (payload.kind) {
+    case "phase":
+      return payload.notificationType === "viewing_open" ? "/(tabs)" : "/(tabs)/create";
+    case "activity":
+      if (!payload.postId) return "/activity";
+      return payload.commentId
+        ? `/post/${payload.postId}?commentId=${encodeURIComponent(payload.commentId)}`
+        : `/post/${payload.postId}`;
+    case "friend_invite":
+      return "/(tabs)/friends";
+  }
+}
 
 /**
  * Hook to handle push notification initialization and lifecycle.
@@ -16,11 +38,15 @@ import { useAuth } from "@/providers/auth-provider";
  * - Registers push token when user logs in
  * - Unregisters push tokens when user logs out
  * - Sets up notification listeners for foreground notifications
+ * - Routes push taps (cold start and while running) and marks the covered activity rows read
  */
 export function useNotifications() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const navigationState = useRootNavigationState();
+  const isNavigationReady = !!navigationState?.key;
   const notificationListener = useRef<Notifications.Subscription | null>(null);
-  const responseListener = useRef<Notifications.Subscription | null>(null);
+  const handledResponseIds = useRef(new Set<string>());
 
   useEffect(() => {
     // Register push token when user is authenticated
@@ -40,21 +66,55 @@ export function useNotifications() {
       // You can handle foreground notifications here if needed
     });
 
-    responseListener.current = Notifications.addNotificationResponseReceivedListener((response) => {
-      if (__DEV__) {
-        console.log("[notifications] Notification response:", response);
-      }
-      // Handle notification tap/response here if needed
-      // e.g., navigate to a specific screen
-    });
-
     return () => {
       if (notificationListener.current) {
         notificationListener.current.remove();
       }
-      if (responseListener.current) {
-        responseListener.current.remove();
-      }
     };
   }, [user?.id]);
+
+  // Push taps: wait for a signed-in user and a mounted navigator, then route.
+  useEffect(() => {
+    if (!user?.id || !isNavigationReady) return;
+    const userId = user.id;
+    let cancelled = false;
+
+    function handleResponse(response: Notifications.NotificationResponse) {
+      // The cold-start response can also arrive through the listener; route it once.
+      const responseId = response.notification.request.identifier;
+      if (handledResponseIds.current.has(responseId)) return;
+      handledResponseIds.current.add(responseId);
+
+      const payload = parsePushPayload(response.notification.request.content.data);
+      if (__DEV__) console.log("[notifications] Notification tapped:", payload);
+      if (!payload) return;
+
+      if (payload.kind !== "phase" && payload.notificationIds.length > 0) {
+        markNotificationsRead(userId, payload.notificationIds)
+          .then(() => queryClient.invalidateQueries({ queryKey: activityQueryKey(userId) }))
+          .catch((error) => console.warn("[notifications] mark read failed", error));
+      }
+
+      if (payload.kind === "friend_invite") {
+        void queryClient.invalidateQueries({ queryKey: friendRequestsQueryKey(userId) });
+        void queryClient.invalidateQueries({ queryKey: friendsQueryKey(userId) });
+      }
+
+      router.push(getPushHref(payload));
+    }
+
+    // Cold start: the tap that launched the app.
+    void Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (cancelled || !response) return;
+      handleResponse(response);
+      Notifications.clearLastNotificationResponse();
+    });
+
+    const responseListener = Notifications.addNotificationResponseReceivedListener(handleResponse);
+
+    return () => {
+      cancelled = true;
+      responseListener.remove();
+    };
+  }, [isNavigationReady, queryClient, user?.id]);
 }
@@ -1,17 +1,62 @@
 import { useEffect, useMemo, useState } from "react";
-import { getPhaseInfo, type Phase } from "@/lib/phase";
+
+import { useQuery } from "@tanstack/react-query";
+import { useUserTimeZone } from "@/hooks/useTimeZone";
+import { getPhaseInfo, type Phase, type PhaseSchedule } from "@/lib/phase";
+import { supabase } from "@/lib/supabase";
+import { normalizePhaseSchedule, withTimeZone } from "@/supabase/functions/_shared/phase-schedule";
 
 export interface UsePhaseResult {
   phase: Phase;
   timeRemaining: number; // ms until next phase flip
   phaseStartedAt: Date;
   phaseEndsAt: Date;
+  isBlackout: boolean; // schedule blackout day (no posting)
+  cycleDate: string; // YYYY-MM-DD
   isOverridden: boolean; // true if dev override is active
 }
 
+export function phaseSchedulesQueryKey() {
+  return ["phaseSchedules"] as const;
+}
+
+export async function fetchPhaseSchedules(): Promise<PhaseSchedule[]> {
+  const { data, error } = await supabase
+    .from("phase_schedules")
+    .select("id,effective_from,anchor_date,time_zone,flip_hour,segments,blackout_dates")
+    .order("effective_from", { ascending: true });
+
+  if (error) {
+    // Best-effort: if the table isn't there yet, lib/phase falls back to the default rotation.
+    console.warn("[usePhase] fetchPhaseSchedules failed", error);
+    return [];
+  }
+
+  return (data ?? [])
+    .map((row) => normalizePhaseSchedule(row))
+    .filter((s): s is PhaseSchedule => !!s);
+}
+
+/**
+ * Phase schedules evaluated in the user's zone. Anything that needs "today's" cycle date (prompt,
+ * feed) should derive it from these with `getCycleDate` so it agrees with the phase and submit_post.
+ */
+export function useCycleSchedules(): PhaseSchedule[] {
+  // Schedules change rarely (dashboard edits); refresh occasionally.
+  const schedulesQuery = useQuery({
+    queryKey: phaseSchedulesQueryKey(),
+    queryFn: fetchPhaseSchedules,
+    staleTime: 1000 * 60 * 10,
+  });
+  const timeZone = useUserTimeZone();
+
+  // Same posting/viewing days as everyone else, flipping on the user's local clock.
+  return useMemo(() => withTimeZone(schedulesQuery.data, timeZone), [schedulesQuery.data, timeZone]);
+}
+
 /**
  * Hook to get current posting/viewing phase with live countdown.
- * 
+ *
  * Accepts an optional phaseOverride for dev testing (from DevToolsProvider).
  * When override is set, it takes precedence over calculated phase.
  */
@@ -24,7 +69,9 @@ export function usePhase(phaseOverride: Phase | null = null): UsePhaseResult {
     return () => clearInterval(id);
   }, []);
 
-  const calculated = useMemo(() => getPhaseInfo(new Date(nowTick)), [nowTick]);
+  const schedules = useCycleSchedules();
+
+  const calculated = useMemo(() => getPhaseInfo(new Date(nowTick), schedules), [nowTick, schedules]);
 
   const result = useMemo<UsePhaseResult>(() => {
     if (phaseOverride) {
@@ -34,6 +81,8 @@ export function usePhase(phaseOverride: Phase | null = null): UsePhaseResult {
         timeRemaining: calculated.timeRemaining,
         phaseStartedAt: calculated.phaseStartedAt,
         phaseEndsAt: calculated.phaseEndsAt,
+        isBlackout: false,
+        cycleDate: calculated.cycleDate,
         isOverridden: true,
       };
     }
@@ -0,0 +1,71 @@
+import { useQuery, type QueryClient } from "@tanstack/react-query";
+
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * Per-post like/save/comment state for `PostFooterActions`.
+ *
+ * Notes:
+ * - Lives in React Query (instead of component state) so realtime events and other screens
+ *   can patch it with `patchPostEngagement`.
+ * - The viewer's own likes/saves/comments are applied optimistically by the actions that cause
+ *   them; realtime handlers skip counting them a second time.
+ */
+
+export type PostEngagement = {
+  likeCount: number;
+  isLiked: boolean;
+  isSaved: boolean;
+  commentCount: number;
+};
+
+export function postEngagementQueryKey(userId: string, postId: string) {
+  return ["postEngagement", userId, postId] as const;
+}
+
+export async function fetchPostEngagement(userId: string, postId: string): Promise<PostEngagement> {
+  const [userLike, likes, save, comments] = await Promise.all([
+    supabase.from("post_likes").select("id").eq("post_id", postId).eq("user_id", userId).maybeSingle(),
+    supabase.from("post_likes").select("id", { count: "exact", head: true }).eq("post_id", postId),
+    supabase.from("post_saves").select("id").eq("post_id", postId).eq("user_id", userId).maybeSingle(),
+    supabase.from("post_comments").select("id", { count: "exact", head: true }).eq("post_id", postId),
+  ]);
+
+  const error = userLike.error ?? likes.error ?? save.error ?? comments.error;
+  if (error) console.warn("[usePostEngagement] fetch failed", { postId, error });
+
+  return {
+    likeCount: likes.count ?? 0,
+    isLiked: !!userLike.data,
+    isSaved: !!save.data,
+    commentCount: comments.count ?? 0,
+  };
+}
+
+/**
+ * Patch a cached engagement entry. No-op when the post isn't cached (nothing is showing it).
+ */
+export function patchPostEngagement(
+  queryClient: QueryClient,
+  userId: string,
+  postId: string,
+  updater: (prev: PostEngagement) => PostEngagement
+) {
+  queryClient.setQueryData<PostEngagement>(postEngagementQueryKey(userId, postId), (prev) =>
+    prev ? updater(prev) : prev
+  );
+}
+
+export function usePostEngagement(postId: string | null | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const q = useQuery({
+    queryKey: userId && postId ? postEngagementQueryKey(userId, postId) : ["postEngagement", "disabled"],
+    queryFn: () => fetchPostEngagement(userId as string, postId as string),
+    enabled: !!userId && !!postId,
+  });
+
+  return q.data ?? { likeCount: 0, isLiked: false, isSaved: false, commentCount: 0 };
+}
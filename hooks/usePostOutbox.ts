@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
+
+import NetInfo, { type NetInfoState } from "@react-native-community/netinfo";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { Post } from "@/components/posts/yim-post";
+import { didRespondQueryKey } from "@/hooks/useDailyPrompt";
+import { createYimPost, uploadPostPhoto, type CreateYimPostInput } from "@/hooks/useYimFeed";
+import {
+  enqueueOutboxPost,
+  getOutboxEntries,
+  removeOutboxEntry,
+  subscribeToOutbox,
+  updateOutboxEntry,
+  type OutboxEntryV1,
+} from "@/lib/post-outbox";
+import { getSubmitPostErrorCode, getSubmitPostErrorMessage } from "@/lib/post-errors";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * Outbox sending + React bindings.
+ *
+ * Flow:
+ * - `submit` persists the post first, then tries to send it right away.
+ * - Transient failures (offline, timeouts, 5xx) stay queued and retry with exponential backoff,
+ *   on app foreground, on launch, and as soon as connectivity returns (`usePostOutboxRunner`,
+ *   mounted in the root layout). Attempts made while offline don't count toward the cap, so a
+ *   post written on a long flight is still sent when the phone reconnects.
+ * - Permanent failures (constraint/RLS/validation errors) are marked failed for manual retry/discard.
+ */
+
+export type OutboxSendResult =
+  | { status: "sent"; post: Post | null }
+  | { status: "queued" | "failed"; entry: OutboxEntryV1 };
+
+const MAX_AUTO_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+
+// Entries currently being sent (guards against the runner and a manual retry racing).
+const inFlight = new Set<string>();
+
+export function getOutboxBackoffMs(attempts: number) {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 3 ** Math.max(0, attempts - 1));
+}
+
+/** Queued entries whose backoff has elapsed (or all queued entries, e.g. right after reconnecting). */
+export function isOutboxEntryDue(entry: OutboxEntryV1, now: number, options?: { ignoreBackoff?: boolean }) {
+  if (entry.status !== "queued") return false;
+  if (options?.ignoreBackoff || !entry.nextAttemptAt) return true;
+  return new Date(entry.nextAttemptAt).getTime() <= now;
+}
+
+/**
+ * Where a failed send leaves the entry. `attempts` already includes the failed one; an attempt made
+ * while offline is given back, and the backoff timer stays capped so the entry keeps polling until
+ * the reconnect listener flushes it.
+ */
+export function getOutboxFailurePatch(params: { attempts: number; offline: boolean; permanent: boolean; now: number }) {
+  const attempts = params.offline ? Math.max(0, params.attempts - 1) : params.attempts;
+  const isFailed = params.permanent || (!params.offline && attempts >= MAX_AUTO_ATTEMPTS);
+  return {
+    status: isFailed ? ("failed" as const) : ("queued" as const),
+    attempts,
+    nextAttemptAt: isFailed ? null : new Date(params.now + getOutboxBackoffMs(Math.max(1, attempts))).toISOString(),
+  };
+}
+
+// isInternetReachable is null until the first reachability probe; only a definite false counts.
+function isOnline(state: NetInfoState) {
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+async function isOffline() {
+  try {
+    return !isOnline(await NetInfo.fetch());
+  } catch {
+    return false;
+  }
+}
+
+function isPermanentError(error: unknown) {
+  // Postgres errors (constraint, RLS, invalid input, submit_post rejections) won't fix themselves on retry.
+  const code = (error as any)?.code;
+  return typeof code === "string" && /^(22|23|42|P0)/.test(code);
+}
+
+/**
+ * A duplicate (unique violation, or submit_post's `already_posted`) on retry usually means an earlier attempt landed but the response was lost.
+ * Treat it as delivered when the stored response matches what we queued (submit_post stores the quote trimmed).
+ */
+async function wasAlreadyDelivered(entry: OutboxEntryV1) {
+  if (!entry.input.promptId) return false;
+  const { data, error } = await supabase
+    .from("yim_posts")
+    .select("id")
+    .eq("author_id", entry.userId)
+    .eq("prompt_id", entry.input.promptId)
+    .eq("quote", entry.input.quote.trim())
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[usePostOutbox] wasAlreadyDelivered check failed", error);
+    return false;
+  }
+  return !!data;
+}
+
+async function sendOutboxEntry(entry: OutboxEntryV1): Promise<OutboxSendResult> {
+  if (inFlight.has(entry.id)) return { status: "queued", entry };
+  inFlight.add(entry.id);
+
+  const attempts = entry.attempts + 1;
+  await updateOutboxEntry(entry.id, { status: "sending", attempts, lastError: null });
+
+  let photoPath = entry.photoPath;
+  try {
+    if (entry.photoUri && !photoPath) {
+      photoPath = await uploadPostPhoto({
+        userId: entry.userId,
+        uri: entry.photoUri,
+        anonymous: entry.input.anonymous,
+      });
+      // Remember the upload so a failed insert doesn't re-upload on the next attempt.
+      await updateOutboxEntry(entry.id, { photoPath });
+    }
+
+    const input: CreateYimPostInput = {
+      ...entry.input,
+      background: photoPath ? "photo" : entry.input.background,
+      photoBackgroundPath: photoPath ?? undefined,
+    };
+
+    const post = await createYimPost(input);
+    await removeOutboxEntry(entry.id);
+    if (__DEV__) console.log("[usePostOutbox] sent", { id: entry.id, postId: post.id });
+    return { status: "sent", post };
+  } catch (error) {
+    console.warn("[usePostOutbox] send failed", { id: entry.id, attempts, error });
+
+    const isDuplicate = (error as any)?.code === "23505" || getSubmitPostErrorCode(error) === "already_posted";
+    if (isDuplicate && (await wasAlreadyDelivered(entry))) {
+      await removeOutboxEntry(entry.id);
+      return { status: "sent", post: null };
+    }
+
+    const permanent = isPermanentError(error);
+    const patch = getOutboxFailurePatch({
+      attempts,
+      offline: !permanent && (await isOffline()),
+      permanent,
+      now: Date.now(),
+    });
+    const updated = await updateOutboxEntry(entry.id, {
+      ...patch,
+      lastError: getSubmitPostErrorMessage(error, "Failed to send."),
+    });
+    return { status: patch.status, entry: updated ?? entry };
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+async function invalidateAfterDelivery(queryClient: QueryClient, userId: string, entryPromptId?: string) {
+  const tasks: Promise<unknown>[] = [
+    queryClient.invalidateQueries({ queryKey: ["dailyPrompt"] }),
+    queryClient.invalidateQueries({ queryKey: ["pendingPost", userId] }),
+    queryClient.invalidateQueries({ queryKey: ["yimFeed", userId] }),
+    queryClient.invalidateQueries({ queryKey: ["userPosts", userId] }),
+  ];
+  if (entryPromptId) tasks.push(queryClient.invalidateQueries({ queryKey: didRespondQueryKey(userId, entryPromptId) }));
+  await Promise.allSettled(tasks);
+}
+
+/**
+ * Send every due entry for a user (sequentially, oldest first).
+ */
+export async function processPostOutbox(
+  userId: string,
+  onDelivered?: (entry: OutboxEntryV1) => void,
+  options?: { ignoreBackoff?: boolean }
+) {
+  const now = Date.now();
+  const entries = await getOutboxEntries(userId);
+  const due = entries.filter((e) => isOutboxEntryDue(e, now, options));
+
+  for (const entry of due) {
+    const result = await sendOutboxEntry(entry);
+    if (result.status === "sent") onDelivered?.(entry);
+  }
+}
+
+export function usePostOutbox() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+
+  const [entries, setEntries] = useState<OutboxEntryV1[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      return;
+    }
+    const ensuredUserId = userId;
+
+    let cancelled = false;
+    function refresh() {
+      void getOutboxEntries(ensuredUserId).then((next) => {
+        if (!cancelled) setEntries(next);
+      });
+    }
+
+    refresh();
+    const unsubscribe = subscribeToOutbox(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const submit = useCallback(
+    async (params: { input: Omit<CreateYimPostInput, "photoBackgroundPath">; photoUri: string | null }) => {
+      if (!userId) throw new Error("[usePostOutbox] Must be authenticated");
+      const entry = await enqueueOutboxPost({ userId, input: params.input, photoUri: params.photoUri });
+      const result = await sendOutboxEntry(entry);
+      if (result.status === "sent") await invalidateAfterDelivery(queryClient, userId, entry.input.promptId);
+      return result;
+    },
+    [queryClient, userId]
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      if (!userId) return;
+      await updateOutboxEntry(id, { status: "queued", attempts: 0, nextAttemptAt: null, lastError: null });
+      await processPostOutbox(userId, (entry) => {
+        void invalidateAfterDelivery(queryClient, userId, entry.input.promptId);
+      });
+    },
+    [queryClient, userId]
+  );
+
+  const discard = useCallback(async (id: string) => {
+    await removeOutboxEntry(id);
+  }, []);
+
+  return { entries, submit, retry, discard };
+}
+
+/**
+ * Background flushing: on launch/login, whenever the app returns to the foreground, when the
+ * device comes back online (skipping the backoff), and when the earliest backoff timer comes due.
+ */
+export function usePostOutboxRunner() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+  const [wakeTick, setWakeTick] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+    const ensuredUserId = userId;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    async function flush(options?: { ignoreBackoff?: boolean }) {
+      await processPostOutbox(
+        ensuredUserId,
+        (entry) => {
+          void invalidateAfterDelivery(queryClient, ensuredUserId, entry.input.promptId);
+        },
+        options
+      );
+      if (cancelled) return;
+
+      // Schedule the next wake-up for the earliest pending retry.
+      const remaining = await getOutboxEntries(ensuredUserId);
+      const nextAt = remaining
+        .filter((e) => e.status === "queued" && e.nextAttemptAt)
+        .map((e) => new Date(e.nextAttemptAt as string).getTime())
+        .sort((a, b) => a - b)[0];
+
+      if (timer) clearTimeout(timer);
+      if (nextAt && !cancelled) {
+        timer = setTimeout(() => setWakeTick((t) => t + 1), Math.max(1_000, nextAt - Date.now()));
+      }
+    }
+
+    void flush();
+
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state === "active") void flush();
+    });
+
+    // The listener also fires once with the current state; only an offline → online change flushes.
+    let wasOnline = true;
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const online = isOnline(state);
+      if (online && !wasOnline) void flush({ ignoreBackoff: true });
+      wasOnline = online;
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      sub.remove();
+      unsubscribeNetInfo();
+    };
+  }, [queryClient, userId, wakeTick]);
+}
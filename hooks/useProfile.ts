@@ -12,6 +12,8 @@ export interface Profile {
   birthday: string | null; // YYYY-MM-DD
   avatar_url: string | null; // Storage path
   onboarding_complete: boolean;
+  time_zone: string | null; // IANA zone for the daily cycle (null = Pacific default)
+  show_in_suggestions: boolean; // appear in friends-of-friends "People you may know"
 }
 
 export function profileQueryKey(userId: string) {
@@ -25,7 +27,7 @@ export async function fetchProfile(userId: string): Promise<Profile | null> {
 
   const { data, error } = await supabase
     .from("profiles")
-    .select("id, username, display_name, first_name, birthday, avatar_url, onboarding_complete")
+    .select("id, username, display_name, first_name, birthday, avatar_url, onboarding_complete, time_zone, show_in_suggestions")
     .eq("id", userId)
     .single();
 
@@ -0,0 +1,199 @@
+import { useEffect, useMemo } from "react";
+
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { commentsQueryKey } from "@/hooks/useComments";
+import { friendsQueryKey, type FriendProfile } from "@/hooks/useFriends";
+import { patchPostEngagement, postEngagementQueryKey } from "@/hooks/usePostEngagement";
+import { savedPostsQueryKey } from "@/hooks/useSavedPosts";
+import {
+  hydratePostRows,
+  prependPostToPages,
+  removePostFromPages,
+  replacePostInPages,
+  yimFeedQueryKey,
+  type PostPage,
+  type YimPostRow,
+} from "@/hooks/useYimFeed";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/providers/auth-provider";
+
+/**
+ * Live feed updates (viewing phase) via Supabase Realtime.
+ *
+ * Patches React Query caches in place instead of refetching:
+ * - `yim_posts` for the prompt date → feed pages (friends' new posts, edits, deletes)
+ * - `post_likes` / `post_comments` → per-post engagement counts (+ open comment lists)
+ * - `post_saves` (own rows only) → bookmark state across devices
+ *
+ * Notes:
+ * - The viewer's own likes/comments are already applied optimistically, so only their flags are
+ *   synced here; counts only move for other people's events.
+ * - For RLS tables Realtime only sends a deleted row's primary key. Deletes of rows inserted while
+ *   subscribed are matched by id. Other like/comment deletes are left to the engagement queries'
+ *   normal refetch: refetching on every unlike anywhere would scale with active users. Unmatched
+ *   deletes of the viewer's own saves (filtered like the inserts) refetch the saved state,
+ *   debounced so bursts refetch once.
+ * - Realtime `in` filters accept at most 100 values; beyond that we subscribe unfiltered.
+ */
+
+type LikeRow = { id: string; post_id: string; user_id: string };
+type CommentRow = { id: string; post_id: string; user_id: string };
+type SaveRow = { id: string; post_id: string; user_id: string };
+
+const MAX_IN_FILTER_VALUES = 100;
+const UNMATCHED_SAVE_DELETE_REFETCH_MS = 1_000;
+
+export function useRealtimeFeed(params: { promptDate: string | null; postIds: string[]; enabled?: boolean }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+  const enabled = params.enabled ?? true;
+  const { promptDate } = params;
+
+  // Stable dependency: resubscribe only when the visible set of posts changes.
+  const postIdsKey = useMemo(() => Array.from(new Set(params.postIds)).sort().join(","), [params.postIds]);
+
+  useEffect(() => {
+    if (!userId || !promptDate || !enabled) return;
+    const ensuredUserId = userId;
+    const feedKey = yimFeedQueryKey(ensuredUserId, promptDate);
+
+    const postIds = postIdsKey ? postIdsKey.split(",") : [];
+    const visible = new Set(postIds);
+    const postFilter =
+      postIds.length > 0 && postIds.length <= MAX_IN_FILTER_VALUES ? `post_id=in.(${postIds.join(",")})` : undefined;
+
+    // post_id/user_id of engagement rows inserted during this subscription, by row id.
+    const seenRows = new Map<string, { post_id: string; user_id: string }>();
+    let refetchTimer: ReturnType<typeof setTimeout> | null = null;
+
+    function rememberRow(row: Partial<LikeRow>) {
+      if (row.id && row.post_id && row.user_id) seenRows.set(row.id, { post_id: row.post_id, user_id: row.user_id });
+    }
+
+    function resolveDeletedRow(old: { id?: string }) {
+      const row = old.id ? seenRows.get(old.id) : undefined;
+      if (old.id) seenRows.delete(old.id);
+      return row;
+    }
+
+    // Saved list, plus the bookmark state in the footers on screen (active queries only).
+    function scheduleSavedRefetch() {
+      if (refetchTimer) return;
+      refetchTimer = setTimeout(() => {
+        refetchTimer = null;
+        void queryClient.invalidateQueries({ queryKey: savedPostsQueryKey(ensuredUserId) });
+        for (const postId of visible) {
+          void queryClient.invalidateQueries({ queryKey: postEngagementQueryKey(ensuredUserId, postId) });
+        }
+      }, UNMATCHED_SAVE_DELETE_REFETCH_MS);
+    }
+
+    function isFeedAuthor(authorId: string) {
+      if (authorId === ensuredUserId) return true;
+      const friends = queryClient.getQueryData<FriendProfile[]>(friendsQueryKey(ensuredUserId));
+      return !!friends?.some((f) => f.id === authorId);
+    }
+
+    // Other people's anonymous posts never arrive here (yim_posts RLS hides them); they show up on
+    // the next refetch through visible_yim_posts.
+    async function upsertFeedPost(row: YimPostRow, mode: "insert" | "update") {
+      if (!row.author_id || !isFeedAuthor(row.author_id)) return;
+      try {
+        const [post] = await hydratePostRows([row]);
+        if (!post) return;
+        queryClient.setQueryData<InfiniteData<PostPage>>(feedKey, (prev) =>
+          mode === "insert" ? prependPostToPages(prev, post) : replacePostInPages(prev, post)
+        );
+      } catch (error) {
+        console.warn("[useRealtimeFeed] hydrate post failed", error);
+      }
+    }
+
+    function onLike(row: Partial<LikeRow>, delta: 1 | -1) {
+      if (!row.post_id || !visible.has(row.post_id)) return;
+      const isOwn = row.user_id === ensuredUserId;
+      patchPostEngagement(queryClient, ensuredUserId, row.post_id, (prev) => {
+        if (isOwn) return { ...prev, isLiked: delta > 0 };
+        return { ...prev, likeCount: Math.max(0, prev.likeCount + delta) };
+      });
+    }
+
+    function onComment(row: Partial<CommentRow>, delta: 1 | -1) {
+      if (!row.post_id || !visible.has(row.post_id)) return;
+      if (row.user_id !== ensuredUserId) {
+        patchPostEngagement(queryClient, ensuredUserId, row.post_id, (prev) => ({
+          ...prev,
+          commentCount: Math.max(0, prev.commentCount + delta),
+        }));
+      }
+      // Open comment lists need author hydration; let them refetch.
+      void queryClient.invalidateQueries({ queryKey: commentsQueryKey(row.post_id) });
+    }
+
+    function onSave(row: Partial<SaveRow>, isSaved: boolean) {
+      if (!row.post_id || row.user_id !== ensuredUserId) return;
+      patchPostEngagement(queryClient, ensuredUserId, row.post_id, (prev) => ({ ...prev, isSaved }));
+      void queryClient.invalidateQueries({ queryKey: savedPostsQueryKey(ensuredUserId) });
+    }
+
+    const channel = supabase
+      .channel(`feed:${ensuredUserId}:${promptDate}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "yim_posts", filter: `prompt_date=eq.${promptDate}` },
+        (payload) => void upsertFeedPost(payload.new as YimPostRow, "insert")
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "yim_posts", filter: `prompt_date=eq.${promptDate}` },
+        (payload) => void upsertFeedPost(payload.new as YimPostRow, "update")
+      )
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "yim_posts" }, (payload) => {
+        const id = (payload.old as Partial<YimPostRow>).id;
+        if (id) queryClient.setQueryData<InfiniteData<PostPage>>(feedKey, (prev) => removePostFromPages(prev, id));
+      })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "post_likes", filter: postFilter }, (payload) => {
+        rememberRow(payload.new as LikeRow);
+        onLike(payload.new as LikeRow, 1);
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "post_likes" }, (payload) => {
+        const row = resolveDeletedRow(payload.old as { id?: string });
+        if (row) onLike(row, -1);
+      })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "post_comments", filter: postFilter }, (payload) => {
+        rememberRow(payload.new as CommentRow);
+        onComment(payload.new as CommentRow, 1);
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "post_comments" }, (payload) => {
+        // Open comment lists drop deleted ids themselves (useComments).
+        const row = resolveDeletedRow(payload.old as { id?: string });
+        if (row) onComment(row, -1);
+      })
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "post_saves", filter: `user_id=eq.${ensuredUserId}` },
+        (payload) => {
+          rememberRow(payload.new as SaveRow);
+          onSave(payload.new as SaveRow, true);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "post_saves", filter: `user_id=eq.${ensuredUserId}` },
+        (payload) => {
+          const row = resolveDeletedRow(payload.old as { id?: string });
+          if (row) onSave(row, false);
+          else scheduleSavedRefetch();
+        }
+      )
+      .subscribe((status) => {
+        if (__DEV__) console.log("[useRealtimeFeed] channel", { promptDate, status, posts: postIds.length });
+      });
+
+    return () => {
+      if (refetchTimer) clearTimeout(refetchTimer);
+      void supabase.removeChannel(channel);
+    };
+  }, [enabled, postIdsKey, promptDate, queryClient, userId]);
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getSignedUrl, peekSignedUrl, type StorageBucket } from "@/lib/storage-urls";
+
+/**
+ * Signed URL for a storage path, backed by the shared batched cache in `lib/storage-urls.ts`.
+ *
+ * Notes:
+ * - Cached URLs render on the first frame (no flicker between screens).
+ * - Several components asking for the same path share one query and one request.
+ */
+
+export function signedUrlQueryKey(bucket: StorageBucket, path: string) {
+  return ["signedUrl", bucket, path] as const;
+}
+
+export function useSignedUrl(bucket: StorageBucket, path: string | null | undefined) {
+  const q = useQuery({
+    queryKey: path ? signedUrlQueryKey(bucket, path) : ["signedUrl", bucket, "none"],
+    queryFn: () => getSignedUrl(bucket, path as string),
+    enabled: !!path,
+    initialData: () => peekSignedUrl(bucket, path) ?? undefined,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  return path ? (q.data ?? null) : null;
+}
+
+export function useAvatarUrl(path: string | null | undefined) {
+  return useSignedUrl("profile-pictures", path);
+}
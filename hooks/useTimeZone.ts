@@ -0,0 +1,15 @@
+import { useMemo } from "react";
+
+import { useProfile } from "@/hooks/useProfile";
+import { resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * The zone the signed-in user's daily cycle runs in.
+ *
+ * Comes from `profiles.time_zone`; falls back to Pacific (the original behavior) while the
+ * profile loads or when the user hasn't picked a zone.
+ */
+export function useUserTimeZone(): string {
+  const { profile } = useProfile();
+  return useMemo(() => resolveTimeZone(profile?.time_zone), [profile?.time_zone]);
+}
@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { getSignedUrls } from "@/lib/storage-urls";
 import { supabase } from "@/lib/supabase";
-import { getPacificIsoDateForCycleStart, getTodayPacificIsoDate } from "@/lib/timezone";
 import type { BackgroundType, FontColor, FontSize, FontStyle, Post, TextHighlight } from "@/components/posts/yim-post";
+import { useCycleSchedules } from "@/hooks/usePhase";
+import { getCycleDate } from "@/supabase/functions/_shared/phase-schedule";
 import { useAuth } from "@/providers/auth-provider";
 
 /**
@@ -11,13 +13,17 @@ import { useAuth } from "@/providers/auth-provider";
  *
  * Notes:
  * - Mirrors the web MVP behavior, but keeps the implementation RN-friendly.
- * - Uses in-memory caches for signed URLs to avoid flicker.
+ * - Signed URLs come from the shared batched cache (`lib/storage-urls.ts`) to avoid flicker.
  * - Keeps debug logs to make Supabase/RLS issues easier to diagnose.
+ * - Post lists read `visible_yim_posts`, which masks the author of other people's anonymous posts
+ *   (supabase/migrations/20261102_anonymous_posts.sql); `yim_posts` itself hides those rows.
+ *   Feeds filter on its `in_friend_feed` column rather than on author ids, which would drop
+ *   friends' anonymous posts (20261108_friend_feed_scope.sql).
  */
 
 export interface YimPostRow {
   id: string;
-  author_id: string;
+  author_id: string | null; // null on other people's anonymous posts
   quote: string;
   attribution: string | null;
   background: string | null;
@@ -30,19 +36,12 @@ export interface YimPostRow {
   prompt_id?: string | null;
   prompt_date?: string | null;
   created_at: string;
+  edited_at?: string | null;
+  audience?: string | null; // 'friends' | 'circle'; null on other people's anonymous posts
+  circle_id?: string | null;
+  is_anonymous?: boolean | null;
 }
 
-interface SignedUrlCacheEntry {
-  url: string;
-  expiresAtMs: number;
-}
-
-const signedUrlCache = new Map<string, SignedUrlCacheEntry>();
-const SIGNED_URL_TTL_MS = 23 * 60 * 60 * 1000; // ~23h (slightly less than 24h)
-
-const avatarSignedUrlCache = new Map<string, SignedUrlCacheEntry>();
-const AVATAR_SIGNED_URL_TTL_MS = 23 * 60 * 60 * 1000; // keep consistent with post photos
-
 function isAllowedFontStyle(value: string | null): value is FontStyle {
   if (!value) return false;
   return ["bebas", "playfair", "archivo", "marker", "caveat", "canela"].includes(value);
@@ -82,49 +81,8 @@ function isAllowedBackground(value: string | null): value is BackgroundType {
   ].includes(value);
 }
 
-async function createSignedUrlForPath(path: string) {
-  const now = Date.now();
-  const cached = signedUrlCache.get(path);
-  if (cached && cached.expiresAtMs > now) return cached.url;
-
-  const { data, error } = await supabase.storage.from("post-photos").createSignedUrl(path, 24 * 60 * 60);
-  if (error || !data?.signedUrl) {
-    console.warn("[useYimFeed] createSignedUrlForPath failed", { path, error });
-    return null;
-  }
-
-  signedUrlCache.set(path, { url: data.signedUrl, expiresAtMs: now + SIGNED_URL_TTL_MS });
-  return data.signedUrl;
-}
-
-async function createSignedUrlForAvatarPath(path: string) {
-  const now = Date.now();
-  const cached = avatarSignedUrlCache.get(path);
-  if (cached && cached.expiresAtMs > now) return cached.url;
-
-  const { data, error } = await supabase.storage.from("profile-pictures").createSignedUrl(path, 24 * 60 * 60);
-  if (error || !data?.signedUrl) {
-    console.warn("[useYimFeed] createSignedUrlForAvatarPath failed", { path, error });
-    return null;
-  }
-
-  avatarSignedUrlCache.set(path, { url: data.signedUrl, expiresAtMs: now + AVATAR_SIGNED_URL_TTL_MS });
-  return data.signedUrl;
-}
-
 export async function hydrateSignedUrls(rows: YimPostRow[]) {
-  const map = new Map<string, string>();
-  const paths = rows.map((r) => r.photo_background_url).filter(Boolean) as string[];
-  if (paths.length === 0) return map;
-
-  await Promise.all(
-    paths.map(async (path) => {
-      const url = await createSignedUrlForPath(path);
-      if (url) map.set(path, url);
-    })
-  );
-
-  return map;
+  return getSignedUrls("post-photos", rows.map((r) => r.photo_background_url));
 }
 
 type AuthorProfileRow = {
@@ -157,18 +115,16 @@ export async function hydrateAuthorInfo(authorIds: string[]) {
   }
 
   const rows = (profiles ?? []) as AuthorProfileRow[];
-
-  await Promise.all(
-    rows.map(async (p) => {
-      const authorLabel = p.first_name || p.username || `Friend ${p.id.slice(-4)}`;
-      const avatarUrl = p.avatar_url ? await createSignedUrlForAvatarPath(p.avatar_url) : null;
-      map.set(p.id, {
-        authorLabel,
-        authorUsername: p.username ?? undefined,
-        authorAvatarUrl: avatarUrl ?? undefined,
-      });
-    })
-  );
+  const avatarUrlMap = await getSignedUrls("profile-pictures", rows.map((p) => p.avatar_url));
+
+  rows.forEach((p) => {
+    const authorLabel = p.first_name || p.username || `Friend ${p.id.slice(-4)}`;
+    map.set(p.id, {
+      authorLabel,
+      authorUsername: p.username ?? undefined,
+      authorAvatarUrl: (p.avatar_url && avatarUrlMap.get(p.avatar_url)) || undefined,
+    });
+  });
 
   // Ensure any missing author IDs still have a label
   authorIds.forEach((id) => {
@@ -195,7 +151,8 @@ export function mapRowToPost(row: YimPostRow, signedUrlMap: Map<string, string>,
       ? signedUrlMap.get(row.photo_background_url)
       : undefined;
 
-  const authorInfo = authorInfoMap.get(row.author_id);
+  // Anonymous posts never carry a name, not even on the author's own device.
+  const authorInfo = row.is_anonymous ? { authorLabel: "Anonymous" } : row.author_id ? authorInfoMap.get(row.author_id) : undefined;
 
   return {
     id: row.id,
@@ -208,13 +165,17 @@ export function mapRowToPost(row: YimPostRow, signedUrlMap: Map<string, string>,
     fontSize,
     textHighlight,
     photoBackgroundUrl,
+    photoBackgroundPath: row.photo_background_url ?? undefined,
     expandedText: row.expanded_text ?? undefined,
-    authorId: row.author_id,
+    authorId: row.author_id ?? undefined,
     authorLabel: authorInfo?.authorLabel,
     authorUsername: authorInfo?.authorUsername,
     authorAvatarUrl: authorInfo?.authorAvatarUrl,
     promptId: row.prompt_id ?? undefined,
     promptDate: row.prompt_date ?? undefined,
+    editedAt: row.edited_at ?? undefined,
+    circleId: row.audience === "circle" ? (row.circle_id ?? undefined) : undefined,
+    isAnonymous: row.is_anonymous ?? false,
   };
 }
 
@@ -229,7 +190,9 @@ export interface CreateYimPostInput {
   photoBackgroundPath?: string; // storage path
   expandedText?: string;
   promptId?: string;
-  promptDate?: string; // YYYY-MM-DD
+  promptDate?: string; // YYYY-MM-DD, informational: the server uses the prompt's own date
+  circleId?: string; // share with one of the author's circles instead of all friends
+  anonymous?: boolean; // the server also forces it for prompts with force_anonymous
 }
 
 function countWords(text: string | null | undefined): number {
@@ -237,6 +200,39 @@ function countWords(text: string | null | undefined): number {
   return text.trim().split(/\s+/).filter((word) => word.length > 0).length;
 }
 
+function makePhotoId() {
+  // Prefer UUID when available (same fallback approach as friend invite tokens).
+  const maybeCrypto = (globalThis as unknown as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (maybeCrypto?.randomUUID) return maybeCrypto.randomUUID();
+  return `p_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+export async function uploadPostPhoto(params: { userId: string; uri: string; anonymous?: boolean }) {
+  // Bucket matches the web app: `post-photos`. Friends can read the path, so anonymous posts'
+  // photos go under a folder that doesn't name the author.
+  const filePath = params.anonymous
+    ? `post-photos/anon/${makePhotoId()}.jpg`
+    : `post-photos/${params.userId}/${Date.now()}.jpg`;
+
+  if (__DEV__) console.log("[uploadPostPhoto] start", { filePath });
+
+  const response = await fetch(params.uri);
+  const arrayBuffer = await response.arrayBuffer();
+
+  const { error } = await supabase.storage.from("post-photos").upload(filePath, arrayBuffer, {
+    contentType: "image/jpeg",
+    upsert: true,
+  });
+
+  if (error) {
+    console.error("[uploadPostPhoto] failed", error);
+    throw error;
+  }
+
+  if (__DEV__) console.log("[uploadPostPhoto] success", { filePath });
+  return filePath;
+}
+
 export async function createYimPost(input: CreateYimPostInput): Promise<Post> {
   const {
     data: { user },
@@ -246,42 +242,34 @@ export async function createYimPost(input: CreateYimPostInput): Promise<Post> {
   if (userError) throw userError;
   if (!user) throw new Error("[createYimPost] Must be authenticated");
 
-  // Calculate word count from quote and expandedText
+  // Calculate word count from quote and expandedText (server recomputes it; this is for the event)
   const wordCount = countWords(input.quote) + countWords(input.expandedText);
 
-  const insertData: Record<string, unknown> = {
-    author_id: user.id,
-    quote: input.quote,
-    attribution: input.attribution ?? "",
-    background: input.background,
-    font: input.font ?? null,
-    font_color: input.fontColor ?? null,
-    font_size: input.fontSize ?? null,
-    text_highlight: input.textHighlight ?? null,
-    expanded_text: input.expandedText ?? null,
-    prompt_id: input.promptId ?? null,
-    prompt_date: input.promptDate ?? (input.promptId ? getTodayPacificIsoDate() : null),
-    word_count: wordCount,
+  // Inserts go through submit_post so the posting window is enforced against the server clock.
+  // Failures carry a structured code in `error.message` (see lib/post-errors.ts).
+  const params = {
+    p_quote: input.quote,
+    p_attribution: input.attribution ?? "",
+    p_background: input.background,
+    p_font: input.font ?? null,
+    p_font_color: input.fontColor ?? null,
+    p_font_size: input.fontSize ?? null,
+    p_text_highlight: input.textHighlight ?? null,
+    p_expanded_text: input.expandedText ?? null,
+    p_photo_background_url: input.photoBackgroundPath ?? null,
+    p_prompt_id: input.promptId ?? null,
+    p_circle_id: input.circleId ?? null,
+    p_anonymous: input.anonymous ?? false,
   };
 
-  if (input.photoBackgroundPath) insertData.photo_background_url = input.photoBackgroundPath;
+  if (__DEV__) console.log("[createYimPost] submit_post", { promptId: params.p_prompt_id, promptDate: input.promptDate });
 
-  if (__DEV__) console.log("[createYimPost] insert", { keys: Object.keys(insertData) });
-
-  const { data, error } = await supabase
-    .from("yim_posts")
-    .insert(insertData)
-    .select(
-      "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, word_count, created_at"
-    )
-    .single();
+  const { data, error } = await supabase.rpc("submit_post", params).single();
 
   if (error) throw error;
   if (!data) throw new Error("[createYimPost] No data returned");
 
-  const signedUrlMap = await hydrateSignedUrls([data as YimPostRow]);
-  const authorInfoMap = await hydrateAuthorInfo([(data as YimPostRow).author_id]);
-  const post = mapRowToPost(data as YimPostRow, signedUrlMap, authorInfoMap);
+  const [post] = await hydratePostRows([data as YimPostRow]);
 
   // Track post creation event
   try {
@@ -303,19 +291,62 @@ export async function createYimPost(input: CreateYimPostInput): Promise<Post> {
   return post;
 }
 
-export async function updatePostExpandedText(params: { postId: string; expandedText: string }) {
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+export interface EditYimPostInput {
+  postId: string;
+  quote: string;
+  background: BackgroundType;
+  font?: FontStyle;
+  fontColor?: FontColor;
+  fontSize?: FontSize;
+  textHighlight?: TextHighlight;
+  photoBackgroundPath?: string; // storage path
+  expandedText?: string;
+}
 
-  if (!user) throw new Error("[updatePostExpandedText] Must be authenticated");
+/**
+ * Edit a post in place (same id, so likes/saves/comments survive).
+ *
+ * `edit_post` replaces every editable field, snapshots the previous version into
+ * `yim_post_revisions` and rejects edits once the viewing phase has begun (`edit_window_closed`).
+ */
+export async function editYimPost(input: EditYimPostInput): Promise<Post> {
+  const params = {
+    p_post_id: input.postId,
+    p_quote: input.quote,
+    p_background: input.background,
+    p_font: input.font ?? null,
+    p_font_color: input.fontColor ?? null,
+    p_font_size: input.fontSize ?? null,
+    p_text_highlight: input.textHighlight ?? null,
+    p_expanded_text: input.expandedText ?? null,
+    p_photo_background_url: input.photoBackgroundPath ?? null,
+  };
 
-  const { error } = await supabase
-    .from("yim_posts")
-    .update({ expanded_text: params.expandedText || null })
-    .eq("id", params.postId);
+  if (__DEV__) console.log("[editYimPost] edit_post", { postId: input.postId });
+
+  const { data, error } = await supabase.rpc("edit_post", params).single();
 
   if (error) throw error;
+  if (!data) throw new Error("[editYimPost] No data returned");
+
+  const [post] = await hydratePostRows([data as YimPostRow]);
+  return post;
+}
+
+/**
+ * Share an existing post with all friends (`circleId` null) or one of the author's circles.
+ * Raises `circle_not_found` if the circle was deleted meanwhile.
+ */
+export async function setPostAudience(postId: string, circleId: string | null): Promise<Post> {
+  const { data, error } = await supabase
+    .rpc("set_post_audience", { p_post_id: postId, p_circle_id: circleId })
+    .single();
+
+  if (error) throw error;
+  if (!data) throw new Error("[setPostAudience] No data returned");
+
+  const [post] = await hydratePostRows([data as YimPostRow]);
+  return post;
 }
 
 function addDaysToIsoDate(isoDate: string, deltaDays: number) {
@@ -330,6 +361,126 @@ function addDaysToIsoDate(isoDate: string, deltaDays: number) {
   return `${yy}-${mm}-${day}`;
 }
 
+/**
+ * Keyset pagination.
+ *
+ * Pages are ordered newest first by (created_at, id); the cursor is the last row of the previous
+ * page. Unlike offsets this stays stable while friends keep posting, and each page hydrates only
+ * its own signed URLs/authors.
+ */
+export const POSTS_PAGE_SIZE = 20;
+
+export type PostCursor = { createdAt: string; id: string };
+
+export type PostPage = {
+  posts: Post[];
+  nextCursor: PostCursor | null;
+};
+
+const POST_COLUMNS =
+  "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at, edited_at, audience, circle_id, is_anonymous";
+
+// Structural type for the PostgREST filter builder methods we need (keeps this helper generic).
+type KeysetQuery<Q> = {
+  or(filters: string): Q;
+  order(column: string, options: { ascending: boolean }): Q;
+  limit(count: number): Q;
+};
+
+/**
+ * Apply newest-first keyset ordering, the cursor filter and the page limit.
+ * Fetches one extra row so the caller knows whether another page exists.
+ */
+export function applyKeysetPage<Q extends KeysetQuery<Q>>(query: Q, cursor: PostCursor | null, pageSize = POSTS_PAGE_SIZE) {
+  let next = query;
+  if (cursor) {
+    next = next.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt."${cursor.id}")`);
+  }
+  return next.order("created_at", { ascending: false }).order("id", { ascending: false }).limit(pageSize + 1);
+}
+
+/**
+ * Split a `pageSize + 1` result into the visible rows and the cursor for the next page.
+ */
+export function takeKeysetPage<T extends { created_at: string; id: string }>(rows: T[], pageSize = POSTS_PAGE_SIZE) {
+  const pageRows = rows.slice(0, pageSize);
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor = rows.length > pageSize && last ? { createdAt: last.created_at, id: last.id } : null;
+  return { pageRows, nextCursor };
+}
+
+/**
+ * Authors to look up profiles for. Anonymous posts are skipped, so their author's profile is never
+ * fetched alongside them (even for the author's own posts).
+ */
+export function getNamedAuthorIds(rows: YimPostRow[]) {
+  return Array.from(new Set(rows.filter((r) => !r.is_anonymous).map((r) => r.author_id))).filter(
+    (id): id is string => !!id
+  );
+}
+
+export async function hydratePostRows(rows: YimPostRow[]): Promise<Post[]> {
+  if (rows.length === 0) return [];
+  const signedUrlMap = await hydrateSignedUrls(rows);
+  const authorInfoMap = await hydrateAuthorInfo(getNamedAuthorIds(rows));
+  return rows.map((r) => mapRowToPost(r, signedUrlMap, authorInfoMap));
+}
+
+async function toPostPage(rows: YimPostRow[]): Promise<PostPage> {
+  const { pageRows, nextCursor } = takeKeysetPage(rows);
+  return { posts: await hydratePostRows(pageRows), nextCursor };
+}
+
+/**
+ * Flatten an infinite query's pages (deduping rows that shifted between pages during a refetch).
+ */
+export function flattenPostPages(data: InfiniteData<PostPage> | undefined): Post[] {
+  if (!data) return [];
+  const seen = new Set<string>();
+  const posts: Post[] = [];
+  for (const page of data.pages) {
+    for (const post of page.posts) {
+      if (seen.has(post.id)) continue;
+      seen.add(post.id);
+      posts.push(post);
+    }
+  }
+  return posts;
+}
+
+/**
+ * Insert a post at the top of the first page of an infinite post list cache.
+ */
+export function prependPostToPages(data: InfiniteData<PostPage> | undefined, post: Post): InfiniteData<PostPage> {
+  if (!data || data.pages.length === 0) {
+    return { pages: [{ posts: [post], nextCursor: null }], pageParams: [null] };
+  }
+  const [first, ...rest] = data.pages;
+  return {
+    ...data,
+    pages: [{ ...first, posts: [post, ...first.posts.filter((p) => p.id !== post.id)] }, ...rest],
+  };
+}
+
+/**
+ * Replace a post in place (e.g. after an edit). No-op if it isn't loaded.
+ */
+export function replacePostInPages(data: InfiniteData<PostPage> | undefined, post: Post) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({ ...page, posts: page.posts.map((p) => (p.id === post.id ? post : p)) })),
+  };
+}
+
+export function removePostFromPages(data: InfiniteData<PostPage> | undefined, postId: string) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({ ...page, posts: page.posts.filter((p) => p.id !== postId) })),
+  };
+}
+
 export function yimFeedQueryKey(userId: string, promptDate: string) {
   return ["yimFeed", userId, promptDate] as const;
 }
@@ -338,88 +489,41 @@ export function allPostsFeedQueryKey(userId: string) {
   return ["yimFeed", userId, "all"] as const;
 }
 
-export async function fetchAllPosts(userId: string): Promise<Post[]> {
+export async function fetchAllPosts(cursor: PostCursor | null = null): Promise<PostPage> {
   // Fetch ALL posts for user + friends (ignores date filter - for dev testing)
-  const authorIds = await fetchAuthorIdsForUser(userId);
-
-  let query = supabase
-    .from("yim_posts")
-    .select(
-      "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at"
-    )
-    .order("created_at", { ascending: false })
-    .limit(50);
-
-  if (authorIds.length > 0) query = query.in("author_id", authorIds);
+  const query = supabase.from("visible_yim_posts").select(POST_COLUMNS).eq("in_friend_feed", true);
 
-  const { data: rows, error } = await query;
+  const { data: rows, error } = await applyKeysetPage(query, cursor);
   if (error) throw error;
 
-  if (__DEV__) {
-    console.log("[fetchAllPosts] found", rows?.length ?? 0, "posts");
-    rows?.forEach((r: any) => console.log("[fetchAllPosts] post", { id: r.id, prompt_date: r.prompt_date, author_id: r.author_id }));
-  }
+  if (__DEV__) console.log("[fetchAllPosts] page", { rows: rows?.length ?? 0, cursor });
 
-  const signedUrlMap = await hydrateSignedUrls((rows ?? []) as YimPostRow[]);
-  const authorIdsForProfiles = Array.from(
-    new Set(((rows ?? []) as YimPostRow[]).map((r) => r.author_id).filter(Boolean))
-  );
-  const authorInfoMap = await hydrateAuthorInfo(authorIdsForProfiles);
-  return ((rows ?? []) as YimPostRow[]).map((r) => mapRowToPost(r, signedUrlMap, authorInfoMap));
+  return toPostPage((rows ?? []) as YimPostRow[]);
 }
 
 export function pendingPostQueryKey(userId: string, promptDate: string) {
   return ["pendingPost", userId, promptDate] as const;
 }
 
-async function fetchAuthorIdsForUser(userId: string) {
-  const { data: friendships, error: friendshipsError } = await supabase
-    .from("friendships")
-    .select("user_id, friend_id, status")
-    .or(`user_id.eq.${userId},friend_id.eq.${userId}`)
-    .eq("status", "accepted");
-
-  if (friendshipsError) {
-    console.warn("[fetchYimFeed] friendships fetch failed", friendshipsError);
-  }
-
-  const friendIds =
-    friendships?.map((f) => (f.user_id === userId ? f.friend_id : f.user_id)).filter(Boolean) ?? [];
-  return Array.from(new Set([...friendIds, userId]));
-}
-
-export async function fetchYimFeed(userId: string, promptDate: string): Promise<Post[]> {
+export async function fetchYimFeed(promptDate: string, cursor: PostCursor | null = null): Promise<PostPage> {
   // Single-login daily cycle: show "yesterday" posts (prompt_date = promptDate) for user + friends.
-  const authorIds = await fetchAuthorIdsForUser(userId);
-
-  let query = supabase
-    .from("yim_posts")
-    .select(
-      "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at"
-    )
+  // Friend scoping happens in the view (in_friend_feed), so friends' anonymous posts are included.
+  const query = supabase
+    .from("visible_yim_posts")
+    .select(POST_COLUMNS)
     .eq("prompt_date", promptDate)
-    .order("created_at", { ascending: false })
-    .limit(50);
-
-  if (authorIds.length > 0) query = query.in("author_id", authorIds);
+    .eq("in_friend_feed", true);
 
-  const { data: rows, error } = await query;
+  const { data: rows, error } = await applyKeysetPage(query, cursor);
   if (error) throw error;
 
-  const signedUrlMap = await hydrateSignedUrls((rows ?? []) as YimPostRow[]);
-  const authorIdsForProfiles = Array.from(
-    new Set(((rows ?? []) as YimPostRow[]).map((r) => r.author_id).filter(Boolean))
-  );
-  const authorInfoMap = await hydrateAuthorInfo(authorIdsForProfiles);
-  return ((rows ?? []) as YimPostRow[]).map((r) => mapRowToPost(r, signedUrlMap, authorInfoMap));
+  return toPostPage((rows ?? []) as YimPostRow[]);
 }
 
 export async function fetchPendingPost(userId: string, promptDate: string): Promise<Post | null> {
   const { data: row, error } = await supabase
-    .from("yim_posts")
-    .select(
-      "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at"
-    )
+    .from("visible_yim_posts")
+    .select(POST_COLUMNS)
     .eq("author_id", userId)
     .eq("prompt_date", promptDate)
     .order("created_at", { ascending: false })
@@ -434,25 +538,51 @@ export async function fetchPendingPost(userId: string, promptDate: string): Prom
   return mapRowToPost(row as YimPostRow, signedUrlMap, authorInfoMap);
 }
 
+export function yimPostQueryKey(postId: string) {
+  return ["yimPost", postId] as const;
+}
+
+/**
+ * One post by id (activity rows, push taps). Null if it was deleted or isn't visible to the user.
+ */
+export async function fetchYimPost(postId: string): Promise<Post | null> {
+  const { data: row, error } = await supabase.from("visible_yim_posts").select(POST_COLUMNS).eq("id", postId).maybeSingle();
+
+  if (error) throw error;
+  if (!row) return null;
+
+  const [post] = await hydratePostRows([row as YimPostRow]);
+  return post ?? null;
+}
+
 export function userPostsQueryKey(userId: string) {
   return ["userPosts", userId] as const;
 }
 
-export async function fetchUserPosts(userId: string): Promise<Post[]> {
-  const { data: rows, error } = await supabase
-    .from("yim_posts")
-    .select(
-      "id, author_id, quote, attribution, background, font, font_color, font_size, text_highlight, photo_background_url, expanded_text, prompt_id, prompt_date, created_at"
-    )
-    .eq("author_id", userId)
-    .order("created_at", { ascending: false })
-    .limit(50);
+export async function fetchUserPosts(userId: string, cursor: PostCursor | null = null): Promise<PostPage> {
+  const query = supabase.from("visible_yim_posts").select(POST_COLUMNS).eq("author_id", userId);
 
+  const { data: rows, error } = await applyKeysetPage(query, cursor);
   if (error) throw error;
 
-  const signedUrlMap = await hydrateSignedUrls((rows ?? []) as YimPostRow[]);
-  const authorInfoMap = await hydrateAuthorInfo([userId]);
-  return ((rows ?? []) as YimPostRow[]).map((r) => mapRowToPost(r, signedUrlMap, authorInfoMap));
+  return toPostPage((rows ?? []) as YimPostRow[]);
+}
+
+export function userPostCountQueryKey(userId: string) {
+  return ["userPosts", userId, "count"] as const;
+}
+
+/**
+ * Total post count for profile stats (lists are paginated, so `posts.length` is no longer the total).
+ */
+export async function fetchUserPostCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("yim_posts")
+    .select("id", { count: "exact", head: true })
+    .eq("author_id", userId);
+
+  if (error) throw error;
+  return count ?? 0;
 }
 
 export function useYimFeed(showAllPosts: boolean = false) {
@@ -461,29 +591,35 @@ export function useYimFeed(showAllPosts: boolean = false) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const userId = user?.id ?? null;
+  const schedules = useCycleSchedules();
 
   const [nowTick, setNowTick] = useState(() => Date.now());
 
-  const cycleDateKey = useMemo(() => getPacificIsoDateForCycleStart(new Date(nowTick), 6), [nowTick]);
+  // Cycle dates roll at the schedule's flip hour on the user's clock; prompt dates are shared with friends.
+  const cycleDateKey = useMemo(() => getCycleDate(new Date(nowTick), schedules), [nowTick, schedules]);
   const yesterdayDateKey = useMemo(() => addDaysToIsoDate(cycleDateKey, -1), [cycleDateKey]);
 
-  // Keep cycle date rolling at 6AM.
+  // Keep cycle date rolling at the flip hour.
   useEffect(() => {
     const id = setInterval(() => setNowTick(Date.now()), 30_000);
     return () => clearInterval(id);
   }, []);
 
 
-  const feedQ = useQuery({
+  const feedQ = useInfiniteQuery({
     queryKey: userId 
       ? (showAllPosts ? allPostsFeedQueryKey(userId) : yimFeedQueryKey(userId, yesterdayDateKey))
       : ["yimFeed", "anonymous"],
-    queryFn: () => showAllPosts 
-      ? fetchAllPosts(userId as string) 
-      : fetchYimFeed(userId as string, yesterdayDateKey),
+    queryFn: ({ pageParam }) => showAllPosts 
+      ? fetchAllPosts(pageParam) 
+      : fetchYimFeed(yesterdayDateKey, pageParam),
+    initialPageParam: null as PostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!userId,
   });
 
+  const posts = useMemo(() => flattenPostPages(feedQ.data), [feedQ.data]);
+
   const pendingQ = useQuery({
     queryKey: userId ? pendingPostQueryKey(userId, cycleDateKey) : ["pendingPost", "anonymous"],
     queryFn: () => fetchPendingPost(userId as string, cycleDateKey),
@@ -521,7 +657,9 @@ export function useYimFeed(showAllPosts: boolean = false) {
         return;
       }
       if (postPromptDate && postPromptDate === yesterdayDateKey) {
-        queryClient.setQueryData<Post[]>(yimFeedQueryKey(userId, yesterdayDateKey), (prev) => [post, ...(prev ?? [])]);
+        queryClient.setQueryData<InfiniteData<PostPage>>(yimFeedQueryKey(userId, yesterdayDateKey), (prev) =>
+          prependPostToPages(prev, post)
+        );
         // Also update the viewing day post cache
         queryClient.setQueryData<Post | null>(pendingPostQueryKey(userId, yesterdayDateKey), () => post);
       }
@@ -529,6 +667,12 @@ export function useYimFeed(showAllPosts: boolean = false) {
     [cycleDateKey, queryClient, userId, yesterdayDateKey]
   );
 
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = feedQ;
+  const loadMore = useCallback(() => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    void fetchNextPage();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
   return useMemo(() => {
     const errorMessage =
       (feedQ.error instanceof Error ? feedQ.error.message : feedQ.error ? String(feedQ.error) : null) ??
@@ -537,8 +681,11 @@ export function useYimFeed(showAllPosts: boolean = false) {
     return {
       cycleDateKey,
       yesterdayDateKey,
-      posts: feedQ.data ?? [],
-      yesterdayPosts: feedQ.data ?? [],
+      posts,
+      yesterdayPosts: posts,
+      hasNextPage: feedQ.hasNextPage,
+      isFetchingNextPage: feedQ.isFetchingNextPage,
+      fetchNextPage: loadMore,
       pendingPost: pendingQ.data ?? null,
       viewingDayPost: viewingDayPostQ.data ?? null,
       hasRespondedToViewingDay: !!viewingDayPostQ.data,
@@ -551,9 +698,12 @@ export function useYimFeed(showAllPosts: boolean = false) {
   }, [
     addPostOptimistically,
     cycleDateKey,
-    feedQ.data,
+    posts,
     feedQ.error,
+    feedQ.hasNextPage,
+    feedQ.isFetchingNextPage,
     feedQ.isLoading,
+    loadMore,
     isHardRefreshing,
     isRefreshing,
     pendingQ.data,
@@ -567,30 +717,56 @@ export function useYimFeed(showAllPosts: boolean = false) {
   ]);
 }
 
-export function useUserPosts() {
+/**
+ * A user's posts as an infinite list (defaults to the signed-in user; pass an id for friend profiles).
+ */
+export function useUserPosts(targetUserId?: string | null) {
   const { user } = useAuth();
-  const userId = user?.id ?? null;
+  const userId = targetUserId === undefined ? (user?.id ?? null) : targetUserId;
+  const [isRefreshing, setIsRefreshing] = useState(false);
 
-  const q = useQuery({
+  const q = useInfiniteQuery({
     queryKey: userId ? userPostsQueryKey(userId) : ["userPosts", "anonymous"],
-    queryFn: () => fetchUserPosts(userId as string),
+    queryFn: ({ pageParam }) => fetchUserPosts(userId as string, pageParam),
+    initialPageParam: null as PostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!userId,
   });
 
+  const countQ = useQuery({
+    queryKey: userId ? userPostCountQueryKey(userId) : ["userPosts", "anonymous", "count"],
+    queryFn: () => fetchUserPostCount(userId as string),
+    enabled: !!userId,
+  });
+
+  const posts = useMemo(() => flattenPostPages(q.data), [q.data]);
+
+  const { refetch: refetchPosts, hasNextPage, isFetchingNextPage, fetchNextPage } = q;
+  const { refetch: refetchCount } = countQ;
+
   const refetch = useCallback(async () => {
-    await q.refetch();
-  }, [q]);
+    setIsRefreshing(true);
+    try {
+      await Promise.allSettled([refetchPosts(), refetchCount()]);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [refetchCount, refetchPosts]);
+
+  const loadMore = useCallback(() => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    void fetchNextPage();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
 
   return {
-    posts: q.data ?? [],
+    posts,
+    totalCount: countQ.data ?? posts.length,
     isLoading: q.isLoading,
+    isRefreshing,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage: loadMore,
     errorMessage: q.error instanceof Error ? q.error.message : q.error ? String(q.error) : null,
     refetch,
   };
 }
-
-
-
-
-
-
@@ -57,4 +57,7 @@ jest.mock('expo-secure-store', () => ({
     ...console,
     warn: jest.fn(),
     error: jest.fn(),
-  };
\ No newline at end of file
+  };
+  jest.mock('@react-native-community/netinfo', () =>
+    require('@react-native-community/netinfo/jest/netinfo-mock.js')
+  );
@@ -0,0 +1,47 @@
+/**
+ * Structured errors raised by the friend request RPCs
+ * (see supabase/migrations/20261030_friend_requests.sql).
+ *
+ * PostgREST returns them as `{ code: "P0001", message: <code>, details: <human text> }`.
+ */
+
+export type FriendErrorCode =
+  | "not_authenticated"
+  | "user_not_found"
+  | "cannot_friend_self"
+  | "already_friends"
+  | "request_pending"
+  | "request_unavailable"
+  | "request_not_found"
+  | "rate_limited"
+  | "invalid_invitation";
+
+const FRIEND_ERROR_MESSAGES: Record<FriendErrorCode, string> = {
+  not_authenticated: "You're signed out. Log in again to add friends.",
+  user_not_found: "We couldn't find that person.",
+  cannot_friend_self: "That's you!",
+  already_friends: "You're already friends.",
+  request_pending: "Your request is already waiting on them.",
+  request_unavailable: "You can't send this person a request right now.",
+  request_not_found: "That request is no longer pending.",
+  rate_limited: "You've sent a lot of requests. Try again tomorrow.",
+  invalid_invitation: "This invite link is invalid or has expired.",
+};
+
+export function getFriendErrorCode(error: unknown): FriendErrorCode | null {
+  if (!error || typeof error !== "object") return null;
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code !== "P0001" || typeof message !== "string") return null;
+  return message in FRIEND_ERROR_MESSAGES ? (message as FriendErrorCode) : null;
+}
+
+/**
+ * User-facing copy for a failed friend action. Falls back to the raw message for non-RPC errors.
+ */
+export function getFriendErrorMessage(error: unknown, fallback = "Something went wrong.") {
+  const code = getFriendErrorCode(error);
+  if (code) return FRIEND_ERROR_MESSAGES[code];
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) return String((error as any).message);
+  return fallback;
+}
@@ -0,0 +1,61 @@
+/**
+ * @mention parsing for comments and post responses.
+ *
+ * Mentions are stored as plain `@username` text. Usernames are `[a-z0-9_]+` (see onboarding);
+ * matching is case-insensitive and the `@` must start the text or follow a non-username
+ * character, so emails don't count. Keep in sync with `mentioned_friend_ids` in
+ * supabase/migrations/20261025_mentions.sql.
+ */
+
+export type MentionSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; text: string; username: string };
+
+export type MentionQuery = {
+  /** Partial username typed after `@` (lowercased, may be empty). */
+  query: string;
+  /** Index of the `@`. */
+  start: number;
+  /** Index just past the partial username (the cursor). */
+  end: number;
+};
+
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]+)/g;
+
+export function parseMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) segments.push({ type: "text", text: text.slice(lastIndex, start) });
+    segments.push({ type: "mention", text: `@${match[2]}`, username: match[2].toLowerCase() });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) segments.push({ type: "text", text: text.slice(lastIndex) });
+  return segments;
+}
+
+/**
+ * The mention being typed at `cursor`, if any (drives the autocomplete list).
+ */
+export function getMentionQuery(text: string, cursor: number): MentionQuery | null {
+  const before = text.slice(0, cursor);
+  const match = /(^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]*)$/.exec(before);
+  if (!match) return null;
+  const start = match.index + match[1].length;
+  return { query: match[2].toLowerCase(), start, end: cursor };
+}
+
+/**
+ * Replace the partial mention with `@username ` and return the new text and cursor position.
+ */
+export function insertMention(text: string, mention: MentionQuery, username: string) {
+  const inserted = `@${username} `;
+  const after = text.slice(mention.end).replace(/^[a-zA-Z0-9_]*\s?/, "");
+  return {
+    text: text.slice(0, mention.start) + inserted + after,
+    cursor: mention.start + inserted.length,
+  };
+}
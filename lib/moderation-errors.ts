@@ -0,0 +1,43 @@
+/**
+ * Structured errors raised by the `block_user` and `report_content` RPCs
+ * (see supabase/migrations/20261031_blocks_and_reports.sql).
+ *
+ * PostgREST returns them as `{ code: "P0001", message: <code>, details: <human text> }`.
+ */
+
+export type ModerationErrorCode =
+  | "not_authenticated"
+  | "user_not_found"
+  | "cannot_block_self"
+  | "content_not_found"
+  | "cannot_report_self"
+  | "invalid_report"
+  | "rate_limited";
+
+const MODERATION_ERROR_MESSAGES: Record<ModerationErrorCode, string> = {
+  not_authenticated: "You're signed out. Log in again.",
+  user_not_found: "We couldn't find that person.",
+  cannot_block_self: "You can't block yourself.",
+  content_not_found: "This was already removed.",
+  cannot_report_self: "You can't report your own posts or comments.",
+  invalid_report: "Pick a reason for your report.",
+  rate_limited: "You've sent a lot of reports. Try again tomorrow.",
+};
+
+export function getModerationErrorCode(error: unknown): ModerationErrorCode | null {
+  if (!error || typeof error !== "object") return null;
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code !== "P0001" || typeof message !== "string") return null;
+  return message in MODERATION_ERROR_MESSAGES ? (message as ModerationErrorCode) : null;
+}
+
+/**
+ * User-facing copy for a failed block or report. Falls back to the raw message for non-RPC errors.
+ */
+export function getModerationErrorMessage(error: unknown, fallback = "Something went wrong.") {
+  const code = getModerationErrorCode(error);
+  if (code) return MODERATION_ERROR_MESSAGES[code];
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) return String((error as any).message);
+  return fallback;
+}
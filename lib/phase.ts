@@ -1,128 +1,60 @@
 /**
  * Posting/Viewing day phase calculation.
  *
- * Phases alternate every 24 hours at 6AM Pacific:
- * - Posting days: Jan 13, 15, 17, 19... (even days from anchor)
- * - Viewing days: Jan 14, 16, 18, 20... (odd days from anchor)
+ * The evaluator itself lives in `supabase/functions/_shared/phase-schedule.ts` so the app,
+ * the dev dashboard and the `send-notifications` edge function all agree on the phase.
  *
- * Anchor: January 13, 2026 at 6:00 AM Pacific (first posting day)
+ * Schedules come from `public.phase_schedules` (see `hooks/usePhase.ts`). Until they load we
+ * fall back to the original rotation: posting/viewing alternating every 24 hours at 6AM Pacific,
+ * anchored on January 13, 2026 (first posting day).
  */
 
-import { getPartsInTimeZone, pacificWallTimeToUtc } from "./timezone";
+import {
+  DEFAULT_PHASE_SCHEDULE,
+  getPhaseWindow,
+  type Phase,
+  type PhaseSchedule,
+} from "@/supabase/functions/_shared/phase-schedule";
 
-export type Phase = "posting" | "viewing";
+export type { Phase, PhaseSchedule };
 
-const PACIFIC_TZ = "America/Los_Angeles";
-const PHASE_ANCHOR_DATE = "2026-01-13"; // First posting day
-const PHASE_FLIP_HOUR = 6; // 6AM Pacific
+const FALLBACK_SCHEDULES: PhaseSchedule[] = [DEFAULT_PHASE_SCHEDULE];
 
 export interface PhaseInfo {
   phase: Phase;
   timeRemaining: number; // ms until next phase flip
-  phaseStartedAt: Date; // When current phase started (last 6AM PT)
-  phaseEndsAt: Date; // When current phase ends (next 6AM PT)
+  phaseStartedAt: Date; // When current phase started
+  phaseEndsAt: Date; // When current phase ends
+  isBlackout: boolean; // true on schedule blackout days (no posting)
+  cycleDate: string; // YYYY-MM-DD cycle date `now` falls in
 }
 
 /**
- * Get the current phase (posting or viewing) based on the anchor date.
- * Even days from anchor = posting, odd days = viewing.
+ * Get the current phase (posting or viewing).
  */
-export function getCurrentPhase(now: Date = new Date()): Phase {
-  const anchor = pacificWallTimeToUtc({ year: 2026, month: 1, day: 13, hour: 6, minute: 0 });
-  const nowPacific = getPartsInTimeZone(now, PACIFIC_TZ);
-
-  // Find the most recent 6AM PT boundary
-  const today6am = pacificWallTimeToUtc({
-    year: nowPacific.year,
-    month: nowPacific.month,
-    day: nowPacific.day,
-    hour: PHASE_FLIP_HOUR,
-    minute: 0,
-  });
-
-  // If it's before 6AM today, use yesterday's 6AM
-  const lastFlip = now.getTime() < today6am.getTime() 
-    ? pacificWallTimeToUtc({
-        year: nowPacific.year,
-        month: nowPacific.month,
-        day: nowPacific.day - 1,
-        hour: PHASE_FLIP_HOUR,
-        minute: 0,
-      })
-    : today6am;
-
-  // Count days since anchor (at 6AM boundaries)
-  const daysSinceAnchor = Math.floor((lastFlip.getTime() - anchor.getTime()) / (24 * 60 * 60 * 1000));
-  
-  // Even days = posting, odd days = viewing
-  return daysSinceAnchor % 2 === 0 ? "posting" : "viewing";
+export function getCurrentPhase(now: Date = new Date(), schedules: PhaseSchedule[] = FALLBACK_SCHEDULES): Phase {
+  return getPhaseWindow(now, schedules).phase;
 }
 
 /**
- * Get milliseconds until the next phase flip (next 6AM Pacific).
+ * Get milliseconds until the next phase flip.
  */
-export function getTimeUntilNextPhase(now: Date = new Date()): number {
-  const nowPacific = getPartsInTimeZone(now, PACIFIC_TZ);
-  
-  // Calculate next 6AM PT
-  let next6am = pacificWallTimeToUtc({
-    year: nowPacific.year,
-    month: nowPacific.month,
-    day: nowPacific.day,
-    hour: PHASE_FLIP_HOUR,
-    minute: 0,
-  });
-
-  // If we've already passed 6AM today, next flip is tomorrow
-  if (now.getTime() >= next6am.getTime()) {
-    next6am = pacificWallTimeToUtc({
-      year: nowPacific.year,
-      month: nowPacific.month,
-      day: nowPacific.day + 1,
-      hour: PHASE_FLIP_HOUR,
-      minute: 0,
-    });
-  }
-
-  const msUntil = next6am.getTime() - now.getTime();
-  return Math.max(0, msUntil);
+export function getTimeUntilNextPhase(now: Date = new Date(), schedules: PhaseSchedule[] = FALLBACK_SCHEDULES): number {
+  return getPhaseWindow(now, schedules).timeRemaining;
 }
 
 /**
  * Get complete phase information including countdown and boundaries.
  */
-export function getPhaseInfo(now: Date = new Date()): PhaseInfo {
-  const phase = getCurrentPhase(now);
-  const timeRemaining = getTimeUntilNextPhase(now);
-  
-  const nowPacific = getPartsInTimeZone(now, PACIFIC_TZ);
-  
-  // Find when current phase started (last 6AM PT)
-  let phaseStartedAt = pacificWallTimeToUtc({
-    year: nowPacific.year,
-    month: nowPacific.month,
-    day: nowPacific.day,
-    hour: PHASE_FLIP_HOUR,
-    minute: 0,
-  });
-
-  if (now.getTime() < phaseStartedAt.getTime()) {
-    phaseStartedAt = pacificWallTimeToUtc({
-      year: nowPacific.year,
-      month: nowPacific.month,
-      day: nowPacific.day - 1,
-      hour: PHASE_FLIP_HOUR,
-      minute: 0,
-    });
-  }
-
-  // Phase ends at next 6AM PT
-  const phaseEndsAt = new Date(phaseStartedAt.getTime() + 24 * 60 * 60 * 1000);
+export function getPhaseInfo(now: Date = new Date(), schedules: PhaseSchedule[] = FALLBACK_SCHEDULES): PhaseInfo {
+  const window = getPhaseWindow(now, schedules);
 
   return {
-    phase,
-    timeRemaining,
-    phaseStartedAt,
-    phaseEndsAt,
+    phase: window.phase,
+    timeRemaining: window.timeRemaining,
+    phaseStartedAt: window.phaseStartedAt,
+    phaseEndsAt: window.phaseEndsAt,
+    isBlackout: window.isBlackout,
+    cycleDate: window.cycleDate,
   };
 }
@@ -0,0 +1,49 @@
+/**
+ * Structured errors raised by the `submit_post` and `edit_post` RPCs
+ * (see supabase/migrations/20261021_submit_post_rpc.sql, 20261024_post_revisions.sql and
+ * 20261101_friend_circles.sql).
+ *
+ * PostgREST returns them as `{ code: "P0001", message: <code>, details: <human text> }`.
+ * The composer maps codes to copy here so the server can stay terse.
+ */
+
+export type SubmitPostErrorCode =
+  | "not_authenticated"
+  | "invalid_quote"
+  | "prompt_not_found"
+  | "window_closed"
+  | "blackout"
+  | "already_posted"
+  | "post_not_found"
+  | "edit_window_closed"
+  | "circle_not_found";
+
+const SUBMIT_POST_ERROR_MESSAGES: Record<SubmitPostErrorCode, string> = {
+  not_authenticated: "You're signed out. Log in again to post.",
+  invalid_quote: "Your response needs 1–120 characters.",
+  prompt_not_found: "This prompt is no longer available.",
+  window_closed: "The window for this prompt has closed.",
+  blackout: "There's no prompt today — check back tomorrow.",
+  already_posted: "You already responded to this prompt.",
+  post_not_found: "This post no longer exists.",
+  edit_window_closed: "Editing closed when the viewing phase began.",
+  circle_not_found: "That circle no longer exists. Pick another audience.",
+};
+
+export function getSubmitPostErrorCode(error: unknown): SubmitPostErrorCode | null {
+  if (!error || typeof error !== "object") return null;
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  if (code !== "P0001" || typeof message !== "string") return null;
+  return message in SUBMIT_POST_ERROR_MESSAGES ? (message as SubmitPostErrorCode) : null;
+}
+
+/**
+ * User-facing copy for a failed post. Falls back to the raw message for non-RPC errors.
+ */
+export function getSubmitPostErrorMessage(error: unknown, fallback = "Failed to post.") {
+  const code = getSubmitPostErrorCode(error);
+  if (code) return SUBMIT_POST_ERROR_MESSAGES[code];
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) return String((error as any).message);
+  return fallback;
+}
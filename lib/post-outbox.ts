@@ -0,0 +1,169 @@
+import { Directory, File, Paths } from "expo-file-system";
+
+import type { CreateYimPostInput } from "@/hooks/useYimFeed";
+
+/**
+ * Durable post outbox (native).
+ *
+ * Why:
+ * - Posting used to call upload + insert directly; a flaky connection meant a lost reflection.
+ * - Entries are persisted to the document directory (not SecureStore: posts + metadata can exceed
+ *   its size limits), together with a private copy of the picked photo so it survives cache purges.
+ *
+ * Notes:
+ * - This module only owns storage + change notifications. Sending lives in `hooks/usePostOutbox.ts`.
+ * - `input.promptDate` is captured at compose time for display/matching; whether a queued post is
+ *   still accepted is decided by the `submit_post` RPC when it is finally sent.
+ */
+
+export type OutboxStatus = "queued" | "sending" | "failed";
+
+export type OutboxEntryV1 = {
+  v: 1;
+  id: string;
+  userId: string;
+  createdAt: string; // ISO
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string | null; // ISO, when the next automatic retry is due
+  lastError: string | null;
+  input: Omit<CreateYimPostInput, "photoBackgroundPath">;
+  photoUri: string | null; // durable local copy (file://…)
+  photoPath: string | null; // storage path once uploaded, so retries don't re-upload
+};
+
+type Listener = () => void;
+
+const OUTBOX_DIR_NAME = "post-outbox";
+const QUEUE_FILE_NAME = "queue.json";
+
+let cache: OutboxEntryV1[] | null = null;
+const listeners = new Set<Listener>();
+
+function getOutboxDir() {
+  const dir = new Directory(Paths.document, OUTBOX_DIR_NAME);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  return dir;
+}
+
+function getQueueFile() {
+  return new File(getOutboxDir(), QUEUE_FILE_NAME);
+}
+
+function makeEntryId() {
+  // Prefer UUID when available (same fallback approach as friend invite tokens).
+  const maybeCrypto = (globalThis as unknown as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (maybeCrypto?.randomUUID) return maybeCrypto.randomUUID();
+  return `o_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+async function load(): Promise<OutboxEntryV1[]> {
+  if (cache) return cache;
+  try {
+    const file = getQueueFile();
+    if (!file.exists) {
+      cache = [];
+      return cache;
+    }
+    const parsed = JSON.parse(await file.text()) as OutboxEntryV1[];
+    cache = Array.isArray(parsed) ? parsed.filter((e) => e && e.v === 1) : [];
+
+    // Anything that was mid-send when the app died goes back to the queue.
+    cache = cache.map((e) => (e.status === "sending" ? { ...e, status: "queued" } : e));
+  } catch (error) {
+    console.warn("[post-outbox] load failed", error);
+    cache = [];
+  }
+  return cache;
+}
+
+function persist(entries: OutboxEntryV1[]) {
+  cache = entries;
+  try {
+    getQueueFile().write(JSON.stringify(entries));
+  } catch (error) {
+    console.warn("[post-outbox] persist failed", error);
+  }
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Copy a picked photo into the outbox directory. Picker URIs often live in a cache directory
+ * that iOS/Android may clear before we get a chance to upload.
+ */
+function copyPhotoForEntry(entryId: string, uri: string): string {
+  if (!uri.startsWith("file://")) return uri;
+  try {
+    const destination = new File(getOutboxDir(), `${entryId}.jpg`);
+    if (destination.exists) destination.delete();
+    new File(uri).copy(destination);
+    return destination.uri;
+  } catch (error) {
+    console.warn("[post-outbox] copy photo failed; keeping original uri", error);
+    return uri;
+  }
+}
+
+function deletePhotoCopy(entry: OutboxEntryV1) {
+  if (!entry.photoUri) return;
+  try {
+    const file = new File(entry.photoUri);
+    if (file.exists && file.uri.includes(`/${OUTBOX_DIR_NAME}/`)) file.delete();
+  } catch (error) {
+    console.warn("[post-outbox] delete photo copy failed", error);
+  }
+}
+
+export function subscribeToOutbox(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getOutboxEntries(userId: string) {
+  const entries = await load();
+  return entries.filter((e) => e.userId === userId);
+}
+
+export async function enqueueOutboxPost(params: {
+  userId: string;
+  input: Omit<CreateYimPostInput, "photoBackgroundPath">;
+  photoUri: string | null;
+}) {
+  const entries = await load();
+  const id = makeEntryId();
+
+  const entry: OutboxEntryV1 = {
+    v: 1,
+    id,
+    userId: params.userId,
+    createdAt: new Date().toISOString(),
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+    input: params.input,
+    photoUri: params.photoUri ? copyPhotoForEntry(id, params.photoUri) : null,
+    photoPath: null,
+  };
+
+  persist([...entries, entry]);
+  if (__DEV__) console.log("[post-outbox] enqueued", { id, promptDate: entry.input.promptDate ?? null });
+  return entry;
+}
+
+export async function updateOutboxEntry(id: string, patch: Partial<Omit<OutboxEntryV1, "v" | "id" | "userId">>) {
+  const entries = await load();
+  const next = entries.map((e) => (e.id === id ? { ...e, ...patch } : e));
+  persist(next);
+  return next.find((e) => e.id === id) ?? null;
+}
+
+export async function removeOutboxEntry(id: string) {
+  const entries = await load();
+  const entry = entries.find((e) => e.id === id);
+  if (!entry) return;
+  deletePhotoCopy(entry);
+  persist(entries.filter((e) => e.id !== id));
+}
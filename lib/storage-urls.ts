@@ -0,0 +1,190 @@
+import { File, Paths } from "expo-file-system";
+
+import { supabase } from "@/lib/supabase";
+
+/**
+ * Signed storage URLs (native), shared by every screen.
+ *
+ * Why:
+ * - Feed, saved posts, comments and activity each used to sign one path per request with their
+ *   own in-memory cache, so the same avatar was signed several times per screen and again after
+ *   every launch.
+ *
+ * How:
+ * - Requests made in the same tick are batched per bucket into one `createSignedUrls` call.
+ * - Concurrent requests for the same path share one in-flight promise.
+ * - Results are cached in memory and persisted to the cache directory, dropped ~1h before the
+ *   URL itself expires.
+ *
+ * React bindings live in `hooks/useSignedUrl.ts`.
+ */
+
+export type StorageBucket = "post-photos" | "profile-pictures";
+
+type CacheEntry = {
+  url: string;
+  expiresAtMs: number;
+};
+
+const SIGNED_URL_EXPIRES_IN_S = 24 * 60 * 60;
+const CACHE_TTL_MS = 23 * 60 * 60 * 1000; // slightly less than the URL lifetime
+const BATCH_DELAY_MS = 10;
+const MAX_BATCH_SIZE = 100;
+const CACHE_FILE_NAME = "signed-urls.json";
+const PERSIST_DELAY_MS = 1_000;
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<string | null>>();
+const pending = new Map<StorageBucket, Map<string, (url: string | null) => void>>();
+
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let loadPromise: Promise<void> | null = null;
+
+function cacheKey(bucket: StorageBucket, path: string) {
+  return `${bucket}:${path}`;
+}
+
+function getCacheFile() {
+  return new File(Paths.cache, CACHE_FILE_NAME);
+}
+
+function ensureLoaded() {
+  if (loadPromise) return loadPromise;
+  loadPromise = (async () => {
+    try {
+      const file = getCacheFile();
+      if (!file.exists) return;
+      const parsed = JSON.parse(await file.text()) as Record<string, CacheEntry>;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(parsed ?? {})) {
+        // Don't clobber anything signed while we were reading.
+        if (entry?.url && entry.expiresAtMs > now && !cache.has(key)) cache.set(key, entry);
+      }
+    } catch (error) {
+      console.warn("[storage-urls] load cache failed", error);
+    }
+  })();
+  return loadPromise;
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const now = Date.now();
+    const snapshot: Record<string, CacheEntry> = {};
+    for (const [key, entry] of cache) {
+      if (entry.expiresAtMs > now) snapshot[key] = entry;
+      else cache.delete(key);
+    }
+    try {
+      getCacheFile().write(JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn("[storage-urls] persist cache failed", error);
+    }
+  }, PERSIST_DELAY_MS);
+}
+
+async function signBatch(bucket: StorageBucket, requests: Map<string, (url: string | null) => void>) {
+  const paths = Array.from(requests.keys());
+
+  for (let i = 0; i < paths.length; i += MAX_BATCH_SIZE) {
+    const chunk = paths.slice(i, i + MAX_BATCH_SIZE);
+    const signed = new Map<string, string>();
+
+    try {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrls(chunk, SIGNED_URL_EXPIRES_IN_S);
+      if (error) {
+        console.warn("[storage-urls] createSignedUrls failed", { bucket, count: chunk.length, error });
+      }
+      for (const item of data ?? []) {
+        if (item.path && item.signedUrl && !item.error) signed.set(item.path, item.signedUrl);
+      }
+    } catch (error) {
+      console.warn("[storage-urls] createSignedUrls threw", { bucket, error });
+    }
+
+    const expiresAtMs = Date.now() + CACHE_TTL_MS;
+    for (const path of chunk) {
+      const url = signed.get(path) ?? null;
+      if (url) cache.set(cacheKey(bucket, path), { url, expiresAtMs });
+      requests.get(path)?.(url);
+    }
+  }
+
+  if (__DEV__) console.log("[storage-urls] signed batch", { bucket, count: paths.length });
+  schedulePersist();
+}
+
+function flushPending() {
+  batchTimer = null;
+  const batches = Array.from(pending.entries());
+  pending.clear();
+  for (const [bucket, requests] of batches) void signBatch(bucket, requests);
+}
+
+/**
+ * Synchronous cache lookup (for initial render state). Returns null when missing or expired.
+ */
+export function peekSignedUrl(bucket: StorageBucket, path: string | null | undefined) {
+  if (!path) return null;
+  const entry = cache.get(cacheKey(bucket, path));
+  return entry && entry.expiresAtMs > Date.now() ? entry.url : null;
+}
+
+export async function getSignedUrl(bucket: StorageBucket, path: string): Promise<string | null> {
+  await ensureLoaded();
+
+  const cached = peekSignedUrl(bucket, path);
+  if (cached) return cached;
+
+  const key = cacheKey(bucket, path);
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  const promise = new Promise<string | null>((resolve) => {
+    const bucketRequests = pending.get(bucket) ?? new Map<string, (url: string | null) => void>();
+    bucketRequests.set(path, resolve);
+    pending.set(bucket, bucketRequests);
+    if (!batchTimer) batchTimer = setTimeout(flushPending, BATCH_DELAY_MS);
+  }).finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Sign many paths at once. The returned map only contains paths that were signed successfully.
+ */
+export async function getSignedUrls(bucket: StorageBucket, paths: (string | null | undefined)[]) {
+  const unique = Array.from(new Set(paths.filter(Boolean) as string[]));
+  const map = new Map<string, string>();
+  if (unique.length === 0) return map;
+
+  const urls = await Promise.all(unique.map((path) => getSignedUrl(bucket, path)));
+  unique.forEach((path, idx) => {
+    const url = urls[idx];
+    if (url) map.set(path, url);
+  });
+  return map;
+}
+
+/**
+ * Forget every cached URL (memory + disk), e.g. on sign-out.
+ */
+export function clearSignedUrlCache() {
+  cache.clear();
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  try {
+    const file = getCacheFile();
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn("[storage-urls] clear cache failed", error);
+  }
+}
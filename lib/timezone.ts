@@ -1,163 +1,73 @@
 /**
- * Timezone helpers (Pacific time) for daily prompt timing.
+ * Timezone helpers for daily prompt timing.
  *
  * Why:
  * - The web MVP used a fixed `-08:00` offset, which breaks during DST.
- * - Here we compute true America/Los_Angeles behavior using Intl timeZone formatting.
+ * - Here we compute true wall-clock behavior for any IANA zone using Intl timeZone formatting.
+ * - Each profile can pick its own zone (`profiles.time_zone`); Pacific stays the default and the
+ *   `*Pacific*` helpers remain for callers that are intentionally Pacific-only.
  *
  * Design constraints:
  * - Keep this dependency-free (no moment/luxon/date-fns-tz).
- * - Be explicit + debug-friendly (project rule: add logs/comments).
+ * - The zone math lives in the shared phase-schedule module (also used by the dashboard and edge
+ *   functions); this file only adds app-side conveniences. Cycle dates come from `getCycleDate`
+ *   there, not from a fixed flip hour here.
  */
 
-const PACIFIC_TZ = "America/Los_Angeles";
-
-interface DateParts {
-  year: number;
-  month: number; // 1-12
-  day: number; // 1-31
-  hour: number; // 0-23
-  minute: number; // 0-59
-  second: number; // 0-59
-}
+import {
+  addDaysToIsoDate,
+  getPartsInTimeZone,
+  isValidTimeZone,
+  isoDateFromParts,
+  parseIsoDate,
+  wallTimeToUtc,
+  type DateParts,
+} from "@/supabase/functions/_shared/phase-schedule";
 
-function pad2(n: number) {
-  return String(n).padStart(2, "0");
-}
+export { getPartsInTimeZone, isValidTimeZone, wallTimeToUtc };
 
-function parseIsoDateOnly(isoDate: string) {
-  // isoDate: YYYY-MM-DD
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
-  if (!match) throw new Error(`[timezone] Invalid ISO date: ${isoDate}`);
-  const [, y, m, d] = match;
-  return { year: Number(y), month: Number(m), day: Number(d) };
-}
+const PACIFIC_TZ = "America/Los_Angeles";
 
-function isoDateFromYmd(params: { year: number; month: number; day: number }) {
-  return `${params.year}-${pad2(params.month)}-${pad2(params.day)}`;
-}
+/** Zone used when a profile hasn't picked one (the original Pacific-only behavior). */
+export const DEFAULT_TIME_ZONE = PACIFIC_TZ;
 
-function addDaysToIsoDate(isoDate: string, deltaDays: number) {
-  const { year, month, day } = parseIsoDateOnly(isoDate);
-  // Use UTC math to avoid local timezone/DST interference.
-  const ms = Date.UTC(year, month - 1, day + deltaDays, 12, 0, 0);
-  const d = new Date(ms);
-  return isoDateFromYmd({ year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() });
+/** Profile zone if it's usable, otherwise the default (Pacific). */
+export function resolveTimeZone(timeZone: string | null | undefined) {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
 }
 
-export function getPartsInTimeZone(date: Date, timeZone: string): DateParts {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone,
-    hour12: false,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-  }).formatToParts(date);
-
-  const map: Record<string, string> = {};
-  for (const p of parts) {
-    if (p.type === "literal") continue;
-    map[p.type] = p.value;
+/** The device's IANA zone (e.g. "America/New_York"), or null if the runtime can't tell. */
+export function getDeviceTimeZone(): string | null {
+  try {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return isValidTimeZone(zone) ? zone : null;
+  } catch {
+    return null;
   }
-
-  return {
-    year: Number(map.year),
-    month: Number(map.month),
-    day: Number(map.day),
-    hour: Number(map.hour),
-    minute: Number(map.minute),
-    second: Number(map.second),
-  };
-}
-
-function toMinutes(parts: DateParts) {
-  // Used only for computing delta; day boundaries are handled by UTC ms adjustment.
-  return (((parts.hour * 60 + parts.minute) * 60 + parts.second) * 1000);
 }
 
 /**
  * Convert a "Pacific local wall time" into a real UTC Date.
- *
- * Uses a small iterative correction:
- * - Start with a naive UTC guess
- * - See what Pacific time that guess corresponds to
- * - Shift by the delta to land on the desired wall time (DST-aware)
  */
 export function pacificWallTimeToUtc(input: Omit<DateParts, "second"> & { second?: number }) {
-  const desired: DateParts = {
-    year: input.year,
-    month: input.month,
-    day: input.day,
-    hour: input.hour,
-    minute: input.minute,
-    second: input.second ?? 0,
-  };
-
-  // Initial naive guess: treat desired wall time as if it were UTC.
-  let utcMs = Date.UTC(desired.year, desired.month - 1, desired.day, desired.hour, desired.minute, desired.second);
-
-  // One correction pass is typically enough; we do two to be safe around DST boundaries.
-  for (let i = 0; i < 2; i += 1) {
-    const guess = new Date(utcMs);
-    const actualLocal = getPartsInTimeZone(guess, PACIFIC_TZ);
-
-    // Compute time-of-day delta in ms (the day delta is handled by the Date.UTC base).
-    const desiredTod = toMinutes(desired);
-    const actualTod = toMinutes(actualLocal);
-    const deltaMs = desiredTod - actualTod;
-
-    // Also correct for date mismatch (rare, but happens because time-of-day shift can cross midnight).
-    const desiredDateKey = `${desired.year}-${pad2(desired.month)}-${pad2(desired.day)}`;
-    const actualDateKey = `${actualLocal.year}-${pad2(actualLocal.month)}-${pad2(actualLocal.day)}`;
-
-    if (desiredDateKey !== actualDateKey) {
-      // If the date differs, shift by whole days too.
-      const desiredUtcMidnight = Date.UTC(desired.year, desired.month - 1, desired.day, 0, 0, 0);
-      const actualUtcMidnight = Date.UTC(actualLocal.year, actualLocal.month - 1, actualLocal.day, 0, 0, 0);
-      const dayDelta = desiredUtcMidnight - actualUtcMidnight;
-      utcMs += dayDelta;
-    }
-
-    utcMs += deltaMs;
-  }
-
-  return new Date(utcMs);
+  return wallTimeToUtc(input, PACIFIC_TZ);
 }
 
 export function getPacificTimeForPromptDate(promptDate: string, hour: number, minute: number) {
-  const { year, month, day } = parseIsoDateOnly(promptDate);
+  const { year, month, day } = parseIsoDate(promptDate);
   return pacificWallTimeToUtc({ year, month, day, hour, minute, second: 0 });
 }
 
-export function getTodayPacificIsoDate(now: Date = new Date()) {
-  const parts = getPartsInTimeZone(now, PACIFIC_TZ);
-  return isoDateFromYmd({ year: parts.year, month: parts.month, day: parts.day });
+export function getTodayIsoDateInTimeZone(now: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE) {
+  const parts = getPartsInTimeZone(now, timeZone);
+  return isoDateFromParts({ year: parts.year, month: parts.month, day: parts.day });
 }
 
-/**
- * Returns the "cycle date" for a 6AM→6AM Pacific cycle.
- *
- * Example:
- * - If it's 5:30AM PT on Jan 10, the current cycle date is Jan 9.
- * - If it's 6:01AM PT on Jan 10, the current cycle date is Jan 10.
- */
-export function getPacificIsoDateForCycleStart(now: Date = new Date(), cycleStartHour: number = 6) {
-  const pacificToday = getTodayPacificIsoDate(now);
-  const parts = getPartsInTimeZone(now, PACIFIC_TZ);
-  if (parts.hour < cycleStartHour) return addDaysToIsoDate(pacificToday, -1);
-  return pacificToday;
+export function getTodayPacificIsoDate(now: Date = new Date()) {
+  return getTodayIsoDateInTimeZone(now, PACIFIC_TZ);
 }
 
 export function getPacificIsoDateOffset(now: Date = new Date(), offsetDays: number) {
   const pacificToday = getTodayPacificIsoDate(now);
   return addDaysToIsoDate(pacificToday, offsetDays);
 }
-
-
-
-
-
-
@@ -3,6 +3,7 @@ import * as Linking from "expo-linking";
 import * as WebBrowser from "expo-web-browser";
 import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
 
+import { clearSignedUrlCache } from "@/lib/storage-urls";
 import { supabase } from "@/lib/supabase";
 
 // Completes the auth session on web (safe no-op on native). Keeps behavior consistent.
@@ -311,6 +312,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setErrorMessage(error.message);
       throw error;
     }
+
+    // Signed URLs are bearer links; don't leave them on disk for the next account.
+    clearSignedUrlCache();
   }
 
   async function signInWithGoogle() {
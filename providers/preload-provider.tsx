@@ -4,9 +4,19 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/providers/auth-provider";
 import { dailyPromptForDateQueryKey, devPromptOverrideQueryKey, didRespondQueryKey, fetchDevPromptOverride, fetchDidUserRespondToPrompt, fetchPromptForDate } from "@/hooks/useDailyPrompt";
 import { fetchFriends, friendsQueryKey } from "@/hooks/useFriends";
+import { fetchPhaseSchedules, phaseSchedulesQueryKey } from "@/hooks/usePhase";
 import { fetchProfile, profileQueryKey } from "@/hooks/useProfile";
-import { fetchPendingPost, fetchUserPosts, fetchYimFeed, pendingPostQueryKey, userPostsQueryKey, yimFeedQueryKey } from "@/hooks/useYimFeed";
-import { getPacificIsoDateForCycleStart } from "@/lib/timezone";
+import {
+  fetchPendingPost,
+  fetchUserPosts,
+  fetchYimFeed,
+  pendingPostQueryKey,
+  userPostsQueryKey,
+  yimFeedQueryKey,
+  type PostCursor,
+} from "@/hooks/useYimFeed";
+import { resolveTimeZone } from "@/lib/timezone";
+import { getCycleDate, withTimeZone, type PhaseSchedule } from "@/supabase/functions/_shared/phase-schedule";
 
 function addDaysToIsoDate(isoDate: string, deltaDays: number) {
   const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
@@ -61,6 +71,7 @@ export function PreloadProvider({
 
     if (startedForUserIdRef.current === user.id) return;
     startedForUserIdRef.current = user.id;
+    const userId = user.id;
 
     let cancelled = false;
     setIsPreloading(true);
@@ -71,8 +82,21 @@ export function PreloadProvider({
 
     async function run() {
       try {
-        // Step 1: prompt first (so we can preload "responded" status).
-        const cycleDateKey = getPacificIsoDateForCycleStart(new Date(), 6);
+        // Step 1: profile (for the user's time zone) and phase schedules, then the prompt (so we can
+        // preload "responded" status). Same cycle date as useCycleSchedules + getCycleDate.
+        await Promise.all([
+          queryClient.prefetchQuery({
+            queryKey: profileQueryKey(userId),
+            queryFn: () => fetchProfile(userId),
+          }),
+          queryClient.prefetchQuery({
+            queryKey: phaseSchedulesQueryKey(),
+            queryFn: fetchPhaseSchedules,
+          }),
+        ]);
+        const profile = queryClient.getQueryData(profileQueryKey(userId)) as Awaited<ReturnType<typeof fetchProfile>>;
+        const schedules = queryClient.getQueryData(phaseSchedulesQueryKey()) as PhaseSchedule[] | undefined;
+        const cycleDateKey = getCycleDate(new Date(), withTimeZone(schedules, resolveTimeZone(profile?.time_zone)));
         await queryClient.prefetchQuery({
           queryKey: dailyPromptForDateQueryKey(cycleDateKey),
           queryFn: () => fetchPromptForDate(cycleDateKey),
@@ -87,36 +111,35 @@ export function PreloadProvider({
 
         const tasks: Promise<unknown>[] = [
           queryClient.prefetchQuery({
-            queryKey: profileQueryKey(user.id),
-            queryFn: () => fetchProfile(user.id),
+            queryKey: friendsQueryKey(userId),
+            queryFn: () => fetchFriends(userId),
           }),
-          queryClient.prefetchQuery({
-            queryKey: friendsQueryKey(user.id),
-            queryFn: () => fetchFriends(user.id),
-          }),
-          queryClient.prefetchQuery({
-            queryKey: userPostsQueryKey(user.id),
-            queryFn: () => fetchUserPosts(user.id),
+          // First pages only; the lists fetch more on scroll.
+          queryClient.prefetchInfiniteQuery({
+            queryKey: userPostsQueryKey(userId),
+            queryFn: ({ pageParam }) => fetchUserPosts(userId, pageParam),
+            initialPageParam: null as PostCursor | null,
           }),
-          queryClient.prefetchQuery({
-            queryKey: yimFeedQueryKey(user.id, yesterdayDateKey),
-            queryFn: () => fetchYimFeed(user.id, yesterdayDateKey),
+          queryClient.prefetchInfiniteQuery({
+            queryKey: yimFeedQueryKey(userId, yesterdayDateKey),
+            queryFn: ({ pageParam }) => fetchYimFeed(yesterdayDateKey, pageParam),
+            initialPageParam: null as PostCursor | null,
           }),
           queryClient.prefetchQuery({
-            queryKey: pendingPostQueryKey(user.id, cycleDateKey),
-            queryFn: () => fetchPendingPost(user.id, cycleDateKey),
+            queryKey: pendingPostQueryKey(userId, cycleDateKey),
+            queryFn: () => fetchPendingPost(userId, cycleDateKey),
           }),
           queryClient.prefetchQuery({
-            queryKey: devPromptOverrideQueryKey(user.id),
-            queryFn: () => fetchDevPromptOverride(user.id),
+            queryKey: devPromptOverrideQueryKey(userId),
+            queryFn: () => fetchDevPromptOverride(userId),
           }),
         ];
 
         if (prompt?.id) {
           tasks.push(
             queryClient.prefetchQuery({
-              queryKey: didRespondQueryKey(user.id, prompt.id),
-              queryFn: () => fetchDidUserRespondToPrompt({ userId: user.id, promptId: prompt.id }),
+              queryKey: didRespondQueryKey(userId, prompt.id),
+              queryFn: () => fetchDidUserRespondToPrompt({ userId: userId, promptId: prompt.id }),
             })
           );
         }
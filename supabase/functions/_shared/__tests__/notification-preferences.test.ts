@@ -0,0 +1,66 @@
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isInQuietHours,
+  isNotificationEnabled,
+  normalizeNotificationPreferences,
+} from "../notification-preferences";
+
+function quiet(start: number, end: number, enabled = true) {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, quiet_hours_enabled: enabled, quiet_hours_start: start, quiet_hours_end: end };
+}
+
+describe("isInQuietHours", () => {
+  it("wraps midnight when start is after end", () => {
+    const preferences = quiet(22, 6);
+    expect([21, 22, 23, 0, 5, 6, 12].map((hour) => isInQuietHours(preferences, hour))).toEqual([
+      false,
+      true,
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("treats a same-day window as [start, end)", () => {
+    const preferences = quiet(13, 15);
+    expect([12, 13, 14, 15].map((hour) => isInQuietHours(preferences, hour))).toEqual([false, true, true, false]);
+  });
+
+  it("has no quiet hours when disabled or when start equals end", () => {
+    expect(isInQuietHours(quiet(22, 6, false), 23)).toBe(false);
+    expect(isInQuietHours(quiet(8, 8), 8)).toBe(false);
+  });
+});
+
+describe("normalizeNotificationPreferences", () => {
+  it("returns the defaults for a missing row", () => {
+    expect(normalizeNotificationPreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+  });
+
+  it("keeps valid columns and replaces invalid ones", () => {
+    const preferences = normalizeNotificationPreferences({
+      activity_like: false,
+      quiet_hours_start: 24,
+      quiet_hours_end: 7,
+      reminder_hours_before_close: 5,
+    });
+    expect(preferences.activity_like).toBe(false);
+    expect(preferences.quiet_hours_start).toBe(DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours_start);
+    expect(preferences.quiet_hours_end).toBe(7);
+    expect(preferences.reminder_hours_before_close).toBe(DEFAULT_NOTIFICATION_PREFERENCES.reminder_hours_before_close);
+  });
+});
+
+describe("isNotificationEnabled", () => {
+  it("maps phase and activity types to their toggles", () => {
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, viewing_open: false, activity_comment_like: false };
+    expect(isNotificationEnabled(preferences, "viewing_open")).toBe(false);
+    expect(isNotificationEnabled(preferences, "posting_open")).toBe(true);
+    expect(isNotificationEnabled(preferences, "comment_like")).toBe(false);
+    expect(isNotificationEnabled(preferences, "comment")).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  DEFAULT_PHASE_SCHEDULE,
+  evaluateCycleDay,
+  getCycleDate,
+  getCycleDayStart,
+  getLatestPostingDate,
+  getPhaseWindow,
+  normalizePhaseSchedule,
+  wallTimeToUtc,
+  withTimeZone,
+  type PhaseSchedule,
+} from "../phase-schedule";
+
+function schedule(overrides: Partial<PhaseSchedule>): PhaseSchedule {
+  return { ...DEFAULT_PHASE_SCHEDULE, ...overrides };
+}
+
+describe("getCycleDate", () => {
+  it("rolls over at the flip hour in the schedule's zone", () => {
+    // 6AM PST = 14:00Z
+    expect(getCycleDate(new Date("2026-01-14T13:59:00Z"))).toBe("2026-01-13");
+    expect(getCycleDate(new Date("2026-01-14T14:00:00Z"))).toBe("2026-01-14");
+  });
+
+  it("uses the flip hour of the schedule in effect", () => {
+    const schedules = [DEFAULT_PHASE_SCHEDULE, schedule({ id: "feb", effective_from: "2026-02-01", flip_hour: 9 })];
+    // 8AM PST on Feb 2: before the new 9AM flip
+    expect(getCycleDate(new Date("2026-02-02T16:00:00Z"), schedules)).toBe("2026-02-01");
+    expect(getCycleDate(new Date("2026-02-02T17:00:00Z"), schedules)).toBe("2026-02-02");
+  });
+
+  it("flips on the user's clock with withTimeZone", () => {
+    const ny = withTimeZone([DEFAULT_PHASE_SCHEDULE], "America/New_York");
+    // 6AM EST = 11:00Z, three hours before Los Angeles
+    expect(getCycleDate(new Date("2026-01-14T11:00:00Z"), ny)).toBe("2026-01-14");
+    expect(getCycleDate(new Date("2026-01-14T11:00:00Z"))).toBe("2026-01-13");
+  });
+
+  it("keeps the schedule's zone when the user's zone is invalid", () => {
+    expect(withTimeZone([DEFAULT_PHASE_SCHEDULE], "Not/AZone")).toEqual([DEFAULT_PHASE_SCHEDULE]);
+  });
+});
+
+describe("DST", () => {
+  it("starts cycle days at the local flip hour on both sides of a transition", () => {
+    // US DST starts 2026-03-08: 6AM is 14:00Z in PST and 13:00Z in PDT.
+    expect(getCycleDayStart("2026-03-07").toISOString()).toBe("2026-03-07T14:00:00.000Z");
+    expect(getCycleDayStart("2026-03-08").toISOString()).toBe("2026-03-08T13:00:00.000Z");
+    // DST ends 2026-11-01
+    expect(getCycleDayStart("2026-10-31").toISOString()).toBe("2026-10-31T13:00:00.000Z");
+    expect(getCycleDayStart("2026-11-01").toISOString()).toBe("2026-11-01T14:00:00.000Z");
+  });
+
+  it("converts wall times across the spring-forward day", () => {
+    const utc = wallTimeToUtc({ year: 2026, month: 3, day: 8, hour: 12, minute: 30 }, "America/Los_Angeles");
+    expect(utc.toISOString()).toBe("2026-03-08T19:30:00.000Z");
+  });
+
+  it("makes the window spanning the transition an hour shorter", () => {
+    const window = getPhaseWindow(new Date("2026-03-07T20:00:00Z"));
+    expect(window.phaseEndsAt.getTime() - window.phaseStartedAt.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+});
+
+describe("evaluateCycleDay", () => {
+  it("alternates posting and viewing from the anchor", () => {
+    expect(evaluateCycleDay("2026-01-13").phase).toBe("posting");
+    expect(evaluateCycleDay("2026-01-14").phase).toBe("viewing");
+    expect(evaluateCycleDay("2026-01-15").phase).toBe("posting");
+    // Before the anchor the rotation extrapolates backwards
+    expect(evaluateCycleDay("2026-01-12").phase).toBe("viewing");
+  });
+
+  it("treats blackouts as viewing days that don't advance the rotation", () => {
+    const schedules = [schedule({ blackout_dates: ["2026-01-15"] })];
+    expect(evaluateCycleDay("2026-01-15", schedules)).toMatchObject({ phase: "viewing", isBlackout: true });
+    expect(evaluateCycleDay("2026-01-16", schedules)).toMatchObject({ phase: "posting", isBlackout: false });
+    expect(evaluateCycleDay("2026-01-17", schedules).phase).toBe("viewing");
+  });
+
+  it("follows multi-day segments", () => {
+    const schedules = [
+      schedule({
+        segments: [
+          { phase: "posting", days: 2 },
+          { phase: "viewing", days: 1 },
+        ],
+      }),
+    ];
+    expect(["2026-01-13", "2026-01-14", "2026-01-15", "2026-01-16"].map((d) => evaluateCycleDay(d, schedules).phase)).toEqual([
+      "posting",
+      "posting",
+      "viewing",
+      "posting",
+    ]);
+  });
+});
+
+describe("getPhaseWindow", () => {
+  it("merges consecutive days with the same phase into one window", () => {
+    const schedules = [
+      schedule({
+        segments: [
+          { phase: "posting", days: 2 },
+          { phase: "viewing", days: 1 },
+        ],
+      }),
+    ];
+    const now = new Date("2026-01-14T20:00:00Z");
+    const window = getPhaseWindow(now, schedules);
+    expect(window.phase).toBe("posting");
+    expect(window.cycleDate).toBe("2026-01-14");
+    expect(window.promptDate).toBe("2026-01-14");
+    expect(window.phaseStartedAt.toISOString()).toBe("2026-01-13T14:00:00.000Z");
+    expect(window.phaseEndsAt.toISOString()).toBe("2026-01-15T14:00:00.000Z");
+    expect(window.timeRemaining).toBe(window.phaseEndsAt.getTime() - now.getTime());
+  });
+
+  it("points viewing days at the last posting day", () => {
+    expect(getPhaseWindow(new Date("2026-01-14T20:00:00Z")).promptDate).toBe("2026-01-13");
+    expect(getLatestPostingDate("2026-01-14")).toBe("2026-01-13");
+  });
+});
+
+describe("normalizePhaseSchedule", () => {
+  const row = {
+    id: "abc",
+    effective_from: "2026-02-01",
+    anchor_date: "2026-02-01",
+    time_zone: "America/Chicago",
+    flip_hour: 7,
+    segments: [
+      { phase: "posting", days: 1 },
+      { phase: "viewing", days: 2 },
+    ],
+    blackout_dates: ["2026-02-10", "2026-02-05", "junk"],
+  };
+
+  it("parses a valid row and sorts blackouts", () => {
+    expect(normalizePhaseSchedule(row)).toEqual({ ...row, blackout_dates: ["2026-02-05", "2026-02-10"] });
+  });
+
+  it("rejects rows that can't be evaluated", () => {
+    expect(normalizePhaseSchedule(null)).toBeNull();
+    expect(normalizePhaseSchedule({ ...row, time_zone: "Mars/Olympus" })).toBeNull();
+    expect(normalizePhaseSchedule({ ...row, flip_hour: 24 })).toBeNull();
+    expect(normalizePhaseSchedule({ ...row, segments: [] })).toBeNull();
+    expect(normalizePhaseSchedule({ ...row, segments: [{ phase: "posting", days: 0 }] })).toBeNull();
+  });
+});
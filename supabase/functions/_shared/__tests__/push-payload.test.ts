@@ -0,0 +1,50 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { PUSH_PAYLOAD_VERSION, parsePushPayload } from "../push-payload";
+
+describe("parsePushPayload", () => {
+  it("parses phase payloads", () => {
+    const payload = { v: PUSH_PAYLOAD_VERSION, kind: "phase", notificationType: "viewing_open", promptDate: "2026-10-19" };
+    expect(parsePushPayload(payload)).toEqual(payload);
+  });
+
+  it("normalizes activity ids", () => {
+    expect(
+      parsePushPayload({
+        v: PUSH_PAYLOAD_VERSION,
+        kind: "activity",
+        notificationType: "reply",
+        postId: "post-1",
+        commentId: "",
+        notificationIds: ["n1", 2, "n3"],
+      })
+    ).toEqual({
+      v: PUSH_PAYLOAD_VERSION,
+      kind: "activity",
+      notificationType: "reply",
+      postId: "post-1",
+      commentId: null,
+      notificationIds: ["n1", "n3"],
+    });
+  });
+
+  it("parses friend invites without an actor", () => {
+    expect(parsePushPayload({ v: PUSH_PAYLOAD_VERSION, kind: "friend_invite" })).toEqual({
+      v: PUSH_PAYLOAD_VERSION,
+      kind: "friend_invite",
+      actorId: null,
+      notificationIds: [],
+    });
+  });
+
+  it("rejects unknown, legacy and malformed payloads", () => {
+    expect(parsePushPayload(null)).toBeNull();
+    expect(parsePushPayload("posting_open")).toBeNull();
+    // Pushes from before the schema had no version
+    expect(parsePushPayload({ type: "posting_open", promptDate: "2026-10-19" })).toBeNull();
+    expect(parsePushPayload({ v: PUSH_PAYLOAD_VERSION + 1, kind: "phase", notificationType: "posting_open", promptDate: "x" })).toBeNull();
+    expect(parsePushPayload({ v: PUSH_PAYLOAD_VERSION, kind: "phase", notificationType: "posting_open" })).toBeNull();
+    expect(parsePushPayload({ v: PUSH_PAYLOAD_VERSION, kind: "activity", notificationType: "friend_request" })).toBeNull();
+    expect(parsePushPayload({ v: PUSH_PAYLOAD_VERSION, kind: "unknown" })).toBeNull();
+  });
+});
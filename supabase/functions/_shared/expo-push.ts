@@ -0,0 +1,112 @@
+/**
+ * Expo Push API client (shared by the edge functions).
+ *
+ * - Batches requests (Expo accepts at most 100 messages / 1000 receipt ids per request).
+ * - Returns one ticket per message, in order, so callers can match failures to tokens.
+ * - `baseUrl` is injectable (edge functions read `EXPO_PUSH_BASE_URL`) so the whole pipeline can
+ *   run against a local mock of the Expo API.
+ *
+ * Zero imports: runs under Deno as-is.
+ */
+
+export const EXPO_PUSH_BASE_URL = "https://exp.host";
+
+const SEND_PATH = "/--/api/v2/push/send";
+const RECEIPTS_PATH = "/--/api/v2/push/getReceipts";
+const SEND_BATCH_SIZE = 100;
+const RECEIPTS_BATCH_SIZE = 1000;
+
+export interface ExpoPushMessage {
+  to: string;
+  title?: string;
+  body?: string;
+  sound?: "default" | null;
+  data?: Record<string, unknown>;
+  /** Collapses notifications with the same id on the device (Android `tag`, iOS thread). */
+  collapseId?: string;
+}
+
+type ExpoPushError = { status: "error"; message: string; details?: { error?: string } };
+
+export type ExpoPushTicket = { status: "ok"; id: string } | ExpoPushError;
+
+export type ExpoPushReceipt = { status: "ok" } | ExpoPushError;
+
+export interface ExpoPushOptions {
+  baseUrl?: string | null;
+}
+
+/** Error code meaning the token is dead and should be deleted. */
+export const DEVICE_NOT_REGISTERED = "DeviceNotRegistered";
+
+async function postToExpo(path: string, payload: unknown, logTag: string, options?: ExpoPushOptions) {
+  const response = await fetch(`${options?.baseUrl || EXPO_PUSH_BASE_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      "Accept-Encoding": "gzip, deflate",
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[${logTag}] Expo API error: ${response.status} ${errorText}`);
+    throw new Error(`Expo Push API error: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+export async function sendExpoPushMessages(
+  messages: ExpoPushMessage[],
+  logTag: string,
+  options?: ExpoPushOptions
+): Promise<ExpoPushTicket[]> {
+  const tickets: ExpoPushTicket[] = [];
+
+  for (let i = 0; i < messages.length; i += SEND_BATCH_SIZE) {
+    const batch = messages.slice(i, i + SEND_BATCH_SIZE);
+    const batchNumber = i / SEND_BATCH_SIZE + 1;
+
+    try {
+      const result = await postToExpo(SEND_PATH, batch, logTag, options);
+      const batchTickets: ExpoPushTicket[] = Array.isArray(result.data) ? result.data : [];
+      console.log(`[${logTag}] Sent batch ${batchNumber}, messages: ${batch.length}`);
+
+      // Log any errors from Expo
+      const errors = batchTickets.filter((t) => t.status === "error");
+      if (errors.length > 0) {
+        console.warn(`[${logTag}] ${errors.length} messages failed:`, errors);
+      }
+
+      tickets.push(...batchTickets);
+    } catch (error) {
+      console.error(`[${logTag}] Failed to send batch ${batchNumber}:`, error);
+      throw error;
+    }
+  }
+
+  return tickets;
+}
+
+/**
+ * Receipts by ticket id. Ids Expo doesn't know yet (or anymore) are simply missing.
+ */
+export async function getExpoPushReceipts(
+  ticketIds: string[],
+  logTag: string,
+  options?: ExpoPushOptions
+): Promise<Map<string, ExpoPushReceipt>> {
+  const receipts = new Map<string, ExpoPushReceipt>();
+
+  for (let i = 0; i < ticketIds.length; i += RECEIPTS_BATCH_SIZE) {
+    const ids = ticketIds.slice(i, i + RECEIPTS_BATCH_SIZE);
+    const result = await postToExpo(RECEIPTS_PATH, { ids }, logTag, options);
+    const data = (result.data ?? {}) as Record<string, ExpoPushReceipt>;
+    for (const [id, receipt] of Object.entries(data)) receipts.set(id, receipt);
+  }
+
+  return receipts;
+}
@@ -0,0 +1,128 @@
+/**
+ * Notification preferences (shared).
+ *
+ * Rows in `public.notification_preferences`; a user without a row gets the defaults. Used by:
+ * - the mobile app (`hooks/useNotificationPreferences.ts`, `app/notification-settings.tsx`)
+ * - the `send-notifications` and `send-activity-push` edge functions
+ *
+ * Zero imports: this file must load unchanged under Metro and Deno.
+ */
+
+export type PhaseNotificationType = "posting_open" | "posting_reminder" | "viewing_open";
+
+export type ActivityNotificationType =
+  | "like"
+  | "comment"
+  | "save"
+  | "reply"
+  | "comment_like"
+  | "mention"
+  | "friend_request"
+  | "friend_accepted";
+
+export interface NotificationPreferences {
+  posting_open: boolean;
+  posting_reminder: boolean;
+  viewing_open: boolean;
+  reminder_hours_before_close: number;
+  activity_like: boolean;
+  activity_comment: boolean;
+  activity_save: boolean;
+  activity_reply: boolean;
+  activity_comment_like: boolean;
+  activity_mention: boolean;
+  activity_friend_request: boolean;
+  activity_friend_accepted: boolean;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: number; // 0-23, local
+  quiet_hours_end: number; // 0-23, local, exclusive
+}
+
+/** Allowed values for `reminder_hours_before_close` (mirrors the table check). */
+export const REMINDER_HOURS_OPTIONS = [1, 2, 3, 6, 12] as const;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  posting_open: true,
+  posting_reminder: true,
+  viewing_open: true,
+  reminder_hours_before_close: 12,
+  activity_like: true,
+  activity_comment: true,
+  activity_save: true,
+  activity_reply: true,
+  activity_comment_like: true,
+  activity_mention: true,
+  activity_friend_request: true,
+  activity_friend_accepted: true,
+  quiet_hours_enabled: true,
+  quiet_hours_start: 22,
+  quiet_hours_end: 6,
+};
+
+export const NOTIFICATION_PREFERENCES_COLUMNS = Object.keys(DEFAULT_NOTIFICATION_PREFERENCES).join(",");
+
+function isHour(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+/**
+ * Fill in defaults for a missing row or missing/invalid columns.
+ */
+export function normalizeNotificationPreferences(row: unknown): NotificationPreferences {
+  if (!row || typeof row !== "object") return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  const r = row as Record<string, unknown>;
+  const bool = (key: keyof NotificationPreferences) =>
+    typeof r[key] === "boolean" ? (r[key] as boolean) : (DEFAULT_NOTIFICATION_PREFERENCES[key] as boolean);
+
+  const reminderHours = r.reminder_hours_before_close;
+
+  return {
+    posting_open: bool("posting_open"),
+    posting_reminder: bool("posting_reminder"),
+    viewing_open: bool("viewing_open"),
+    reminder_hours_before_close: (REMINDER_HOURS_OPTIONS as readonly unknown[]).includes(reminderHours)
+      ? (reminderHours as number)
+      : DEFAULT_NOTIFICATION_PREFERENCES.reminder_hours_before_close,
+    activity_like: bool("activity_like"),
+    activity_comment: bool("activity_comment"),
+    activity_save: bool("activity_save"),
+    activity_reply: bool("activity_reply"),
+    activity_comment_like: bool("activity_comment_like"),
+    activity_mention: bool("activity_mention"),
+    activity_friend_request: bool("activity_friend_request"),
+    activity_friend_accepted: bool("activity_friend_accepted"),
+    quiet_hours_enabled: bool("quiet_hours_enabled"),
+    quiet_hours_start: isHour(r.quiet_hours_start)
+      ? r.quiet_hours_start
+      : DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours_start,
+    quiet_hours_end: isHour(r.quiet_hours_end) ? r.quiet_hours_end : DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours_end,
+  };
+}
+
+/**
+ * Whether a push of this type is switched on.
+ */
+export function isNotificationEnabled(
+  preferences: NotificationPreferences,
+  type: PhaseNotificationType | ActivityNotificationType
+) {
+  switch (type) {
+    case "posting_open":
+    case "posting_reminder":
+    case "viewing_open":
+      return preferences[type];
+    default:
+      return preferences[`activity_${type}`];
+  }
+}
+
+/**
+ * Whether `localHour` falls in the quiet window [start, end). start > end wraps midnight;
+ * start === end means no quiet hours.
+ */
+export function isInQuietHours(preferences: NotificationPreferences, localHour: number) {
+  if (!preferences.quiet_hours_enabled) return false;
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (start === end) return false;
+  return start > end ? localHour >= start || localHour < end : localHour >= start && localHour < end;
+}
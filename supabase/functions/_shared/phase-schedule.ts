@@ -0,0 +1,382 @@
+/**
+ * Phase schedule evaluator (shared).
+ *
+ * Single source of truth for "which phase is it right now", used by:
+ * - the mobile app (`lib/phase.ts`)
+ * - the dev dashboard (`dashboard/lib/phase.ts`)
+ * - the `send-notifications` and `send-activity-push` edge functions
+ *
+ * Model (rows in `public.phase_schedules`):
+ * - A schedule governs every cycle date on/after its `effective_from` until a newer schedule takes over.
+ * - A cycle date is a calendar day in `time_zone` that starts at `flip_hour` (e.g. 6AM → 6AM).
+ * - `segments` describe one cycle, e.g. [{ posting, 1 }, { viewing, 1 }] is the classic alternation.
+ * - `blackout_dates` pause the rotation: the day is a viewing-only day and does not advance the cycle.
+ *
+ * Design constraints:
+ * - Zero imports: this file must load unchanged under Metro, Next and Deno.
+ * - Dependency-free timezone math (Intl only), same approach as `lib/timezone.ts`.
+ */
+
+export type Phase = "posting" | "viewing";
+
+export interface PhaseSegment {
+  phase: Phase;
+  days: number; // >= 1
+}
+
+export interface PhaseSchedule {
+  id: string;
+  effective_from: string; // YYYY-MM-DD, first cycle date this schedule governs
+  anchor_date: string; // YYYY-MM-DD, day 0 of the cycle
+  time_zone: string; // IANA zone used for the flip hour
+  flip_hour: number; // 0-23
+  segments: PhaseSegment[];
+  blackout_dates: string[]; // YYYY-MM-DD
+}
+
+export interface CycleDayInfo {
+  date: string; // YYYY-MM-DD cycle date
+  phase: Phase;
+  isBlackout: boolean;
+  scheduleId: string;
+}
+
+export interface PhaseWindow {
+  phase: Phase;
+  isBlackout: boolean;
+  cycleDate: string; // YYYY-MM-DD cycle date `now` falls in
+  promptDate: string | null; // posting day whose prompt is being answered/viewed (null if none found)
+  phaseStartedAt: Date;
+  phaseEndsAt: Date;
+  timeRemaining: number; // ms until phaseEndsAt
+}
+
+/**
+ * The original hardcoded behavior: posting/viewing alternation anchored on
+ * Jan 13 2026 (first posting day), flipping at 6AM Pacific.
+ */
+export const DEFAULT_PHASE_SCHEDULE: PhaseSchedule = {
+  id: "default",
+  effective_from: "2026-01-13",
+  anchor_date: "2026-01-13",
+  time_zone: "America/Los_Angeles",
+  flip_hour: 6,
+  segments: [
+    { phase: "posting", days: 1 },
+    { phase: "viewing", days: 1 },
+  ],
+  blackout_dates: [],
+};
+
+// Upper bound when walking day-by-day to find phase boundaries.
+const MAX_WALK_DAYS = 366;
+
+// ---------------------------------------------------------------------------
+// Timezone + ISO date helpers
+// ---------------------------------------------------------------------------
+
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  hour: number; // 0-23
+  minute: number; // 0-59
+  second: number; // 0-59
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function getPartsInTimeZone(date: Date, timeZone: string): DateParts {
+  const map: Record<string, string> = {};
+  for (const p of getFormatter(timeZone).formatToParts(date)) {
+    if (p.type === "literal") continue;
+    map[p.type] = p.value;
+  }
+
+  return {
+    year: Number(map.year),
+    month: Number(map.month),
+    day: Number(map.day),
+    // Some engines still render midnight as "24" even with h23.
+    hour: Number(map.hour) % 24,
+    minute: Number(map.minute),
+    second: Number(map.second),
+  };
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseIsoDate(isoDate: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) throw new Error(`[phase-schedule] Invalid ISO date: ${isoDate}`);
+  const [, y, m, d] = match;
+  return { year: Number(y), month: Number(m), day: Number(d) };
+}
+
+export function isoDateFromParts(params: { year: number; month: number; day: number }) {
+  return `${params.year}-${pad2(params.month)}-${pad2(params.day)}`;
+}
+
+export function addDaysToIsoDate(isoDate: string, deltaDays: number) {
+  const { year, month, day } = parseIsoDate(isoDate);
+  // Use UTC noon to avoid local timezone/DST interference.
+  const d = new Date(Date.UTC(year, month - 1, day + deltaDays, 12, 0, 0));
+  return isoDateFromParts({ year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() });
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier). */
+export function diffIsoDays(from: string, to: string) {
+  const a = parseIsoDate(from);
+  const b = parseIsoDate(to);
+  const ms = Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day);
+  return Math.round(ms / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Convert a wall time in `timeZone` into a real UTC Date.
+ *
+ * Iterative correction (DST-aware): start from a naive UTC guess, see what wall time that guess
+ * maps to in the zone, and shift by the delta. Two passes settle around DST boundaries.
+ */
+export function wallTimeToUtc(
+  input: { year: number; month: number; day: number; hour: number; minute: number; second?: number },
+  timeZone: string
+) {
+  const second = input.second ?? 0;
+  const desiredMs = Date.UTC(input.year, input.month - 1, input.day, input.hour, input.minute, second);
+  let utcMs = desiredMs;
+
+  for (let i = 0; i < 2; i += 1) {
+    const actual = getPartsInTimeZone(new Date(utcMs), timeZone);
+    const actualMs = Date.UTC(actual.year, actual.month - 1, actual.day, actual.hour, actual.minute, actual.second);
+    utcMs += desiredMs - actualMs;
+  }
+
+  return new Date(utcMs);
+}
+
+// ---------------------------------------------------------------------------
+// Schedule evaluation
+// ---------------------------------------------------------------------------
+
+function isPhase(value: unknown): value is Phase {
+  return value === "posting" || value === "viewing";
+}
+
+/**
+ * Parse a `phase_schedules` row (jsonb segments, date[] blackouts) into a PhaseSchedule.
+ * Returns null for rows that cannot be evaluated so one bad row never breaks phase calculation.
+ */
+export function normalizePhaseSchedule(row: unknown): PhaseSchedule | null {
+  if (!row || typeof row !== "object") return null;
+  const r = row as Record<string, unknown>;
+
+  const effectiveFrom = typeof r.effective_from === "string" ? r.effective_from.slice(0, 10) : null;
+  const anchorDate = typeof r.anchor_date === "string" ? r.anchor_date.slice(0, 10) : effectiveFrom;
+  if (!effectiveFrom || !anchorDate) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom) || !/^\d{4}-\d{2}-\d{2}$/.test(anchorDate)) return null;
+
+  const timeZone = typeof r.time_zone === "string" && r.time_zone ? r.time_zone : DEFAULT_PHASE_SCHEDULE.time_zone;
+  if (!isValidTimeZone(timeZone)) return null;
+
+  const flipHour = Number(r.flip_hour ?? DEFAULT_PHASE_SCHEDULE.flip_hour);
+  if (!Number.isInteger(flipHour) || flipHour < 0 || flipHour > 23) return null;
+
+  const rawSegments = Array.isArray(r.segments) ? r.segments : [];
+  const segments: PhaseSegment[] = [];
+  for (const s of rawSegments) {
+    const seg = s as Record<string, unknown> | null;
+    const days = Number(seg?.days);
+    if (!seg || !isPhase(seg.phase) || !Number.isInteger(days) || days < 1) return null;
+    segments.push({ phase: seg.phase, days });
+  }
+  if (segments.length === 0) return null;
+
+  const blackoutDates = (Array.isArray(r.blackout_dates) ? r.blackout_dates : [])
+    .map((d) => String(d).slice(0, 10))
+    .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+    .sort();
+
+  return {
+    id: String(r.id ?? effectiveFrom),
+    effective_from: effectiveFrom,
+    anchor_date: anchorDate,
+    time_zone: timeZone,
+    flip_hour: flipHour,
+    segments,
+    blackout_dates: blackoutDates,
+  };
+}
+
+/**
+ * Evaluate schedules in a user's own zone: the same cycle dates are posting/viewing for everyone
+ * (friends share prompt dates), but each user flips at the flip hour on their local clock.
+ * Invalid/missing zones keep each schedule's own zone.
+ */
+export function withTimeZone(schedules: PhaseSchedule[] | null | undefined, timeZone: string | null | undefined) {
+  const list = schedules && schedules.length > 0 ? schedules : [DEFAULT_PHASE_SCHEDULE];
+  if (!timeZone || !isValidTimeZone(timeZone)) return list;
+  return list.map((s) => (s.time_zone === timeZone ? s : { ...s, time_zone: timeZone }));
+}
+
+function sortNewestFirst(schedules: PhaseSchedule[] | null | undefined) {
+  const list = schedules && schedules.length > 0 ? schedules : [DEFAULT_PHASE_SCHEDULE];
+  return [...list].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+}
+
+/**
+ * The schedule governing a cycle date: the newest one with effective_from <= date.
+ * Dates before every schedule fall back to the oldest schedule (extrapolated backwards).
+ */
+export function resolveScheduleForDate(date: string, schedules?: PhaseSchedule[] | null): PhaseSchedule {
+  const sorted = sortNewestFirst(schedules);
+  return sorted.find((s) => s.effective_from <= date) ?? sorted[sorted.length - 1];
+}
+
+function cycleDateInSchedule(now: Date, schedule: PhaseSchedule) {
+  const parts = getPartsInTimeZone(now, schedule.time_zone);
+  const localDate = isoDateFromParts(parts);
+  return parts.hour < schedule.flip_hour ? addDaysToIsoDate(localDate, -1) : localDate;
+}
+
+/** The cycle date (YYYY-MM-DD) that `now` falls in. */
+export function getCycleDate(now: Date = new Date(), schedules?: PhaseSchedule[] | null) {
+  const sorted = sortNewestFirst(schedules);
+  for (const schedule of sorted) {
+    const date = cycleDateInSchedule(now, schedule);
+    if (date >= schedule.effective_from) return date;
+  }
+  return cycleDateInSchedule(now, sorted[sorted.length - 1]);
+}
+
+/** The instant a cycle date begins (its flip hour in the governing schedule's zone). */
+export function getCycleDayStart(date: string, schedules?: PhaseSchedule[] | null) {
+  const schedule = resolveScheduleForDate(date, schedules);
+  const { year, month, day } = parseIsoDate(date);
+  return wallTimeToUtc({ year, month, day, hour: schedule.flip_hour, minute: 0 }, schedule.time_zone);
+}
+
+function countBlackoutsInRange(blackouts: string[], fromInclusive: string, toExclusive: string) {
+  let count = 0;
+  for (const d of blackouts) {
+    if (d >= fromInclusive && d < toExclusive) count += 1;
+  }
+  return count;
+}
+
+/** Phase of a single cycle date. */
+export function evaluateCycleDay(date: string, schedules?: PhaseSchedule[] | null): CycleDayInfo {
+  const schedule = resolveScheduleForDate(date, schedules);
+
+  if (schedule.blackout_dates.includes(date)) {
+    return { date, phase: "viewing", isBlackout: true, scheduleId: schedule.id };
+  }
+
+  // Blackout days don't advance the rotation, so subtract them from the raw day distance.
+  const rawDays = diffIsoDays(schedule.anchor_date, date);
+  const dayIndex =
+    rawDays >= 0
+      ? rawDays - countBlackoutsInRange(schedule.blackout_dates, schedule.anchor_date, date)
+      : rawDays + countBlackoutsInRange(schedule.blackout_dates, date, schedule.anchor_date);
+
+  const cycleLength = schedule.segments.reduce((sum, s) => sum + s.days, 0);
+  let position = ((dayIndex % cycleLength) + cycleLength) % cycleLength;
+
+  for (const segment of schedule.segments) {
+    if (position < segment.days) {
+      return { date, phase: segment.phase, isBlackout: false, scheduleId: schedule.id };
+    }
+    position -= segment.days;
+  }
+
+  // Unreachable for normalized schedules; keep a safe default.
+  return { date, phase: "viewing", isBlackout: false, scheduleId: schedule.id };
+}
+
+function isSamePhaseRun(a: CycleDayInfo, b: CycleDayInfo) {
+  return a.phase === b.phase && a.isBlackout === b.isBlackout;
+}
+
+/** Day-by-day phases for a date range (dashboard calendar/preview). */
+export function listCycleDays(fromDate: string, count: number, schedules?: PhaseSchedule[] | null): CycleDayInfo[] {
+  const days: CycleDayInfo[] = [];
+  for (let i = 0; i < count; i += 1) {
+    days.push(evaluateCycleDay(addDaysToIsoDate(fromDate, i), schedules));
+  }
+  return days;
+}
+
+/** Most recent posting day on/before `date` (null if none within the walk limit). */
+export function getLatestPostingDate(date: string, schedules?: PhaseSchedule[] | null) {
+  for (let i = 0; i <= MAX_WALK_DAYS; i += 1) {
+    const candidate = addDaysToIsoDate(date, -i);
+    if (evaluateCycleDay(candidate, schedules).phase === "posting") return candidate;
+  }
+  return null;
+}
+
+/**
+ * Full phase window for an instant: current phase plus when it started/ends.
+ * Consecutive days with the same phase form one window (e.g. a 2-day posting segment).
+ */
+export function getPhaseWindow(now: Date = new Date(), schedules?: PhaseSchedule[] | null): PhaseWindow {
+  const cycleDate = getCycleDate(now, schedules);
+  const today = evaluateCycleDay(cycleDate, schedules);
+
+  let startDate = cycleDate;
+  for (let i = 0; i < MAX_WALK_DAYS; i += 1) {
+    const prev = addDaysToIsoDate(startDate, -1);
+    if (!isSamePhaseRun(evaluateCycleDay(prev, schedules), today)) break;
+    startDate = prev;
+  }
+
+  let endDate = cycleDate;
+  for (let i = 0; i < MAX_WALK_DAYS; i += 1) {
+    const next = addDaysToIsoDate(endDate, 1);
+    if (!isSamePhaseRun(evaluateCycleDay(next, schedules), today)) break;
+    endDate = next;
+  }
+
+  const phaseStartedAt = getCycleDayStart(startDate, schedules);
+  const phaseEndsAt = getCycleDayStart(addDaysToIsoDate(endDate, 1), schedules);
+
+  return {
+    phase: today.phase,
+    isBlackout: today.isBlackout,
+    cycleDate,
+    promptDate: getLatestPostingDate(cycleDate, schedules),
+    phaseStartedAt,
+    phaseEndsAt,
+    timeRemaining: Math.max(0, phaseEndsAt.getTime() - now.getTime()),
+  };
+}
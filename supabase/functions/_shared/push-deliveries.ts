@@ -0,0 +1,100 @@
+/**
+ * Tracked push sends (shared by the edge functions).
+ *
+ * Wraps `sendExpoPushMessages` so every message gets a `push_deliveries` row (ticket id, or the
+ * ticket error) for `check-push-receipts` to settle later, and tokens Expo already reports as
+ * DeviceNotRegistered are deleted right away.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import {
+  DEVICE_NOT_REGISTERED,
+  sendExpoPushMessages,
+  type ExpoPushMessage,
+  type ExpoPushOptions,
+} from "./expo-push.ts";
+
+export type PushSource = "phase" | "activity" | "admin";
+
+export interface TrackedPushMessage {
+  userId: string;
+  notificationType: string;
+  message: ExpoPushMessage;
+}
+
+interface PushDeliveryRow {
+  user_id: string;
+  expo_push_token: string;
+  source: PushSource;
+  notification_type: string;
+  ticket_id?: string;
+  status: "pending" | "failed";
+  error?: string;
+  error_message?: string;
+  receipt_checked_at?: string;
+}
+
+export function getExpoPushOptions(): ExpoPushOptions {
+  return { baseUrl: Deno.env.get("EXPO_PUSH_BASE_URL") };
+}
+
+/**
+ * Delete tokens Expo reports as unregistered (app uninstalled, token rotated).
+ */
+export async function pruneDeadTokens(supabase: SupabaseClient, tokens: string[], logTag: string) {
+  const unique = Array.from(new Set(tokens));
+  if (unique.length === 0) return 0;
+
+  const { error } = await supabase.from("push_tokens").delete().in("expo_push_token", unique);
+  if (error) {
+    console.warn(`[${logTag}] Failed to prune dead tokens:`, error);
+    return 0;
+  }
+
+  console.log(`[${logTag}] Pruned ${unique.length} dead tokens`);
+  return unique.length;
+}
+
+export async function sendTrackedPushMessages(
+  supabase: SupabaseClient,
+  messages: TrackedPushMessage[],
+  params: { source: PushSource; logTag: string }
+) {
+  const tickets = await sendExpoPushMessages(
+    messages.map((m) => m.message),
+    params.logTag,
+    getExpoPushOptions()
+  );
+
+  const rows = messages.map((m, i): PushDeliveryRow => {
+    const ticket = tickets[i];
+    const base = {
+      user_id: m.userId,
+      expo_push_token: m.message.to,
+      source: params.source,
+      notification_type: m.notificationType,
+    };
+    if (ticket?.status === "ok") return { ...base, ticket_id: ticket.id, status: "pending" };
+    return {
+      ...base,
+      status: "failed",
+      error: ticket?.details?.error ?? "MissingTicket",
+      error_message: ticket?.message ?? "Expo returned no ticket for this message",
+      receipt_checked_at: new Date().toISOString(),
+    };
+  });
+
+  // Bookkeeping must not fail a send that already went out.
+  const { error: insertError } = await supabase.from("push_deliveries").insert(rows);
+  if (insertError) console.warn(`[${params.logTag}] Failed to record push deliveries:`, insertError);
+
+  const deadTokens = rows.filter((r) => r.error === DEVICE_NOT_REGISTERED).map((r) => r.expo_push_token);
+  const pruned = await pruneDeadTokens(supabase, deadTokens, params.logTag);
+
+  return {
+    tickets,
+    failed: rows.filter((r) => r.status === "failed").length,
+    pruned,
+  };
+}
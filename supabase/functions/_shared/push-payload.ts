@@ -0,0 +1,91 @@
+/**
+ * Push payload schema (shared).
+ *
+ * The `data` object on every push the edge functions send, and what the app routes on when a push
+ * is tapped (`hooks/useNotifications.ts`):
+ * - phase: posting_open / posting_reminder → create tab, viewing_open → feed
+ * - activity: the post (comments open, thread of `commentId` expanded); `notificationIds` are the
+ *   `notifications` rows the push covers and get marked read
+ * - friend_invite: friend requests and accepted requests → friends tab; `notificationIds` as above
+ *
+ * Zero imports: this file must load unchanged under Metro and Deno.
+ */
+
+export const PUSH_PAYLOAD_VERSION = 1;
+
+export type PhasePushPayload = {
+  v: typeof PUSH_PAYLOAD_VERSION;
+  kind: "phase";
+  notificationType: "posting_open" | "posting_reminder" | "viewing_open";
+  promptDate: string; // YYYY-MM-DD cycle date
+};
+
+export type ActivityPushPayload = {
+  v: typeof PUSH_PAYLOAD_VERSION;
+  kind: "activity";
+  notificationType: "like" | "comment" | "save" | "reply" | "comment_like" | "mention";
+  postId: string | null;
+  commentId: string | null;
+  notificationIds: string[];
+};
+
+export type FriendInvitePushPayload = {
+  v: typeof PUSH_PAYLOAD_VERSION;
+  kind: "friend_invite";
+  actorId: string | null;
+  notificationIds: string[];
+};
+
+export type PushPayload = PhasePushPayload | ActivityPushPayload | FriendInvitePushPayload;
+
+const PHASE_TYPES = new Set(["posting_open", "posting_reminder", "viewing_open"]);
+const ACTIVITY_TYPES = new Set(["like", "comment", "save", "reply", "comment_like", "mention"]);
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value ? value : null;
+}
+
+function stringArray(value: unknown) {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * Validate a received push's `data`. Unknown or malformed payloads (including pushes sent before
+ * this schema existed) return null and just open the app.
+ */
+export function parsePushPayload(data: unknown): PushPayload | null {
+  if (!data || typeof data !== "object") return null;
+  const d = data as Record<string, unknown>;
+  if (d.v !== PUSH_PAYLOAD_VERSION) return null;
+
+  switch (d.kind) {
+    case "phase":
+      if (typeof d.notificationType !== "string" || !PHASE_TYPES.has(d.notificationType)) return null;
+      if (typeof d.promptDate !== "string") return null;
+      return {
+        v: PUSH_PAYLOAD_VERSION,
+        kind: "phase",
+        notificationType: d.notificationType as PhasePushPayload["notificationType"],
+        promptDate: d.promptDate,
+      };
+    case "activity":
+      if (typeof d.notificationType !== "string" || !ACTIVITY_TYPES.has(d.notificationType)) return null;
+      return {
+        v: PUSH_PAYLOAD_VERSION,
+        kind: "activity",
+        notificationType: d.notificationType as ActivityPushPayload["notificationType"],
+        postId: optionalString(d.postId),
+        commentId: optionalString(d.commentId),
+        notificationIds: stringArray(d.notificationIds),
+      };
+    case "friend_invite":
+      return {
+        v: PUSH_PAYLOAD_VERSION,
+        kind: "friend_invite",
+        actorId: optionalString(d.actorId),
+        notificationIds: stringArray(d.notificationIds),
+      };
+    default:
+      return null;
+  }
+}
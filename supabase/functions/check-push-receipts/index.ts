@@ -0,0 +1,179 @@
+/**
+ * Supabase Edge Function: Check Push Receipts
+ *
+ * Settles `public.push_deliveries` rows written by the sending functions. Called every 15 minutes
+ * by pg_cron.
+ *
+ * - Expo only has receipts ~15 minutes after sending and keeps them for ~24 hours, so pending rows
+ *   younger than RECEIPT_DELAY_MS are skipped and rows older than RECEIPT_TTL_MS expire.
+ * - DeviceNotRegistered receipts delete the token from `push_tokens`.
+ * - Failed receipts also fail the matching `notification_run_recipients` row so the run's counts
+ *   (and the dashboard's "resend to failed") include them.
+ * - The Expo endpoint is injectable (`EXPO_PUSH_BASE_URL`), e.g. for a local mock server.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { DEVICE_NOT_REGISTERED, getExpoPushReceipts } from "../_shared/expo-push.ts";
+import { getExpoPushOptions, pruneDeadTokens } from "../_shared/push-deliveries.ts";
+
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_BATCH_LIMIT = 5000;
+// Ids per `in` filter: the filter goes in the request URL, and 5000 UUIDs (~185KB) is past what
+// the API gateway accepts.
+const UPDATE_CHUNK_SIZE = 200;
+
+interface PendingDelivery {
+  id: string;
+  ticket_id: string;
+  expo_push_token: string;
+}
+
+/**
+ * Phase pushes belong to a notification run; mirror receipt failures onto the run's recipients.
+ */
+async function failRunRecipients(
+  supabase: ReturnType<typeof createClient>,
+  pending: PendingDelivery[],
+  failures: { id: string; error: string }[],
+  nowIso: string
+) {
+  const ticketById = new Map(pending.map((d) => [d.id, d.ticket_id]));
+  const runIds = new Set<string>();
+
+  for (const failure of failures) {
+    const ticketId = ticketById.get(failure.id);
+    if (!ticketId) continue;
+    const { data, error } = await supabase
+      .from("notification_run_recipients")
+      .update({ status: "failed", error: failure.error, updated_at: nowIso })
+      .eq("ticket_id", ticketId)
+      .select("run_id");
+    if (error) console.warn("[check-push-receipts] Failed to mark run recipient failed:", { ticketId, error });
+    for (const row of data || []) runIds.add(row.run_id);
+  }
+
+  if (runIds.size === 0) return;
+  const { error } = await supabase.rpc("refresh_notification_run_counts", { p_run_ids: Array.from(runIds) });
+  if (error) console.warn("[check-push-receipts] Failed to refresh run counts:", error);
+}
+
+serve(async () => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    // Receipts are gone after ~24h; whatever is still pending will never settle.
+    const { error: expireError } = await supabase
+      .from("push_deliveries")
+      .update({ status: "expired", receipt_checked_at: nowIso })
+      .eq("status", "pending")
+      .lt("created_at", new Date(now.getTime() - RECEIPT_TTL_MS).toISOString());
+
+    if (expireError) console.warn("[check-push-receipts] Failed to expire old deliveries:", expireError);
+
+    const { data: pendingRows, error: pendingError } = await supabase
+      .from("push_deliveries")
+      .select("id, ticket_id, expo_push_token")
+      .eq("status", "pending")
+      .not("ticket_id", "is", null)
+      .lte("created_at", new Date(now.getTime() - RECEIPT_DELAY_MS).toISOString())
+      .order("created_at", { ascending: true })
+      .limit(PENDING_BATCH_LIMIT);
+
+    if (pendingError) {
+      console.error("[check-push-receipts] Failed to fetch pending deliveries:", pendingError);
+      throw pendingError;
+    }
+
+    const pending = (pendingRows || []) as PendingDelivery[];
+    if (pending.length === 0) {
+      return new Response(JSON.stringify({ message: "No receipts due" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const receipts = await getExpoPushReceipts(
+      pending.map((d) => d.ticket_id),
+      "check-push-receipts",
+      getExpoPushOptions()
+    );
+
+    const deliveredIds: string[] = [];
+    const failures: { id: string; token: string; error: string; message: string }[] = [];
+
+    for (const delivery of pending) {
+      const receipt = receipts.get(delivery.ticket_id);
+      if (!receipt) continue; // Not ready yet; retry next run (until it expires)
+      if (receipt.status === "ok") {
+        deliveredIds.push(delivery.id);
+      } else {
+        failures.push({
+          id: delivery.id,
+          token: delivery.expo_push_token,
+          error: receipt.details?.error ?? "Unknown",
+          message: receipt.message,
+        });
+      }
+    }
+
+    let delivered = 0;
+    for (let i = 0; i < deliveredIds.length; i += UPDATE_CHUNK_SIZE) {
+      const chunk = deliveredIds.slice(i, i + UPDATE_CHUNK_SIZE);
+      const { error } = await supabase
+        .from("push_deliveries")
+        .update({ status: "delivered", receipt_checked_at: nowIso })
+        .in("id", chunk);
+      // Left pending, so the next run checks these receipts again.
+      if (error) console.warn("[check-push-receipts] Failed to mark deliveries delivered:", { count: chunk.length, error });
+      else delivered += chunk.length;
+    }
+
+    // Failures carry per-row error details; there are few of them, so update one by one.
+    for (const failure of failures) {
+      const { error } = await supabase
+        .from("push_deliveries")
+        .update({
+          status: "failed",
+          error: failure.error,
+          error_message: failure.message,
+          receipt_checked_at: nowIso,
+        })
+        .eq("id", failure.id);
+      if (error) console.warn("[check-push-receipts] Failed to mark delivery failed:", { id: failure.id, error });
+    }
+
+    if (failures.length > 0) await failRunRecipients(supabase, pending, failures, nowIso);
+
+    const pruned = await pruneDeadTokens(
+      supabase,
+      failures.filter((f) => f.error === DEVICE_NOT_REGISTERED).map((f) => f.token),
+      "check-push-receipts"
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked: pending.length,
+        delivered,
+        failed: failures.length,
+        notReady: pending.length - deliveredIds.length - failures.length,
+        pruned,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[check-push-receipts] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,403 @@
+/**
+ * Supabase Edge Function: Send Activity Pushes
+ *
+ * Drains `public.activity_push_queue` (one row per `notifications` row: likes, comments, saves,
+ * replies, comment likes, mentions, friend requests and accepted requests). Called every minute by
+ * pg_cron.
+ *
+ * - Coalescing: rows for the same recipient + type + post (or comment, for comment likes) are sent
+ *   as one push ("3 friends liked your reflection"). A group waits until it has been quiet for
+ *   COALESCE_WINDOW_MS so a burst lands as a single push.
+ * - Preferences (`public.notification_preferences`): muted types are skipped, and groups are held
+ *   during the recipient's quiet hours in their zone (`profiles.time_zone`) and go out, coalesced,
+ *   once they end.
+ * - Claims (20261109_activity_push_claims.sql): each run claims due rows (skip locked), so
+ *   overlapping runs never send the same row. Held groups are handed back with the time they are
+ *   due (burst window end, quiet hours end) and aren't claimed again until then.
+ * - Deep links: `data` is an `ActivityPushPayload` (`_shared/push-payload.ts`): type, post/comment
+ *   ids and the notification ids the app marks read on tap. Friend request pushes send a
+ *   `FriendInvitePushPayload` (friends tab) instead.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import {
+  NOTIFICATION_PREFERENCES_COLUMNS,
+  isInQuietHours,
+  isNotificationEnabled,
+  normalizeNotificationPreferences,
+  type ActivityNotificationType,
+  type NotificationPreferences,
+} from "../_shared/notification-preferences.ts";
+import {
+  addDaysToIsoDate,
+  getPartsInTimeZone,
+  isoDateFromParts,
+  isValidTimeZone,
+  parseIsoDate,
+  wallTimeToUtc,
+} from "../_shared/phase-schedule.ts";
+import { sendTrackedPushMessages, type TrackedPushMessage } from "../_shared/push-deliveries.ts";
+import {
+  PUSH_PAYLOAD_VERSION,
+  type ActivityPushPayload,
+  type FriendInvitePushPayload,
+} from "../_shared/push-payload.ts";
+
+const DEFAULT_TIME_ZONE = "America/Los_Angeles"; // Same default as lib/timezone.ts
+const COALESCE_WINDOW_MS = 60 * 1000;
+const MAX_PENDING_AGE_MS = 24 * 60 * 60 * 1000; // Older than this is stale; drop instead of sending
+const QUIET_HOURS_FALLBACK_MS = 60 * 60 * 1000;
+const QUEUE_BATCH_LIMIT = 500;
+const SNIPPET_MAX_LENGTH = 120;
+
+type ActivityType = ActivityNotificationType;
+
+interface QueueRow {
+  id: string;
+  notification_id: string;
+  user_id: string;
+  actor_id: string;
+  post_id: string | null;
+  comment_id: string | null;
+  notification_type: ActivityType;
+  created_at: string;
+  claimed_at: string; // the same for every row of one claim; passed back as-is (microseconds)
+}
+
+interface PushGroup {
+  key: string;
+  userId: string;
+  notificationType: ActivityType;
+  postId: string | null;
+  rows: QueueRow[]; // oldest first
+}
+
+const ACTIVITY_VERBS: Record<ActivityType, string> = {
+  like: "liked your reflection",
+  comment: "commented on your reflection",
+  save: "saved your reflection",
+  reply: "replied to your comment",
+  comment_like: "liked your comment",
+  mention: "mentioned you",
+  friend_request: "sent you a friend request",
+  friend_accepted: "accepted your friend request",
+};
+
+const FRIEND_TYPES = new Set<ActivityType>(["friend_request", "friend_accepted"]);
+
+// Types whose single-event push shows the comment text as the body.
+const COMMENT_BODY_TYPES = new Set<ActivityType>(["comment", "reply", "mention"]);
+
+function getGroupKey(row: QueueRow) {
+  const target = row.notification_type === "comment_like" ? row.comment_id : row.post_id;
+  return `${row.user_id}|${row.notification_type}|${target ?? ""}`;
+}
+
+function groupRows(rows: QueueRow[]): PushGroup[] {
+  const groups = new Map<string, PushGroup>();
+  for (const row of rows) {
+    const key = getGroupKey(row);
+    const group = groups.get(key) ?? {
+      key,
+      userId: row.user_id,
+      notificationType: row.notification_type,
+      postId: row.post_id,
+      rows: [],
+    };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * "Sam liked your reflection", "Sam and Lee liked…", "3 friends liked…". Requesters aren't friends
+ * yet: "Someone" / "3 people".
+ */
+function describeGroup(group: PushGroup, actorNames: Map<string, string>) {
+  const isRequest = group.notificationType === "friend_request";
+  const actorIds = Array.from(new Set(group.rows.map((r) => r.actor_id)));
+  const names = actorIds.map((id) => actorNames.get(id) ?? (isRequest ? "Someone" : "A friend"));
+  const who =
+    names.length === 1
+      ? names[0]
+      : names.length === 2
+        ? `${names[0]} and ${names[1]}`
+        : `${names.length} ${isRequest ? "people" : "friends"}`;
+  return `${who} ${ACTIVITY_VERBS[group.notificationType]}`;
+}
+
+/** The next local `quiet_hours_end` o'clock after `now`, when held pushes can go out. */
+function getQuietHoursEnd(preferences: NotificationPreferences, now: Date, timeZone: string) {
+  const today = isoDateFromParts(getPartsInTimeZone(now, timeZone));
+  for (const date of [today, addDaysToIsoDate(today, 1)]) {
+    const { year, month, day } = parseIsoDate(date);
+    const end = wallTimeToUtc({ year, month, day, hour: preferences.quiet_hours_end, minute: 0 }, timeZone);
+    if (end.getTime() > now.getTime()) return end;
+  }
+  return new Date(now.getTime() + QUIET_HOURS_FALLBACK_MS);
+}
+
+// Only rows still under this run's claim are updated (a newer run may have reclaimed the rest).
+async function finishRows(
+  supabase: ReturnType<typeof createClient>,
+  claimedAt: string,
+  ids: string[],
+  status: "sent" | "coalesced" | "skipped",
+  error?: string
+) {
+  if (ids.length === 0) return;
+  const { error: finishError } = await supabase.rpc("finish_activity_push_queue", {
+    p_ids: ids,
+    p_claimed_at: claimedAt,
+    p_status: status,
+    p_error: error ?? null,
+  });
+  if (finishError) console.error(`[send-activity-push] Failed to mark ${ids.length} rows ${status}:`, finishError);
+}
+
+function toSnippet(text: string) {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  return trimmed.length > SNIPPET_MAX_LENGTH ? `${trimmed.slice(0, SNIPPET_MAX_LENGTH - 1)}…` : trimmed;
+}
+
+serve(async () => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    const { data: queueRows, error: queueError } = await supabase.rpc("claim_activity_push_queue", {
+      p_limit: QUEUE_BATCH_LIMIT,
+    });
+
+    if (queueError) {
+      console.error("[send-activity-push] Failed to claim queue rows:", queueError);
+      throw queueError;
+    }
+
+    const rows = (queueRows || []) as QueueRow[];
+    if (rows.length === 0) {
+      return new Response(JSON.stringify({ message: "Queue empty" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const claimedAt = rows[0].claimed_at;
+    const groups = groupRows(rows);
+
+    const userIds = Array.from(new Set(rows.flatMap((r) => [r.user_id, r.actor_id])));
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, first_name, username, time_zone")
+      .in("id", userIds);
+
+    if (profilesError) {
+      console.warn("[send-activity-push] Failed to fetch profiles, using defaults:", profilesError);
+    }
+
+    const zoneByUserId = new Map<string, string>();
+    const nameByUserId = new Map<string, string>();
+    for (const p of profiles || []) {
+      if (isValidTimeZone(p.time_zone)) zoneByUserId.set(p.id, p.time_zone);
+      const name = p.first_name || p.username;
+      if (name) nameByUserId.set(p.id, name);
+    }
+
+    const recipientIdsInQueue = Array.from(new Set(rows.map((r) => r.user_id)));
+    const { data: preferenceRows, error: preferencesError } = await supabase
+      .from("notification_preferences")
+      .select(`user_id,${NOTIFICATION_PREFERENCES_COLUMNS}`)
+      .in("user_id", recipientIdsInQueue);
+
+    if (preferencesError) {
+      console.warn("[send-activity-push] Failed to fetch notification preferences, using defaults:", preferencesError);
+    }
+
+    const preferencesByUserId = new Map<string, NotificationPreferences>();
+    for (const p of preferenceRows || []) {
+      preferencesByUserId.set(p.user_id, normalizeNotificationPreferences(p));
+    }
+
+    // Decide per group: send now, keep waiting (burst/quiet hours), or drop as stale/muted.
+    const ready: PushGroup[] = [];
+    const staleRowIds: string[] = [];
+    const mutedRowIds: string[] = [];
+    const heldRowIds: string[] = [];
+    const heldUntil: string[] = [];
+    let held = 0;
+
+    function hold(group: PushGroup, until: Date) {
+      held++;
+      for (const row of group.rows) {
+        heldRowIds.push(row.id);
+        heldUntil.push(until.toISOString());
+      }
+    }
+
+    for (const group of groups) {
+      const preferences = preferencesByUserId.get(group.userId) ?? normalizeNotificationPreferences(null);
+      if (!isNotificationEnabled(preferences, group.notificationType)) {
+        mutedRowIds.push(...group.rows.map((r) => r.id));
+        continue;
+      }
+
+      const oldest = new Date(group.rows[0].created_at).getTime();
+      const newest = new Date(group.rows[group.rows.length - 1].created_at).getTime();
+
+      if (now.getTime() - oldest > MAX_PENDING_AGE_MS) {
+        staleRowIds.push(...group.rows.map((r) => r.id));
+        continue;
+      }
+      if (now.getTime() - newest < COALESCE_WINDOW_MS) {
+        hold(group, new Date(newest + COALESCE_WINDOW_MS));
+        continue;
+      }
+      const timeZone = zoneByUserId.get(group.userId) ?? DEFAULT_TIME_ZONE;
+      const { hour } = getPartsInTimeZone(now, timeZone);
+      if (isInQuietHours(preferences, hour)) {
+        hold(group, getQuietHoursEnd(preferences, now, timeZone));
+        continue;
+      }
+      ready.push(group);
+    }
+
+    if (heldRowIds.length > 0) {
+      const { error: releaseError } = await supabase.rpc("release_activity_push_queue", {
+        p_ids: heldRowIds,
+        p_next_attempt_at: heldUntil,
+        p_claimed_at: claimedAt,
+      });
+      // Unreleased rows stay claimed and are picked up again once the claim times out.
+      if (releaseError) console.error("[send-activity-push] Failed to release held rows:", releaseError);
+    }
+    await finishRows(supabase, claimedAt, staleRowIds, "skipped", "stale");
+    await finishRows(supabase, claimedAt, mutedRowIds, "skipped", "muted");
+
+    if (ready.length === 0) {
+      const summary = { success: true, sent: 0, held, stale: staleRowIds.length, muted: mutedRowIds.length };
+      return new Response(JSON.stringify(summary), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const recipientIds = Array.from(new Set(ready.map((g) => g.userId)));
+    const { data: tokens, error: tokensError } = await supabase
+      .from("push_tokens")
+      .select("user_id, expo_push_token")
+      .in("user_id", recipientIds);
+
+    if (tokensError) {
+      console.error("[send-activity-push] Failed to fetch push tokens:", tokensError);
+      throw tokensError;
+    }
+
+    const tokensByUserId = new Map<string, string[]>();
+    for (const t of tokens || []) {
+      if (!t.expo_push_token) continue;
+      tokensByUserId.set(t.user_id, [...(tokensByUserId.get(t.user_id) ?? []), t.expo_push_token]);
+    }
+
+    // Single comment-ish events show the comment itself.
+    const snippetCommentIds = ready
+      .filter((g) => g.rows.length === 1 && COMMENT_BODY_TYPES.has(g.notificationType) && g.rows[0].comment_id)
+      .map((g) => g.rows[0].comment_id as string);
+
+    const contentByCommentId = new Map<string, string>();
+    if (snippetCommentIds.length > 0) {
+      const { data: comments, error: commentsError } = await supabase
+        .from("post_comments")
+        .select("id, content")
+        .in("id", snippetCommentIds);
+
+      if (commentsError) console.warn("[send-activity-push] Failed to fetch comment text:", commentsError);
+      for (const c of comments || []) contentByCommentId.set(c.id, c.content);
+    }
+
+    const messages: TrackedPushMessage[] = [];
+    const sentGroups: PushGroup[] = [];
+    const noTokenRowIds: string[] = [];
+
+    for (const group of ready) {
+      const userTokens = tokensByUserId.get(group.userId) ?? [];
+      if (userTokens.length === 0) {
+        noTokenRowIds.push(...group.rows.map((r) => r.id));
+        continue;
+      }
+
+      const latest = group.rows[group.rows.length - 1];
+      const content = group.rows.length === 1 && latest.comment_id ? contentByCommentId.get(latest.comment_id) : undefined;
+      const title = describeGroup(group, nameByUserId);
+      const notificationIds = group.rows.map((r) => r.notification_id);
+      const data: ActivityPushPayload | FriendInvitePushPayload = FRIEND_TYPES.has(group.notificationType)
+        ? { v: PUSH_PAYLOAD_VERSION, kind: "friend_invite", actorId: latest.actor_id, notificationIds }
+        : {
+            v: PUSH_PAYLOAD_VERSION,
+            kind: "activity",
+            notificationType: group.notificationType as ActivityPushPayload["notificationType"],
+            postId: group.postId,
+            commentId: latest.comment_id,
+            notificationIds,
+          };
+
+      for (const token of userTokens) {
+        messages.push({
+          userId: group.userId,
+          notificationType: group.notificationType,
+          message: {
+            to: token,
+            sound: "default",
+            title,
+            body: content ? toSnippet(content) : undefined,
+            collapseId: group.key,
+            data,
+          },
+        });
+      }
+      sentGroups.push(group);
+    }
+
+    await finishRows(supabase, claimedAt, noTokenRowIds, "skipped", "no_tokens");
+
+    // A failed send leaves the rows claimed; a later run reclaims and retries them once the claim times out.
+    const result =
+      messages.length > 0
+        ? await sendTrackedPushMessages(supabase, messages, { source: "activity", logTag: "send-activity-push" })
+        : { failed: 0, pruned: 0 };
+
+    // The newest row in each group carries the push; the rest were folded into it.
+    const sentRowIds = sentGroups.map((g) => g.rows[g.rows.length - 1].id);
+    const coalescedRowIds = sentGroups.flatMap((g) => g.rows.slice(0, -1).map((r) => r.id));
+
+    await finishRows(supabase, claimedAt, sentRowIds, "sent");
+    await finishRows(supabase, claimedAt, coalescedRowIds, "coalesced");
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sent: sentGroups.length,
+        coalesced: coalescedRowIds.length,
+        messages: messages.length,
+        failed: result.failed,
+        pruned: result.pruned,
+        held,
+        stale: staleRowIds.length,
+        muted: mutedRowIds.length,
+        noTokens: noTokenRowIds.length,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[send-activity-push] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -2,19 +2,67 @@
  * Supabase Edge Function: Send Push Notifications
  * 
  * Handles scheduled push notifications for posting/viewing phases.
- * Called by pg_cron jobs at 6AM and 6PM PST.
- * 
- * Query params:
- * - trigger_time: "6am" or "6pm"
+ * Called hourly by pg_cron. Each user is evaluated in their own time zone (`profiles.time_zone`,
+ * Pacific by default), so "6am" means the flip hour on the user's clock.
+ * The phase itself comes from `public.phase_schedules` via the shared evaluator in
+ * `_shared/phase-schedule.ts`.
+ *
+ * Per-user preferences (`public.notification_preferences`, defaults when there's no row):
+ * - each phase message can be switched off
+ * - the posting reminder goes out `reminder_hours_before_close` hours before the posting window
+ *   closes (12 = the classic 6PM reminder)
+ * - nothing is sent during the user's quiet hours
+ *
+ * Runs (`public.notification_runs`, one per cycle date + notification type):
+ * - every invocation with recipients for a (cycle date, type) joins that run and claims each token
+ *   once (`notification_run_recipients`), so cron retries / double-fires don't push twice
+ * - per-run recipient/sent/failed counts and the last error are recorded for the dashboard
+ *
+ * Params (query string, or JSON body for `functions.invoke`):
+ * - trigger_time: "hourly" (cron), or "6am"/"6pm" to force that trigger for every user (manual testing;
+ *   forced triggers still respect the toggles but ignore quiet hours and reminder timing), or
+ *   "resend" to retry a run's failed recipients (needs run_id)
+ * - dry_run: "1" evaluates and records the run as a dry run without claiming or sending anything
+ * - run_id: run to resend (trigger_time=resend)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-const EXPO_PUSH_API_URL = "https://exp.host/--/api/v2/push/send";
-const PACIFIC_TZ = "America/Los_Angeles";
-const PHASE_ANCHOR_UTC = new Date("2026-01-13T14:00:00.000Z"); // 6AM PST on Jan 13, 2026
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
+import {
+  NOTIFICATION_PREFERENCES_COLUMNS,
+  isInQuietHours,
+  isNotificationEnabled,
+  normalizeNotificationPreferences,
+  type NotificationPreferences,
+  type PhaseNotificationType,
+} from "../_shared/notification-preferences.ts";
+import {
+  getCycleDayStart,
+  getPartsInTimeZone,
+  getPhaseWindow,
+  isValidTimeZone,
+  normalizePhaseSchedule,
+  resolveScheduleForDate,
+  withTimeZone,
+  type PhaseSchedule,
+  type PhaseWindow,
+} from "../_shared/phase-schedule.ts";
+import { sendTrackedPushMessages } from "../_shared/push-deliveries.ts";
+import { PUSH_PAYLOAD_VERSION, type PhasePushPayload } from "../_shared/push-payload.ts";
+
+const DEFAULT_TIME_ZONE = "America/Los_Angeles"; // Same default as lib/timezone.ts
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+type TriggerTime = "6am" | "6pm";
+type NotificationType = PhaseNotificationType;
+
+interface RunRecipient {
+  user_id: string;
+  expo_push_token: string;
+  attempts: number;
+}
 
 interface NotificationConfig {
   title: string;
@@ -37,358 +85,497 @@ const NOTIFICATION_MESSAGES: Record<string, NotificationConfig> = {
 };
 
 /**
- * Get parts of a date in a specific timezone.
+ * Load phase schedules (same rows the app and dashboard evaluate).
+ * An empty list makes the shared evaluator fall back to the default rotation.
  */
-function getPartsInTimeZone(date: Date, timeZone: string) {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone,
-    hour12: false,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-  }).formatToParts(date);
-
-  const map: Record<string, string> = {};
-  for (const p of parts) {
-    if (p.type === "literal") continue;
-    map[p.type] = p.value;
+async function fetchPhaseSchedules(supabase: ReturnType<typeof createClient>): Promise<PhaseSchedule[]> {
+  const { data, error } = await supabase
+    .from("phase_schedules")
+    .select("id,effective_from,anchor_date,time_zone,flip_hour,segments,blackout_dates");
+
+  if (error) {
+    console.warn("[send-notifications] Failed to fetch phase schedules, using default rotation:", error);
+    return [];
   }
 
-  return {
-    year: Number(map.year),
-    month: Number(map.month),
-    day: Number(map.day),
-    hour: Number(map.hour),
-    minute: Number(map.minute),
-    second: Number(map.second),
-  };
+  return (data || [])
+    .map((row) => normalizePhaseSchedule(row))
+    .filter((s): s is PhaseSchedule => !!s);
 }
 
 /**
- * Convert Pacific wall time to UTC Date.
- * Simplified version of the mobile app's pacificWallTimeToUtc function.
+ * Determine notification type based on trigger time and the current phase window.
+ *
+ * - 6am: announce a phase only on its first day (multi-day phases don't re-announce).
+ * - 6pm: remind on the last day of a posting phase.
+ * - Blackout days never notify.
  */
-function pacificWallTimeToUtc(input: {
-  year: number;
-  month: number;
-  day: number;
-  hour: number;
-  minute: number;
-}) {
-  const desired = {
-    year: input.year,
-    month: input.month,
-    day: input.day,
-    hour: input.hour,
-    minute: input.minute,
-    second: 0,
-  };
-
-  // Initial naive guess
-  let utcMs = Date.UTC(
-    desired.year,
-    desired.month - 1,
-    desired.day,
-    desired.hour,
-    desired.minute,
-    desired.second
-  );
+function getNotificationType(
+  triggerTime: TriggerTime,
+  window: PhaseWindow,
+  schedules: PhaseSchedule[]
+): NotificationType | null {
+  if (window.isBlackout) return null;
 
-  // Correction pass for DST
-  for (let i = 0; i < 2; i += 1) {
-    const guess = new Date(utcMs);
-    const actualLocal = getPartsInTimeZone(guess, PACIFIC_TZ);
-
-    const desiredTod = desired.hour * 60 * 60 * 1000 + desired.minute * 60 * 1000;
-    const actualTod = actualLocal.hour * 60 * 60 * 1000 + actualLocal.minute * 60 * 1000;
-    const deltaMs = desiredTod - actualTod;
-
-    const desiredDateKey = `${desired.year}-${String(desired.month).padStart(2, "0")}-${String(desired.day).padStart(2, "0")}`;
-    const actualDateKey = `${actualLocal.year}-${String(actualLocal.month).padStart(2, "0")}-${String(actualLocal.day).padStart(2, "0")}`;
-
-    if (desiredDateKey !== actualDateKey) {
-      const desiredUtcMidnight = Date.UTC(desired.year, desired.month - 1, desired.day, 0, 0, 0);
-      const actualUtcMidnight = Date.UTC(
-        actualLocal.year,
-        actualLocal.month - 1,
-        actualLocal.day,
-        0,
-        0,
-        0
-      );
-      const dayDelta = desiredUtcMidnight - actualUtcMidnight;
-      utcMs += dayDelta;
-    }
+  if (triggerTime === "6am") {
+    const isFirstDay = window.phaseStartedAt.getTime() === getCycleDayStart(window.cycleDate, schedules).getTime();
+    if (!isFirstDay) return null;
+    return window.phase === "posting" ? "posting_open" : "viewing_open";
+  }
 
-    utcMs += deltaMs;
+  if (triggerTime === "6pm") {
+    if (window.phase !== "posting") return null; // No 6pm notification on viewing days
+    return window.timeRemaining <= MS_PER_DAY ? "posting_reminder" : null;
   }
 
-  return new Date(utcMs);
+  return null;
 }
 
 /**
- * Get the current phase (posting or viewing) based on the anchor date.
- * Replicates the logic from lib/phase.ts.
+ * Whether the phase-open trigger is due right now (the flip hour in the user's zone).
  */
-function getCurrentPhase(now: Date = new Date()): "posting" | "viewing" {
-  const nowPacific = getPartsInTimeZone(now, PACIFIC_TZ);
-
-  // Find the most recent 6AM PT boundary
-  const today6am = pacificWallTimeToUtc({
-    year: nowPacific.year,
-    month: nowPacific.month,
-    day: nowPacific.day,
-    hour: 6,
-    minute: 0,
-  });
-
-  // If it's before 6AM today, use yesterday's 6AM
-  const lastFlip =
-    now.getTime() < today6am.getTime()
-      ? pacificWallTimeToUtc({
-          year: nowPacific.year,
-          month: nowPacific.month,
-          day: nowPacific.day - 1,
-          hour: 6,
-          minute: 0,
-        })
-      : today6am;
-
-  // Count days since anchor (at 6AM boundaries)
-  const daysSinceAnchor = Math.floor(
-    (lastFlip.getTime() - PHASE_ANCHOR_UTC.getTime()) / MS_PER_DAY
-  );
-
-  // Even days = posting, odd days = viewing
-  return daysSinceAnchor % 2 === 0 ? "posting" : "viewing";
+function isOpenTriggerDue(now: Date, window: PhaseWindow, schedules: PhaseSchedule[]) {
+  const schedule = resolveScheduleForDate(window.cycleDate, schedules);
+  return getPartsInTimeZone(now, schedule.time_zone).hour === schedule.flip_hour;
 }
 
 /**
- * Get today's prompt date (cycle date) in Pacific timezone.
- * Returns YYYY-MM-DD string.
+ * Whether a user's posting reminder is due this run: the posting window closes in
+ * `reminderHours` (rounded to the hour, since the cron fires hourly).
  */
-function getTodayPacificIsoDate(now: Date = new Date()): string {
-  const parts = getPartsInTimeZone(now, PACIFIC_TZ);
-  return `${parts.year}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+function isReminderDue(window: PhaseWindow, reminderHours: number) {
+  if (window.isBlackout || window.phase !== "posting") return false;
+  return Math.round(window.timeRemaining / MS_PER_HOUR) === reminderHours;
 }
 
 /**
- * Get the cycle date for a 6AM→6AM Pacific cycle.
+ * Query string first (cron), then the JSON body (dashboard `functions.invoke`).
  */
-function getPacificIsoDateForCycleStart(now: Date = new Date()): string {
-  const pacificToday = getTodayPacificIsoDate(now);
-  const parts = getPartsInTimeZone(now, PACIFIC_TZ);
-  if (parts.hour < 6) {
-    // Before 6AM, use yesterday's date
-    const yesterday = new Date(now.getTime() - MS_PER_DAY);
-    return getTodayPacificIsoDate(yesterday);
-  }
-  return pacificToday;
+async function readParams(req: Request) {
+  const url = new URL(req.url);
+  const body: Record<string, unknown> = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+  const get = (key: string) => {
+    const value = url.searchParams.get(key) ?? body[key];
+    return value === undefined || value === null ? null : String(value);
+  };
+  return {
+    triggerTime: get("trigger_time"),
+    dryRun: get("dry_run") === "1" || get("dry_run") === "true",
+    runId: get("run_id"),
+  };
 }
 
 /**
- * Determine notification type based on trigger time and current phase.
+ * Send one phase message to a run's claimed recipients and record the outcome per token
+ * (deliveries are also tracked in `push_deliveries`, see `_shared/push-deliveries.ts`).
+ * A failed send is returned as `error` so the caller can finish the run as failed.
  */
-function getNotificationType(
-  triggerTime: "6am" | "6pm"
-): "posting_open" | "posting_reminder" | "viewing_open" | null {
-  const phase = getCurrentPhase();
+async function deliverToRunRecipients(
+  supabase: ReturnType<typeof createClient>,
+  runId: string,
+  recipients: RunRecipient[],
+  notificationType: NotificationType,
+  promptDate: string
+) {
+  const notification = NOTIFICATION_MESSAGES[notificationType];
+  const updatedAt = new Date().toISOString();
+  const data: PhasePushPayload = { v: PUSH_PAYLOAD_VERSION, kind: "phase", notificationType, promptDate };
 
-  if (triggerTime === "6am") {
-    return phase === "posting" ? "posting_open" : "viewing_open";
-  }
+  try {
+    const result = await sendTrackedPushMessages(
+      supabase,
+      recipients.map((r) => ({
+        userId: r.user_id,
+        notificationType,
+        message: {
+          to: r.expo_push_token,
+          sound: "default",
+          title: notification.title,
+          body: notification.body,
+          data,
+        },
+      })),
+      { source: "phase", logTag: "send-notifications" }
+    );
 
-  if (triggerTime === "6pm") {
-    return phase === "posting" ? "posting_reminder" : null; // No 6pm notification on viewing days
+    const rows = recipients.map((r, i) => {
+      const ticket = result.tickets[i];
+      const base = { run_id: runId, ...r, updated_at: updatedAt };
+      if (ticket?.status === "ok") return { ...base, status: "sent", ticket_id: ticket.id, error: null };
+      return { ...base, status: "failed", ticket_id: null, error: ticket?.details?.error ?? "MissingTicket" };
+    });
+
+    // Bookkeeping must not fail a send that already went out.
+    const { error: recordError } = await supabase
+      .from("notification_run_recipients")
+      .upsert(rows, { onConflict: "run_id,expo_push_token" });
+    if (recordError) console.warn("[send-notifications] Failed to record run recipients:", recordError);
+
+    return {
+      sent: rows.filter((r) => r.status === "sent").length,
+      failed: result.failed,
+      pruned: result.pruned,
+      error: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await supabase
+      .from("notification_run_recipients")
+      .update({ status: "failed", error: message, updated_at: updatedAt })
+      .eq("run_id", runId)
+      .in(
+        "expo_push_token",
+        recipients.map((r) => r.expo_push_token)
+      );
+    return { sent: 0, failed: recipients.length, pruned: 0, error: message };
   }
-
-  return null;
 }
 
 /**
- * Send push notifications via Expo Push API.
- * Batches tokens (max 100 per request).
+ * Retry a finished run's failed recipients (dashboard "resend to failed").
+ * Recipients stuck in pending (the invocation died mid-send) count as failed here.
  */
-async function sendPushNotifications(
-  tokens: string[],
-  notification: NotificationConfig
-): Promise<void> {
-  // Expo Push API accepts up to 100 tokens per request
-  const BATCH_SIZE = 100;
-
-  for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
-    const batch = tokens.slice(i, i + BATCH_SIZE);
-    const messages = batch.map((token) => ({
-      to: token,
-      sound: "default",
-      title: notification.title,
-      body: notification.body,
-      data: { notificationType: notification.title.toLowerCase().replace(/\s+/g, "_") },
-    }));
-
-    try {
-      const response = await fetch(EXPO_PUSH_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          "Accept-Encoding": "gzip, deflate",
-        },
-        body: JSON.stringify(messages),
-      });
+async function resendToFailed(supabase: ReturnType<typeof createClient>, runId: string) {
+  // Taking the run back to running is the lock: a run that's still going can't be resent.
+  const { data: claimedRuns, error: claimError } = await supabase
+    .from("notification_runs")
+    .update({ status: "running", trigger_time: "resend", error: null, finished_at: null })
+    .eq("id", runId)
+    .eq("dry_run", false)
+    .neq("status", "running")
+    .select("id, notification_type, cycle_date");
+
+  if (claimError) throw claimError;
+  const run = claimedRuns?.[0];
+  if (!run) {
+    return new Response(
+      JSON.stringify({ error: "Run not found, is a dry run, or is still running" }),
+      { status: 409, headers: { "Content-Type": "application/json" } }
+    );
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[send-notifications] Expo API error: ${response.status} ${errorText}`);
-        throw new Error(`Expo Push API error: ${response.status}`);
-      }
+  const { data: failedRows, error: failedError } = await supabase
+    .from("notification_run_recipients")
+    .select("user_id, expo_push_token, attempts")
+    .eq("run_id", runId)
+    .in("status", ["failed", "pending"]);
 
-      const result = await response.json();
-      console.log(`[send-notifications] Sent batch ${i / BATCH_SIZE + 1}, tokens: ${batch.length}`);
-      
-      // Log any errors from Expo
-      if (result.data) {
-        const errors = result.data.filter((r: any) => r.status === "error");
-        if (errors.length > 0) {
-          console.warn(`[send-notifications] ${errors.length} tokens failed:`, errors);
-        }
-      }
-    } catch (error) {
-      console.error(`[send-notifications] Failed to send batch ${i / BATCH_SIZE + 1}:`, error);
-      throw error;
-    }
+  if (failedError) {
+    await supabase.rpc("finish_notification_run", { p_run_id: runId, p_error: failedError.message });
+    throw failedError;
   }
+
+  // Tokens pruned since (DeviceNotRegistered) are gone for good.
+  const failedTokens = (failedRows || []).map((r) => r.expo_push_token);
+  const { data: liveTokens } = failedTokens.length
+    ? await supabase.from("push_tokens").select("expo_push_token").in("expo_push_token", failedTokens)
+    : { data: [] };
+  const live = new Set((liveTokens || []).map((t) => t.expo_push_token));
+
+  const retry: RunRecipient[] = (failedRows || [])
+    .filter((r) => live.has(r.expo_push_token))
+    .map((r) => ({ user_id: r.user_id, expo_push_token: r.expo_push_token, attempts: r.attempts + 1 }));
+
+  const result =
+    retry.length > 0
+      ? await deliverToRunRecipients(
+          supabase,
+          runId,
+          retry,
+          run.notification_type as NotificationType,
+          run.cycle_date
+        )
+      : { sent: 0, failed: 0, pruned: 0, error: null };
+
+  await supabase.rpc("finish_notification_run", { p_run_id: runId, p_error: result.error });
+
+  return new Response(
+    JSON.stringify({
+      success: !result.error,
+      runId,
+      retried: retry.length,
+      skippedDeadTokens: failedTokens.length - retry.length,
+      tokensSent: result.sent,
+      tokensFailed: result.failed,
+      tokensPruned: result.pruned,
+      error: result.error,
+    }),
+    { status: result.error ? 500 : 200, headers: { "Content-Type": "application/json" } }
+  );
 }
 
 serve(async (req) => {
   try {
-    // Get trigger_time from query params
-    const url = new URL(req.url);
-    const triggerTime = url.searchParams.get("trigger_time") as "6am" | "6pm" | null;
+    const { triggerTime: triggerParam, dryRun, runId } = await readParams(req);
 
-    if (!triggerTime || (triggerTime !== "6am" && triggerTime !== "6pm")) {
+    if (triggerParam !== "hourly" && triggerParam !== "6am" && triggerParam !== "6pm" && triggerParam !== "resend") {
       return new Response(
-        JSON.stringify({ error: "Missing or invalid trigger_time parameter (must be '6am' or '6pm')" }),
+        JSON.stringify({
+          error: "Missing or invalid trigger_time parameter (must be 'hourly', '6am', '6pm' or 'resend')",
+        }),
         { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // Determine notification type based on phase
-    const notificationType = getNotificationType(triggerTime);
-    if (!notificationType) {
-      console.log(`[send-notifications] No notification needed for ${triggerTime} (current phase: ${getCurrentPhase()})`);
+    if (triggerParam === "resend" && !runId) {
       return new Response(
-        JSON.stringify({ message: "No notification needed for this phase/time combination" }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
+        JSON.stringify({ error: "trigger_time=resend requires run_id" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    const notification = NOTIFICATION_MESSAGES[notificationType];
-    if (!notification) {
-      throw new Error(`Unknown notification type: ${notificationType}`);
-    }
-
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    if (triggerParam === "resend") {
+      return await resendToFailed(supabase, runId as string);
+    }
+
+    const now = new Date();
+    const schedules = await fetchPhaseSchedules(supabase);
+
     // Get push tokens
-    let tokensQuery = supabase.from("push_tokens").select("user_id, expo_push_token");
-
-    // For posting_reminder, only send to users who haven't posted yet
-    if (notificationType === "posting_reminder") {
-      const cycleDateKey = getPacificIsoDateForCycleStart();
-      
-      // Get today's prompt ID
-      const { data: prompt } = await supabase
-        .from("daily_prompts")
-        .select("id")
-        .eq("prompt_date", cycleDateKey)
-        .limit(1)
-        .maybeSingle();
-
-      if (!prompt) {
-        console.log(`[send-notifications] No prompt found for date ${cycleDateKey}, skipping reminder`);
-        return new Response(
-          JSON.stringify({ message: "No prompt found for today, skipping reminder" }),
-          { status: 200, headers: { "Content-Type": "application/json" } }
-        );
-      }
+    const { data: tokens, error: tokensError } = await supabase
+      .from("push_tokens")
+      .select("user_id, expo_push_token");
+
+    if (tokensError) {
+      console.error("[send-notifications] Failed to fetch push tokens:", tokensError);
+      throw tokensError;
+    }
 
-      // Get users who have posted
-      const { data: usersWhoPosted } = await supabase
-        .from("yim_posts")
-        .select("author_id")
-        .eq("prompt_id", prompt.id);
+    if (!tokens || tokens.length === 0) {
+      console.log("[send-notifications] No push tokens found");
+      return new Response(
+        JSON.stringify({ message: "No push tokens found" }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
-      const postedUserIds = new Set((usersWhoPosted || []).map((p) => p.author_id));
+    // Resolve each user's zone (Pacific unless they picked one).
+    const userIds = Array.from(new Set(tokens.map((t) => t.user_id)));
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, time_zone")
+      .in("id", userIds);
 
-      // Fetch all tokens first, then filter out users who posted
-      const { data: allTokens, error: tokensError } = await tokensQuery;
-      
-      if (tokensError) {
-        console.error("[send-notifications] Failed to fetch push tokens:", tokensError);
-        throw tokensError;
-      }
+    if (profilesError) {
+      console.warn("[send-notifications] Failed to fetch profile time zones, using default:", profilesError);
+    }
 
-      // Filter out users who have already posted
-      const tokens = (allTokens || []).filter((t) => !postedUserIds.has(t.user_id));
-      
-      if (tokens.length === 0) {
-        console.log("[send-notifications] No push tokens found (all users have posted)");
-        return new Response(
-          JSON.stringify({ message: "No push tokens found (all users have posted)" }),
-          { status: 200, headers: { "Content-Type": "application/json" } }
-        );
-      }
+    const zoneByUserId = new Map<string, string>();
+    for (const p of profiles || []) {
+      if (isValidTimeZone(p.time_zone)) zoneByUserId.set(p.id, p.time_zone);
+    }
 
-      const expoPushTokens = tokens.map((t) => t.expo_push_token).filter(Boolean);
+    const { data: preferenceRows, error: preferencesError } = await supabase
+      .from("notification_preferences")
+      .select(`user_id,${NOTIFICATION_PREFERENCES_COLUMNS}`)
+      .in("user_id", userIds);
 
-      // Send notifications
-      await sendPushNotifications(expoPushTokens, notification);
+    if (preferencesError) {
+      console.warn("[send-notifications] Failed to fetch notification preferences, using defaults:", preferencesError);
+    }
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          notificationType,
-          tokensSent: expoPushTokens.length,
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
+    const preferencesByUserId = new Map<string, NotificationPreferences>();
+    for (const p of preferenceRows || []) {
+      preferencesByUserId.set(p.user_id, normalizeNotificationPreferences(p));
     }
 
-    // For non-reminder notifications, get all tokens
-    const { data: tokens, error: tokensError } = await tokensQuery;
+    // Evaluate the phase once per zone, the user's preferences per token, then bucket tokens by
+    // (notification type, cycle date). Cycle dates are shared prompt dates, so users in different
+    // zones land in the same bucket.
+    const evaluationByZone = new Map<
+      string,
+      { window: PhaseWindow; localHour: number; triggerType: NotificationType | null }
+    >();
+    const buckets = new Map<string, { notificationType: NotificationType; cycleDate: string; tokens: typeof tokens }>();
+    let muted = 0;
+
+    for (const token of tokens) {
+      const zone = zoneByUserId.get(token.user_id) ?? DEFAULT_TIME_ZONE;
+
+      let evaluation = evaluationByZone.get(zone);
+      if (!evaluation) {
+        const localSchedules = withTimeZone(schedules, zone);
+        const phaseWindow = getPhaseWindow(now, localSchedules);
+        const triggerTime =
+          triggerParam === "hourly" ? (isOpenTriggerDue(now, phaseWindow, localSchedules) ? "6am" : null) : triggerParam;
+        evaluation = {
+          window: phaseWindow,
+          localHour: getPartsInTimeZone(now, zone).hour,
+          triggerType: triggerTime ? getNotificationType(triggerTime, phaseWindow, localSchedules) : null,
+        };
+        evaluationByZone.set(zone, evaluation);
+      }
 
-    if (tokensError) {
-      console.error("[send-notifications] Failed to fetch push tokens:", tokensError);
-      throw tokensError;
+      const preferences = preferencesByUserId.get(token.user_id) ?? normalizeNotificationPreferences(null);
+      const notificationType =
+        evaluation.triggerType ??
+        (triggerParam === "hourly" && isReminderDue(evaluation.window, preferences.reminder_hours_before_close)
+          ? "posting_reminder"
+          : null);
+      if (!notificationType) continue;
+
+      if (
+        !isNotificationEnabled(preferences, notificationType) ||
+        (triggerParam === "hourly" && isInQuietHours(preferences, evaluation.localHour))
+      ) {
+        muted++;
+        continue;
+      }
+
+      const cycleDate = evaluation.window.cycleDate;
+      const key = `${notificationType}|${cycleDate}`;
+      const bucket = buckets.get(key) ?? { notificationType, cycleDate, tokens: [] };
+      bucket.tokens.push(token);
+      buckets.set(key, bucket);
     }
 
-    if (!tokens || tokens.length === 0) {
-      console.log("[send-notifications] No push tokens found");
+    if (buckets.size === 0) {
+      console.log(`[send-notifications] No notification needed for ${triggerParam}`);
       return new Response(
-        JSON.stringify({ message: "No push tokens found" }),
+        JSON.stringify({ message: "No notification needed for this phase/time combination", muted }),
         { status: 200, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    const expoPushTokens = tokens.map((t) => t.expo_push_token).filter(Boolean);
+    const sent: {
+      notificationType: NotificationType;
+      promptDate: string;
+      runId: string | null; // null for dry runs
+      recipients: number;
+      alreadySent: number; // claimed by an earlier invocation of the same run
+      tokensSent: number;
+      tokensFailed: number;
+      tokensPruned: number;
+      error: string | null;
+    }[] = [];
+
+    for (const bucket of buckets.values()) {
+      const notification = NOTIFICATION_MESSAGES[bucket.notificationType];
+      if (!notification) {
+        throw new Error(`Unknown notification type: ${bucket.notificationType}`);
+      }
+
+      let bucketTokens = bucket.tokens;
+
+      // For posting_reminder, only send to users who haven't posted yet
+      if (bucket.notificationType === "posting_reminder") {
+        // Get the prompt for this cycle date (users only see approved prompts)
+        const { data: prompt } = await supabase
+          .from("daily_prompts")
+          .select("id")
+          .eq("prompt_date", bucket.cycleDate)
+          .eq("status", "approved")
+          .limit(1)
+          .maybeSingle();
+
+        if (!prompt) {
+          console.log(`[send-notifications] No prompt found for date ${bucket.cycleDate}, skipping reminder`);
+          continue;
+        }
+
+        // Get users who have posted
+        const { data: usersWhoPosted } = await supabase
+          .from("yim_posts")
+          .select("author_id")
+          .eq("prompt_id", prompt.id);
 
-    // Send notifications
-    await sendPushNotifications(expoPushTokens, notification);
+        const postedUserIds = new Set((usersWhoPosted || []).map((p) => p.author_id));
 
+        // Filter out users who have already posted
+        bucketTokens = bucketTokens.filter((t) => !postedUserIds.has(t.user_id));
+      }
+
+      const recipients = bucketTokens.filter((t) => !!t.expo_push_token);
+      if (recipients.length === 0) {
+        console.log(`[send-notifications] No recipients left for ${bucket.notificationType} (${bucket.cycleDate})`);
+        continue;
+      }
+
+      const summary = {
+        notificationType: bucket.notificationType,
+        promptDate: bucket.cycleDate,
+        recipients: recipients.length,
+        alreadySent: 0,
+        tokensSent: 0,
+        tokensFailed: 0,
+        tokensPruned: 0,
+        error: null,
+      };
+
+      if (dryRun) {
+        const { error: dryRunError } = await supabase.from("notification_runs").insert({
+          cycle_date: bucket.cycleDate,
+          notification_type: bucket.notificationType,
+          dry_run: true,
+          status: "completed",
+          trigger_time: triggerParam,
+          recipient_count: recipients.length,
+          finished_at: new Date().toISOString(),
+        });
+        if (dryRunError) console.warn("[send-notifications] Failed to record dry run:", dryRunError);
+        sent.push({ ...summary, runId: null });
+        continue;
+      }
+
+      const { data: runId, error: runError } = await supabase.rpc("begin_notification_run", {
+        p_cycle_date: bucket.cycleDate,
+        p_notification_type: bucket.notificationType,
+        p_trigger_time: triggerParam,
+      });
+
+      if (runError || !runId) {
+        console.error("[send-notifications] Failed to begin run:", runError);
+        throw runError ?? new Error("begin_notification_run returned no run");
+      }
+
+      // Claim tokens for this run; ones an earlier invocation already claimed come back empty.
+      const { data: claimed, error: claimError } = await supabase
+        .from("notification_run_recipients")
+        .upsert(
+          recipients.map((t) => ({ run_id: runId, user_id: t.user_id, expo_push_token: t.expo_push_token })),
+          { onConflict: "run_id,expo_push_token", ignoreDuplicates: true }
+        )
+        .select("user_id, expo_push_token, attempts");
+
+      if (claimError) {
+        console.error("[send-notifications] Failed to claim recipients:", claimError);
+        await supabase.rpc("finish_notification_run", { p_run_id: runId, p_error: claimError.message });
+        sent.push({ ...summary, runId, error: claimError.message });
+        continue;
+      }
+
+      const toSend = (claimed || []) as RunRecipient[];
+      const result =
+        toSend.length > 0
+          ? await deliverToRunRecipients(supabase, runId, toSend, bucket.notificationType, bucket.cycleDate)
+          : { sent: 0, failed: 0, pruned: 0, error: null };
+
+      await supabase.rpc("finish_notification_run", { p_run_id: runId, p_error: result.error });
+
+      if (toSend.length === 0) {
+        console.log(`[send-notifications] ${bucket.notificationType} (${bucket.cycleDate}) already sent, skipping`);
+      }
+
+      sent.push({
+        ...summary,
+        runId,
+        alreadySent: recipients.length - toSend.length,
+        tokensSent: result.sent,
+        tokensFailed: result.failed,
+        tokensPruned: result.pruned,
+        error: result.error,
+      });
+    }
+
+    const errors = sent.filter((s) => s.error).length;
     return new Response(
-      JSON.stringify({
-        success: true,
-        notificationType,
-        tokensSent: expoPushTokens.length,
-      }),
-      { status: 200, headers: { "Content-Type": "application/json" } }
+      JSON.stringify({ success: errors === 0, dryRun, sent, muted }),
+      { status: errors === 0 ? 200 : 500, headers: { "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("[send-notifications] Error:", error);
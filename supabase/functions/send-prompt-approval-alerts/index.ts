@@ -0,0 +1,185 @@
+/**
+ * Supabase Edge Function: Send Prompt Approval Alerts
+ *
+ * Pushes to dashboard admins who can fix it (`admin_users` prompt editors and operators) when the
+ * current or next posting day's prompt is missing or not approved. The app only shows approved
+ * prompts, so an unapproved prompt means users get no prompt that day. Called hourly by pg_cron
+ * (20261107_prompt_review.sql), which skips the call when everything is approved.
+ *
+ * - Stages: day_before (posting opens within 24h), final (within 3h), live (the day has started).
+ *   Each stage is pushed once per posting day: `prompt_approval_alerts` rows are claimed before
+ *   sending.
+ * - Pushes carry no `data`, so tapping one just opens the app (admins act in the dashboard).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { sendTrackedPushMessages, type TrackedPushMessage } from "../_shared/push-deliveries.ts";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const DAY_BEFORE_LEAD_MS = 24 * MS_PER_HOUR;
+const FINAL_LEAD_MS = 3 * MS_PER_HOUR;
+const ALERT_ROLES = ["prompt_editor", "operator"];
+
+type AlertStage = "day_before" | "final" | "live";
+
+interface UpcomingPrompt {
+  posting_date: string;
+  starts_at: string;
+  prompt_id: string | null;
+  prompt_text: string | null;
+  status: "draft" | "in_review" | "approved" | null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "a draft",
+  in_review: "waiting for review",
+};
+
+function getStage(startsAt: Date, now: Date): AlertStage | null {
+  const lead = startsAt.getTime() - now.getTime();
+  if (lead <= 0) return "live";
+  if (lead <= FINAL_LEAD_MS) return "final";
+  if (lead <= DAY_BEFORE_LEAD_MS) return "day_before";
+  return null;
+}
+
+function describe(prompt: UpcomingPrompt, stage: AlertStage, startsAt: Date, now: Date) {
+  const problem = prompt.status
+    ? `The prompt for ${prompt.posting_date} is still ${STATUS_LABELS[prompt.status] ?? prompt.status}`
+    : `No prompt is scheduled for ${prompt.posting_date}`;
+
+  if (stage === "live") {
+    return {
+      title: "Today's prompt isn't live",
+      body: `${problem}, so users don't see a prompt. Approve it in the dashboard.`,
+    };
+  }
+
+  const hours = Math.max(1, Math.round((startsAt.getTime() - now.getTime()) / MS_PER_HOUR));
+  return {
+    title: prompt.status ? "Prompt needs approval" : "Prompt missing",
+    body: `${problem}. Posting opens in ${hours}h.`,
+  };
+}
+
+serve(async () => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    const { data: upcoming, error: upcomingError } = await supabase.rpc("get_upcoming_prompt_approvals");
+    if (upcomingError) {
+      console.error("[send-prompt-approval-alerts] Failed to load upcoming prompts:", upcomingError);
+      throw upcomingError;
+    }
+
+    const due = ((upcoming || []) as UpcomingPrompt[])
+      .filter((p) => p.status !== "approved")
+      .map((p) => {
+        const startsAt = new Date(p.starts_at);
+        return { prompt: p, startsAt, stage: getStage(startsAt, now) };
+      })
+      .filter((a): a is { prompt: UpcomingPrompt; startsAt: Date; stage: AlertStage } => a.stage !== null);
+
+    if (due.length === 0) {
+      return new Response(JSON.stringify({ message: "Nothing to alert" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: admins, error: adminsError } = await supabase
+      .from("admin_users")
+      .select("user_id")
+      .in("role", ALERT_ROLES);
+
+    if (adminsError) {
+      console.error("[send-prompt-approval-alerts] Failed to fetch admins:", adminsError);
+      throw adminsError;
+    }
+
+    const adminIds = (admins || []).map((a) => a.user_id as string);
+    const { data: tokens, error: tokensError } = adminIds.length
+      ? await supabase.from("push_tokens").select("user_id, expo_push_token").in("user_id", adminIds)
+      : { data: [], error: null };
+
+    if (tokensError) {
+      console.error("[send-prompt-approval-alerts] Failed to fetch push tokens:", tokensError);
+      throw tokensError;
+    }
+
+    const recipients = (tokens || []).filter((t) => !!t.expo_push_token);
+    const sent: { postingDate: string; stage: AlertStage; messages: number; failed: number; pruned: number }[] = [];
+
+    for (const { prompt, startsAt, stage } of due) {
+      // Claim first: a concurrent or repeated run finds the row and skips this stage.
+      const { data: claimed, error: claimError } = await supabase
+        .from("prompt_approval_alerts")
+        .upsert(
+          {
+            posting_date: prompt.posting_date,
+            stage,
+            prompt_id: prompt.prompt_id,
+            prompt_status: prompt.status,
+            recipient_count: recipients.length,
+          },
+          { onConflict: "posting_date,stage", ignoreDuplicates: true }
+        )
+        .select("posting_date");
+
+      if (claimError) {
+        console.error("[send-prompt-approval-alerts] Failed to claim alert:", claimError);
+        throw claimError;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      if (recipients.length === 0) {
+        console.log(`[send-prompt-approval-alerts] No admin push tokens for ${prompt.posting_date} (${stage})`);
+        sent.push({ postingDate: prompt.posting_date, stage, messages: 0, failed: 0, pruned: 0 });
+        continue;
+      }
+
+      const { title, body } = describe(prompt, stage, startsAt, now);
+      const notificationType = prompt.status ? "prompt_unapproved" : "prompt_missing";
+      const messages: TrackedPushMessage[] = recipients.map((t) => ({
+        userId: t.user_id,
+        notificationType,
+        message: {
+          to: t.expo_push_token,
+          title,
+          body,
+          sound: "default",
+          collapseId: `prompt-approval-${prompt.posting_date}`,
+        },
+      }));
+
+      const result = await sendTrackedPushMessages(supabase, messages, {
+        source: "admin",
+        logTag: "send-prompt-approval-alerts",
+      });
+      sent.push({
+        postingDate: prompt.posting_date,
+        stage,
+        messages: messages.length,
+        failed: result.failed,
+        pruned: result.pruned,
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, sent }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[send-prompt-approval-alerts] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
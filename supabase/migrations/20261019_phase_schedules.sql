@@ -0,0 +1,71 @@
+-- Configurable posting/viewing phase schedules
+-- Replaces the hardcoded "alternate every 24h at 6AM Pacific from Jan 13 2026" rotation.
+--
+-- Evaluated by supabase/functions/_shared/phase-schedule.ts (app, dashboard, send-notifications).
+-- The newest row whose effective_from is on/before a cycle date governs that date, so changing the
+-- cadence means inserting a new row rather than editing history.
+
+create table if not exists public.phase_schedules (
+  id uuid primary key default gen_random_uuid(),
+  effective_from date not null,
+  anchor_date date not null,
+  time_zone text not null default 'America/Los_Angeles',
+  flip_hour integer not null default 6,
+  -- Ordered phases that make up one cycle, e.g. [{"phase":"posting","days":1},{"phase":"viewing","days":2}]
+  segments jsonb not null default '[{"phase":"posting","days":1},{"phase":"viewing","days":1}]'::jsonb,
+  -- Days with no posting; the rotation pauses and resumes the next day
+  blackout_dates date[] not null default '{}',
+  note text,
+  created_at timestamptz not null default now(),
+  constraint phase_schedules_effective_from_unique unique (effective_from),
+  constraint phase_schedules_flip_hour_check check (flip_hour between 0 and 23),
+  constraint phase_schedules_segments_check check (
+    jsonb_typeof(segments) = 'array' and jsonb_array_length(segments) > 0
+  )
+);
+
+alter table public.phase_schedules enable row level security;
+
+-- Everyone signed in needs the schedule to compute the phase client-side.
+-- Writes go through the dashboard (service role).
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'phase_schedules'
+      and policyname = 'phase_schedules_select_authenticated'
+  ) then
+    create policy phase_schedules_select_authenticated
+      on public.phase_schedules
+      for select
+      to authenticated
+      using (true);
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public'
+      and tablename = 'phase_schedules'
+      and policyname = 'phase_schedules_service_role_all'
+  ) then
+    create policy phase_schedules_service_role_all
+      on public.phase_schedules
+      for all
+      to service_role
+      using (true)
+      with check (true);
+  end if;
+end $$;
+
+-- Seed the original rotation so behavior is unchanged until someone edits the schedule.
+insert into public.phase_schedules (effective_from, anchor_date, time_zone, flip_hour, segments, note)
+values (
+  '2026-01-13',
+  '2026-01-13',
+  'America/Los_Angeles',
+  6,
+  '[{"phase":"posting","days":1},{"phase":"viewing","days":1}]'::jsonb,
+  'Original alternating rotation (posting/viewing every 24h at 6AM PT)'
+)
+on conflict (effective_from) do nothing;
@@ -0,0 +1,57 @@
+-- Per-user time zones for the daily cycle
+-- Phases flip at the schedule's flip hour on each user's local clock; prompt dates stay shared.
+--
+-- 1) profiles.time_zone (IANA name, null = Pacific default)
+-- 2) Notification cron runs hourly; send-notifications picks the users whose local 6AM/6PM it is
+
+-- 1) Profile setting
+alter table public.profiles
+  add column if not exists time_zone text;
+
+-- Reject typos up front (the app/edge function would silently fall back to Pacific otherwise).
+create or replace function public.validate_profile_time_zone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.time_zone is not null
+     and not exists (select 1 from pg_timezone_names where name = new.time_zone) then
+    raise exception 'Unknown time zone: %', new.time_zone;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_validate_time_zone_trigger on public.profiles;
+create trigger profiles_validate_time_zone_trigger
+  before insert or update of time_zone on public.profiles
+  for each row
+  execute function public.validate_profile_time_zone();
+
+-- 2) Hourly fan-out replaces the fixed 14:00/02:00 UTC (6AM/6PM PST) jobs
+do $$
+begin
+  perform cron.unschedule('notification-6am-pst');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+do $$
+begin
+  perform cron.unschedule('notification-6pm-pst');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+do $$
+begin
+  perform cron.unschedule('notification-hourly');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+select cron.schedule(
+  'notification-hourly',
+  '0 * * * *', -- top of every hour (UTC)
+  $$select public.call_notification_edge_function('hourly')$$
+);
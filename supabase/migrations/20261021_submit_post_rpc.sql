@@ -0,0 +1,280 @@
+-- Server-authoritative posting window
+-- Clients used to decide locally (phase math, dev overrides, SecureStore flags) and then insert
+-- straight into yim_posts. Posting now goes through public.submit_post, which re-checks everything
+-- against the server clock and raises structured error codes the composer renders.
+--
+-- Error contract (PostgREST surfaces these as { code: 'P0001', message: <code>, details: <text> }):
+--   not_authenticated | invalid_quote | prompt_not_found | window_closed | blackout | already_posted
+--
+-- 1) SQL port of supabase/functions/_shared/phase-schedule.ts (keep in sync)
+-- 2) submit_post RPC
+-- 3) Lock down direct inserts on yim_posts
+
+-- =============================================================================
+-- 1) Phase schedule evaluation
+-- =============================================================================
+
+-- Schedule governing a cycle date: newest effective_from <= date, else the oldest row.
+-- Returns null when the table is empty (callers fall back to the default rotation).
+create or replace function public.phase_schedule_for_date(p_date date)
+returns public.phase_schedules
+language sql
+stable
+set search_path = public
+as $$
+  select s.*
+  from (
+    (select * from public.phase_schedules where effective_from <= p_date order by effective_from desc limit 1)
+    union all
+    (select * from public.phase_schedules order by effective_from asc limit 1)
+  ) s
+  limit 1;
+$$;
+
+-- Cycle date `p_now` falls in. p_time_zone overrides each schedule's zone (per-user zones).
+create or replace function public.cycle_date_at(p_now timestamptz, p_time_zone text default null)
+returns date
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  s record;
+  v_zone text;
+  v_date date;
+  v_oldest record;
+begin
+  for s in select * from public.phase_schedules order by effective_from desc loop
+    v_zone := coalesce(p_time_zone, s.time_zone);
+    v_date := ((p_now at time zone v_zone) - make_interval(hours => s.flip_hour))::date;
+    if v_date >= s.effective_from then
+      return v_date;
+    end if;
+    v_oldest := s;
+  end loop;
+
+  if v_oldest is not null then
+    v_zone := coalesce(p_time_zone, v_oldest.time_zone);
+    return ((p_now at time zone v_zone) - make_interval(hours => v_oldest.flip_hour))::date;
+  end if;
+
+  -- No schedules: original rotation (6AM America/Los_Angeles)
+  return ((p_now at time zone coalesce(p_time_zone, 'America/Los_Angeles')) - interval '6 hours')::date;
+end;
+$$;
+
+-- 'posting' | 'viewing' | 'blackout' for a cycle date.
+create or replace function public.phase_for_cycle_date(p_date date)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_schedule public.phase_schedules;
+  v_anchor date;
+  v_blackouts date[];
+  v_segments jsonb;
+  v_raw integer;
+  v_index integer;
+  v_length integer;
+  v_position integer;
+  seg record;
+begin
+  v_schedule := public.phase_schedule_for_date(p_date);
+
+  if v_schedule.id is null then
+    v_anchor := date '2026-01-13';
+    v_blackouts := '{}';
+    v_segments := '[{"phase":"posting","days":1},{"phase":"viewing","days":1}]'::jsonb;
+  else
+    v_anchor := v_schedule.anchor_date;
+    v_blackouts := v_schedule.blackout_dates;
+    v_segments := v_schedule.segments;
+  end if;
+
+  if p_date = any(v_blackouts) then
+    return 'blackout';
+  end if;
+
+  -- Blackout days pause the rotation.
+  v_raw := p_date - v_anchor;
+  if v_raw >= 0 then
+    v_index := v_raw - (select count(*) from unnest(v_blackouts) b where b >= v_anchor and b < p_date);
+  else
+    v_index := v_raw + (select count(*) from unnest(v_blackouts) b where b >= p_date and b < v_anchor);
+  end if;
+
+  select coalesce(sum((e->>'days')::integer), 0) into v_length from jsonb_array_elements(v_segments) e;
+  if v_length <= 0 then
+    return 'viewing';
+  end if;
+
+  v_position := ((v_index % v_length) + v_length) % v_length;
+
+  for seg in select e->>'phase' as phase, (e->>'days')::integer as days
+             from jsonb_array_elements(v_segments) with ordinality as t(e, ord)
+             order by ord loop
+    if v_position < seg.days then
+      return seg.phase;
+    end if;
+    v_position := v_position - seg.days;
+  end loop;
+
+  return 'viewing';
+end;
+$$;
+
+-- Most recent posting day on/before p_date (the prompt currently open for responses).
+create or replace function public.latest_posting_date(p_date date)
+returns date
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  i integer;
+begin
+  for i in 0..366 loop
+    if public.phase_for_cycle_date(p_date - i) = 'posting' then
+      return p_date - i;
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+-- =============================================================================
+-- 2) submit_post RPC
+-- =============================================================================
+
+create or replace function public.submit_post(
+  p_quote text,
+  p_background text,
+  p_font text default null,
+  p_font_color text default null,
+  p_font_size text default null,
+  p_text_highlight text default null,
+  p_expanded_text text default null,
+  p_photo_background_url text default null,
+  p_prompt_id text default null,
+  p_attribution text default ''
+)
+returns public.yim_posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_time_zone text;
+  v_cycle_date date;
+  v_open_date date;
+  v_prompt record;
+  v_override record;
+  v_force_open boolean := false;
+  v_word_count integer;
+  v_post public.yim_posts;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_quote is null or char_length(btrim(p_quote)) < 1 or char_length(btrim(p_quote)) > 120 then
+    raise exception 'invalid_quote' using detail = 'Your caption must be 1–120 characters.';
+  end if;
+
+  -- Evaluate the window in the author's zone, on the server clock.
+  select time_zone into v_time_zone from public.profiles where id = v_user_id;
+  v_cycle_date := public.cycle_date_at(now(), v_time_zone);
+
+  -- Latest active dev override wins (dashboard → Window Control).
+  select force_open, force_closed into v_override
+  from public.dev_prompt_overrides
+  where user_id = v_user_id
+    and (expires_at is null or expires_at > now())
+  order by created_at desc
+  limit 1;
+
+  if found and v_override.force_closed then
+    raise exception 'window_closed' using detail = 'Posting is closed for your account right now.';
+  end if;
+  v_force_open := found and coalesce(v_override.force_open, false);
+
+  if p_prompt_id is not null then
+    select id, prompt_date into v_prompt from public.daily_prompts where id::text = p_prompt_id;
+    if not found then
+      raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+    end if;
+
+    if not v_force_open then
+      if public.phase_for_cycle_date(v_cycle_date) = 'blackout' then
+        raise exception 'blackout' using detail = 'There is no prompt today.';
+      end if;
+
+      -- The open prompt is the latest posting day: during a posting day that's today, and on the
+      -- following viewing day(s) late responders can still answer it to unlock the feed.
+      v_open_date := public.latest_posting_date(v_cycle_date);
+      if v_open_date is null or v_prompt.prompt_date is distinct from v_open_date then
+        raise exception 'window_closed' using detail = 'The window for this prompt has closed.';
+      end if;
+    end if;
+
+    if exists (
+      select 1 from public.yim_posts
+      where author_id = v_user_id and prompt_id::text = p_prompt_id
+    ) then
+      raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+    end if;
+  elsif not v_force_open and public.phase_for_cycle_date(v_cycle_date) <> 'posting' then
+    raise exception 'window_closed' using detail = 'Posting is only open on posting days.';
+  end if;
+
+  v_word_count :=
+    coalesce(array_length(regexp_split_to_array(nullif(btrim(p_quote), ''), '\s+'), 1), 0)
+    + coalesce(array_length(regexp_split_to_array(nullif(btrim(coalesce(p_expanded_text, '')), ''), '\s+'), 1), 0);
+
+  begin
+    insert into public.yim_posts (
+      author_id, quote, attribution, background, font, font_color, font_size, text_highlight,
+      expanded_text, photo_background_url, prompt_id, prompt_date, word_count
+    )
+    values (
+      v_user_id, btrim(p_quote), coalesce(p_attribution, ''), p_background, p_font, p_font_color, p_font_size,
+      p_text_highlight, p_expanded_text, p_photo_background_url, v_prompt.id, v_prompt.prompt_date, v_word_count
+    )
+    returning * into v_post;
+  exception when unique_violation then
+    -- Concurrent double-submit raced past the exists() check above.
+    raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+  end;
+
+  return v_post;
+end;
+$$;
+
+revoke all on function public.submit_post(text, text, text, text, text, text, text, text, text, text) from public, anon;
+grant execute on function public.submit_post(text, text, text, text, text, text, text, text, text, text) to authenticated;
+
+-- =============================================================================
+-- 3) yim_posts: inserts only via submit_post
+-- =============================================================================
+
+-- Any legacy insert policy is irrelevant once the privilege is gone; submit_post runs as owner.
+revoke insert on public.yim_posts from anon, authenticated;
+
+-- Authors can still edit (expanded text) and delete their own posts.
+drop policy if exists yim_posts_update_own on public.yim_posts;
+create policy yim_posts_update_own
+  on public.yim_posts
+  for update
+  to authenticated
+  using (author_id = (select auth.uid()))
+  with check (author_id = (select auth.uid()));
+
+drop policy if exists yim_posts_delete_own on public.yim_posts;
+create policy yim_posts_delete_own
+  on public.yim_posts
+  for delete
+  to authenticated
+  using (author_id = (select auth.uid()));
@@ -0,0 +1,39 @@
+-- Realtime feed, likes, saves and comments
+-- The app subscribes to Postgres changes on these tables (hooks/useRealtimeFeed.ts, hooks/useComments.ts)
+-- and patches React Query caches live during the viewing phase.
+--
+-- 1) Publish the tables to supabase_realtime
+-- 2) REPLICA IDENTITY FULL on the engagement tables
+--
+-- Note: Realtime still sends only the primary key in DELETE payloads for RLS tables, whatever the
+-- replica identity, so the app can't read post_id/user_id from deleted rows. It matches deletes by
+-- id where it can and otherwise leaves counts to the next refetch (see hooks/useRealtimeFeed.ts).
+
+-- =============================================================================
+-- 1) Publication
+-- =============================================================================
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['yim_posts', 'post_likes', 'post_comments', 'post_saves'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
+
+-- =============================================================================
+-- 2) Replica identity
+-- =============================================================================
+
+-- yim_posts deletes only need the id, which the default identity already carries.
+alter table public.post_likes replica identity full;
+alter table public.post_comments replica identity full;
+alter table public.post_saves replica identity full;
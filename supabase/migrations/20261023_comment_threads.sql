@@ -0,0 +1,293 @@
+-- Threaded comment replies and comment likes
+--
+-- 1) post_comments.parent_comment_id (one level: replies to a reply attach to its root comment)
+-- 2) comment_likes table + RLS
+-- 3) New notification types: 'reply' (to the parent comment's author) and 'comment_like'
+-- 4) Notification triggers
+
+-- =============================================================================
+-- 1) Replies
+-- =============================================================================
+
+alter table public.post_comments
+  add column if not exists parent_comment_id uuid references public.post_comments(id) on delete cascade;
+
+create index if not exists post_comments_parent_comment_id_idx
+  on public.post_comments (parent_comment_id)
+  where parent_comment_id is not null;
+
+-- Keep threads one level deep and on the same post.
+create or replace function public.normalize_comment_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_parent record;
+begin
+  if new.parent_comment_id is null then
+    return new;
+  end if;
+
+  select id, post_id, parent_comment_id into v_parent
+  from public.post_comments
+  where id = new.parent_comment_id;
+
+  if not found then
+    raise exception 'parent comment % not found', new.parent_comment_id;
+  end if;
+
+  if v_parent.post_id <> new.post_id then
+    raise exception 'parent comment % belongs to a different post', new.parent_comment_id;
+  end if;
+
+  if v_parent.parent_comment_id is not null then
+    new.parent_comment_id := v_parent.parent_comment_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists post_comments_normalize_parent_trigger on public.post_comments;
+create trigger post_comments_normalize_parent_trigger
+  before insert on public.post_comments
+  for each row
+  execute function public.normalize_comment_parent();
+
+-- =============================================================================
+-- 2) Comment likes
+-- =============================================================================
+
+create table if not exists public.comment_likes (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.post_comments(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint comment_likes_comment_user_unique unique (comment_id, user_id)
+);
+
+create index if not exists comment_likes_comment_id_idx
+  on public.comment_likes (comment_id);
+
+create index if not exists comment_likes_user_id_idx
+  on public.comment_likes (user_id);
+
+alter table public.comment_likes enable row level security;
+
+drop policy if exists comment_likes_select_all on public.comment_likes;
+create policy comment_likes_select_all
+  on public.comment_likes
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists comment_likes_insert_own on public.comment_likes;
+create policy comment_likes_insert_own
+  on public.comment_likes
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists comment_likes_delete_own on public.comment_likes;
+create policy comment_likes_delete_own
+  on public.comment_likes
+  for delete
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+-- =============================================================================
+-- 3) Notification types
+-- =============================================================================
+
+alter table public.notifications drop constraint if exists notifications_notification_type_check;
+alter table public.notifications
+  add constraint notifications_notification_type_check
+  check (notification_type in ('like', 'comment', 'save', 'reply', 'comment_like'));
+
+-- Same contract as before; 'reply' / 'comment_like' are addressed to a comment author instead of
+-- the post author:
+-- - reply:        p_comment_id is the reply, p_user_id must author its parent comment
+-- - comment_like: p_comment_id is the liked comment, p_user_id must author it
+create or replace function public.create_notification(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_post_id uuid,
+  p_notification_type text,
+  p_comment_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+as $$
+declare
+  v_notification_id uuid;
+  v_recipient_id uuid;
+begin
+  -- Don't notify yourself
+  if p_user_id = p_actor_id then
+    return null;
+  end if;
+
+  -- Resolve who this notification type is addressed to
+  if p_notification_type = 'reply' then
+    select parent.user_id into v_recipient_id
+    from public.post_comments reply
+    join public.post_comments parent on parent.id = reply.parent_comment_id
+    where reply.id = p_comment_id;
+  elsif p_notification_type = 'comment_like' then
+    select user_id into v_recipient_id
+    from public.post_comments
+    where id = p_comment_id;
+  else
+    select author_id into v_recipient_id
+    from public.yim_posts
+    where id = p_post_id;
+  end if;
+
+  -- Verify the target exists and the user_id matches its author
+  if v_recipient_id is null or v_recipient_id != p_user_id then
+    return null;
+  end if;
+
+  -- Check if notification already exists (prevent duplicates)
+  -- For likes/saves: check if notification exists in last 5 minutes
+  -- For comments/replies: allow multiple (one per comment)
+  if p_notification_type in ('like', 'save', 'comment_like') then
+    select id into v_notification_id
+    from public.notifications
+    where user_id = p_user_id
+      and actor_id = p_actor_id
+      and post_id = p_post_id
+      and notification_type = p_notification_type
+      and comment_id is not distinct from p_comment_id
+      and created_at > now() - interval '5 minutes';
+
+    if v_notification_id is not null then
+      return v_notification_id;
+    end if;
+  end if;
+
+  begin
+    insert into public.notifications (
+      user_id,
+      actor_id,
+      post_id,
+      notification_type,
+      comment_id
+    )
+    values (
+      p_user_id,
+      p_actor_id,
+      p_post_id,
+      p_notification_type,
+      p_comment_id
+    )
+    returning id into v_notification_id;
+
+    return v_notification_id;
+  exception
+    when others then
+      -- Don't fail the like/comment/save if the notification can't be written
+      raise warning 'Failed to create notification for user %, actor %, post %, type %: %',
+        p_user_id, p_actor_id, p_post_id, p_notification_type, sqlerrm;
+      return null;
+  end;
+end;
+$$;
+
+-- =============================================================================
+-- 4) Triggers
+-- =============================================================================
+
+-- Replies notify the parent comment's author; the post author still gets a 'comment'
+-- unless they wrote the parent (one notification per person per reply).
+create or replace function public.notify_post_commented()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_post_author_id uuid;
+  v_parent_author_id uuid;
+begin
+  select author_id into v_post_author_id
+  from public.yim_posts
+  where id = new.post_id;
+
+  if new.parent_comment_id is not null then
+    select user_id into v_parent_author_id
+    from public.post_comments
+    where id = new.parent_comment_id;
+
+    if v_parent_author_id is not null then
+      perform public.create_notification(
+        v_parent_author_id,
+        new.user_id,
+        new.post_id,
+        'reply',
+        new.id
+      );
+    end if;
+  end if;
+
+  if v_post_author_id is not null and v_post_author_id is distinct from v_parent_author_id then
+    perform public.create_notification(
+      v_post_author_id,
+      new.user_id,
+      new.post_id,
+      'comment',
+      new.id
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.notify_comment_liked()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_comment record;
+begin
+  select user_id, post_id into v_comment
+  from public.post_comments
+  where id = new.comment_id;
+
+  if found then
+    perform public.create_notification(
+      v_comment.user_id,
+      new.user_id,
+      v_comment.post_id,
+      'comment_like',
+      new.comment_id
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists comment_likes_notify_trigger on public.comment_likes;
+create trigger comment_likes_notify_trigger
+  after insert on public.comment_likes
+  for each row
+  execute function public.notify_comment_liked();
+
+-- Live like counts in open comment threads (see hooks/useComments.ts)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'comment_likes'
+  ) then
+    alter publication supabase_realtime add table public.comment_likes;
+  end if;
+end $$;
+
+alter table public.comment_likes replica identity full;
@@ -0,0 +1,175 @@
+-- Post edits with history
+-- The composer used to "edit" by deleting the post and calling submit_post again, which dropped
+-- likes, saves and comments (and failed outright once the window had closed). Edits now go through
+-- public.edit_post, which keeps the post id, snapshots the previous version into
+-- yim_post_revisions and stamps yim_posts.edited_at.
+--
+-- Error contract (same shape as submit_post):
+--   not_authenticated | invalid_quote | post_not_found | edit_window_closed
+--
+-- 1) yim_posts.edited_at + yim_post_revisions
+-- 2) edit_post RPC (edit window closes when the viewing phase begins)
+-- 3) Lock down direct updates on yim_posts
+
+-- =============================================================================
+-- 1) Schema
+-- =============================================================================
+
+alter table public.yim_posts
+  add column if not exists edited_at timestamptz;
+
+-- One row per superseded version (the live version stays in yim_posts).
+create table if not exists public.yim_post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.yim_posts(id) on delete cascade,
+  author_id uuid not null references auth.users(id) on delete cascade,
+  revision integer not null,
+  quote text not null,
+  attribution text,
+  background text,
+  font text,
+  font_color text,
+  font_size text,
+  text_highlight text,
+  expanded_text text,
+  photo_background_url text,
+  created_at timestamptz not null default now(),
+  constraint yim_post_revisions_post_revision_unique unique (post_id, revision)
+);
+
+create index if not exists yim_post_revisions_post_id_idx
+  on public.yim_post_revisions (post_id, revision desc);
+
+alter table public.yim_post_revisions enable row level security;
+
+-- History is private to the author; everyone else only sees the "edited" marker.
+drop policy if exists yim_post_revisions_select_own on public.yim_post_revisions;
+create policy yim_post_revisions_select_own
+  on public.yim_post_revisions
+  for select
+  to authenticated
+  using (author_id = (select auth.uid()));
+
+-- Rows are written by edit_post only.
+revoke insert, update, delete on public.yim_post_revisions from anon, authenticated;
+
+-- =============================================================================
+-- 2) edit_post RPC
+-- =============================================================================
+
+-- Full replacement of the editable fields (the client sends the whole composer state).
+-- The window is open while the post's cycle is the current posting day: it closes when the
+-- viewing phase begins. Dev overrides apply the same way as in submit_post.
+create or replace function public.edit_post(
+  p_post_id uuid,
+  p_quote text,
+  p_background text,
+  p_font text default null,
+  p_font_color text default null,
+  p_font_size text default null,
+  p_text_highlight text default null,
+  p_expanded_text text default null,
+  p_photo_background_url text default null
+)
+returns public.yim_posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_time_zone text;
+  v_cycle_date date;
+  v_post_date date;
+  v_override record;
+  v_force_open boolean := false;
+  v_old public.yim_posts;
+  v_revision integer;
+  v_word_count integer;
+  v_post public.yim_posts;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_quote is null or char_length(btrim(p_quote)) < 1 or char_length(btrim(p_quote)) > 120 then
+    raise exception 'invalid_quote' using detail = 'Your caption must be 1–120 characters.';
+  end if;
+
+  -- Lock the row so concurrent edits number their revisions in order.
+  select * into v_old
+  from public.yim_posts
+  where id = p_post_id and author_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'post_not_found' using detail = 'That post no longer exists.';
+  end if;
+
+  select time_zone into v_time_zone from public.profiles where id = v_user_id;
+  v_cycle_date := public.cycle_date_at(now(), v_time_zone);
+  v_post_date := coalesce(v_old.prompt_date, public.cycle_date_at(v_old.created_at, v_time_zone));
+
+  select force_open, force_closed into v_override
+  from public.dev_prompt_overrides
+  where user_id = v_user_id
+    and (expires_at is null or expires_at > now())
+  order by created_at desc
+  limit 1;
+
+  if found and v_override.force_closed then
+    raise exception 'edit_window_closed' using detail = 'Editing is closed for your account right now.';
+  end if;
+  v_force_open := found and coalesce(v_override.force_open, false);
+
+  if not v_force_open
+    and (public.phase_for_cycle_date(v_cycle_date) <> 'posting' or v_post_date is distinct from v_cycle_date)
+  then
+    raise exception 'edit_window_closed' using detail = 'Posts can only be edited until the viewing phase begins.';
+  end if;
+
+  select coalesce(max(revision), 0) + 1 into v_revision
+  from public.yim_post_revisions
+  where post_id = v_old.id;
+
+  insert into public.yim_post_revisions (
+    post_id, author_id, revision, quote, attribution, background, font, font_color, font_size,
+    text_highlight, expanded_text, photo_background_url
+  )
+  values (
+    v_old.id, v_old.author_id, v_revision, v_old.quote, v_old.attribution, v_old.background, v_old.font,
+    v_old.font_color, v_old.font_size, v_old.text_highlight, v_old.expanded_text, v_old.photo_background_url
+  );
+
+  v_word_count :=
+    coalesce(array_length(regexp_split_to_array(nullif(btrim(p_quote), ''), '\s+'), 1), 0)
+    + coalesce(array_length(regexp_split_to_array(nullif(btrim(coalesce(p_expanded_text, '')), ''), '\s+'), 1), 0);
+
+  update public.yim_posts
+  set quote = btrim(p_quote),
+      background = p_background,
+      font = p_font,
+      font_color = p_font_color,
+      font_size = p_font_size,
+      text_highlight = p_text_highlight,
+      expanded_text = p_expanded_text,
+      photo_background_url = p_photo_background_url,
+      word_count = v_word_count,
+      edited_at = now()
+  where id = v_old.id
+  returning * into v_post;
+
+  return v_post;
+end;
+$$;
+
+revoke all on function public.edit_post(uuid, text, text, text, text, text, text, text, text) from public, anon;
+grant execute on function public.edit_post(uuid, text, text, text, text, text, text, text, text) to authenticated;
+
+-- =============================================================================
+-- 3) yim_posts: updates only via edit_post
+-- =============================================================================
+
+-- Direct updates would bypass both the edit window and the revision history.
+drop policy if exists yim_posts_update_own on public.yim_posts;
+revoke update on public.yim_posts from anon, authenticated;
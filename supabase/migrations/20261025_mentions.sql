@@ -0,0 +1,268 @@
+-- @mentions in comments and post responses
+-- Mentions are plain text (`@username`); the app parses them for links and autocomplete
+-- (lib/mentions.ts). Only friends of the author can be mentioned into a notification.
+--
+-- 1) New notification type: 'mention'
+-- 2) mentioned_friend_ids helper
+-- 3) create_notification: verify mentions
+-- 4) Triggers: comments and posts notify mentioned friends
+
+-- =============================================================================
+-- 1) Notification type
+-- =============================================================================
+
+alter table public.notifications drop constraint if exists notifications_notification_type_check;
+alter table public.notifications
+  add constraint notifications_notification_type_check
+  check (notification_type in ('like', 'comment', 'save', 'reply', 'comment_like', 'mention'));
+
+-- =============================================================================
+-- 2) Mention parsing
+-- =============================================================================
+
+-- Friends of p_actor_id mentioned in p_text. Same rules as lib/mentions.ts: usernames are
+-- [a-z0-9_]+ and the `@` must start the text or follow a non-username character (skips emails).
+create or replace function public.mentioned_friend_ids(p_actor_id uuid, p_text text)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id
+  from public.profiles p
+  where p.id <> p_actor_id
+    and p.username in (
+      select lower(m[1])
+      from regexp_matches(coalesce(p_text, ''), '(?:^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]+)', 'g') as m
+    )
+    and exists (
+      select 1 from public.friendships f
+      where f.status = 'accepted'
+        and (
+          (f.user_id = p_actor_id and f.friend_id = p.id)
+          or (f.friend_id = p_actor_id and f.user_id = p.id)
+        )
+    );
+$$;
+
+-- Internal to the notification functions (it would otherwise expose anyone's friend list).
+revoke all on function public.mentioned_friend_ids(uuid, text) from public, anon, authenticated;
+
+-- =============================================================================
+-- 3) create_notification
+-- =============================================================================
+
+-- Same contract as before, plus:
+-- - mention: p_comment_id is the comment that mentions p_user_id, or null when the mention is in
+--   the post's expanded text; p_user_id must be a mentioned friend of p_actor_id
+create or replace function public.create_notification(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_post_id uuid,
+  p_notification_type text,
+  p_comment_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+as $$
+declare
+  v_notification_id uuid;
+  v_recipient_id uuid;
+  v_text text;
+begin
+  -- Don't notify yourself
+  if p_user_id = p_actor_id then
+    return null;
+  end if;
+
+  -- Resolve who this notification type is addressed to
+  if p_notification_type = 'reply' then
+    select parent.user_id into v_recipient_id
+    from public.post_comments reply
+    join public.post_comments parent on parent.id = reply.parent_comment_id
+    where reply.id = p_comment_id;
+  elsif p_notification_type = 'comment_like' then
+    select user_id into v_recipient_id
+    from public.post_comments
+    where id = p_comment_id;
+  elsif p_notification_type = 'mention' then
+    if p_comment_id is not null then
+      select content into v_text
+      from public.post_comments
+      where id = p_comment_id and user_id = p_actor_id and post_id = p_post_id;
+    else
+      select expanded_text into v_text
+      from public.yim_posts
+      where id = p_post_id and author_id = p_actor_id;
+    end if;
+
+    if p_user_id in (select public.mentioned_friend_ids(p_actor_id, v_text)) then
+      v_recipient_id := p_user_id;
+    end if;
+  else
+    select author_id into v_recipient_id
+    from public.yim_posts
+    where id = p_post_id;
+  end if;
+
+  -- Verify the target exists and the user_id matches its author
+  if v_recipient_id is null or v_recipient_id != p_user_id then
+    return null;
+  end if;
+
+  -- Check if notification already exists (prevent duplicates)
+  -- For likes/saves: check if notification exists in last 5 minutes
+  -- For post mentions: once per post (edits re-run the trigger)
+  -- For comments/replies: allow multiple (one per comment)
+  if p_notification_type in ('like', 'save', 'comment_like') then
+    select id into v_notification_id
+    from public.notifications
+    where user_id = p_user_id
+      and actor_id = p_actor_id
+      and post_id = p_post_id
+      and notification_type = p_notification_type
+      and comment_id is not distinct from p_comment_id
+      and created_at > now() - interval '5 minutes';
+
+    if v_notification_id is not null then
+      return v_notification_id;
+    end if;
+  elsif p_notification_type = 'mention' then
+    select id into v_notification_id
+    from public.notifications
+    where user_id = p_user_id
+      and actor_id = p_actor_id
+      and post_id = p_post_id
+      and notification_type = 'mention'
+      and comment_id is not distinct from p_comment_id;
+
+    if v_notification_id is not null then
+      return v_notification_id;
+    end if;
+  end if;
+
+  begin
+    insert into public.notifications (
+      user_id,
+      actor_id,
+      post_id,
+      notification_type,
+      comment_id
+    )
+    values (
+      p_user_id,
+      p_actor_id,
+      p_post_id,
+      p_notification_type,
+      p_comment_id
+    )
+    returning id into v_notification_id;
+
+    return v_notification_id;
+  exception
+    when others then
+      -- Don't fail the like/comment/save if the notification can't be written
+      raise warning 'Failed to create notification for user %, actor %, post %, type %: %',
+        p_user_id, p_actor_id, p_post_id, p_notification_type, sqlerrm;
+      return null;
+  end;
+end;
+$$;
+
+-- =============================================================================
+-- 4) Triggers
+-- =============================================================================
+
+-- Replies notify the parent comment's author; the post author still gets a 'comment'
+-- unless they wrote the parent; mentioned friends get a 'mention' unless already notified above
+-- (one notification per person per comment).
+create or replace function public.notify_post_commented()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_post_author_id uuid;
+  v_parent_author_id uuid;
+  v_mentioned_id uuid;
+begin
+  select author_id into v_post_author_id
+  from public.yim_posts
+  where id = new.post_id;
+
+  if new.parent_comment_id is not null then
+    select user_id into v_parent_author_id
+    from public.post_comments
+    where id = new.parent_comment_id;
+
+    if v_parent_author_id is not null then
+      perform public.create_notification(
+        v_parent_author_id,
+        new.user_id,
+        new.post_id,
+        'reply',
+        new.id
+      );
+    end if;
+  end if;
+
+  if v_post_author_id is not null and v_post_author_id is distinct from v_parent_author_id then
+    perform public.create_notification(
+      v_post_author_id,
+      new.user_id,
+      new.post_id,
+      'comment',
+      new.id
+    );
+  end if;
+
+  for v_mentioned_id in select public.mentioned_friend_ids(new.user_id, new.content) loop
+    if v_mentioned_id is distinct from v_post_author_id and v_mentioned_id is distinct from v_parent_author_id then
+      perform public.create_notification(
+        v_mentioned_id,
+        new.user_id,
+        new.post_id,
+        'mention',
+        new.id
+      );
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+-- Mentions in a post's response. Runs on edits too; create_notification dedupes per post.
+create or replace function public.notify_post_mentions()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_mentioned_id uuid;
+begin
+  if new.expanded_text is null or position('@' in new.expanded_text) = 0 then
+    return new;
+  end if;
+
+  for v_mentioned_id in select public.mentioned_friend_ids(new.author_id, new.expanded_text) loop
+    perform public.create_notification(
+      v_mentioned_id,
+      new.author_id,
+      new.id,
+      'mention',
+      null
+    );
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists yim_posts_notify_mentions_trigger on public.yim_posts;
+create trigger yim_posts_notify_mentions_trigger
+  after insert or update of expanded_text on public.yim_posts
+  for each row
+  execute function public.notify_post_mentions();
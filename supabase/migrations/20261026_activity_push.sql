@@ -0,0 +1,122 @@
+-- Push delivery for activity notifications
+-- Likes, comments, saves, replies, comment likes and mentions used to only land in
+-- public.notifications (visible in app/activity.tsx). Every row create_notification writes is now
+-- also queued for push; the send-activity-push edge function drains the queue every minute,
+-- coalescing bursts ("3 friends liked your reflection") and holding pushes during quiet hours.
+--
+-- 1) activity_push_queue + enqueue trigger on notifications
+-- 2) Worker invocation via pg_net + pg_cron (reuses notification_config)
+
+-- =============================================================================
+-- 1) Queue
+-- =============================================================================
+
+create table if not exists public.activity_push_queue (
+  id uuid primary key default gen_random_uuid(),
+  notification_id uuid not null references public.notifications(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  actor_id uuid not null references auth.users(id) on delete cascade,
+  post_id uuid,
+  comment_id uuid,
+  notification_type text not null,
+  -- pending → sent | coalesced (folded into another row's push) | skipped (no tokens, stale)
+  status text not null default 'pending',
+  error text,
+  created_at timestamptz not null default now(),
+  processed_at timestamptz,
+  constraint activity_push_queue_notification_unique unique (notification_id),
+  constraint activity_push_queue_status_check check (status in ('pending', 'sent', 'coalesced', 'skipped'))
+);
+
+create index if not exists activity_push_queue_pending_idx
+  on public.activity_push_queue (created_at)
+  where status = 'pending';
+
+-- Service role only (the worker); no client policies.
+alter table public.activity_push_queue enable row level security;
+
+create or replace function public.enqueue_activity_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.activity_push_queue (
+    notification_id, user_id, actor_id, post_id, comment_id, notification_type
+  )
+  values (
+    new.id, new.user_id, new.actor_id, new.post_id, new.comment_id, new.notification_type
+  )
+  on conflict (notification_id) do nothing;
+
+  return new;
+exception
+  when others then
+    -- Never fail the like/comment/save because push couldn't be queued
+    raise warning 'Failed to enqueue activity push for notification %: %', new.id, sqlerrm;
+    return new;
+end;
+$$;
+
+drop trigger if exists notifications_enqueue_push_trigger on public.notifications;
+create trigger notifications_enqueue_push_trigger
+  after insert on public.notifications
+  for each row
+  execute function public.enqueue_activity_push();
+
+-- =============================================================================
+-- 2) Worker schedule
+-- =============================================================================
+
+-- Same pattern as call_notification_edge_function (20260112_notification_cron.sql).
+create or replace function public.call_activity_push_edge_function()
+returns void
+language plpgsql
+security definer
+as $$
+declare
+  supabase_url text;
+  service_role_key text;
+  job_id bigint;
+begin
+  select n.supabase_url, n.service_role_key
+  into supabase_url, service_role_key
+  from public.notification_config n
+  where n.id = 'default'
+  limit 1;
+
+  if supabase_url is null or service_role_key is null then
+    raise exception 'Notification config not set (see 20260112_notification_cron.sql).';
+  end if;
+
+  -- Skip the HTTP call when there's nothing to send.
+  if not exists (select 1 from public.activity_push_queue where status = 'pending') then
+    return;
+  end if;
+
+  select net.http_post(
+    url := supabase_url || '/functions/v1/send-activity-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) into job_id;
+end;
+$$;
+
+grant execute on function public.call_activity_push_edge_function() to postgres;
+
+do $$
+begin
+  perform cron.unschedule('activity-push-every-minute');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+select cron.schedule(
+  'activity-push-every-minute',
+  '* * * * *',
+  $$select public.call_activity_push_edge_function()$$
+);
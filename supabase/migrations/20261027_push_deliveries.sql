@@ -0,0 +1,100 @@
+-- Expo push receipts and dead-token pruning
+-- Edge functions used to log failed tickets and move on: receipts were never fetched, so
+-- DeviceNotRegistered tokens stayed in push_tokens forever and delivery failures were invisible.
+--
+-- Flow:
+-- - send-notifications / send-activity-push record one push_deliveries row per message (ticket id
+--   or the ticket error) and prune tokens whose ticket already says DeviceNotRegistered.
+-- - check-push-receipts runs every 15 minutes, fetches receipts for tickets older than 15 minutes,
+--   settles rows as delivered/failed and prunes tokens that receipts report as unregistered.
+-- - The dashboard performance page reports delivery rates from this table.
+--
+-- 1) push_deliveries
+-- 2) Receipt worker schedule
+
+-- =============================================================================
+-- 1) push_deliveries
+-- =============================================================================
+
+create table if not exists public.push_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete set null,
+  expo_push_token text not null,
+  source text not null, -- edge function that sent it: 'phase' | 'activity'
+  notification_type text not null,
+  ticket_id text,
+  -- pending (ticket ok, receipt not checked yet) → delivered | failed | expired (receipt never came)
+  status text not null default 'pending',
+  error text, -- Expo error code, e.g. DeviceNotRegistered, MessageRateExceeded
+  error_message text,
+  created_at timestamptz not null default now(),
+  receipt_checked_at timestamptz,
+  constraint push_deliveries_ticket_id_unique unique (ticket_id),
+  constraint push_deliveries_source_check check (source in ('phase', 'activity')),
+  constraint push_deliveries_status_check check (status in ('pending', 'delivered', 'failed', 'expired'))
+);
+
+create index if not exists push_deliveries_pending_idx
+  on public.push_deliveries (created_at)
+  where status = 'pending';
+
+create index if not exists push_deliveries_created_at_idx
+  on public.push_deliveries (created_at desc);
+
+-- Service role only (edge functions + dashboard); no client policies.
+alter table public.push_deliveries enable row level security;
+
+-- =============================================================================
+-- 2) Receipt worker schedule
+-- =============================================================================
+
+-- Same pattern as call_notification_edge_function (20260112_notification_cron.sql).
+create or replace function public.call_push_receipts_edge_function()
+returns void
+language plpgsql
+security definer
+as $$
+declare
+  supabase_url text;
+  service_role_key text;
+  job_id bigint;
+begin
+  select n.supabase_url, n.service_role_key
+  into supabase_url, service_role_key
+  from public.notification_config n
+  where n.id = 'default'
+  limit 1;
+
+  if supabase_url is null or service_role_key is null then
+    raise exception 'Notification config not set (see 20260112_notification_cron.sql).';
+  end if;
+
+  if not exists (select 1 from public.push_deliveries where status = 'pending') then
+    return;
+  end if;
+
+  select net.http_post(
+    url := supabase_url || '/functions/v1/check-push-receipts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) into job_id;
+end;
+$$;
+
+grant execute on function public.call_push_receipts_edge_function() to postgres;
+
+do $$
+begin
+  perform cron.unschedule('push-receipts-every-15-minutes');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+select cron.schedule(
+  'push-receipts-every-15-minutes',
+  '*/15 * * * *',
+  $$select public.call_push_receipts_edge_function()$$
+);
@@ -0,0 +1,79 @@
+-- Per-user notification preferences and quiet hours
+-- Until now the only control was the OS permission: every token got every phase message and every
+-- activity push. Users can now pick which pushes they get (app/notification-settings.tsx).
+--
+-- - No row = defaults (everything on, quiet 22:00–06:00 local, reminder 12h before close).
+-- - send-notifications filters phase pushes by the toggles, quiet hours and reminder timing.
+-- - send-activity-push skips muted activity types and holds pushes during the user's quiet hours.
+-- - Hours are local to profiles.time_zone. The default window ends at 6 so the 6AM
+--   "posting open" push isn't swallowed.
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+
+  -- Phase pushes (send-notifications)
+  posting_open boolean not null default true,
+  posting_reminder boolean not null default true,
+  viewing_open boolean not null default true,
+  -- Hours before the posting window closes; 12 = the classic 6PM reminder
+  reminder_hours_before_close smallint not null default 12,
+
+  -- Activity pushes (send-activity-push), one per notifications.notification_type
+  activity_like boolean not null default true,
+  activity_comment boolean not null default true,
+  activity_save boolean not null default true,
+  activity_reply boolean not null default true,
+  activity_comment_like boolean not null default true,
+  activity_mention boolean not null default true,
+
+  -- Quiet hours: [start, end) local hours; start > end wraps midnight
+  quiet_hours_enabled boolean not null default true,
+  quiet_hours_start smallint not null default 22,
+  quiet_hours_end smallint not null default 6,
+
+  updated_at timestamptz not null default now(),
+
+  constraint notification_preferences_reminder_check check (reminder_hours_before_close in (1, 2, 3, 6, 12)),
+  constraint notification_preferences_quiet_start_check check (quiet_hours_start between 0 and 23),
+  constraint notification_preferences_quiet_end_check check (quiet_hours_end between 0 and 23)
+);
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists notification_preferences_select_own on public.notification_preferences;
+create policy notification_preferences_select_own
+  on public.notification_preferences
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+drop policy if exists notification_preferences_insert_own on public.notification_preferences;
+create policy notification_preferences_insert_own
+  on public.notification_preferences
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists notification_preferences_update_own on public.notification_preferences;
+create policy notification_preferences_update_own
+  on public.notification_preferences
+  for update
+  to authenticated
+  using (user_id = (select auth.uid()))
+  with check (user_id = (select auth.uid()));
+
+create or replace function public.update_notification_preferences_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists notification_preferences_updated_at_trigger on public.notification_preferences;
+create trigger notification_preferences_updated_at_trigger
+  before update on public.notification_preferences
+  for each row
+  execute function public.update_notification_preferences_updated_at();
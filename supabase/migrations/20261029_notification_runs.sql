@@ -0,0 +1,151 @@
+-- Idempotent, auditable phase notification runs
+-- pg_cron fires send-notifications with just trigger_time; a retry or a double-fire sent every
+-- user the same push again and nothing recorded what went out.
+--
+-- Model:
+-- - One notification_runs row per (cycle date, notification type). Every hourly invocation that
+--   has recipients for that pair joins the same run (users in other zones / with other reminder
+--   timing are picked up by later invocations).
+-- - notification_run_recipients claims each token once per run (primary key), so a rerun only
+--   sends to tokens it hasn't claimed yet: rerunning a finished hour is a no-op.
+-- - Dry runs (dry_run=1) record what would have been sent and never claim recipients.
+-- - The dashboard lists runs and can resend to a run's failed recipients.
+--
+-- 1) Tables
+-- 2) Run bookkeeping functions
+
+-- =============================================================================
+-- 1) Tables
+-- =============================================================================
+
+create table if not exists public.notification_runs (
+  id uuid primary key default gen_random_uuid(),
+  cycle_date date not null,
+  notification_type text not null,
+  dry_run boolean not null default false,
+  -- running → completed | failed (last invocation threw); rerun/resend sets it back to running
+  status text not null default 'running',
+  trigger_time text, -- last trigger that touched the run: 'hourly' | '6am' | '6pm' | 'resend'
+  invocations integer not null default 1,
+  recipient_count integer not null default 0,
+  sent_count integer not null default 0,
+  failed_count integer not null default 0,
+  error text, -- last invocation error
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  constraint notification_runs_type_check check (notification_type in ('posting_open', 'posting_reminder', 'viewing_open')),
+  constraint notification_runs_status_check check (status in ('running', 'completed', 'failed'))
+);
+
+-- The idempotency key; dry runs don't take it.
+create unique index if not exists notification_runs_cycle_type_key
+  on public.notification_runs (cycle_date, notification_type)
+  where not dry_run;
+
+create index if not exists notification_runs_started_at_idx
+  on public.notification_runs (started_at desc);
+
+create table if not exists public.notification_run_recipients (
+  run_id uuid not null references public.notification_runs(id) on delete cascade,
+  expo_push_token text not null,
+  user_id uuid references auth.users(id) on delete set null,
+  -- pending (claimed, send in flight) → sent (ticket ok) | failed (ticket or receipt error)
+  status text not null default 'pending',
+  ticket_id text,
+  error text,
+  attempts integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (run_id, expo_push_token),
+  constraint notification_run_recipients_status_check check (status in ('pending', 'sent', 'failed'))
+);
+
+create index if not exists notification_run_recipients_ticket_idx
+  on public.notification_run_recipients (ticket_id)
+  where ticket_id is not null;
+
+-- Service role only (edge functions + dashboard); no client policies.
+alter table public.notification_runs enable row level security;
+alter table public.notification_run_recipients enable row level security;
+
+-- =============================================================================
+-- 2) Run bookkeeping functions
+-- =============================================================================
+
+-- Get (or create) the run for (cycle date, type) and mark it running.
+create or replace function public.begin_notification_run(
+  p_cycle_date date,
+  p_notification_type text,
+  p_trigger_time text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_run_id uuid;
+begin
+  insert into public.notification_runs (cycle_date, notification_type, trigger_time)
+  values (p_cycle_date, p_notification_type, p_trigger_time)
+  on conflict (cycle_date, notification_type) where not dry_run
+  do update set
+    status = 'running',
+    trigger_time = excluded.trigger_time,
+    invocations = notification_runs.invocations + 1,
+    error = null,
+    finished_at = null
+  returning id into v_run_id;
+
+  return v_run_id;
+end;
+$$;
+
+-- Recount from recipients (also called by check-push-receipts when receipts fail).
+create or replace function public.refresh_notification_run_counts(p_run_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.notification_runs r
+  set
+    recipient_count = c.total,
+    sent_count = c.sent,
+    failed_count = c.failed
+  from (
+    select
+      run_id,
+      count(*)::int as total,
+      count(*) filter (where status = 'sent')::int as sent,
+      count(*) filter (where status = 'failed')::int as failed
+    from public.notification_run_recipients
+    where run_id = any(p_run_ids)
+    group by run_id
+  ) c
+  where r.id = c.run_id;
+end;
+$$;
+
+create or replace function public.finish_notification_run(p_run_id uuid, p_error text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_notification_run_counts(array[p_run_id]);
+
+  update public.notification_runs
+  set
+    status = case when p_error is null then 'completed' else 'failed' end,
+    error = p_error,
+    finished_at = now()
+  where id = p_run_id;
+end;
+$$;
+
+revoke execute on function public.begin_notification_run(date, text, text) from public, anon, authenticated;
+revoke execute on function public.refresh_notification_run_counts(uuid[]) from public, anon, authenticated;
+revoke execute on function public.finish_notification_run(uuid, text) from public, anon, authenticated;
@@ -0,0 +1,425 @@
+-- Friend requests
+-- Friendship used to be instant: accepting an invite link (or the alpha auto-friend trigger)
+-- inserted an accepted row straight from the client. People can now find each other by username
+-- and send a request the other side accepts or declines (app/(tabs)/friends.tsx). Invite links
+-- still befriend instantly (the link itself is the consent), now through accept_friend_invitation.
+--
+-- friendships.status: pending (user_id asked friend_id) → accepted | declined. Cancelled requests
+-- are deleted. One row per pair, in either direction; everything that reads friends keeps
+-- filtering status = 'accepted'.
+--
+-- Error contract (PostgREST surfaces these as { code: 'P0001', message: <code>, details: <text> }):
+--   not_authenticated | user_not_found | cannot_friend_self | already_friends | request_pending |
+--   request_unavailable | request_not_found | rate_limited | invalid_invitation
+--
+-- 1) friendships: statuses, one row per pair, client writes
+-- 2) Notification types: 'friend_request', 'friend_accepted'
+-- 3) Request RPCs + search
+-- 4) Invite links
+-- 5) Preferences + alpha auto-friend off
+
+-- =============================================================================
+-- 1) friendships
+-- =============================================================================
+
+alter table public.friendships add column if not exists created_at timestamptz not null default now();
+alter table public.friendships add column if not exists responded_at timestamptz;
+
+alter table public.friendships drop constraint if exists friendships_status_check;
+alter table public.friendships
+  add constraint friendships_status_check check (status in ('pending', 'accepted', 'declined'));
+
+-- Older paths could leave both directions for a pair; keep one so the pair index holds. An accepted
+-- row wins over pending/declined ones (so friends stay friends), then the newest.
+delete from public.friendships f
+using (
+  select
+    x.ctid as row_ctid,
+    row_number() over (
+      partition by least(x.user_id, x.friend_id), greatest(x.user_id, x.friend_id)
+      order by (x.status = 'accepted') desc, x.created_at desc, x.ctid desc
+    ) as rn
+  from public.friendships x
+) d
+where f.ctid = d.row_ctid
+  and d.rn > 1;
+
+create unique index if not exists friendships_pair_key
+  on public.friendships (least(user_id, friend_id), greatest(user_id, friend_id));
+
+create index if not exists friendships_friend_pending_idx
+  on public.friendships (friend_id)
+  where status = 'pending';
+
+-- Requests and invite acceptance go through the RPCs below; clients only delete (unfriend).
+revoke insert, update on public.friendships from anon, authenticated;
+
+drop policy if exists friendships_delete_own on public.friendships;
+create policy friendships_delete_own
+  on public.friendships
+  for delete
+  to authenticated
+  using (
+    status = 'accepted'
+    and (user_id = (select auth.uid()) or friend_id = (select auth.uid()))
+  );
+
+-- Every request sent, kept for rate limiting (cancelled requests still count).
+create table if not exists public.friend_request_log (
+  id uuid primary key default gen_random_uuid(),
+  requester_id uuid not null references auth.users(id) on delete cascade,
+  recipient_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists friend_request_log_requester_created_at_idx
+  on public.friend_request_log (requester_id, created_at desc);
+
+-- Internal to the RPCs; no client policies.
+alter table public.friend_request_log enable row level security;
+
+-- =============================================================================
+-- 2) Notification types
+-- =============================================================================
+
+-- post_id is null for both; the activity push trigger queues them like any other notification.
+alter table public.notifications drop constraint if exists notifications_notification_type_check;
+alter table public.notifications
+  add constraint notifications_notification_type_check
+  check (notification_type in (
+    'like', 'comment', 'save', 'reply', 'comment_like', 'mention', 'friend_request', 'friend_accepted'
+  ));
+
+-- =============================================================================
+-- 3) Request RPCs
+-- =============================================================================
+
+-- Serializes concurrent requests/responses for the same pair (both directions hash the same).
+create or replace function public.lock_friend_pair(p_a uuid, p_b uuid)
+returns void
+language sql
+as $$
+  select pg_advisory_xact_lock(hashtext('friend_pair:' || least(p_a, p_b)::text || ':' || greatest(p_a, p_b)::text));
+$$;
+
+revoke all on function public.lock_friend_pair(uuid, uuid) from public, anon, authenticated;
+
+-- Profiles whose username starts with p_query (case-insensitive), with how they relate to the
+-- caller: 'friends' | 'outgoing' (caller asked them) | 'incoming' (they asked the caller) | 'none'.
+-- Declined requests read as 'none' to the person who declined and 'outgoing' to the requester,
+-- so a decline is never announced.
+create or replace function public.search_profiles(p_query text)
+returns table (
+  id uuid,
+  username text,
+  first_name text,
+  avatar_url text,
+  relationship text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_query text := lower(btrim(coalesce(p_query, '')));
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  v_query := ltrim(v_query, '@');
+  if length(v_query) < 2 or v_query !~ '^[a-z0-9_]+$' then
+    return;
+  end if;
+
+  return query
+  select
+    p.id,
+    p.username,
+    p.first_name,
+    p.avatar_url,
+    case
+      when f.status = 'accepted' then 'friends'
+      when f.user_id = v_user_id and f.status in ('pending', 'declined') then 'outgoing'
+      when f.friend_id = v_user_id and f.status = 'pending' then 'incoming'
+      else 'none'
+    end
+  from public.profiles p
+  left join public.friendships f
+    on least(f.user_id, f.friend_id) = least(p.id, v_user_id)
+    and greatest(f.user_id, f.friend_id) = greatest(p.id, v_user_id)
+  where p.id <> v_user_id
+    and p.username like v_query || '%'
+    and coalesce(p.onboarding_complete, false)
+  order by p.username = v_query desc, p.username
+  limit 20;
+end;
+$$;
+
+revoke all on function public.search_profiles(text) from public, anon;
+grant execute on function public.search_profiles(text) to authenticated;
+
+-- Send a request, or accept theirs if they already asked. Returns 'requested' | 'accepted'.
+-- Limits: 20 requests per rolling 24h and 50 outstanding; re-requesting someone who declined waits
+-- 7 days from the decline.
+create or replace function public.send_friend_request(p_recipient_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.friendships;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_recipient_id = v_user_id then
+    raise exception 'cannot_friend_self' using detail = 'You cannot send a friend request to yourself.';
+  end if;
+
+  if not exists (
+    select 1 from public.profiles where id = p_recipient_id and coalesce(onboarding_complete, false)
+  ) then
+    raise exception 'user_not_found' using detail = 'That user does not exist.';
+  end if;
+
+  perform public.lock_friend_pair(v_user_id, p_recipient_id);
+
+  select * into v_existing
+  from public.friendships
+  where least(user_id, friend_id) = least(v_user_id, p_recipient_id)
+    and greatest(user_id, friend_id) = greatest(v_user_id, p_recipient_id);
+
+  if found then
+    if v_existing.status = 'accepted' then
+      raise exception 'already_friends' using detail = 'You are already friends.';
+    end if;
+
+    if v_existing.status = 'pending' and v_existing.user_id = v_user_id then
+      raise exception 'request_pending' using detail = 'You already sent a request.';
+    end if;
+
+    -- They asked first: sending back is accepting.
+    if v_existing.status = 'pending' then
+      update public.friendships
+      set status = 'accepted', responded_at = now()
+      where id = v_existing.id;
+
+      update public.notifications
+      set read_at = now()
+      where user_id = v_user_id
+        and actor_id = p_recipient_id
+        and notification_type = 'friend_request'
+        and read_at is null;
+
+      insert into public.notifications (user_id, actor_id, notification_type)
+      values (p_recipient_id, v_user_id, 'friend_accepted');
+
+      return 'accepted';
+    end if;
+
+    -- Declined: the requester waits out the cooldown; the decliner can always ask.
+    if v_existing.user_id = v_user_id and v_existing.responded_at > now() - interval '7 days' then
+      raise exception 'request_unavailable' using detail = 'You can''t send this person a request right now.';
+    end if;
+  end if;
+
+  if (
+    select count(*) from public.friend_request_log
+    where requester_id = v_user_id and created_at > now() - interval '24 hours'
+  ) >= 20 then
+    raise exception 'rate_limited' using detail = 'Too many friend requests today.';
+  end if;
+
+  if (
+    select count(*) from public.friendships
+    where user_id = v_user_id and status = 'pending'
+  ) >= 50 then
+    raise exception 'rate_limited' using detail = 'Too many pending friend requests.';
+  end if;
+
+  if v_existing.id is not null then
+    update public.friendships
+    set user_id = v_user_id, friend_id = p_recipient_id, status = 'pending', created_at = now(), responded_at = null
+    where id = v_existing.id;
+  else
+    insert into public.friendships (user_id, friend_id, status)
+    values (v_user_id, p_recipient_id, 'pending');
+  end if;
+
+  insert into public.friend_request_log (requester_id, recipient_id)
+  values (v_user_id, p_recipient_id);
+
+  insert into public.notifications (user_id, actor_id, notification_type)
+  values (p_recipient_id, v_user_id, 'friend_request');
+
+  return 'requested';
+end;
+$$;
+
+revoke all on function public.send_friend_request(uuid) from public, anon;
+grant execute on function public.send_friend_request(uuid) to authenticated;
+
+-- Accept or decline a pending request the caller received.
+create or replace function public.respond_to_friend_request(p_requester_id uuid, p_accept boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  perform public.lock_friend_pair(v_user_id, p_requester_id);
+
+  update public.friendships
+  set status = case when p_accept then 'accepted' else 'declined' end, responded_at = now()
+  where user_id = p_requester_id
+    and friend_id = v_user_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'request_not_found' using detail = 'That request is no longer pending.';
+  end if;
+
+  update public.notifications
+  set read_at = now()
+  where user_id = v_user_id
+    and actor_id = p_requester_id
+    and notification_type = 'friend_request'
+    and read_at is null;
+
+  if p_accept then
+    insert into public.notifications (user_id, actor_id, notification_type)
+    values (p_requester_id, v_user_id, 'friend_accepted');
+  end if;
+end;
+$$;
+
+revoke all on function public.respond_to_friend_request(uuid, boolean) from public, anon;
+grant execute on function public.respond_to_friend_request(uuid, boolean) to authenticated;
+
+-- Withdraw a pending request the caller sent (also pulls the recipient's notification).
+create or replace function public.cancel_friend_request(p_recipient_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  perform public.lock_friend_pair(v_user_id, p_recipient_id);
+
+  delete from public.friendships
+  where user_id = v_user_id
+    and friend_id = p_recipient_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'request_not_found' using detail = 'That request is no longer pending.';
+  end if;
+
+  delete from public.notifications
+  where user_id = p_recipient_id
+    and actor_id = v_user_id
+    and notification_type = 'friend_request';
+end;
+$$;
+
+revoke all on function public.cancel_friend_request(uuid) from public, anon;
+grant execute on function public.cancel_friend_request(uuid) to authenticated;
+
+-- =============================================================================
+-- 4) Invite links
+-- =============================================================================
+
+-- Accept an invite link: befriends the inviter immediately (any pending/declined row between the
+-- two becomes accepted) and marks the invite used.
+create or replace function public.accept_friend_invitation(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invitation public.friend_invitations;
+  v_existing public.friendships;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  select * into v_invitation
+  from public.friend_invitations
+  where token = p_token
+    and used_at is null
+    and expires_at > now()
+  for update;
+
+  if not found then
+    raise exception 'invalid_invitation' using detail = 'Invalid or expired invitation token.';
+  end if;
+
+  if v_invitation.inviter_id = v_user_id then
+    raise exception 'cannot_friend_self' using detail = 'You cannot accept your own invitation.';
+  end if;
+
+  perform public.lock_friend_pair(v_user_id, v_invitation.inviter_id);
+
+  select * into v_existing
+  from public.friendships
+  where least(user_id, friend_id) = least(v_user_id, v_invitation.inviter_id)
+    and greatest(user_id, friend_id) = greatest(v_user_id, v_invitation.inviter_id);
+
+  if found and v_existing.status = 'accepted' then
+    raise exception 'already_friends' using detail = 'You are already friends with this user.';
+  end if;
+
+  if found then
+    update public.friendships
+    set status = 'accepted', responded_at = now()
+    where id = v_existing.id;
+  else
+    insert into public.friendships (user_id, friend_id, status, responded_at)
+    values (v_user_id, v_invitation.inviter_id, 'accepted', now());
+  end if;
+
+  update public.friend_invitations
+  set used_at = now(), used_by_id = v_user_id
+  where id = v_invitation.id;
+
+  insert into public.notifications (user_id, actor_id, notification_type)
+  values (v_invitation.inviter_id, v_user_id, 'friend_accepted');
+
+  return v_invitation.inviter_id;
+end;
+$$;
+
+revoke all on function public.accept_friend_invitation(text) from public, anon;
+grant execute on function public.accept_friend_invitation(text) to authenticated;
+
+-- =============================================================================
+-- 5) Preferences + alpha auto-friend
+-- =============================================================================
+
+alter table public.notification_preferences add column if not exists activity_friend_request boolean not null default true;
+alter table public.notification_preferences add column if not exists activity_friend_accepted boolean not null default true;
+
+-- Everyone-is-friends was an alpha shortcut; with requests it would skip consent. The trigger stays
+-- (flip the flag back on for a dev project).
+update public.alpha_auto_friend_config set enabled = false, updated_at = now();
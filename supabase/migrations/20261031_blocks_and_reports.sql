@@ -0,0 +1,375 @@
+-- Blocking, reporting and moderation
+-- Removing a friend only deleted the friendship: they could send a new request or invite and
+-- their posts, comments and notifications still reached you. Now:
+-- - block_user removes the friendship and pending requests; RLS hides posts, comments and
+--   notifications between the two (both directions) and the pair can't befriend again until unblocked.
+-- - report_content files a report on a post or comment; the dashboard moderation page reviews
+--   reports and hides content (hidden_at), which RLS then hides from everyone but its author.
+--
+-- Error contract (PostgREST surfaces these as { code: 'P0001', message: <code>, details: <text> }):
+--   not_authenticated | user_not_found | cannot_block_self | content_not_found | cannot_report_self |
+--   invalid_report | rate_limited
+--
+-- 1) user_blocks + helpers
+-- 2) Hidden content + RLS
+-- 3) Friendship guard + search
+-- 4) block_user RPC
+-- 5) content_reports + report_content RPC
+
+-- =============================================================================
+-- 1) user_blocks
+-- =============================================================================
+
+create table if not exists public.user_blocks (
+  blocker_id uuid not null references auth.users(id) on delete cascade,
+  blocked_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  constraint user_blocks_not_self check (blocker_id <> blocked_id)
+);
+
+create index if not exists user_blocks_blocked_id_idx
+  on public.user_blocks (blocked_id);
+
+alter table public.user_blocks enable row level security;
+
+-- Blockers see and undo their own blocks; blocking goes through block_user.
+drop policy if exists user_blocks_select_own on public.user_blocks;
+create policy user_blocks_select_own
+  on public.user_blocks
+  for select
+  to authenticated
+  using (blocker_id = (select auth.uid()));
+
+drop policy if exists user_blocks_delete_own on public.user_blocks;
+create policy user_blocks_delete_own
+  on public.user_blocks
+  for delete
+  to authenticated
+  using (blocker_id = (select auth.uid()));
+
+revoke insert, update on public.user_blocks from anon, authenticated;
+
+-- Users the caller blocked or was blocked by. Used inside RLS policies (so callable by
+-- authenticated); `not in (select ...)` keeps it to one evaluation per query.
+create or replace function public.blocked_user_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select blocked_id from public.user_blocks where blocker_id = (select auth.uid())
+  union
+  select blocker_id from public.user_blocks where blocked_id = (select auth.uid());
+$$;
+
+revoke all on function public.blocked_user_ids() from public, anon;
+grant execute on function public.blocked_user_ids() to authenticated;
+
+-- Either side blocked the other.
+create or replace function public.is_block_between(p_a uuid, p_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_blocks
+    where (blocker_id = p_a and blocked_id = p_b)
+       or (blocker_id = p_b and blocked_id = p_a)
+  );
+$$;
+
+revoke all on function public.is_block_between(uuid, uuid) from public, anon, authenticated;
+
+-- =============================================================================
+-- 2) Hidden content + RLS
+-- =============================================================================
+
+-- Set by moderators (dashboard); the author still sees their own content.
+alter table public.yim_posts add column if not exists hidden_at timestamptz;
+alter table public.post_comments add column if not exists hidden_at timestamptz;
+
+drop policy if exists yim_posts_select_authenticated on public.yim_posts;
+create policy yim_posts_select_authenticated
+  on public.yim_posts
+  for select
+  to authenticated
+  using (
+    author_id = (select auth.uid())
+    or (hidden_at is null and author_id not in (select public.blocked_user_ids()))
+  );
+
+drop policy if exists post_comments_select_all on public.post_comments;
+create policy post_comments_select_all
+  on public.post_comments
+  for select
+  to authenticated
+  using (
+    user_id = (select auth.uid())
+    or (hidden_at is null and user_id not in (select public.blocked_user_ids()))
+  );
+
+-- Commenting needs a post the commenter can see (not hidden, author not blocked either way).
+drop policy if exists post_comments_insert_own on public.post_comments;
+create policy post_comments_insert_own
+  on public.post_comments
+  for insert
+  to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and exists (select 1 from public.yim_posts p where p.id = post_id)
+  );
+
+drop policy if exists notifications_select_own on public.notifications;
+create policy notifications_select_own
+  on public.notifications
+  for select
+  to authenticated
+  using (
+    user_id = (select auth.uid())
+    and actor_id not in (select public.blocked_user_ids())
+  );
+
+-- Drop notifications between blocked users before they're stored (and queued for push).
+create or replace function public.skip_blocked_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.is_block_between(new.user_id, new.actor_id) then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notifications_skip_blocked on public.notifications;
+create trigger notifications_skip_blocked
+  before insert on public.notifications
+  for each row
+  execute function public.skip_blocked_notification();
+
+-- =============================================================================
+-- 3) Friendship guard + search
+-- =============================================================================
+
+-- Covers send_friend_request, accept_friend_invitation and the alpha auto-friend trigger. Reads as
+-- user_not_found so a block isn't announced.
+create or replace function public.guard_blocked_friendship()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('pending', 'accepted') and public.is_block_between(new.user_id, new.friend_id) then
+    raise exception 'user_not_found' using detail = 'That user does not exist.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists friendships_guard_blocked on public.friendships;
+create trigger friendships_guard_blocked
+  before insert or update on public.friendships
+  for each row
+  execute function public.guard_blocked_friendship();
+
+-- Same as 20261030_friend_requests.sql, minus blocked users.
+create or replace function public.search_profiles(p_query text)
+returns table (
+  id uuid,
+  username text,
+  first_name text,
+  avatar_url text,
+  relationship text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_query text := lower(btrim(coalesce(p_query, '')));
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  v_query := ltrim(v_query, '@');
+  if length(v_query) < 2 or v_query !~ '^[a-z0-9_]+$' then
+    return;
+  end if;
+
+  return query
+  select
+    p.id,
+    p.username,
+    p.first_name,
+    p.avatar_url,
+    case
+      when f.status = 'accepted' then 'friends'
+      when f.user_id = v_user_id and f.status in ('pending', 'declined') then 'outgoing'
+      when f.friend_id = v_user_id and f.status = 'pending' then 'incoming'
+      else 'none'
+    end
+  from public.profiles p
+  left join public.friendships f
+    on least(f.user_id, f.friend_id) = least(p.id, v_user_id)
+    and greatest(f.user_id, f.friend_id) = greatest(p.id, v_user_id)
+  where p.id <> v_user_id
+    and p.username like v_query || '%'
+    and coalesce(p.onboarding_complete, false)
+    and not public.is_block_between(p.id, v_user_id)
+  order by p.username = v_query desc, p.username
+  limit 20;
+end;
+$$;
+
+-- =============================================================================
+-- 4) block_user RPC
+-- =============================================================================
+
+-- Block someone: ends the friendship (or pending request) and clears notifications between the
+-- two. Unblocking is a delete on user_blocks; it doesn't restore the friendship.
+create or replace function public.block_user(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_user_id = v_user_id then
+    raise exception 'cannot_block_self' using detail = 'You cannot block yourself.';
+  end if;
+
+  if not exists (select 1 from public.profiles where id = p_user_id) then
+    raise exception 'user_not_found' using detail = 'That user does not exist.';
+  end if;
+
+  perform public.lock_friend_pair(v_user_id, p_user_id);
+
+  insert into public.user_blocks (blocker_id, blocked_id)
+  values (v_user_id, p_user_id)
+  on conflict do nothing;
+
+  delete from public.friendships
+  where least(user_id, friend_id) = least(v_user_id, p_user_id)
+    and greatest(user_id, friend_id) = greatest(v_user_id, p_user_id);
+
+  delete from public.notifications
+  where (user_id = v_user_id and actor_id = p_user_id)
+     or (user_id = p_user_id and actor_id = v_user_id);
+end;
+$$;
+
+revoke all on function public.block_user(uuid) from public, anon;
+grant execute on function public.block_user(uuid) to authenticated;
+
+-- =============================================================================
+-- 5) Reports
+-- =============================================================================
+
+create table if not exists public.content_reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references auth.users(id) on delete cascade,
+  reported_user_id uuid references auth.users(id) on delete set null,
+  -- Exactly one target
+  post_id uuid references public.yim_posts(id) on delete cascade,
+  comment_id uuid references public.post_comments(id) on delete cascade,
+  reason text not null,
+  details text,
+  -- open → dismissed (no action) | actioned (content hidden)
+  status text not null default 'open',
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint content_reports_target_check check ((post_id is null) <> (comment_id is null)),
+  constraint content_reports_reason_check check (reason in ('spam', 'harassment', 'hate', 'self_harm', 'nudity', 'other')),
+  constraint content_reports_details_check check (details is null or char_length(details) <= 500),
+  constraint content_reports_status_check check (status in ('open', 'dismissed', 'actioned'))
+);
+
+-- One report per reporter per target.
+create unique index if not exists content_reports_reporter_post_key
+  on public.content_reports (reporter_id, post_id)
+  where post_id is not null;
+
+create unique index if not exists content_reports_reporter_comment_key
+  on public.content_reports (reporter_id, comment_id)
+  where comment_id is not null;
+
+create index if not exists content_reports_open_idx
+  on public.content_reports (created_at desc)
+  where status = 'open';
+
+-- Service role (dashboard) reads and reviews; clients file through report_content.
+alter table public.content_reports enable row level security;
+
+-- Report a post (p_post_id) or a comment (p_comment_id). Reporting the same thing twice is a no-op.
+-- Limit: 30 reports per rolling 24h.
+create or replace function public.report_content(
+  p_post_id uuid,
+  p_comment_id uuid,
+  p_reason text,
+  p_details text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_reported_user_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if (p_post_id is null) = (p_comment_id is null)
+    or p_reason not in ('spam', 'harassment', 'hate', 'self_harm', 'nudity', 'other')
+    or char_length(coalesce(p_details, '')) > 500 then
+    raise exception 'invalid_report' using detail = 'Pick a reason for this report.';
+  end if;
+
+  if p_post_id is not null then
+    select author_id into v_reported_user_id from public.yim_posts where id = p_post_id;
+  else
+    select user_id into v_reported_user_id from public.post_comments where id = p_comment_id;
+  end if;
+
+  if v_reported_user_id is null then
+    raise exception 'content_not_found' using detail = 'That content no longer exists.';
+  end if;
+
+  if v_reported_user_id = v_user_id then
+    raise exception 'cannot_report_self' using detail = 'You cannot report your own content.';
+  end if;
+
+  if (
+    select count(*) from public.content_reports
+    where reporter_id = v_user_id and created_at > now() - interval '24 hours'
+  ) >= 30 then
+    raise exception 'rate_limited' using detail = 'Too many reports today.';
+  end if;
+
+  insert into public.content_reports (reporter_id, reported_user_id, post_id, comment_id, reason, details)
+  values (v_user_id, v_reported_user_id, p_post_id, p_comment_id, p_reason, nullif(btrim(p_details), ''))
+  on conflict do nothing;
+end;
+$$;
+
+revoke all on function public.report_content(uuid, uuid, text, text) from public, anon;
+grant execute on function public.report_content(uuid, uuid, text, text) to authenticated;
@@ -0,0 +1,438 @@
+-- Close-friends circles and per-post audience
+-- Every post was readable by everyone (the feed only narrowed it to friends client-side). Authors can
+-- now keep named circles ("close friends") and share a post with one circle instead of all friends;
+-- RLS enforces it, so the feed, friend profiles, saved posts, comments and notifications all follow.
+--
+-- - friend_circles / friend_circle_members are private to the owner: members never learn which
+--   circles they're in, only that they can see a post.
+-- - yim_posts.audience: 'friends' (default, as before) | 'circle' (circle_id). Deleting a circle
+--   leaves its posts visible to the author only. Unfriending drops you from their circles' posts.
+-- - submit_post takes p_circle_id; set_post_audience changes it after posting.
+--
+-- Error contract: submit_post / set_post_audience add circle_not_found (see lib/post-errors.ts).
+--
+-- 1) Circles
+-- 2) Post audience + RLS
+-- 3) submit_post / set_post_audience
+-- 4) Notifications about posts the recipient can't see
+
+-- =============================================================================
+-- 1) Circles
+-- =============================================================================
+
+create table if not exists public.friend_circles (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  constraint friend_circles_name_check check (char_length(btrim(name)) between 1 and 40)
+);
+
+create unique index if not exists friend_circles_owner_name_key
+  on public.friend_circles (owner_id, lower(btrim(name)));
+
+create table if not exists public.friend_circle_members (
+  circle_id uuid not null references public.friend_circles(id) on delete cascade,
+  member_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (circle_id, member_id)
+);
+
+create index if not exists friend_circle_members_member_id_idx
+  on public.friend_circle_members (member_id);
+
+-- Accepted friends, either direction.
+create or replace function public.is_friend(p_a uuid, p_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.friendships
+    where status = 'accepted'
+      and least(user_id, friend_id) = least(p_a, p_b)
+      and greatest(user_id, friend_id) = greatest(p_a, p_b)
+  );
+$$;
+
+revoke all on function public.is_friend(uuid, uuid) from public, anon, authenticated;
+
+-- Circle ownership check for the member policies (avoids a policy → policy recursion).
+create or replace function public.owns_friend_circle(p_circle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.friend_circles where id = p_circle_id and owner_id = (select auth.uid())
+  );
+$$;
+
+revoke all on function public.owns_friend_circle(uuid) from public, anon;
+grant execute on function public.owns_friend_circle(uuid) to authenticated;
+
+alter table public.friend_circles enable row level security;
+alter table public.friend_circle_members enable row level security;
+
+drop policy if exists friend_circles_select_own on public.friend_circles;
+create policy friend_circles_select_own
+  on public.friend_circles
+  for select
+  to authenticated
+  using (owner_id = (select auth.uid()));
+
+drop policy if exists friend_circles_insert_own on public.friend_circles;
+create policy friend_circles_insert_own
+  on public.friend_circles
+  for insert
+  to authenticated
+  with check (owner_id = (select auth.uid()));
+
+drop policy if exists friend_circles_update_own on public.friend_circles;
+create policy friend_circles_update_own
+  on public.friend_circles
+  for update
+  to authenticated
+  using (owner_id = (select auth.uid()))
+  with check (owner_id = (select auth.uid()));
+
+drop policy if exists friend_circles_delete_own on public.friend_circles;
+create policy friend_circles_delete_own
+  on public.friend_circles
+  for delete
+  to authenticated
+  using (owner_id = (select auth.uid()));
+
+drop policy if exists friend_circle_members_select_own on public.friend_circle_members;
+create policy friend_circle_members_select_own
+  on public.friend_circle_members
+  for select
+  to authenticated
+  using (public.owns_friend_circle(circle_id));
+
+-- Only friends can be added.
+drop policy if exists friend_circle_members_insert_own on public.friend_circle_members;
+create policy friend_circle_members_insert_own
+  on public.friend_circle_members
+  for insert
+  to authenticated
+  with check (public.owns_friend_circle(circle_id) and public.is_friend((select auth.uid()), member_id));
+
+drop policy if exists friend_circle_members_delete_own on public.friend_circle_members;
+create policy friend_circle_members_delete_own
+  on public.friend_circle_members
+  for delete
+  to authenticated
+  using (public.owns_friend_circle(circle_id));
+
+-- =============================================================================
+-- 2) Post audience + RLS
+-- =============================================================================
+
+alter table public.yim_posts add column if not exists audience text not null default 'friends';
+alter table public.yim_posts
+  add column if not exists circle_id uuid references public.friend_circles(id) on delete set null;
+
+alter table public.yim_posts drop constraint if exists yim_posts_audience_check;
+alter table public.yim_posts
+  add constraint yim_posts_audience_check check (
+    audience in ('friends', 'circle') and (audience = 'circle' or circle_id is null)
+  );
+
+create index if not exists yim_posts_circle_id_idx
+  on public.yim_posts (circle_id)
+  where circle_id is not null;
+
+-- Circles the caller is in, while still friends with the owner.
+create or replace function public.viewable_circle_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.circle_id
+  from public.friend_circle_members m
+  join public.friend_circles c on c.id = m.circle_id
+  where m.member_id = (select auth.uid())
+    and public.is_friend(c.owner_id, m.member_id);
+$$;
+
+revoke all on function public.viewable_circle_ids() from public, anon;
+grant execute on function public.viewable_circle_ids() to authenticated;
+
+-- Same rule as yim_posts_select_authenticated, for an arbitrary viewer (triggers).
+create or replace function public.can_view_post(p_user_id uuid, p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.yim_posts p
+    where p.id = p_post_id
+      and (
+        p.author_id = p_user_id
+        or (
+          p.hidden_at is null
+          and not public.is_block_between(p.author_id, p_user_id)
+          and (
+            p.audience = 'friends'
+            or exists (
+              select 1
+              from public.friend_circle_members m
+              where m.circle_id = p.circle_id
+                and m.member_id = p_user_id
+                and public.is_friend(p.author_id, p_user_id)
+            )
+          )
+        )
+      )
+  );
+$$;
+
+revoke all on function public.can_view_post(uuid, uuid) from public, anon, authenticated;
+
+drop policy if exists yim_posts_select_authenticated on public.yim_posts;
+create policy yim_posts_select_authenticated
+  on public.yim_posts
+  for select
+  to authenticated
+  using (
+    author_id = (select auth.uid())
+    or (
+      hidden_at is null
+      and author_id not in (select public.blocked_user_ids())
+      and (audience = 'friends' or circle_id in (select public.viewable_circle_ids()))
+    )
+  );
+
+-- Comments follow their post.
+drop policy if exists post_comments_select_all on public.post_comments;
+create policy post_comments_select_all
+  on public.post_comments
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.yim_posts p where p.id = post_id)
+    and (
+      user_id = (select auth.uid())
+      or (hidden_at is null and user_id not in (select public.blocked_user_ids()))
+    )
+  );
+
+-- Likes and saves need a post the caller can see.
+drop policy if exists post_likes_insert_own on public.post_likes;
+create policy post_likes_insert_own
+  on public.post_likes
+  for insert
+  to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and exists (select 1 from public.yim_posts p where p.id = post_id)
+  );
+
+drop policy if exists post_saves_insert_own on public.post_saves;
+create policy post_saves_insert_own
+  on public.post_saves
+  for insert
+  to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and exists (select 1 from public.yim_posts p where p.id = post_id)
+  );
+
+-- =============================================================================
+-- 3) submit_post / set_post_audience
+-- =============================================================================
+
+-- New trailing parameter; drop the old signature so PostgREST doesn't see two overloads.
+drop function if exists public.submit_post(text, text, text, text, text, text, text, text, text, text);
+
+create or replace function public.submit_post(
+  p_quote text,
+  p_background text,
+  p_font text default null,
+  p_font_color text default null,
+  p_font_size text default null,
+  p_text_highlight text default null,
+  p_expanded_text text default null,
+  p_photo_background_url text default null,
+  p_prompt_id text default null,
+  p_attribution text default '',
+  p_circle_id uuid default null
+)
+returns public.yim_posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_time_zone text;
+  v_cycle_date date;
+  v_open_date date;
+  v_prompt record;
+  v_override record;
+  v_force_open boolean := false;
+  v_word_count integer;
+  v_post public.yim_posts;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_quote is null or char_length(btrim(p_quote)) < 1 or char_length(btrim(p_quote)) > 120 then
+    raise exception 'invalid_quote' using detail = 'Your caption must be 1–120 characters.';
+  end if;
+
+  if p_circle_id is not null and not exists (
+    select 1 from public.friend_circles where id = p_circle_id and owner_id = v_user_id
+  ) then
+    raise exception 'circle_not_found' using detail = 'That circle no longer exists.';
+  end if;
+
+  -- Evaluate the window in the author's zone, on the server clock.
+  select time_zone into v_time_zone from public.profiles where id = v_user_id;
+  v_cycle_date := public.cycle_date_at(now(), v_time_zone);
+
+  -- Latest active dev override wins (dashboard → Window Control).
+  select force_open, force_closed into v_override
+  from public.dev_prompt_overrides
+  where user_id = v_user_id
+    and (expires_at is null or expires_at > now())
+  order by created_at desc
+  limit 1;
+
+  if found and v_override.force_closed then
+    raise exception 'window_closed' using detail = 'Posting is closed for your account right now.';
+  end if;
+  v_force_open := found and coalesce(v_override.force_open, false);
+
+  if p_prompt_id is not null then
+    select id, prompt_date into v_prompt from public.daily_prompts where id::text = p_prompt_id;
+    if not found then
+      raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+    end if;
+
+    if not v_force_open then
+      if public.phase_for_cycle_date(v_cycle_date) = 'blackout' then
+        raise exception 'blackout' using detail = 'There is no prompt today.';
+      end if;
+
+      -- The open prompt is the latest posting day: during a posting day that's today, and on the
+      -- following viewing day(s) late responders can still answer it to unlock the feed.
+      v_open_date := public.latest_posting_date(v_cycle_date);
+      if v_open_date is null or v_prompt.prompt_date is distinct from v_open_date then
+        raise exception 'window_closed' using detail = 'The window for this prompt has closed.';
+      end if;
+    end if;
+
+    if exists (
+      select 1 from public.yim_posts
+      where author_id = v_user_id and prompt_id::text = p_prompt_id
+    ) then
+      raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+    end if;
+  elsif not v_force_open and public.phase_for_cycle_date(v_cycle_date) <> 'posting' then
+    raise exception 'window_closed' using detail = 'Posting is only open on posting days.';
+  end if;
+
+  v_word_count :=
+    coalesce(array_length(regexp_split_to_array(nullif(btrim(p_quote), ''), '\s+'), 1), 0)
+    + coalesce(array_length(regexp_split_to_array(nullif(btrim(coalesce(p_expanded_text, '')), ''), '\s+'), 1), 0);
+
+  begin
+    insert into public.yim_posts (
+      author_id, quote, attribution, background, font, font_color, font_size, text_highlight,
+      expanded_text, photo_background_url, prompt_id, prompt_date, word_count, audience, circle_id
+    )
+    values (
+      v_user_id, btrim(p_quote), coalesce(p_attribution, ''), p_background, p_font, p_font_color, p_font_size,
+      p_text_highlight, p_expanded_text, p_photo_background_url, v_prompt.id, v_prompt.prompt_date, v_word_count,
+      case when p_circle_id is null then 'friends' else 'circle' end, p_circle_id
+    )
+    returning * into v_post;
+  exception when unique_violation then
+    -- Concurrent double-submit raced past the exists() check above.
+    raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+  end;
+
+  return v_post;
+end;
+$$;
+
+revoke all on function public.submit_post(text, text, text, text, text, text, text, text, text, text, uuid) from public, anon;
+grant execute on function public.submit_post(text, text, text, text, text, text, text, text, text, text, uuid) to authenticated;
+
+-- Share an existing post with all friends (p_circle_id null) or one of the author's circles.
+create or replace function public.set_post_audience(p_post_id uuid, p_circle_id uuid default null)
+returns public.yim_posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_post public.yim_posts;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_circle_id is not null and not exists (
+    select 1 from public.friend_circles where id = p_circle_id and owner_id = v_user_id
+  ) then
+    raise exception 'circle_not_found' using detail = 'That circle no longer exists.';
+  end if;
+
+  update public.yim_posts
+  set
+    audience = case when p_circle_id is null then 'friends' else 'circle' end,
+    circle_id = p_circle_id
+  where id = p_post_id
+    and author_id = v_user_id
+  returning * into v_post;
+
+  if not found then
+    raise exception 'post_not_found' using detail = 'That post no longer exists.';
+  end if;
+
+  return v_post;
+end;
+$$;
+
+revoke all on function public.set_post_audience(uuid, uuid) from public, anon;
+grant execute on function public.set_post_audience(uuid, uuid) to authenticated;
+
+-- =============================================================================
+-- 4) Notifications
+-- =============================================================================
+
+-- e.g. a mention in a circle post of a friend outside the circle: no notification (or push) for a
+-- post they can't open.
+create or replace function public.skip_invisible_post_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.post_id is not null and not public.can_view_post(new.user_id, new.post_id) then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notifications_skip_invisible_post on public.notifications;
+create trigger notifications_skip_invisible_post
+  before insert on public.notifications
+  for each row
+  execute function public.skip_invisible_post_notification();
@@ -0,0 +1,285 @@
+-- Anonymous posts
+-- Some prompts are hard to answer under your own name. A post can now be anonymous: opted into per
+-- post, or forced for every response by daily_prompts.force_anonymous (dashboard → Prompts).
+--
+-- - The author id of someone else's anonymous post never leaves the database: yim_posts RLS hides
+--   those rows from everyone but the author, and the app reads posts through visible_yim_posts,
+--   which returns them with author_id = null.
+-- - Likes, comments and saves still notify the true author (the notification triggers run as
+--   security definer). Mentions in an anonymous response don't notify anyone, since the
+--   notification would name the author.
+-- - Comments are never anonymous: the author commenting on their own post is visible as themselves.
+-- - Anonymity is fixed at posting time.
+--
+-- 1) Columns
+-- 2) RLS + visible_yim_posts
+-- 3) submit_post(p_anonymous)
+-- 4) Mentions
+
+-- =============================================================================
+-- 1) Columns
+-- =============================================================================
+
+alter table public.yim_posts add column if not exists is_anonymous boolean not null default false;
+alter table public.daily_prompts add column if not exists force_anonymous boolean not null default false;
+
+-- =============================================================================
+-- 2) RLS + visible_yim_posts
+-- =============================================================================
+
+-- Other people's anonymous posts are only readable through visible_yim_posts.
+drop policy if exists yim_posts_select_authenticated on public.yim_posts;
+create policy yim_posts_select_authenticated
+  on public.yim_posts
+  for select
+  to authenticated
+  using (
+    author_id = (select auth.uid())
+    or (
+      not is_anonymous
+      and hidden_at is null
+      and author_id not in (select public.blocked_user_ids())
+      and (audience = 'friends' or circle_id in (select public.viewable_circle_ids()))
+    )
+  );
+
+-- Posts the caller can read, anonymous or not. Runs with the owner's rights (no security_invoker)
+-- so it can return anonymous rows; the where clause repeats the visibility rule from
+-- 20261101_friend_circles.sql minus the anonymity check, and author_id is masked instead.
+create or replace view public.visible_yim_posts as
+select
+  p.id,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.author_id end as author_id,
+  p.quote,
+  p.attribution,
+  p.background,
+  p.font,
+  p.font_color,
+  p.font_size,
+  p.text_highlight,
+  p.photo_background_url,
+  p.expanded_text,
+  p.prompt_id,
+  p.prompt_date,
+  p.created_at,
+  p.edited_at,
+  p.audience,
+  p.circle_id,
+  p.is_anonymous
+from public.yim_posts p
+where p.author_id = (select auth.uid())
+  or (
+    p.hidden_at is null
+    and p.author_id not in (select public.blocked_user_ids())
+    and (p.audience = 'friends' or p.circle_id in (select public.viewable_circle_ids()))
+  );
+
+revoke all on public.visible_yim_posts from public, anon;
+grant select on public.visible_yim_posts to authenticated;
+
+-- Comments, likes and saves check visibility here rather than through yim_posts RLS, which no
+-- longer returns other people's anonymous posts.
+create or replace function public.is_post_visible(p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_view_post((select auth.uid()), p_post_id);
+$$;
+
+revoke all on function public.is_post_visible(uuid) from public, anon;
+grant execute on function public.is_post_visible(uuid) to authenticated;
+
+drop policy if exists post_comments_select_all on public.post_comments;
+create policy post_comments_select_all
+  on public.post_comments
+  for select
+  to authenticated
+  using (
+    public.is_post_visible(post_id)
+    and (
+      user_id = (select auth.uid())
+      or (hidden_at is null and user_id not in (select public.blocked_user_ids()))
+    )
+  );
+
+drop policy if exists post_comments_insert_own on public.post_comments;
+create policy post_comments_insert_own
+  on public.post_comments
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()) and public.is_post_visible(post_id));
+
+drop policy if exists post_likes_insert_own on public.post_likes;
+create policy post_likes_insert_own
+  on public.post_likes
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()) and public.is_post_visible(post_id));
+
+drop policy if exists post_saves_insert_own on public.post_saves;
+create policy post_saves_insert_own
+  on public.post_saves
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()) and public.is_post_visible(post_id));
+
+-- =============================================================================
+-- 3) submit_post
+-- =============================================================================
+
+drop function if exists public.submit_post(text, text, text, text, text, text, text, text, text, text, uuid);
+
+create or replace function public.submit_post(
+  p_quote text,
+  p_background text,
+  p_font text default null,
+  p_font_color text default null,
+  p_font_size text default null,
+  p_text_highlight text default null,
+  p_expanded_text text default null,
+  p_photo_background_url text default null,
+  p_prompt_id text default null,
+  p_attribution text default '',
+  p_circle_id uuid default null,
+  p_anonymous boolean default false
+)
+returns public.yim_posts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_time_zone text;
+  v_cycle_date date;
+  v_open_date date;
+  v_prompt record;
+  v_override record;
+  v_force_open boolean := false;
+  v_is_anonymous boolean := coalesce(p_anonymous, false);
+  v_word_count integer;
+  v_post public.yim_posts;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  if p_quote is null or char_length(btrim(p_quote)) < 1 or char_length(btrim(p_quote)) > 120 then
+    raise exception 'invalid_quote' using detail = 'Your caption must be 1–120 characters.';
+  end if;
+
+  if p_circle_id is not null and not exists (
+    select 1 from public.friend_circles where id = p_circle_id and owner_id = v_user_id
+  ) then
+    raise exception 'circle_not_found' using detail = 'That circle no longer exists.';
+  end if;
+
+  -- Evaluate the window in the author's zone, on the server clock.
+  select time_zone into v_time_zone from public.profiles where id = v_user_id;
+  v_cycle_date := public.cycle_date_at(now(), v_time_zone);
+
+  -- Latest active dev override wins (dashboard → Window Control).
+  select force_open, force_closed into v_override
+  from public.dev_prompt_overrides
+  where user_id = v_user_id
+    and (expires_at is null or expires_at > now())
+  order by created_at desc
+  limit 1;
+
+  if found and v_override.force_closed then
+    raise exception 'window_closed' using detail = 'Posting is closed for your account right now.';
+  end if;
+  v_force_open := found and coalesce(v_override.force_open, false);
+
+  if p_prompt_id is not null then
+    select id, prompt_date, force_anonymous into v_prompt from public.daily_prompts where id::text = p_prompt_id;
+    if not found then
+      raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+    end if;
+    v_is_anonymous := v_is_anonymous or v_prompt.force_anonymous;
+
+    if not v_force_open then
+      if public.phase_for_cycle_date(v_cycle_date) = 'blackout' then
+        raise exception 'blackout' using detail = 'There is no prompt today.';
+      end if;
+
+      -- The open prompt is the latest posting day: during a posting day that's today, and on the
+      -- following viewing day(s) late responders can still answer it to unlock the feed.
+      v_open_date := public.latest_posting_date(v_cycle_date);
+      if v_open_date is null or v_prompt.prompt_date is distinct from v_open_date then
+        raise exception 'window_closed' using detail = 'The window for this prompt has closed.';
+      end if;
+    end if;
+
+    if exists (
+      select 1 from public.yim_posts
+      where author_id = v_user_id and prompt_id::text = p_prompt_id
+    ) then
+      raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+    end if;
+  elsif not v_force_open and public.phase_for_cycle_date(v_cycle_date) <> 'posting' then
+    raise exception 'window_closed' using detail = 'Posting is only open on posting days.';
+  end if;
+
+  v_word_count :=
+    coalesce(array_length(regexp_split_to_array(nullif(btrim(p_quote), ''), '\s+'), 1), 0)
+    + coalesce(array_length(regexp_split_to_array(nullif(btrim(coalesce(p_expanded_text, '')), ''), '\s+'), 1), 0);
+
+  begin
+    insert into public.yim_posts (
+      author_id, quote, attribution, background, font, font_color, font_size, text_highlight,
+      expanded_text, photo_background_url, prompt_id, prompt_date, word_count, audience, circle_id,
+      is_anonymous
+    )
+    values (
+      v_user_id, btrim(p_quote), coalesce(p_attribution, ''), p_background, p_font, p_font_color, p_font_size,
+      p_text_highlight, p_expanded_text, p_photo_background_url, v_prompt.id, v_prompt.prompt_date, v_word_count,
+      case when p_circle_id is null then 'friends' else 'circle' end, p_circle_id,
+      v_is_anonymous
+    )
+    returning * into v_post;
+  exception when unique_violation then
+    -- Concurrent double-submit raced past the exists() check above.
+    raise exception 'already_posted' using detail = 'You already responded to this prompt.';
+  end;
+
+  return v_post;
+end;
+$$;
+
+revoke all on function public.submit_post(text, text, text, text, text, text, text, text, text, text, uuid, boolean) from public, anon;
+grant execute on function public.submit_post(text, text, text, text, text, text, text, text, text, text, uuid, boolean) to authenticated;
+
+-- =============================================================================
+-- 4) Mentions
+-- =============================================================================
+
+-- Same as 20261025_mentions.sql, minus anonymous posts (the notification's actor is the author).
+create or replace function public.notify_post_mentions()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_mentioned_id uuid;
+begin
+  if new.is_anonymous or new.expanded_text is null or position('@' in new.expanded_text) = 0 then
+    return new;
+  end if;
+
+  for v_mentioned_id in select public.mentioned_friend_ids(new.author_id, new.expanded_text) loop
+    perform public.create_notification(
+      v_mentioned_id,
+      new.author_id,
+      new.id,
+      'mention',
+      null
+    );
+  end loop;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,138 @@
+-- Friend suggestions ("people you may know")
+-- Ranked friends-of-friends for the friends tab, computed server-side so nobody's friend list is
+-- readable from the client. Users can dismiss a suggestion, and opt out of being suggested at all.
+--
+-- 1) profiles.show_in_suggestions
+-- 2) friend_suggestion_dismissals
+-- 3) get_friend_suggestions RPC
+
+-- =============================================================================
+-- 1) Privacy setting
+-- =============================================================================
+
+-- Off: never suggested to anyone (username search and invitation links still work).
+alter table public.profiles add column if not exists show_in_suggestions boolean not null default true;
+
+-- =============================================================================
+-- 2) Dismissals
+-- =============================================================================
+
+create table if not exists public.friend_suggestion_dismissals (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  dismissed_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, dismissed_id),
+  constraint friend_suggestion_dismissals_not_self check (user_id <> dismissed_id)
+);
+
+alter table public.friend_suggestion_dismissals enable row level security;
+
+drop policy if exists friend_suggestion_dismissals_select_own on public.friend_suggestion_dismissals;
+create policy friend_suggestion_dismissals_select_own
+  on public.friend_suggestion_dismissals
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+drop policy if exists friend_suggestion_dismissals_insert_own on public.friend_suggestion_dismissals;
+create policy friend_suggestion_dismissals_insert_own
+  on public.friend_suggestion_dismissals
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists friend_suggestion_dismissals_delete_own on public.friend_suggestion_dismissals;
+create policy friend_suggestion_dismissals_delete_own
+  on public.friend_suggestion_dismissals
+  for delete
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+-- =============================================================================
+-- 3) get_friend_suggestions
+-- =============================================================================
+
+-- Friends of the caller's friends, most mutual friends first. Skips anyone the caller already has a
+-- friendship row with (friends, pending either way, or declined), blocks in either direction,
+-- dismissed suggestions, people who opted out and unfinished profiles.
+-- mutual_names holds up to two mutual friends' names for the "Friends with …" line.
+create or replace function public.get_friend_suggestions(p_limit integer default 10)
+returns table (
+  id uuid,
+  username text,
+  first_name text,
+  avatar_url text,
+  mutual_count integer,
+  mutual_names text[]
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_limit integer := least(greatest(coalesce(p_limit, 10), 1), 50);
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated' using detail = 'Please log in.';
+  end if;
+
+  return query
+  with my_friends as (
+    select case when f.user_id = v_user_id then f.friend_id else f.user_id end as friend_id
+    from public.friendships f
+    where f.status = 'accepted'
+      and (f.user_id = v_user_id or f.friend_id = v_user_id)
+  ),
+  candidates as (
+    select
+      case when f.user_id = m.friend_id then f.friend_id else f.user_id end as candidate_id,
+      m.friend_id as mutual_id
+    from my_friends m
+    join public.friendships f
+      on f.status = 'accepted'
+      and (f.user_id = m.friend_id or f.friend_id = m.friend_id)
+  ),
+  ranked as (
+    select c.candidate_id, count(distinct c.mutual_id)::integer as mutual_count
+    from candidates c
+    where c.candidate_id <> v_user_id
+    group by c.candidate_id
+  )
+  select
+    p.id,
+    p.username,
+    p.first_name,
+    p.avatar_url,
+    r.mutual_count,
+    array(
+      select coalesce(mp.first_name, mp.username)
+      from candidates c
+      join public.profiles mp on mp.id = c.mutual_id
+      where c.candidate_id = r.candidate_id
+        and coalesce(mp.first_name, mp.username) is not null
+      order by mp.first_name nulls last, mp.username
+      limit 2
+    )
+  from ranked r
+  join public.profiles p on p.id = r.candidate_id
+  where p.show_in_suggestions
+    and coalesce(p.onboarding_complete, false)
+    and not exists (
+      select 1 from public.friendships f
+      where least(f.user_id, f.friend_id) = least(p.id, v_user_id)
+        and greatest(f.user_id, f.friend_id) = greatest(p.id, v_user_id)
+    )
+    and not exists (
+      select 1 from public.friend_suggestion_dismissals d
+      where d.user_id = v_user_id and d.dismissed_id = p.id
+    )
+    and not public.is_block_between(p.id, v_user_id)
+  order by r.mutual_count desc, p.username
+  limit v_limit;
+end;
+$$;
+
+revoke all on function public.get_friend_suggestions(integer) from public, anon;
+grant execute on function public.get_friend_suggestions(integer) to authenticated;
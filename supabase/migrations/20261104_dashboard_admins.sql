@@ -0,0 +1,45 @@
+-- Dashboard admin accounts + audit log
+-- The dashboard used one shared password, so changes had no author. Admins now sign in with their
+-- Supabase auth account and need a row here; the dashboard (service role) checks the role on every
+-- request and server action, and records each change in admin_audit_log.
+--
+-- Roles are cumulative: viewer (read-only) < prompt_editor (prompts) < operator (everything,
+-- including window overrides, schedules, notifications and moderation).
+--
+-- Grant access from the SQL editor:
+--   insert into public.admin_users (user_id, role)
+--   select id, 'operator' from auth.users where email = 'someone@example.com';
+--
+-- Both tables have RLS on and no policies: only the service role can read or write them.
+
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  role text not null,
+  created_at timestamptz not null default now(),
+  constraint admin_users_role_check check (role in ('viewer', 'prompt_editor', 'operator'))
+);
+
+alter table public.admin_users enable row level security;
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- Kept when the admin is removed; admin_email keeps the entry readable.
+  admin_id uuid references auth.users(id) on delete set null,
+  admin_email text not null,
+  action text not null, -- e.g. 'prompt.update', 'override.set'
+  target_type text not null,
+  target_id text,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on public.admin_audit_log (created_at desc);
+
+create index if not exists admin_audit_log_target_idx
+  on public.admin_audit_log (target_type, target_id);
+
+alter table public.admin_audit_log enable row level security;
+
+revoke all on public.admin_users from anon, authenticated;
+revoke all on public.admin_audit_log from anon, authenticated;
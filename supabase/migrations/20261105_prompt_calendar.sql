@@ -0,0 +1,178 @@
+-- Prompt calendar (dashboard)
+-- The dashboard rescheduled prompts with a two-phase "park every row on a far-future temp date, then
+-- assign the real dates" update because prompt_date and display_order are unique. These functions do
+-- the same in one statement each, so a move or reorder either fully applies or not at all.
+--
+-- 1) Deferrable unique constraints on daily_prompts(prompt_date) / (display_order)
+-- 2) move_daily_prompt (calendar drag-to-date, swaps with the prompt already on that date)
+-- 3) reorder_daily_prompts (list drag reorder)
+--
+-- Dashboard-only (service role); not callable from the app.
+
+-- =============================================================================
+-- 1) Deferrable uniqueness
+-- =============================================================================
+
+-- daily_prompts predates these migrations, so find the existing unique constraint/index on each
+-- column by shape and recreate it as DEFERRABLE INITIALLY IMMEDIATE. Deferrable constraints are
+-- checked at the end of each statement instead of row by row, which is what lets a single UPDATE
+-- swap two dates.
+do $$
+declare
+  v_column text;
+  v_name text;
+  v_was_unique boolean;
+begin
+  foreach v_column in array array['prompt_date', 'display_order'] loop
+    if exists (
+      select 1
+      from pg_constraint c
+      where c.conrelid = 'public.daily_prompts'::regclass
+        and c.contype = 'u'
+        and c.condeferrable
+        and c.conname = 'daily_prompts_' || v_column || '_key'
+    ) then
+      continue;
+    end if;
+
+    v_was_unique := false;
+
+    for v_name in
+      select c.conname
+      from pg_constraint c
+      join pg_attribute a on a.attrelid = c.conrelid and a.attnum = c.conkey[1]
+      where c.conrelid = 'public.daily_prompts'::regclass
+        and c.contype = 'u'
+        and array_length(c.conkey, 1) = 1
+        and a.attname = v_column
+    loop
+      execute format('alter table public.daily_prompts drop constraint %I', v_name);
+      v_was_unique := true;
+    end loop;
+
+    for v_name in
+      select ic.relname
+      from pg_index i
+      join pg_class ic on ic.oid = i.indexrelid
+      join pg_attribute a on a.attrelid = i.indrelid and a.attnum = i.indkey[0]
+      where i.indrelid = 'public.daily_prompts'::regclass
+        and i.indisunique
+        and not i.indisprimary
+        and i.indnkeyatts = 1
+        and i.indpred is null
+        and a.attname = v_column
+    loop
+      execute format('drop index public.%I', v_name);
+      v_was_unique := true;
+    end loop;
+
+    -- Only columns that were unique before get a constraint back.
+    if v_was_unique then
+      execute format(
+        'alter table public.daily_prompts add constraint %I unique (%I) deferrable initially immediate',
+        'daily_prompts_' || v_column || '_key',
+        v_column
+      );
+    end if;
+  end loop;
+end $$;
+
+-- =============================================================================
+-- 2) move_daily_prompt
+-- =============================================================================
+
+-- Moves a prompt to p_date. If another prompt is already on that date the two swap dates.
+-- display_order is then renumbered by date so the list view matches the calendar.
+-- Returns the prompt's previous date and the id of the prompt it swapped with (null if none).
+create or replace function public.move_daily_prompt(p_prompt_id text, p_date date)
+returns table (from_date date, swapped_prompt_id text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from_date date;
+  v_other_id text;
+begin
+  if p_date is null then
+    raise exception 'invalid_date' using detail = 'Pick a date.';
+  end if;
+
+  select d.prompt_date into v_from_date
+  from public.daily_prompts d
+  where d.id::text = p_prompt_id
+  for update;
+
+  if not found then
+    raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+  end if;
+
+  if v_from_date = p_date then
+    return query select v_from_date, null::text;
+    return;
+  end if;
+
+  select d.id::text into v_other_id
+  from public.daily_prompts d
+  where d.prompt_date = p_date
+  for update;
+
+  update public.daily_prompts d
+  set prompt_date = case when d.id::text = p_prompt_id then p_date else v_from_date end
+  where d.id::text = p_prompt_id
+     or d.id::text = v_other_id;
+
+  update public.daily_prompts d
+  set display_order = r.position
+  from (
+    select x.id, row_number() over (order by x.prompt_date, x.id::text)::integer as position
+    from public.daily_prompts x
+  ) r
+  where d.id = r.id
+    and d.display_order is distinct from r.position;
+
+  return query select v_from_date, v_other_id;
+end;
+$$;
+
+revoke all on function public.move_daily_prompt(text, date) from public, anon, authenticated;
+grant execute on function public.move_daily_prompt(text, date) to service_role;
+
+-- =============================================================================
+-- 3) reorder_daily_prompts
+-- =============================================================================
+
+-- The list view's drag reorder: the given prompts get display_order 1..n and consecutive dates
+-- starting from the earliest date among them (tomorrow, UTC, if none has one).
+create or replace function public.reorder_daily_prompts(p_prompt_ids text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start_date date;
+begin
+  if coalesce(array_length(p_prompt_ids, 1), 0) = 0 then
+    return;
+  end if;
+
+  perform 1
+  from public.daily_prompts d
+  where d.id::text = any (p_prompt_ids)
+  for update;
+
+  select coalesce(min(d.prompt_date), (now() at time zone 'utc')::date + 1) into v_start_date
+  from public.daily_prompts d
+  where d.id::text = any (p_prompt_ids);
+
+  update public.daily_prompts d
+  set display_order = o.position::integer,
+      prompt_date = v_start_date + (o.position::integer - 1)
+  from unnest(p_prompt_ids) with ordinality as o(prompt_id, position)
+  where d.id::text = o.prompt_id;
+end;
+$$;
+
+revoke all on function public.reorder_daily_prompts(text[]) from public, anon, authenticated;
+grant execute on function public.reorder_daily_prompts(text[]) to service_role;
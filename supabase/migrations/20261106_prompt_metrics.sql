@@ -0,0 +1,169 @@
+-- Per-prompt analytics (dashboard)
+-- Aggregates what the app already records about each prompt so writers can compare prompts and
+-- themes: responses (yim_posts.prompt_id), ratings and share intent (user_feedback from
+-- PostResponseRating), engagement on the responses, and app activity (user_events).
+--
+-- A prompt's response window runs from the start of its posting day until the next posting day
+-- starts, matching submit_post (late responders can still answer during the viewing day(s)).
+--
+-- 1) cycle_day_start / next_posting_date helpers (SQL port of phase-schedule.ts, keep in sync)
+-- 2) get_prompt_metrics
+--
+-- Dashboard-only (service role); not callable from the app.
+
+-- =============================================================================
+-- 1) Helpers
+-- =============================================================================
+
+-- Instant a cycle date begins: its flip hour in the governing schedule's zone.
+create or replace function public.cycle_day_start(p_date date)
+returns timestamptz
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_schedule public.phase_schedules;
+begin
+  v_schedule := public.phase_schedule_for_date(p_date);
+
+  if v_schedule.id is null then
+    -- No schedules: original rotation (6AM America/Los_Angeles)
+    return (p_date + interval '6 hours') at time zone 'America/Los_Angeles';
+  end if;
+
+  return (p_date + make_interval(hours => v_schedule.flip_hour)) at time zone v_schedule.time_zone;
+end;
+$$;
+
+-- First posting day after p_date (null if none within a year).
+create or replace function public.next_posting_date(p_date date)
+returns date
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  i integer;
+begin
+  for i in 1..366 loop
+    if public.phase_for_cycle_date(p_date + i) = 'posting' then
+      return p_date + i;
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+revoke all on function public.cycle_day_start(date) from public, anon, authenticated;
+revoke all on function public.next_posting_date(date) from public, anon, authenticated;
+
+-- =============================================================================
+-- 2) get_prompt_metrics
+-- =============================================================================
+
+-- One row per prompt whose posting day has started, on/after p_since (all when null).
+-- p_prompt_id narrows to a single prompt (the prompt detail page).
+--
+-- active_users:  distinct users with any user_events row during the response window
+-- responders:    distinct authors of posts answering the prompt
+-- minutes_to_post_median: window start → post created_at
+-- likes / comments: received by those posts (hidden comments excluded)
+-- rating_* / would_share_*: user_feedback rows tagged with the prompt
+create or replace function public.get_prompt_metrics(p_since date default null, p_prompt_id text default null)
+returns table (
+  prompt_id text,
+  prompt_date date,
+  window_start timestamptz,
+  window_end timestamptz,
+  active_users integer,
+  responders integer,
+  minutes_to_post_median numeric,
+  avg_word_count numeric,
+  likes integer,
+  comments integer,
+  rating_count integer,
+  avg_rating numeric,
+  would_share_count integer,
+  would_share_yes integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with prompts as (
+    select
+      d.id::text as prompt_id,
+      d.prompt_date::date as prompt_date,
+      public.cycle_day_start(d.prompt_date::date) as window_start,
+      coalesce(
+        public.cycle_day_start(public.next_posting_date(d.prompt_date::date)),
+        public.cycle_day_start(d.prompt_date::date + 1)
+      ) as window_end
+    from public.daily_prompts d
+    where d.prompt_date::date <= public.cycle_date_at(now())
+      and (p_since is null or d.prompt_date::date >= p_since)
+      and (p_prompt_id is null or d.id::text = p_prompt_id)
+  ),
+  posts as (
+    select pr.prompt_id, y.id, y.author_id, y.word_count, y.created_at
+    from prompts pr
+    join public.yim_posts y on y.prompt_id::text = pr.prompt_id
+  )
+  select
+    pr.prompt_id,
+    pr.prompt_date,
+    pr.window_start,
+    pr.window_end,
+    (
+      select count(distinct e.user_id)::integer
+      from public.user_events e
+      where e.user_id is not null
+        and e.created_at >= pr.window_start
+        and e.created_at < pr.window_end
+    ),
+    (select count(distinct po.author_id)::integer from posts po where po.prompt_id = pr.prompt_id),
+    (
+      select round(
+        (percentile_cont(0.5) within group (
+          order by extract(epoch from (po.created_at - pr.window_start)) / 60
+        ))::numeric,
+        1
+      )
+      from posts po
+      where po.prompt_id = pr.prompt_id
+    ),
+    (select round(avg(po.word_count), 1) from posts po where po.prompt_id = pr.prompt_id),
+    (
+      select count(*)::integer
+      from posts po
+      join public.post_likes l on l.post_id = po.id
+      where po.prompt_id = pr.prompt_id
+    ),
+    (
+      select count(*)::integer
+      from posts po
+      join public.post_comments c on c.post_id = po.id
+      where po.prompt_id = pr.prompt_id
+        and c.hidden_at is null
+    ),
+    f.rating_count,
+    f.avg_rating,
+    f.would_share_count,
+    f.would_share_yes
+  from prompts pr
+  cross join lateral (
+    select
+      count(uf.rating)::integer as rating_count,
+      round(avg(uf.rating), 2) as avg_rating,
+      count(uf.would_share)::integer as would_share_count,
+      count(*) filter (where uf.would_share)::integer as would_share_yes
+    from public.user_feedback uf
+    where uf.prompt_id = pr.prompt_id
+  ) f
+  order by pr.prompt_date desc;
+$$;
+
+revoke all on function public.get_prompt_metrics(date, text) from public, anon, authenticated;
+grant execute on function public.get_prompt_metrics(date, text) to service_role;
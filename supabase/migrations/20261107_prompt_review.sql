@@ -0,0 +1,307 @@
+-- Prompt review workflow (dashboard)
+-- Dashboard edits used to go straight to the app, even for tomorrow's prompt. Prompts now move
+-- through draft → in_review → approved, and the app only sees approved prompts, so a prompt has to
+-- be approved before its posting day starts or that day shows no prompt.
+--
+-- - Editing an approved or in-review prompt sends it back to draft, unless its posting day has
+--   already started (it is live; the dashboard limits those edits to operators).
+-- - Every create, edit and status change is snapshotted in daily_prompt_versions. The dashboard
+--   sets daily_prompts.updated_by so versions record who made the change.
+-- - send-prompt-approval-alerts pushes to admins (hourly) while the current or next posting day's
+--   prompt is missing or unapproved; the dashboard shows the same warning.
+--
+-- 1) Status columns on daily_prompts (existing prompts count as approved)
+-- 2) daily_prompt_versions + triggers
+-- 3) RLS: the app only reads approved prompts
+-- 4) get_upcoming_prompt_approvals
+-- 5) Admin alerts (prompt_approval_alerts, push_deliveries source, schedule)
+
+-- =============================================================================
+-- 1) Status columns
+-- =============================================================================
+
+-- Added with default 'approved' so prompts already in the queue keep showing; new prompts start as drafts.
+alter table public.daily_prompts
+  add column if not exists status text not null default 'approved',
+  add column if not exists review_note text, -- reviewer's note from the latest status change
+  add column if not exists updated_by uuid references auth.users(id) on delete set null,
+  add column if not exists approved_by uuid references auth.users(id) on delete set null,
+  add column if not exists approved_at timestamptz;
+
+alter table public.daily_prompts alter column status set default 'draft';
+
+alter table public.daily_prompts drop constraint if exists daily_prompts_status_check;
+alter table public.daily_prompts
+  add constraint daily_prompts_status_check check (status in ('draft', 'in_review', 'approved'));
+
+create index if not exists daily_prompts_status_idx
+  on public.daily_prompts (prompt_date)
+  where status <> 'approved';
+
+-- =============================================================================
+-- 2) daily_prompt_versions
+-- =============================================================================
+
+-- Snapshot after each change. prompt_id has no foreign key so history outlives deleted prompts.
+create table if not exists public.daily_prompt_versions (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id text not null,
+  version integer not null,
+  -- created | edited (content changed) | submitted | approved | returned (back to draft)
+  event text not null,
+  status text not null,
+  prompt_text text not null,
+  explanation_text text,
+  theme text,
+  force_anonymous boolean not null default false,
+  prompt_date date,
+  note text,
+  edited_by uuid references auth.users(id) on delete set null,
+  edited_by_email text, -- kept so history survives the account being deleted
+  created_at timestamptz not null default now(),
+  constraint daily_prompt_versions_version_unique unique (prompt_id, version),
+  constraint daily_prompt_versions_event_check
+    check (event in ('created', 'edited', 'submitted', 'approved', 'returned'))
+);
+
+-- Service role only (dashboard); no client policies.
+alter table public.daily_prompt_versions enable row level security;
+revoke all on public.daily_prompt_versions from anon, authenticated;
+
+-- Content edits invalidate a review. Live prompts keep their status: pulling today's prompt out of
+-- the app mid-day would be worse than the edit.
+create or replace function public.daily_prompts_review_guard()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.status = old.status
+    and new.status <> 'draft'
+    and (
+      new.prompt_text is distinct from old.prompt_text
+      or new.explanation_text is distinct from old.explanation_text
+      or new.theme is distinct from old.theme
+      or new.force_anonymous is distinct from old.force_anonymous
+    )
+    and new.prompt_date::date > public.cycle_date_at(now())
+  then
+    new.status := 'draft';
+  end if;
+
+  if new.status <> 'approved' then
+    new.approved_by := null;
+    new.approved_at := null;
+  elsif tg_op = 'INSERT' or old.status <> 'approved' then
+    new.approved_at := coalesce(new.approved_at, now());
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists daily_prompts_review_guard on public.daily_prompts;
+create trigger daily_prompts_review_guard
+  before insert or update on public.daily_prompts
+  for each row execute function public.daily_prompts_review_guard();
+
+-- Date-only changes (calendar moves, reorders) aren't versioned; the audit log has those.
+create or replace function public.record_daily_prompt_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_content_changed boolean;
+  v_event text;
+begin
+  v_content_changed := tg_op = 'UPDATE' and (
+    new.prompt_text is distinct from old.prompt_text
+    or new.explanation_text is distinct from old.explanation_text
+    or new.theme is distinct from old.theme
+    or new.force_anonymous is distinct from old.force_anonymous
+  );
+
+  if tg_op = 'UPDATE' and not v_content_changed and new.status = old.status then
+    return null;
+  end if;
+
+  v_event := case
+    when tg_op = 'INSERT' then 'created'
+    when v_content_changed then 'edited'
+    when new.status = 'in_review' then 'submitted'
+    when new.status = 'approved' then 'approved'
+    else 'returned'
+  end;
+
+  insert into public.daily_prompt_versions (
+    prompt_id, version, event, status, prompt_text, explanation_text, theme, force_anonymous,
+    prompt_date, note, edited_by, edited_by_email
+  )
+  values (
+    new.id::text,
+    coalesce((select max(v.version) from public.daily_prompt_versions v where v.prompt_id = new.id::text), 0) + 1,
+    v_event,
+    new.status,
+    new.prompt_text,
+    new.explanation_text,
+    new.theme,
+    coalesce(new.force_anonymous, false),
+    new.prompt_date::date,
+    case when v_event in ('submitted', 'approved', 'returned') then new.review_note end,
+    new.updated_by,
+    (select u.email from auth.users u where u.id = new.updated_by)
+  );
+
+  return null;
+end;
+$$;
+
+revoke all on function public.record_daily_prompt_version() from public, anon, authenticated;
+
+drop trigger if exists daily_prompts_record_version on public.daily_prompts;
+create trigger daily_prompts_record_version
+  after insert or update on public.daily_prompts
+  for each row execute function public.record_daily_prompt_version();
+
+-- Baseline so every prompt's history starts somewhere.
+insert into public.daily_prompt_versions (
+  prompt_id, version, event, status, prompt_text, explanation_text, theme, force_anonymous, prompt_date
+)
+select
+  d.id::text, 1, 'created', d.status, d.prompt_text, d.explanation_text, d.theme,
+  coalesce(d.force_anonymous, false), d.prompt_date::date
+from public.daily_prompts d
+where not exists (select 1 from public.daily_prompt_versions v where v.prompt_id = d.id::text);
+
+-- =============================================================================
+-- 3) RLS
+-- =============================================================================
+
+-- Drafts and prompts in review never reach the app. submit_post looks prompts up as security
+-- definer, but the app can't learn an unapproved prompt's id.
+drop policy if exists daily_prompts_select_authenticated on public.daily_prompts;
+
+create policy daily_prompts_select_authenticated
+  on public.daily_prompts
+  for select
+  to authenticated
+  using (status = 'approved');
+
+-- =============================================================================
+-- 4) get_upcoming_prompt_approvals
+-- =============================================================================
+
+-- The current cycle date (when it is a posting day) and the next posting day, with the prompt
+-- scheduled on each (prompt columns null when there is none). Callers decide what needs attention.
+create or replace function public.get_upcoming_prompt_approvals()
+returns table (
+  posting_date date,
+  starts_at timestamptz,
+  prompt_id text,
+  prompt_text text,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with today as (
+    select public.cycle_date_at(now()) as d
+  ),
+  dates as (
+    select t.d from today t where public.phase_for_cycle_date(t.d) = 'posting'
+    union
+    select public.next_posting_date(t.d) from today t
+  )
+  select x.d, public.cycle_day_start(x.d), p.id::text, p.prompt_text, p.status
+  from dates x
+  left join public.daily_prompts p on p.prompt_date::date = x.d
+  where x.d is not null
+  order by x.d;
+$$;
+
+revoke all on function public.get_upcoming_prompt_approvals() from public, anon, authenticated;
+grant execute on function public.get_upcoming_prompt_approvals() to service_role;
+
+-- =============================================================================
+-- 5) Admin alerts
+-- =============================================================================
+
+-- One row per posting day and alert stage, claimed before sending so the hourly run pushes each
+-- stage once. stage: day_before (< 24h to go) | final (< 3h) | live (the day started unapproved)
+create table if not exists public.prompt_approval_alerts (
+  posting_date date not null,
+  stage text not null,
+  prompt_id text,
+  prompt_status text, -- null when no prompt was scheduled
+  recipient_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  primary key (posting_date, stage),
+  constraint prompt_approval_alerts_stage_check check (stage in ('day_before', 'final', 'live'))
+);
+
+-- Service role only (edge function); no client policies.
+alter table public.prompt_approval_alerts enable row level security;
+revoke all on public.prompt_approval_alerts from anon, authenticated;
+
+alter table public.push_deliveries drop constraint if exists push_deliveries_source_check;
+alter table public.push_deliveries
+  add constraint push_deliveries_source_check check (source in ('phase', 'activity', 'admin'));
+
+-- Same pattern as call_notification_edge_function (20260112_notification_cron.sql).
+create or replace function public.call_prompt_approval_alerts_edge_function()
+returns void
+language plpgsql
+security definer
+as $$
+declare
+  supabase_url text;
+  service_role_key text;
+  job_id bigint;
+begin
+  select n.supabase_url, n.service_role_key
+  into supabase_url, service_role_key
+  from public.notification_config n
+  where n.id = 'default'
+  limit 1;
+
+  if supabase_url is null or service_role_key is null then
+    raise exception 'Notification config not set (see 20260112_notification_cron.sql).';
+  end if;
+
+  -- Skip the HTTP call when the upcoming prompts are all approved.
+  if not exists (
+    select 1 from public.get_upcoming_prompt_approvals() a where a.status is distinct from 'approved'
+  ) then
+    return;
+  end if;
+
+  select net.http_post(
+    url := supabase_url || '/functions/v1/send-prompt-approval-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) into job_id;
+end;
+$$;
+
+grant execute on function public.call_prompt_approval_alerts_edge_function() to postgres;
+
+do $$
+begin
+  perform cron.unschedule('prompt-approval-alerts-hourly');
+exception when others then
+  -- Job doesn't exist, that's fine
+end $$;
+
+select cron.schedule(
+  'prompt-approval-alerts-hourly',
+  '0 * * * *',
+  $$select public.call_prompt_approval_alerts_edge_function()$$
+);
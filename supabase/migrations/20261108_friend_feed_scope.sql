@@ -0,0 +1,49 @@
+-- Friend feed scoping + anonymous post masking
+-- The feed used to scope itself on the client with author_id in (me, friends...). visible_yim_posts
+-- nulls author_id on other people's anonymous posts, so friends' anonymous posts never matched and
+-- never reached the feed. The view also still returned audience and circle_id for those posts; a
+-- circle belongs to its author, so that gave the author away.
+--
+-- - visible_yim_posts.in_friend_feed: the caller's own posts and their friends' posts, computed on
+--   the real author before it is masked. Feed queries filter on it instead of author_id.
+-- - audience and circle_id are null on other people's anonymous posts, like author_id.
+--
+-- 1) visible_yim_posts
+
+-- =============================================================================
+-- 1) visible_yim_posts
+-- =============================================================================
+
+-- Same visibility rule as 20261102_anonymous_posts.sql; the new column goes last so the view can be
+-- replaced in place.
+create or replace view public.visible_yim_posts as
+select
+  p.id,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.author_id end as author_id,
+  p.quote,
+  p.attribution,
+  p.background,
+  p.font,
+  p.font_color,
+  p.font_size,
+  p.text_highlight,
+  p.photo_background_url,
+  p.expanded_text,
+  p.prompt_id,
+  p.prompt_date,
+  p.created_at,
+  p.edited_at,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.audience end as audience,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.circle_id end as circle_id,
+  p.is_anonymous,
+  (p.author_id = (select auth.uid()) or public.is_friend((select auth.uid()), p.author_id)) as in_friend_feed
+from public.yim_posts p
+where p.author_id = (select auth.uid())
+  or (
+    p.hidden_at is null
+    and p.author_id not in (select public.blocked_user_ids())
+    and (p.audience = 'friends' or p.circle_id in (select public.viewable_circle_ids()))
+  );
+
+revoke all on public.visible_yim_posts from public, anon;
+grant select on public.visible_yim_posts to authenticated;
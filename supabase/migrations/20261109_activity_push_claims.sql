@@ -0,0 +1,147 @@
+-- Activity push queue claims
+-- send-activity-push read pending rows and sent them without claiming them, so two overlapping runs
+-- (a slow run and the next minute's) could push the same rows twice. Rows held for quiet hours also
+-- stayed first in the created_at order, so a night of held rows could fill the whole batch and
+-- starve rows that were ready to go.
+--
+-- - Runs claim rows with claim_activity_push_queue (pending → sending, skip locked), so a row
+--   belongs to one run. A run that dies mid-send leaves rows in sending; they are claimable again
+--   after 10 minutes.
+-- - next_attempt_at: rows the run holds (burst still open, quiet hours) go back to pending with the
+--   time they are due, and only due rows are claimed.
+-- - finish_activity_push_queue records the outcome. Both take id arrays in the request body, so
+--   large batches don't hit URL length limits.
+--
+-- 1) Columns + status
+-- 2) claim / release / finish
+-- 3) Worker invocation checks for due rows
+
+-- =============================================================================
+-- 1) Columns
+-- =============================================================================
+
+alter table public.activity_push_queue
+  add column if not exists next_attempt_at timestamptz not null default now(),
+  add column if not exists claimed_at timestamptz;
+
+-- pending → sending (claimed by a run) → sent | coalesced | skipped, or back to pending when held
+alter table public.activity_push_queue drop constraint if exists activity_push_queue_status_check;
+alter table public.activity_push_queue
+  add constraint activity_push_queue_status_check
+  check (status in ('pending', 'sending', 'sent', 'coalesced', 'skipped'));
+
+create index if not exists activity_push_queue_due_idx
+  on public.activity_push_queue (next_attempt_at)
+  where status = 'pending';
+
+create index if not exists activity_push_queue_sending_idx
+  on public.activity_push_queue (claimed_at)
+  where status = 'sending';
+
+-- =============================================================================
+-- 2) Claims
+-- =============================================================================
+
+-- Due rows, oldest first, marked sending for this run.
+create or replace function public.claim_activity_push_queue(p_limit integer default 500)
+returns setof public.activity_push_queue
+language sql
+security definer
+set search_path = public
+as $$
+  with due as (
+    select q.id
+    from public.activity_push_queue q
+    where (q.status = 'pending' and q.next_attempt_at <= now())
+      or (q.status = 'sending' and q.claimed_at < now() - interval '10 minutes')
+    order by q.created_at
+    limit greatest(p_limit, 0)
+    for update skip locked
+  )
+  update public.activity_push_queue q
+  set status = 'sending', claimed_at = now()
+  from due
+  where q.id = due.id
+  returning q.*;
+$$;
+
+revoke all on function public.claim_activity_push_queue(integer) from public, anon, authenticated;
+grant execute on function public.claim_activity_push_queue(integer) to service_role;
+
+-- Hand claimed rows back: p_next_attempt_at[i] is when p_ids[i] is due again.
+create or replace function public.release_activity_push_queue(p_ids uuid[], p_next_attempt_at timestamptz[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.activity_push_queue q
+  set status = 'pending', claimed_at = null, next_attempt_at = r.next_attempt_at
+  from unnest(p_ids, p_next_attempt_at) as r(id, next_attempt_at)
+  where q.id = r.id
+    and q.status = 'sending';
+$$;
+
+revoke all on function public.release_activity_push_queue(uuid[], timestamptz[]) from public, anon, authenticated;
+grant execute on function public.release_activity_push_queue(uuid[], timestamptz[]) to service_role;
+
+create or replace function public.finish_activity_push_queue(p_ids uuid[], p_status text, p_error text default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.activity_push_queue q
+  set status = p_status, error = p_error, processed_at = now()
+  where q.id = any(p_ids);
+$$;
+
+revoke all on function public.finish_activity_push_queue(uuid[], text, text) from public, anon, authenticated;
+grant execute on function public.finish_activity_push_queue(uuid[], text, text) to service_role;
+
+-- =============================================================================
+-- 3) Worker invocation
+-- =============================================================================
+
+-- Same as 20261026_activity_push.sql, but rows that aren't due yet don't trigger a call.
+create or replace function public.call_activity_push_edge_function()
+returns void
+language plpgsql
+security definer
+as $$
+declare
+  supabase_url text;
+  service_role_key text;
+  job_id bigint;
+begin
+  select n.supabase_url, n.service_role_key
+  into supabase_url, service_role_key
+  from public.notification_config n
+  where n.id = 'default'
+  limit 1;
+
+  if supabase_url is null or service_role_key is null then
+    raise exception 'Notification config not set (see 20260112_notification_cron.sql).';
+  end if;
+
+  -- Skip the HTTP call when there's nothing to send.
+  if not exists (
+    select 1 from public.activity_push_queue
+    where (status = 'pending' and next_attempt_at <= now())
+      or (status = 'sending' and claimed_at < now() - interval '10 minutes')
+  ) then
+    return;
+  end if;
+
+  select net.http_post(
+    url := supabase_url || '/functions/v1/send-activity-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) into job_id;
+end;
+$$;
+
+grant execute on function public.call_activity_push_edge_function() to postgres;
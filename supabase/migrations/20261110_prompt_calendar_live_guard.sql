@@ -0,0 +1,132 @@
+-- Prompt calendar: live prompts stay put
+-- move_daily_prompt and reorder_daily_prompts let any prompt editor move today's live prompt away,
+-- or swap another prompt onto today or a past date. Prompts dated on or before the current cycle
+-- date are live (users may already have answered them), so changing those dates is now limited to
+-- operators, the same rule the dashboard applies to editing a live prompt.
+--
+-- - Both functions take p_allow_live (default false); the dashboard passes true for operators.
+-- - Otherwise a move or reorder that changes a date on or before cycle_date_at(now()), either the
+--   prompt's old date or its new one, raises prompt_live.
+--
+-- 1) move_daily_prompt
+-- 2) reorder_daily_prompts
+--
+-- Dashboard-only (service role); not callable from the app.
+
+-- =============================================================================
+-- 1) move_daily_prompt
+-- =============================================================================
+
+drop function if exists public.move_daily_prompt(text, date);
+
+-- Same as 20261105_prompt_calendar.sql, plus the live check.
+create or replace function public.move_daily_prompt(p_prompt_id text, p_date date, p_allow_live boolean default false)
+returns table (from_date date, swapped_prompt_id text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from_date date;
+  v_other_id text;
+begin
+  if p_date is null then
+    raise exception 'invalid_date' using detail = 'Pick a date.';
+  end if;
+
+  select d.prompt_date into v_from_date
+  from public.daily_prompts d
+  where d.id::text = p_prompt_id
+  for update;
+
+  if not found then
+    raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+  end if;
+
+  if v_from_date = p_date then
+    return query select v_from_date, null::text;
+    return;
+  end if;
+
+  -- Covers the swapped prompt too: it moves from p_date to v_from_date.
+  if not p_allow_live and least(v_from_date, p_date) <= public.cycle_date_at(now()) then
+    raise exception 'prompt_live' using detail = 'Today''s and past prompts are live. Only operators can move them.';
+  end if;
+
+  select d.id::text into v_other_id
+  from public.daily_prompts d
+  where d.prompt_date = p_date
+  for update;
+
+  update public.daily_prompts d
+  set prompt_date = case when d.id::text = p_prompt_id then p_date else v_from_date end
+  where d.id::text = p_prompt_id
+     or d.id::text = v_other_id;
+
+  update public.daily_prompts d
+  set display_order = r.position
+  from (
+    select x.id, row_number() over (order by x.prompt_date, x.id::text)::integer as position
+    from public.daily_prompts x
+  ) r
+  where d.id = r.id
+    and d.display_order is distinct from r.position;
+
+  return query select v_from_date, v_other_id;
+end;
+$$;
+
+revoke all on function public.move_daily_prompt(text, date, boolean) from public, anon, authenticated;
+grant execute on function public.move_daily_prompt(text, date, boolean) to service_role;
+
+-- =============================================================================
+-- 2) reorder_daily_prompts
+-- =============================================================================
+
+drop function if exists public.reorder_daily_prompts(text[]);
+
+-- Same as 20261105_prompt_calendar.sql, plus the live check. Live prompts may be in the list as
+-- long as the reorder leaves their dates alone.
+create or replace function public.reorder_daily_prompts(p_prompt_ids text[], p_allow_live boolean default false)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start_date date;
+  v_today date := public.cycle_date_at(now());
+begin
+  if coalesce(array_length(p_prompt_ids, 1), 0) = 0 then
+    return;
+  end if;
+
+  perform 1
+  from public.daily_prompts d
+  where d.id::text = any (p_prompt_ids)
+  for update;
+
+  select coalesce(min(d.prompt_date), (now() at time zone 'utc')::date + 1) into v_start_date
+  from public.daily_prompts d
+  where d.id::text = any (p_prompt_ids);
+
+  if not p_allow_live and exists (
+    select 1
+    from unnest(p_prompt_ids) with ordinality as o(prompt_id, position)
+    join public.daily_prompts d on d.id::text = o.prompt_id
+    where d.prompt_date is distinct from v_start_date + (o.position::integer - 1)
+      and least(d.prompt_date, v_start_date + (o.position::integer - 1)) <= v_today
+  ) then
+    raise exception 'prompt_live' using detail = 'Today''s and past prompts are live. Only operators can move them.';
+  end if;
+
+  update public.daily_prompts d
+  set display_order = o.position::integer,
+      prompt_date = v_start_date + (o.position::integer - 1)
+  from unnest(p_prompt_ids) with ordinality as o(prompt_id, position)
+  where d.id::text = o.prompt_id;
+end;
+$$;
+
+revoke all on function public.reorder_daily_prompts(text[], boolean) from public, anon, authenticated;
+grant execute on function public.reorder_daily_prompts(text[], boolean) to service_role;
@@ -0,0 +1,62 @@
+-- Prompt bank import in one transaction (dashboard)
+-- The dashboard's importPrompts inserted the new prompts in one request and then updated existing
+-- prompts one request at a time. A failure partway through left the import half applied, and the
+-- audit entry (written after the last request) was never recorded. import_daily_prompts applies
+-- the whole plan in one transaction, like reorder_daily_prompts: all of it or none of it.
+--
+-- - p_creates: [{ prompt_text, explanation_text, theme, prompt_date, display_order }]
+-- - p_updates: [{ id, fields: { prompt_text?, explanation_text?, theme?, prompt_date? } }], where
+--   only the keys present change (a null value clears the field)
+-- - Raises prompt_not_found (and applies nothing) if a prompt to update was deleted meanwhile.
+--
+-- Dashboard-only (service role); not callable from the app.
+
+create or replace function public.import_daily_prompts(
+  p_creates jsonb,
+  p_updates jsonb,
+  p_updated_by uuid default null
+)
+returns table (created integer, updated integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_created integer;
+  v_updated integer;
+begin
+  insert into public.daily_prompts (prompt_text, explanation_text, theme, prompt_date, display_order, updated_by)
+  select c.prompt_text, c.explanation_text, c.theme, c.prompt_date, c.display_order, p_updated_by
+  from jsonb_to_recordset(coalesce(p_creates, '[]'::jsonb)) as c(
+    prompt_text text,
+    explanation_text text,
+    theme text,
+    prompt_date date,
+    display_order integer
+  );
+  get diagnostics v_created = row_count;
+
+  update public.daily_prompts d
+  set prompt_text = case when u.fields ? 'prompt_text' then u.fields ->> 'prompt_text' else d.prompt_text end,
+      explanation_text = case when u.fields ? 'explanation_text' then u.fields ->> 'explanation_text' else d.explanation_text end,
+      theme = case when u.fields ? 'theme' then u.fields ->> 'theme' else d.theme end,
+      prompt_date = coalesce((u.fields ->> 'prompt_date')::date, d.prompt_date::date),
+      updated_by = p_updated_by
+  from (
+    select e ->> 'id' as id, coalesce(e -> 'fields', '{}'::jsonb) as fields
+    from jsonb_array_elements(coalesce(p_updates, '[]'::jsonb)) as e
+  ) u
+  where d.id::text = u.id;
+  get diagnostics v_updated = row_count;
+
+  if v_updated < jsonb_array_length(coalesce(p_updates, '[]'::jsonb)) then
+    raise exception 'prompt_not_found'
+      using detail = 'A prompt in the file was deleted during the import. Nothing was imported; preview again.';
+  end if;
+
+  return query select v_created, v_updated;
+end;
+$$;
+
+revoke all on function public.import_daily_prompts(jsonb, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.import_daily_prompts(jsonb, jsonb, uuid) to service_role;
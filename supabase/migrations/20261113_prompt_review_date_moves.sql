@@ -0,0 +1,39 @@
+-- Prompt review: content edits that also move a prompt
+-- daily_prompts_review_guard only looked at the prompt's new date, so an edit that changed an
+-- upcoming approved prompt's content and moved it onto today (or a past date) in the same update
+-- kept its approval: unreviewed content went live. A content edit now keeps the status only when
+-- the prompt is live both before and after the update; the dashboard limits those to operators.
+--
+-- Dashboard-side counterpart: updatePrompt / importPrompts check both dates too.
+
+-- Same as 20261107_prompt_review.sql, but checks the old date as well as the new one.
+create or replace function public.daily_prompts_review_guard()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.status = old.status
+    and new.status <> 'draft'
+    and (
+      new.prompt_text is distinct from old.prompt_text
+      or new.explanation_text is distinct from old.explanation_text
+      or new.theme is distinct from old.theme
+      or new.force_anonymous is distinct from old.force_anonymous
+    )
+    and greatest(old.prompt_date::date, new.prompt_date::date) > public.cycle_date_at(now())
+  then
+    new.status := 'draft';
+  end if;
+
+  if new.status <> 'approved' then
+    new.approved_by := null;
+    new.approved_at := null;
+  elsif tg_op = 'INSERT' or old.status <> 'approved' then
+    new.approved_at := coalesce(new.approved_at, now());
+  end if;
+
+  return new;
+end;
+$$;
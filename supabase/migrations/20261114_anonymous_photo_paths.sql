@@ -0,0 +1,53 @@
+-- Anonymous posts: photo paths
+-- Post photos were uploaded to post-photos/<author id>/<timestamp>.jpg, and visible_yim_posts
+-- returned photo_background_url unchanged, so the path of an anonymous photo post gave its author
+-- away to anyone who could see the post.
+--
+-- - The app now uploads anonymous posts' photos to post-photos/anon/<uuid>.jpg.
+-- - Older paths (and any that still contain the author's id) are null on other people's anonymous
+--   posts; those posts show their plain background instead of the photo.
+--
+-- 1) visible_yim_posts
+
+-- =============================================================================
+-- 1) visible_yim_posts
+-- =============================================================================
+
+-- Same as 20261108_friend_feed_scope.sql apart from photo_background_url.
+create or replace view public.visible_yim_posts as
+select
+  p.id,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.author_id end as author_id,
+  p.quote,
+  p.attribution,
+  p.background,
+  p.font,
+  p.font_color,
+  p.font_size,
+  p.text_highlight,
+  case
+    when p.is_anonymous
+      and p.author_id is distinct from (select auth.uid())
+      and strpos(p.photo_background_url, p.author_id::text) > 0
+    then null
+    else p.photo_background_url
+  end as photo_background_url,
+  p.expanded_text,
+  p.prompt_id,
+  p.prompt_date,
+  p.created_at,
+  p.edited_at,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.audience end as audience,
+  case when p.is_anonymous and p.author_id is distinct from (select auth.uid()) then null else p.circle_id end as circle_id,
+  p.is_anonymous,
+  (p.author_id = (select auth.uid()) or public.is_friend((select auth.uid()), p.author_id)) as in_friend_feed
+from public.yim_posts p
+where p.author_id = (select auth.uid())
+  or (
+    p.hidden_at is null
+    and p.author_id not in (select public.blocked_user_ids())
+    and (p.audience = 'friends' or p.circle_id in (select public.viewable_circle_ids()))
+  );
+
+revoke all on public.visible_yim_posts from public, anon;
+grant select on public.visible_yim_posts to authenticated;
@@ -0,0 +1,32 @@
+-- One post per prompt, enforced by the database
+-- submit_post checks exists() before inserting and maps unique_violation to already_posted, but no
+-- unique index backed that up: two concurrent submits (the outbox sending while the user retries by
+-- hand) both passed the check and both inserted. With the index below, the loser of that race gets
+-- unique_violation, which submit_post already reports as already_posted.
+--
+-- 1) Remove existing duplicates (keep each author's first post for a prompt)
+-- 2) Unique index
+
+-- =============================================================================
+-- 1) Duplicates
+-- =============================================================================
+
+-- Likes, comments, saves, revisions and reports on the removed copies cascade with them.
+delete from public.yim_posts p
+using (
+  select
+    y.id,
+    row_number() over (partition by y.author_id, y.prompt_id order by y.created_at, y.id) as rn
+  from public.yim_posts y
+  where y.prompt_id is not null
+) d
+where p.id = d.id
+  and d.rn > 1;
+
+-- =============================================================================
+-- 2) Index
+-- =============================================================================
+
+create unique index if not exists yim_posts_author_prompt_key
+  on public.yim_posts (author_id, prompt_id)
+  where prompt_id is not null;
@@ -0,0 +1,67 @@
+-- Prompt deletes: one transaction, live prompts stay put
+-- The dashboard deleted a prompt and then shifted every later prompt back a day (and a queue
+-- position) one request at a time. Any prompt editor could delete today's prompt, which pulled
+-- tomorrow's (possibly unapproved) prompt onto the live date, and a failure part way left the
+-- calendar half shifted after the delete had already gone through.
+--
+-- - delete_daily_prompt deletes and shifts in one transaction.
+-- - Same rule as 20261110_prompt_calendar_live_guard.sql: unless p_allow_live (operators), deleting
+--   a prompt dated on or before cycle_date_at(now()), or shifting another prompt onto or off such a
+--   date, raises prompt_live.
+-- - Returns the deleted row's text, date and position for the audit log.
+--
+-- Dashboard-only (service role); not callable from the app.
+
+create or replace function public.delete_daily_prompt(p_prompt_id text, p_allow_live boolean default false)
+returns table (deleted_text text, deleted_date date, deleted_order integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prompt public.daily_prompts;
+  v_today date := public.cycle_date_at(now());
+begin
+  select * into v_prompt
+  from public.daily_prompts d
+  where d.id::text = p_prompt_id
+  for update;
+
+  if not found then
+    raise exception 'prompt_not_found' using detail = 'That prompt no longer exists.';
+  end if;
+
+  -- Covers the prompts shifted back a day too.
+  if not p_allow_live and (
+    v_prompt.prompt_date::date <= v_today
+    or (
+      v_prompt.display_order is not null
+      and v_prompt.prompt_date is not null
+      and exists (
+        select 1
+        from public.daily_prompts d
+        where d.display_order > v_prompt.display_order
+          and d.prompt_date::date - 1 <= v_today
+      )
+    )
+  ) then
+    raise exception 'prompt_live' using detail = 'Today''s and past prompts are live. Only operators can delete them.';
+  end if;
+
+  delete from public.daily_prompts d where d.id = v_prompt.id;
+
+  -- Later prompts move up a position and back a day (same shift the dashboard used to do).
+  if v_prompt.display_order is not null and v_prompt.prompt_date is not null then
+    update public.daily_prompts d
+    set display_order = d.display_order - 1,
+        prompt_date = d.prompt_date::date - 1
+    where d.display_order > v_prompt.display_order
+      and d.prompt_date is not null;
+  end if;
+
+  return query select v_prompt.prompt_text, v_prompt.prompt_date::date, v_prompt.display_order;
+end;
+$$;
+
+revoke all on function public.delete_daily_prompt(text, boolean) from public, anon, authenticated;
+grant execute on function public.delete_daily_prompt(text, boolean) to service_role;
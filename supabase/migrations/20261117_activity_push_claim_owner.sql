@@ -0,0 +1,63 @@
+-- Activity push queue: only the claiming run finishes its rows
+-- finish_activity_push_queue updated rows whatever their state, so a run that outlived the
+-- 10-minute reclaim window could overwrite the outcome a newer run had already written for the same
+-- rows (sent or skipped twice, coalesced undone). release_activity_push_queue checked for sending,
+-- but not whose claim it was.
+--
+-- - Both now take p_claimed_at, the claimed_at the run got back from claim_activity_push_queue
+--   (one value per claim: it is the claiming transaction's now()), and only touch rows still in
+--   sending under that claim.
+--
+-- 1) release / finish
+--
+-- Service role only (send-activity-push).
+
+-- =============================================================================
+-- 1) release / finish
+-- =============================================================================
+
+drop function if exists public.release_activity_push_queue(uuid[], timestamptz[]);
+drop function if exists public.finish_activity_push_queue(uuid[], text, text);
+
+-- Same as 20261109_activity_push_claims.sql, limited to this run's claim.
+create or replace function public.release_activity_push_queue(
+  p_ids uuid[],
+  p_next_attempt_at timestamptz[],
+  p_claimed_at timestamptz
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.activity_push_queue q
+  set status = 'pending', claimed_at = null, next_attempt_at = r.next_attempt_at
+  from unnest(p_ids, p_next_attempt_at) as r(id, next_attempt_at)
+  where q.id = r.id
+    and q.status = 'sending'
+    and q.claimed_at = p_claimed_at;
+$$;
+
+revoke all on function public.release_activity_push_queue(uuid[], timestamptz[], timestamptz) from public, anon, authenticated;
+grant execute on function public.release_activity_push_queue(uuid[], timestamptz[], timestamptz) to service_role;
+
+create or replace function public.finish_activity_push_queue(
+  p_ids uuid[],
+  p_claimed_at timestamptz,
+  p_status text,
+  p_error text default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.activity_push_queue q
+  set status = p_status, error = p_error, processed_at = now()
+  where q.id = any(p_ids)
+    and q.status = 'sending'
+    and q.claimed_at = p_claimed_at;
+$$;
+
+revoke all on function public.finish_activity_push_queue(uuid[], timestamptz, text, text) from public, anon, authenticated;
+grant execute on function public.finish_activity_push_queue(uuid[], timestamptz, text, text) to service_role;